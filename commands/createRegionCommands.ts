@@ -1,14 +1,24 @@
-import { App, TFile, Workspace, Notice, Modal } from 'obsidian';
+import { App, TFile, Workspace, Notice, Modal, getAllTags } from 'obsidian';
 import { RegionService } from '../services/regionService';
 import { NoteService } from '../services/noteService';
 import { OpenAIService } from '../services/openAIService';
 import { LocalAIService } from '../services/localAIService';
-import { EmbeddingService } from '../services/embeddingService';
-import { Region } from '../models/region';
+import { EmbeddingService, SimilarNoteResult } from '../services/embeddingService';
+import { NoteVectors } from '../services/embeddingStorageService';
+import { isEmbeddingConfigured } from '../services/embeddingProviders';
+import { Region, MatchedPassage, ConceptProcessingInfo, HybridFusionOptions, HybridNoteScore, SemanticSimilarityMode, ExemplarSet, describeSeedNotes, combineRegionNotes } from '../models/region';
+import { SearchQueryNode, SearchableNote, parseSearchQuery, tryParseSearchQuery, searchQueryNeedsText, matchesSearchQuery } from '../services/searchQuery';
+import { SearchIndexService } from '../services/searchIndexService';
+import { HybridSearchService } from '../services/hybridSearchService';
+import { RegionDiscoveryService, DiscoveryResult, DiscoveredCluster, nameFromKeywords } from '../services/regionDiscoveryService';
 import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
 import { SimplePromptModal } from '../ui/simplePromptModal';
 import { ColorPickerModal } from '../ui/colorPickerModal';
 import { ConceptInputModal, ConceptScope } from '../ui/conceptInputModal';
+import { ExemplarInputModal, ExemplarInputResult } from '../ui/exemplarInputModal';
+import { DiscoverRegionsModal, RegionProposal } from '../ui/discoverRegionsModal';
+import { CombineRegionsModal, CombineRegionsResult } from '../ui/combineRegionsModal';
+import { MergeRegionsModal, MergeRegionsResult } from '../ui/mergeRegionsModal';
 
 export class CreateRegionCommands {
 	private app: App;
@@ -17,6 +27,9 @@ export class CreateRegionCommands {
 	private openAIService: OpenAIService;
 	private localAIService: LocalAIService;
 	private embeddingService: EmbeddingService;
+	private searchIndex: SearchIndexService;
+	private hybridSearch: HybridSearchService;
+	private regionDiscovery: RegionDiscoveryService;
 	private settings: ThoughtlandsSettings;
 	private plugin: any; // Plugin instance to update status
 
@@ -27,6 +40,9 @@ export class CreateRegionCommands {
 		openAIService: OpenAIService,
 		localAIService: LocalAIService,
 		embeddingService: EmbeddingService,
+		searchIndex: SearchIndexService,
+		hybridSearch: HybridSearchService,
+		regionDiscovery: RegionDiscoveryService,
 		settings: ThoughtlandsSettings,
 		plugin: any
 	) {
@@ -36,6 +52,9 @@ export class CreateRegionCommands {
 		this.openAIService = openAIService;
 		this.localAIService = localAIService;
 		this.embeddingService = embeddingService;
+		this.searchIndex = searchIndex;
+		this.hybridSearch = hybridSearch;
+		this.regionDiscovery = regionDiscovery;
 		this.settings = settings;
 		this.plugin = plugin;
 	}
@@ -46,9 +65,10 @@ export class CreateRegionCommands {
 
 	async createRegionFromSearch(): Promise<void> {
 		// Prompt for search terms and color
-		const searchResult = await new Promise<{ searchTerms: string; color: string } | null>((resolve) => {
+		const searchResult = await new Promise<{ searchTerms: string; query: SearchQueryNode; color: string } | null>((resolve) => {
 			class SearchTermsColorModal extends Modal {
 				private searchInput: HTMLInputElement;
+				private queryError: HTMLElement;
 				private selectedColor: string;
 				private defaultColors: string[];
 
@@ -78,6 +98,7 @@ export class CreateRegionCommands {
 						},
 					});
 
+					this.queryError = renderSearchQueryHelp(contentEl, this.searchInput);
 					this.searchInput.focus();
 
 					// Color selection
@@ -152,25 +173,11 @@ export class CreateRegionCommands {
 					});
 
 					const submitButton = buttonContainer.createEl('button', { text: 'OK', attr: { style: 'margin-left: 10px;' } });
-					submitButton.addEventListener('click', () => {
-						const text = this.searchInput.value.trim();
-						if (text) {
-							resolve({ searchTerms: text, color: this.selectedColor });
-						} else {
-							resolve(null);
-						}
-						this.close();
-					});
+					submitButton.addEventListener('click', () => this.submit());
 
 					this.searchInput.addEventListener('keydown', (e) => {
 						if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
-							const text = this.searchInput.value.trim();
-							if (text) {
-								resolve({ searchTerms: text, color: this.selectedColor });
-							} else {
-								resolve(null);
-							}
-							this.close();
+							this.submit();
 						}
 						if (e.key === 'Escape') {
 							this.close();
@@ -179,6 +186,23 @@ export class CreateRegionCommands {
 					});
 				}
 
+				// Queries that don't parse keep the modal open with the error shown under the input
+				private submit() {
+					const text = this.searchInput.value.trim();
+					if (!text) {
+						resolve(null);
+						this.close();
+						return;
+					}
+					const parsed = showSearchQueryError(this.queryError, text);
+					if (!parsed) {
+						this.searchInput.focus();
+						return;
+					}
+					resolve({ searchTerms: text, query: parsed, color: this.selectedColor });
+					this.close();
+				}
+
 				onClose() {
 					const { contentEl } = this;
 					contentEl.empty();
@@ -198,10 +222,11 @@ export class CreateRegionCommands {
 		}
 
 		const searchTerms = searchResult.searchTerms;
+		const parsedQuery = searchResult.query;
 		const color = searchResult.color;
 
 		// Search for files matching the terms
-		const searchResults = await this.searchFiles(searchTerms);
+		const searchResults = await this.searchFiles(parsedQuery);
 		const searchQuery = searchTerms;
 		
 		console.log('[Thoughtlands] ===== CREATE REGION FROM SEARCH =====');
@@ -252,6 +277,7 @@ export class CreateRegionCommands {
 			{
 				type: 'search',
 				query: searchQuery || '',
+				parsedQuery,
 			},
 			notePaths
 		);
@@ -272,16 +298,19 @@ export class CreateRegionCommands {
 	}
 
 	async createRegionFromSearchWithAIAnalysis(): Promise<void> {
-		// Check if local model is active
-		if (this.settings.aiMode !== 'local') {
-			new Notice('AI Analysis is only available when local AI mode is enabled.');
+		// Check if an embedding provider is configured
+		if (!isEmbeddingConfigured(this.settings)) {
+			new Notice('AI Analysis requires an embedding provider. Configure one in the plugin settings.');
 			return;
 		}
 
-		// Prompt for search terms, color, and threshold
-		const searchResult = await new Promise<{ searchTerms: string; color: string; threshold: number } | null>((resolve) => {
+		// Prompt for search terms, color, threshold and ranking
+		const defaultFusion: HybridFusionOptions = { method: this.settings.hybridFusion, lexicalWeight: this.settings.hybridLexicalWeight };
+		const searchResult = await new Promise<{ searchTerms: string; query: SearchQueryNode; color: string; threshold: number; fusion: HybridFusionOptions } | null>((resolve) => {
 			class SearchTermsColorModal extends Modal {
 				private searchInput: HTMLInputElement;
+				private queryError: HTMLElement;
+				private fusion: HybridFusionOptions = { ...defaultFusion };
 				private selectedColor: string;
 				private defaultColors: string[];
 				private thresholdInput: HTMLInputElement;
@@ -314,6 +343,7 @@ export class CreateRegionCommands {
 						},
 					});
 
+					this.queryError = renderSearchQueryHelp(contentEl, this.searchInput);
 					this.searchInput.focus();
 
 					// Color selection
@@ -421,6 +451,39 @@ export class CreateRegionCommands {
 						attr: { style: 'font-size: 0.85em; color: var(--text-muted); margin-top: 5px;' }
 					});
 
+					// Ranking: how keyword and embedding scores are combined
+					const rankingSection = contentEl.createDiv({ attr: { style: 'margin: 15px 0;' } });
+					rankingSection.createEl('label', {
+						text: 'Ranking:',
+						attr: { style: 'display: block; margin-bottom: 5px; font-weight: 500;' }
+					});
+					const fusionSelect = rankingSection.createEl('select', { attr: { style: 'width: 100%; margin-bottom: 8px;' } });
+					fusionSelect.createEl('option', { text: 'Reciprocal rank fusion (keywords + embeddings)', value: 'rrf' });
+					fusionSelect.createEl('option', { text: 'Weighted sum', value: 'weighted' });
+					fusionSelect.value = this.fusion.method;
+
+					const weightContainer = rankingSection.createDiv({ attr: { style: 'display: flex; align-items: center; gap: 10px;' } });
+					weightContainer.createEl('span', { text: 'Embeddings', attr: { style: 'font-size: 0.85em; color: var(--text-muted);' } });
+					const weightInput = weightContainer.createEl('input', {
+						type: 'range',
+						attr: { style: 'flex: 1;', min: '0', max: '1', step: '0.05', value: String(this.fusion.lexicalWeight) }
+					});
+					weightContainer.createEl('span', { text: 'Keywords', attr: { style: 'font-size: 0.85em; color: var(--text-muted);' } });
+					const weightDisplay = weightContainer.createEl('span', {
+						text: this.fusion.lexicalWeight.toFixed(2),
+						attr: { style: 'min-width: 45px; text-align: right; font-weight: 500;' }
+					});
+					weightContainer.style.display = this.fusion.method === 'weighted' ? 'flex' : 'none';
+
+					fusionSelect.addEventListener('change', () => {
+						this.fusion.method = fusionSelect.value as HybridFusionOptions['method'];
+						weightContainer.style.display = this.fusion.method === 'weighted' ? 'flex' : 'none';
+					});
+					weightInput.addEventListener('input', () => {
+						this.fusion.lexicalWeight = parseFloat(weightInput.value);
+						weightDisplay.textContent = this.fusion.lexicalWeight.toFixed(2);
+					});
+
 					const buttonContainer = contentEl.createDiv({ attr: { style: 'text-align: right; margin-top: 20px;' } });
 					
 					const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
@@ -430,27 +493,11 @@ export class CreateRegionCommands {
 					});
 
 					const submitButton = buttonContainer.createEl('button', { text: 'OK', attr: { style: 'margin-left: 10px;' } });
-					submitButton.addEventListener('click', () => {
-						const text = this.searchInput.value.trim();
-						const threshold = parseFloat(this.thresholdInput.value);
-						if (text && !isNaN(threshold)) {
-							resolve({ searchTerms: text, color: this.selectedColor, threshold });
-						} else {
-							resolve(null);
-						}
-						this.close();
-					});
+					submitButton.addEventListener('click', () => this.submit());
 
 					this.searchInput.addEventListener('keydown', (e) => {
 						if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
-							const text = this.searchInput.value.trim();
-							const threshold = parseFloat(this.thresholdInput.value);
-							if (text && !isNaN(threshold)) {
-								resolve({ searchTerms: text, color: this.selectedColor, threshold });
-							} else {
-								resolve(null);
-							}
-							this.close();
+							this.submit();
 						}
 						if (e.key === 'Escape') {
 							this.close();
@@ -459,6 +506,24 @@ export class CreateRegionCommands {
 					});
 				}
 
+				// Queries that don't parse keep the modal open with the error shown under the input
+				private submit() {
+					const text = this.searchInput.value.trim();
+					const threshold = parseFloat(this.thresholdInput.value);
+					if (!text || isNaN(threshold)) {
+						resolve(null);
+						this.close();
+						return;
+					}
+					const parsed = showSearchQueryError(this.queryError, text);
+					if (!parsed) {
+						this.searchInput.focus();
+						return;
+					}
+					resolve({ searchTerms: text, query: parsed, color: this.selectedColor, threshold, fusion: this.fusion });
+					this.close();
+				}
+
 				onClose() {
 					const { contentEl } = this;
 					contentEl.empty();
@@ -479,11 +544,12 @@ export class CreateRegionCommands {
 		}
 
 		const searchTerms = searchResult.searchTerms;
+		const parsedQuery = searchResult.query;
 		const color = searchResult.color;
 		const threshold = searchResult.threshold;
 
 		// Search for files matching the terms
-		const searchResults = await this.searchFiles(searchTerms);
+		const searchResults = await this.searchFiles(parsedQuery);
 		const searchQuery = searchTerms;
 		
 		if (searchResults.length === 0) {
@@ -503,96 +569,26 @@ export class CreateRegionCommands {
 			return;
 		}
 
-		// Track processing info
-		const processingInfo: any = {
-			searchResultsCount: filteredResults.length,
-		};
-
 		// Update status
 		if (this.plugin?.updateRegionCreationStatus) {
 			this.plugin.updateRegionCreationStatus({
 				isCreating: true,
 				step: 'Analyzing search results with AI...',
-				details: `Computing embeddings for ${filteredResults.length} search results`
+				details: `Ranking ${filteredResults.length} search results and their semantic neighbours by keywords and embeddings`
 			});
 		}
 
 		new Notice('Analyzing search results with AI embeddings...');
 
-		// Get embeddings for search results
-		const searchResultEmbeddings: number[][] = [];
-		const filesWithEmbeddings: TFile[] = [];
-		
-		const storageService = this.embeddingService.getStorageService();
-		for (const file of filteredResults) {
-			const embedding = await storageService.getEmbedding(file);
-			if (embedding) {
-				searchResultEmbeddings.push(embedding);
-				filesWithEmbeddings.push(file);
-			}
-		}
-
-		processingInfo.searchResultsWithEmbeddings = filesWithEmbeddings.length;
-
-		if (searchResultEmbeddings.length === 0) {
+		const ranking = await this.rankSearchResults(parsedQuery, filteredResults, threshold, searchResult.fusion);
+		if (!ranking) {
 			new Notice('No embeddings found for search results. Please generate embeddings first.');
 			if (this.plugin?.updateRegionCreationStatus) {
 				this.plugin.updateRegionCreationStatus({ isCreating: false });
 			}
 			return;
 		}
-
-		// Calculate centroid from search result embeddings
-		const centroid = this.embeddingService.calculateCentroid(searchResultEmbeddings);
-		
-		if (centroid.length === 0) {
-			new Notice('Failed to calculate centroid from search results.');
-			if (this.plugin?.updateRegionCreationStatus) {
-				this.plugin.updateRegionCreationStatus({ isCreating: false });
-			}
-			return;
-		}
-
-		// Update status
-		if (this.plugin?.updateRegionCreationStatus) {
-			this.plugin.updateRegionCreationStatus({
-				isCreating: true,
-				step: 'Finding similar notes...',
-				details: `Searching for notes similar to ${filesWithEmbeddings.length} search results`
-			});
-		}
-
-		// Find similar notes using embedding analysis
-		// Get all markdown files as candidates (excluding search results)
-		const allMarkdownFiles = this.app.vault.getMarkdownFiles();
-		const candidateFiles = allMarkdownFiles.filter(f => 
-			!filteredResults.some(sr => sr.path === f.path)
-		);
-
-		// Filter candidates by settings
-		const filteredCandidates = this.regionService.filterNotesByIgnores(
-			candidateFiles,
-			this.app.metadataCache,
-			this.noteService
-		);
-
-		const similarNotes = await this.embeddingService.findSimilarNotes(
-			centroid,
-			filteredCandidates,
-			filteredResults,
-			50 // Max 50 additional similar notes
-		);
-
-		processingInfo.similarNotesFound = similarNotes.length;
-		processingInfo.similarityThreshold = this.settings.embeddingSimilarityThreshold;
-
-		// Combine search results with all similar notes (grid layout only)
-		const allNotes: TFile[] = [...filteredResults];
-		for (const { file } of similarNotes) {
-			if (!allNotes.some(n => n.path === file.path)) {
-				allNotes.push(file);
-			}
-		}
+		const { allNotes, additionalCount, processingInfo } = ranking;
 
 		if (allNotes.length === 0) {
 			new Notice('No notes found after AI analysis.');
@@ -612,7 +608,9 @@ export class CreateRegionCommands {
 		}
 		new Notice('Generating region name...');
 		console.log('[Thoughtlands] Generating region name for search query:', searchQuery);
-		const nameResponse = await this.localAIService.generateRegionNameFromConcept(searchQuery || 'search results');
+		const nameResponse = this.settings.aiMode === 'local'
+			? await this.localAIService.generateRegionNameFromConcept(searchQuery || 'search results')
+			: await this.openAIService.generateRegionNameFromConcept(searchQuery || 'search results');
 		
 		let suggestedName = '';
 		if (nameResponse.success && nameResponse.name) {
@@ -641,6 +639,7 @@ export class CreateRegionCommands {
 			{
 				type: 'search',
 				query: searchQuery || '',
+				parsedQuery,
 				processingInfo: processingInfo,
 			},
 			notePaths
@@ -648,7 +647,7 @@ export class CreateRegionCommands {
 
 		// Save the threshold used for this region
 		this.regionService.updateRegion(region.id, {
-			similarityThreshold: this.settings.embeddingSimilarityThreshold
+			similarityThreshold: threshold
 		});
 
 		// Trigger save and UI update
@@ -660,14 +659,13 @@ export class CreateRegionCommands {
 			this.plugin.updateRegionCreationStatus({ isCreating: false });
 		}
 
-		const additionalCount = similarNotes.length;
 		new Notice(`Region "${name}" created with ${notePaths.length} notes (${filteredResults.length} from search + ${additionalCount} from AI analysis).`);
 	}
 
 	async createRegionFromSemanticSimilarity(): Promise<void> {
-		// Check if local model is active
-		if (this.settings.aiMode !== 'local') {
-			new Notice('Semantic Similarity Analysis is only available when local AI mode is enabled.');
+		// Check if an embedding provider is configured
+		if (!isEmbeddingConfigured(this.settings)) {
+			new Notice('Semantic Similarity Analysis requires an embedding provider. Configure one in the plugin settings.');
 			return;
 		}
 
@@ -909,24 +907,17 @@ export class CreateRegionCommands {
 			this.noteService
 		);
 
-		// Temporarily update threshold for this search
 		const thresholdToUse = threshold ?? this.settings.embeddingSimilarityThreshold;
-		const originalThreshold = this.settings.embeddingSimilarityThreshold;
-		this.settings.embeddingSimilarityThreshold = thresholdToUse;
-		this.embeddingService.updateSettings(this.settings);
 
 		// Find similar notes using embedding analysis
 		const similarNotes = await this.embeddingService.findSimilarNotes(
 			conceptEmbedding,
 			filteredCandidates,
 			[], // No exclusions
-			100 // Max 100 similar notes
+			100, // Max 100 similar notes
+			thresholdToUse
 		);
 
-		// Restore original threshold
-		this.settings.embeddingSimilarityThreshold = originalThreshold;
-		this.embeddingService.updateSettings(this.settings);
-
 		if (similarNotes.length === 0) {
 			new Notice('No semantically similar notes found.');
 			if (this.plugin?.updateRegionCreationStatus) {
@@ -936,21 +927,22 @@ export class CreateRegionCommands {
 		}
 
 		// Apply different algorithms based on mode
-		let finalFiles: TFile[] = [];
+		let finalResults: SimilarNoteResult[] = [];
 		
 		if (semanticMode === 'walkabout') {
 			// Walkabout: Use all similar notes (current behavior)
-			finalFiles = similarNotes.map(({ file }) => file);
+			finalResults = similarNotes;
 		} else if (semanticMode === 'hopscotch') {
 			// Hopscotch: Create a path starting with concept, then most similar, then most similar to that, etc.
-			finalFiles = await this.createHopscotchPath(conceptEmbedding, similarNotes, filteredCandidates);
+			finalResults = await this.createHopscotchPath(conceptEmbedding, similarNotes, filteredCandidates, thresholdToUse);
 		} else if (semanticMode === 'rolling-path') {
 			// Rolling Path: Aggregate all notes at each step, find most similar to aggregation
-			finalFiles = await this.createRollingPath(conceptEmbedding, similarNotes, filteredCandidates);
+			finalResults = await this.createRollingPath(conceptEmbedding, similarNotes, filteredCandidates, thresholdToUse);
 		} else if (semanticMode === 'crowd') {
 			// Crowd: All related notes in no particular order (same as walkabout, just different arrangement)
-			finalFiles = similarNotes.map(({ file }) => file);
+			finalResults = similarNotes;
 		}
+		const finalFiles = finalResults.map(({ file }) => file);
 
 		if (finalFiles.length === 0) {
 			new Notice('No notes found for the selected output mode.');
@@ -967,6 +959,7 @@ export class CreateRegionCommands {
 			finalNotesCount: finalFiles.length,
 			similarityThreshold: threshold,
 			semanticSimilarityMode: semanticMode,
+			matchedPassages: this.buildMatchedPassages(finalResults),
 		};
 
 		// Get the files from final selection
@@ -982,7 +975,9 @@ export class CreateRegionCommands {
 		}
 		new Notice('Generating region name...');
 		console.log('[Thoughtlands] Generating region name for concept:', conceptText);
-		const nameResponse = await this.localAIService.generateRegionNameFromConcept(conceptText);
+		const nameResponse = this.settings.aiMode === 'local'
+			? await this.localAIService.generateRegionNameFromConcept(conceptText)
+			: await this.openAIService.generateRegionNameFromConcept(conceptText);
 		
 		let suggestedName = '';
 		if (nameResponse.success && nameResponse.name) {
@@ -1030,7 +1025,7 @@ export class CreateRegionCommands {
 			{
 				type: 'concept',
 				concepts: [conceptText],
-				aiMode: 'local',
+				aiMode: this.settings.aiMode,
 				processingInfo: processingInfo,
 			},
 			notePaths
@@ -1054,21 +1049,23 @@ export class CreateRegionCommands {
 	}
 
 	// Helper method to create region from semantic similarity with pre-provided parameters (for re-running)
-	// Returns true if notes were found and region was created, false otherwise
+	// Returns the created region, or null if no notes were found and nothing was created
 	async createRegionFromSemanticSimilarityWithParams(
 		conceptText: string, 
 		name: string, 
 		color: string,
-		semanticMode: 'walkabout' | 'hopscotch' | 'rolling-path' | 'crowd' = 'walkabout'
-	): Promise<boolean> {
-		// Check if local model is active
-		if (this.settings.aiMode !== 'local') {
-			new Notice('Semantic Similarity Analysis is only available when local AI mode is enabled.');
-			return false;
+		semanticMode: 'walkabout' | 'hopscotch' | 'rolling-path' | 'crowd' = 'walkabout',
+		threshold?: number
+	): Promise<Region | null> {
+		const similarityThreshold = threshold ?? this.settings.embeddingSimilarityThreshold;
+		// Check if an embedding provider is configured
+		if (!isEmbeddingConfigured(this.settings)) {
+			new Notice('Semantic Similarity Analysis requires an embedding provider. Configure one in the plugin settings.');
+			return null;
 		}
 
 		if (!conceptText || conceptText.trim() === '') {
-			return false;
+			return null;
 		}
 
 		// Update status
@@ -1092,7 +1089,7 @@ export class CreateRegionCommands {
 			if (this.plugin?.updateRegionCreationStatus) {
 				this.plugin.updateRegionCreationStatus({ isCreating: false });
 			}
-			return false;
+			return null;
 		}
 
 		// Update status
@@ -1119,38 +1116,40 @@ export class CreateRegionCommands {
 			conceptEmbedding,
 			filteredCandidates,
 			[], // No exclusions
-			100 // Max 100 similar notes
+			100, // Max 100 similar notes
+			similarityThreshold
 		);
 
 		if (similarNotes.length === 0) {
 			if (this.plugin?.updateRegionCreationStatus) {
 				this.plugin.updateRegionCreationStatus({ isCreating: false });
 			}
-			return false;
+			return null;
 		}
 
 		// Apply different algorithms based on mode
-		let finalFiles: TFile[] = [];
+		let finalResults: SimilarNoteResult[] = [];
 		
 		if (semanticMode === 'walkabout') {
 			// Walkabout: Use all similar notes (current behavior)
-			finalFiles = similarNotes.map(({ file }) => file);
+			finalResults = similarNotes;
 		} else if (semanticMode === 'hopscotch') {
 			// Hopscotch: Create a path starting with concept, then most similar, then most similar to that, etc.
-			finalFiles = await this.createHopscotchPath(conceptEmbedding, similarNotes, filteredCandidates);
+			finalResults = await this.createHopscotchPath(conceptEmbedding, similarNotes, filteredCandidates, similarityThreshold);
 		} else if (semanticMode === 'rolling-path') {
 			// Rolling Path: Aggregate all notes at each step, find most similar to aggregation
-			finalFiles = await this.createRollingPath(conceptEmbedding, similarNotes, filteredCandidates);
+			finalResults = await this.createRollingPath(conceptEmbedding, similarNotes, filteredCandidates, similarityThreshold);
 		} else if (semanticMode === 'crowd') {
 			// Crowd: All related notes in no particular order (same as walkabout, just different arrangement)
-			finalFiles = similarNotes.map(({ file }) => file);
+			finalResults = similarNotes;
 		}
+		const finalFiles = finalResults.map(({ file }) => file);
 
 		if (finalFiles.length === 0) {
 			if (this.plugin?.updateRegionCreationStatus) {
 				this.plugin.updateRegionCreationStatus({ isCreating: false });
 			}
-			return false;
+			return null;
 		}
 
 		// Track processing info
@@ -1158,8 +1157,9 @@ export class CreateRegionCommands {
 			conceptText: conceptText,
 			similarNotesFound: similarNotes.length,
 			finalNotesCount: finalFiles.length,
-			similarityThreshold: this.settings.embeddingSimilarityThreshold,
+			similarityThreshold: similarityThreshold,
 			semanticSimilarityMode: semanticMode,
+			matchedPassages: this.buildMatchedPassages(finalResults),
 		};
 
 		// Get the files from final selection
@@ -1174,7 +1174,7 @@ export class CreateRegionCommands {
 			{
 				type: 'concept',
 				concepts: [conceptText],
-				aiMode: 'local',
+				aiMode: this.settings.aiMode,
 				processingInfo: processingInfo,
 			},
 			notePaths
@@ -1182,7 +1182,7 @@ export class CreateRegionCommands {
 		
 		// Save the threshold used for this region
 		this.regionService.updateRegion(region.id, {
-			similarityThreshold: this.settings.embeddingSimilarityThreshold
+			similarityThreshold: similarityThreshold
 		});
 
 		// Trigger save and UI update
@@ -1190,183 +1190,642 @@ export class CreateRegionCommands {
 			await this.plugin.onRegionUpdate();
 		}
 
-		if (this.plugin?.updateRegionCreationStatus) {
-			this.plugin.updateRegionCreationStatus({ isCreating: false });
-		}
-
-		new Notice(`Region "${name}" re-created with ${notePaths.length} semantically similar notes.`);
-		return true;
+		if (this.plugin?.updateRegionCreationStatus) {
+			this.plugin.updateRegionCreationStatus({ isCreating: false });
+		}
+
+		new Notice(`Region "${name}" re-created with ${notePaths.length} semantically similar notes.`);
+		return region;
+	}
+
+	// Create a "More like this" region from the given notes (the active note, or notes selected in the file explorer)
+	async createRegionFromNotes(files: TFile[]): Promise<void> {
+		const seedFiles = files.filter(file => file.extension === 'md');
+		if (seedFiles.length === 0) {
+			new Notice('Select one or more notes to find notes like them.');
+			return;
+		}
+		await this.createRegionFromExemplars(
+			{ positiveNotes: seedFiles.map(file => file.path) },
+			seedFiles.length === 1 ? 'More Like This Note' : 'More Like These Notes'
+		);
+	}
+
+	// Create a region from example notes to be like and unlike, optionally with concept text (Rocchio-style query)
+	async createRegionFromExemplars(initial: Partial<ExemplarSet> = {}, title: string = 'Region from Example Notes'): Promise<void> {
+		// Check if an embedding provider is configured
+		if (!isEmbeddingConfigured(this.settings)) {
+			new Notice('Example-note regions require an embedding provider. Configure one in the plugin settings.');
+			return;
+		}
+
+		// Prompt for the examples, output mode and threshold
+		const result = await new Promise<ExemplarInputResult | null>((resolve) => {
+			new ExemplarInputModal(
+				this.app,
+				initial,
+				{
+					title,
+					submitText: 'OK',
+					showOutputOptions: true,
+					mode: 'walkabout',
+					threshold: this.settings.embeddingSimilarityThreshold ?? 0.65,
+				},
+				resolve
+			).open();
+		});
+
+		if (!result) {
+			return;
+		}
+
+		const semanticMode = result.mode;
+		const threshold = result.threshold;
+
+		// Update status
+		if (this.plugin?.updateRegionCreationStatus) {
+			this.plugin.updateRegionCreationStatus({
+				isCreating: true,
+				step: 'Finding similar notes...',
+				details: 'Building a query from the example notes'
+			});
+		}
+
+		let found: Awaited<ReturnType<CreateRegionCommands['findNotesLikeExemplars']>>;
+		try {
+			found = await this.findNotesLikeExemplars(result, semanticMode, threshold);
+		} catch (error) {
+			console.error('[Thoughtlands] Failed to build query from example notes:', error);
+			new Notice(`Failed to build a query from the examples: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return;
+		}
+		if (!found || found.similarNotesFound === 0) {
+			new Notice(found
+				? 'No semantically similar notes found.'
+				: 'None of the example notes have embeddings yet. Generate embeddings first, or add concept text.');
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return;
+		}
+		const skipped = result.positiveNotes.length + result.negativeNotes.length - found.exemplars.positiveNotes.length - found.exemplars.negativeNotes.length;
+		if (skipped > 0) {
+			new Notice(`${skipped} example note${skipped !== 1 ? 's have' : ' has'} no embedding yet and ${skipped !== 1 ? 'were' : 'was'} left out of the query.`);
+		}
+
+		const processingInfo: ConceptProcessingInfo = {
+			conceptText: found.exemplars.conceptText,
+			similarNotesFound: found.similarNotesFound,
+			similarityThreshold: threshold,
+			semanticSimilarityMode: semanticMode,
+			matchedPassages: this.buildMatchedPassages(found.results),
+		};
+
+		// Update status: finalizing
+		if (this.plugin?.updateRegionCreationStatus) {
+			this.plugin.updateRegionCreationStatus({
+				isCreating: true,
+				step: 'Finalizing region...',
+				details: 'Please provide a name and color for the region'
+			});
+		}
+
+		const suggestedName = found.exemplars.positiveNotes.length > 0
+			? `More like ${describeSeedNotes(found.exemplars.positiveNotes)}`
+			: (found.exemplars.conceptText || '').split(/\s+/).slice(0, 3).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+		const name = await this.promptForName(suggestedName);
+		if (!name) {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return;
+		}
+
+		const color = await this.promptForColor();
+		if (!color) {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return;
+		}
+
+		// Create region
+		const notePaths = found.results.map(({ file }) => file.path);
+		const region = this.regionService.createRegion(
+			name,
+			color,
+			'concept',
+			{
+				type: 'concept',
+				seedNotes: found.exemplars.positiveNotes,
+				negativeNotes: found.exemplars.negativeNotes.length > 0 ? found.exemplars.negativeNotes : undefined,
+				aiMode: this.settings.aiMode,
+				processingInfo,
+			},
+			notePaths
+		);
+
+		// Save the threshold used for this region
+		this.regionService.updateRegion(region.id, {
+			similarityThreshold: threshold
+		});
+
+		// Trigger save and UI update
+		if (this.plugin?.onRegionUpdate) {
+			await this.plugin.onRegionUpdate();
+		}
+
+		if (this.plugin?.updateRegionCreationStatus) {
+			this.plugin.updateRegionCreationStatus({ isCreating: false });
+		}
+
+		const exampleCount = found.exemplars.positiveNotes.length;
+		new Notice(`Region "${name}" created with ${notePaths.length} notes (${exampleCount} example${exampleCount !== 1 ? 's' : ''} + ${notePaths.length - exampleCount} similar).`);
+	}
+
+	// Helper method to re-run an example-note region, possibly with edited examples (threshold defaults to the settings)
+	// Returns the created region, or null if no notes were found and nothing was created
+	async createRegionFromExemplarsWithParams(
+		exemplars: ExemplarSet,
+		name: string,
+		color: string,
+		semanticMode: SemanticSimilarityMode = 'walkabout',
+		threshold?: number
+	): Promise<Region | null> {
+		// Check if an embedding provider is configured
+		if (!isEmbeddingConfigured(this.settings)) {
+			new Notice('Example-note regions require an embedding provider. Configure one in the plugin settings.');
+			return null;
+		}
+
+		// Update status
+		if (this.plugin?.updateRegionCreationStatus) {
+			this.plugin.updateRegionCreationStatus({
+				isCreating: true,
+				step: 'Finding similar notes...',
+				details: 'Building a query from the example notes'
+			});
+		}
+
+		const similarityThreshold = threshold ?? this.settings.embeddingSimilarityThreshold;
+		let found: Awaited<ReturnType<CreateRegionCommands['findNotesLikeExemplars']>>;
+		try {
+			found = await this.findNotesLikeExemplars(exemplars, semanticMode, similarityThreshold);
+		} catch (error) {
+			console.error('[Thoughtlands] Failed to build query from example notes:', error);
+			found = null;
+		}
+		if (!found || found.similarNotesFound === 0) {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return null;
+		}
+
+		const processingInfo: ConceptProcessingInfo = {
+			conceptText: found.exemplars.conceptText,
+			similarNotesFound: found.similarNotesFound,
+			similarityThreshold,
+			semanticSimilarityMode: semanticMode,
+			matchedPassages: this.buildMatchedPassages(found.results),
+		};
+
+		// Create region (using provided name and color)
+		const notePaths = found.results.map(({ file }) => file.path);
+		const region = this.regionService.createRegion(
+			name,
+			color,
+			'concept',
+			{
+				type: 'concept',
+				seedNotes: found.exemplars.positiveNotes,
+				negativeNotes: found.exemplars.negativeNotes.length > 0 ? found.exemplars.negativeNotes : undefined,
+				aiMode: this.settings.aiMode,
+				processingInfo,
+			},
+			notePaths
+		);
+
+		// Save the threshold used for this region
+		this.regionService.updateRegion(region.id, {
+			similarityThreshold
+		});
+
+		// Trigger save and UI update
+		if (this.plugin?.onRegionUpdate) {
+			await this.plugin.onRegionUpdate();
+		}
+
+		if (this.plugin?.updateRegionCreationStatus) {
+			this.plugin.updateRegionCreationStatus({ isCreating: false });
+		}
+
+		new Notice(`Region "${name}" re-created with ${notePaths.length} notes.`);
+		return region;
+	}
+
+	// Helper method to create region from search + AI analysis with pre-provided parameters (for re-running)
+	// Returns the created region, or null if no notes were found and nothing was created
+	async createRegionFromSearchWithAIAnalysisWithParams(
+		searchQuery: string, 
+		name: string, 
+		color: string,
+		threshold?: number,
+		parsedQuery?: SearchQueryNode, // Query stored with the region; regions from older versions only have the text
+		fusion?: HybridFusionOptions // Ranking stored with the region; defaults to the settings
+	): Promise<Region | null> {
+		// Check if an embedding provider is configured
+		if (!isEmbeddingConfigured(this.settings)) {
+			new Notice('AI Analysis requires an embedding provider. Configure one in the plugin settings.');
+			return null;
+		}
+
+		if (!searchQuery || searchQuery.trim() === '') {
+			return null;
+		}
+
+		if (!parsedQuery) {
+			const { query, error } = tryParseSearchQuery(searchQuery);
+			if (!query) {
+				new Notice(`Cannot re-run: ${error?.message || 'invalid search query'}`);
+				return null;
+			}
+			parsedQuery = query;
+		}
+
+		// Search for files matching the terms
+		const searchResults = await this.searchFiles(parsedQuery);
+		
+		if (searchResults.length === 0) {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return null;
+		}
+
+		// Filter by all settings (paths and tags)
+		const filteredResults = this.regionService.filterNotesByIgnores(
+			searchResults,
+			this.app.metadataCache,
+			this.noteService
+		);
+
+		if (filteredResults.length === 0) {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return null;
+		}
+
+		// Update status
+		if (this.plugin?.updateRegionCreationStatus) {
+			this.plugin.updateRegionCreationStatus({
+				isCreating: true,
+				step: 'Analyzing search results with AI...',
+				details: `Ranking ${filteredResults.length} search results and their semantic neighbours by keywords and embeddings`
+			});
+		}
+
+		new Notice('Analyzing search results with AI embeddings...');
+
+		const similarityThreshold = threshold ?? this.settings.embeddingSimilarityThreshold;
+		const ranking = await this.rankSearchResults(
+			parsedQuery,
+			filteredResults,
+			similarityThreshold,
+			fusion ?? { method: this.settings.hybridFusion, lexicalWeight: this.settings.hybridLexicalWeight }
+		);
+		if (!ranking) {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return null;
+		}
+		const { allNotes, additionalCount, processingInfo } = ranking;
+
+		if (allNotes.length === 0) {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+			return null;
+		}
+
+		// Create region (using provided name and color)
+		const notePaths = allNotes.map(file => file.path);
+		const region = this.regionService.createRegion(
+			name,
+			color,
+			'search',
+			{
+				type: 'search',
+				query: searchQuery || '',
+				parsedQuery,
+				processingInfo: processingInfo,
+			},
+			notePaths
+		);
+		
+		// Save the threshold used for this region
+		this.regionService.updateRegion(region.id, {
+			similarityThreshold
+		});
+
+		// Trigger save and UI update
+		if (this.plugin?.onRegionUpdate) {
+			await this.plugin.onRegionUpdate();
+		}
+
+		if (this.plugin?.updateRegionCreationStatus) {
+			this.plugin.updateRegionCreationStatus({ isCreating: false });
+		}
+
+		new Notice(`Region "${name}" re-created with ${notePaths.length} notes (${filteredResults.length} from search + ${additionalCount} from AI analysis).`);
+		return region;
+	}
+
+	/**
+	 * Cluster every embedded note in scope and let the user review the proposed regions before any
+	 * are created. Proposals are named after their distinctive keywords, or by the AI when the
+	 * naming setting asks for it. Returns the number of regions created.
+	 */
+	async discoverRegions(): Promise<number> {
+		if (!isEmbeddingConfigured(this.settings)) {
+			new Notice('Discover Regions requires an embedding provider. Configure one in the plugin settings.');
+			return 0;
+		}
+
+		const setStatus = (step: string, details?: string) => {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: true, step, details });
+			}
+		};
+		const clearStatus = () => {
+			if (this.plugin?.updateRegionCreationStatus) {
+				this.plugin.updateRegionCreationStatus({ isCreating: false });
+			}
+		};
+
+		setStatus('Discovering regions...', 'Clustering the embedded notes in your vault');
+		new Notice('Discovering regions...');
+		const candidates = this.regionService.filterNotesByIgnores(this.noteService.getAllNotes(), this.app.metadataCache, this.noteService);
+
+		let discovery: DiscoveryResult;
+		try {
+			discovery = await this.regionDiscovery.discover(candidates, step => setStatus('Discovering regions...', step));
+		} catch (error) {
+			console.error('[Thoughtlands] Error discovering regions:', error);
+			new Notice(`Error discovering regions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			clearStatus();
+			return 0;
+		}
+
+		if (discovery.clusters.length === 0) {
+			clearStatus();
+			new Notice(discovery.notesClustered === 0
+				? 'No embedded notes to cluster. Generate embeddings first.'
+				: `No clusters of at least ${this.settings.discoveryMinClusterSize} notes found among ${discovery.notesClustered} notes. Try a smaller minimum group size${discovery.method === 'density' ? ' or a lower neighbour similarity' : ''}.`);
+			return 0;
+		}
+
+		const proposals = await this.nameClusters(discovery.clusters, 'Cluster', setStatus);
+		clearStatus();
+
+		const methodName = discovery.method === 'density' ? 'density-based clustering' : 'k-means';
+		let summary = `${discovery.clusters.length} clusters found among ${discovery.notesClustered} embedded notes with ${methodName}.`;
+		if (discovery.unassignedCount > 0) {
+			summary += ` ${discovery.unassignedCount} notes fit no cluster.`;
+		}
+		if (discovery.notesWithoutEmbedding > 0) {
+			summary += ` ${discovery.notesWithoutEmbedding} notes without embeddings were left out.`;
+		}
+
+		const accepted = await new Promise<RegionProposal[] | null>((resolve) => {
+			new DiscoverRegionsModal(this.app, proposals, summary, this.settings.defaultColors, resolve).open();
+		});
+		if (!accepted || accepted.length === 0) {
+			return 0;
+		}
+
+		for (const proposal of accepted) {
+			this.regionService.createRegion(
+				proposal.name,
+				proposal.color,
+				'concept',
+				{
+					type: 'concept',
+					aiMode: proposal.aiNamed ? this.settings.aiMode : undefined,
+					processingInfo: {
+						discovery: {
+							method: discovery.method,
+							keywords: proposal.keywords,
+							tags: proposal.tags.length > 0 ? proposal.tags : undefined,
+							cohesion: proposal.cohesion,
+							clusterCount: discovery.clusters.length,
+							notesClustered: discovery.notesClustered,
+							unassignedCount: discovery.unassignedCount,
+							aiNamed: proposal.aiNamed || undefined,
+							mergedFrom: proposal.mergedFrom,
+						},
+					},
+				},
+				proposal.notes
+			);
+		}
+
+		// Trigger save and UI update
+		if (this.plugin?.onRegionUpdate) {
+			await this.plugin.onRegionUpdate();
+		}
+
+		new Notice(`Created ${accepted.length} region${accepted.length !== 1 ? 's' : ''} from discovered clusters.`);
+		return accepted.length;
 	}
 
-	// Helper method to create region from search + AI analysis with pre-provided parameters (for re-running)
-	// Returns true if notes were found and region was created, false otherwise
-	async createRegionFromSearchWithAIAnalysisWithParams(
-		searchQuery: string, 
-		name: string, 
-		color: string,
-		threshold?: number
-	): Promise<boolean> {
-		// Check if local model is active
-		if (this.settings.aiMode !== 'local') {
-			new Notice('AI Analysis is only available when local AI mode is enabled.');
-			return false;
+	// Proposals for clustered notes, named after their keywords or by the AI (Discover Regions: Naming)
+	private async nameClusters(clusters: DiscoveredCluster[], fallbackName: string, setStatus: (step: string, details?: string) => void): Promise<RegionProposal[]> {
+		const colors = this.settings.defaultColors.length > 0 ? this.settings.defaultColors : ['#E67E22'];
+		const proposals: RegionProposal[] = [];
+		for (let i = 0; i < clusters.length; i++) {
+			const cluster = clusters[i];
+			let name = nameFromKeywords(cluster.keywords, `${fallbackName} ${i + 1}`);
+			let aiNamed = false;
+			if (this.settings.discoveryNaming === 'ai' && cluster.keywords.length > 0) {
+				setStatus('Naming regions...', `${fallbackName} ${i + 1} of ${clusters.length}`);
+				const nameResponse = this.settings.aiMode === 'local'
+					? await this.localAIService.generateRegionName(cluster.keywords, cluster.tags)
+					: await this.openAIService.generateRegionName(cluster.keywords, cluster.tags);
+				if (nameResponse.success && nameResponse.name) {
+					name = nameResponse.name;
+					aiNamed = true;
+				} else {
+					console.warn(`[Thoughtlands] Failed to name ${fallbackName.toLowerCase()} ${i + 1}, using keywords:`, nameResponse.error);
+				}
+			}
+			proposals.push({ ...cluster, name, color: colors[i % colors.length], aiNamed });
 		}
+		return proposals;
+	}
 
-		if (!searchQuery || searchQuery.trim() === '') {
-			return false;
+	// Cluster a region's notes into sub-regions, reviewed like discovered regions and nested under it
+	async splitRegion(region: Region): Promise<number> {
+		if (!isEmbeddingConfigured(this.settings)) {
+			new Notice('Splitting a region requires an embedding provider. Configure one in the plugin settings.');
+			return 0;
 		}
 
-		// Search for files matching the terms
-		const searchResults = await this.searchFiles(searchQuery);
-		
-		if (searchResults.length === 0) {
+		const setStatus = (step: string, details?: string) => {
 			if (this.plugin?.updateRegionCreationStatus) {
-				this.plugin.updateRegionCreationStatus({ isCreating: false });
+				this.plugin.updateRegionCreationStatus({ isCreating: true, step, details });
 			}
-			return false;
-		}
-
-		// Filter by all settings (paths and tags)
-		const filteredResults = this.regionService.filterNotesByIgnores(
-			searchResults,
-			this.app.metadataCache,
-			this.noteService
-		);
-
-		if (filteredResults.length === 0) {
+		};
+		const clearStatus = () => {
 			if (this.plugin?.updateRegionCreationStatus) {
 				this.plugin.updateRegionCreationStatus({ isCreating: false });
 			}
-			return false;
-		}
-
-		// Track processing info
-		const processingInfo: any = {
-			searchResultsCount: filteredResults.length,
 		};
 
-		// Update status
-		if (this.plugin?.updateRegionCreationStatus) {
-			this.plugin.updateRegionCreationStatus({
-				isCreating: true,
-				step: 'Analyzing search results with AI...',
-				details: `Computing embeddings for ${filteredResults.length} search results`
-			});
+		setStatus('Splitting region...', `Clustering the ${region.notes.length} notes of "${region.name}"`);
+
+		let split: DiscoveryResult;
+		try {
+			split = await this.regionDiscovery.split(region.notes, step => setStatus('Splitting region...', step));
+		} catch (error) {
+			console.error('[Thoughtlands] Error splitting region:', error);
+			new Notice(`Error splitting region: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			clearStatus();
+			return 0;
 		}
 
-		new Notice('Analyzing search results with AI embeddings...');
+		if (split.clusters.length < 2) {
+			clearStatus();
+			new Notice(split.notesClustered === 0
+				? `None of the notes in "${region.name}" have embeddings yet. Generate embeddings first.`
+				: `"${region.name}" could not be split into sub-regions of at least ${this.settings.discoveryMinClusterSize} notes. Try a smaller minimum group size.`);
+			return 0;
+		}
 
-		// Get embeddings for search results
-		const searchResultEmbeddings: number[][] = [];
-		const filesWithEmbeddings: TFile[] = [];
-		
-		const storageService = this.embeddingService.getStorageService();
-		for (const file of filteredResults) {
-			const embedding = await storageService.getEmbedding(file);
-			if (embedding) {
-				searchResultEmbeddings.push(embedding);
-				filesWithEmbeddings.push(file);
-			}
+		const proposals = await this.nameClusters(split.clusters, 'Sub-region', setStatus);
+		clearStatus();
+
+		let summary = `The ${split.notesClustered} embedded notes of "${region.name}" form ${split.clusters.length} sub-regions. The notes stay in "${region.name}" too.`;
+		if (split.unassignedCount > 0) {
+			summary += ` ${split.unassignedCount} notes fit no sub-region.`;
+		}
+		if (split.notesWithoutEmbedding > 0) {
+			summary += ` ${split.notesWithoutEmbedding} notes without embeddings were left out.`;
 		}
 
-		processingInfo.searchResultsWithEmbeddings = filesWithEmbeddings.length;
+		const accepted = await new Promise<RegionProposal[] | null>((resolve) => {
+			new DiscoverRegionsModal(this.app, proposals, summary, this.settings.defaultColors, resolve, `Split "${region.name}"`).open();
+		});
+		if (!accepted || accepted.length === 0) {
+			return 0;
+		}
 
-		if (searchResultEmbeddings.length === 0) {
-			if (this.plugin?.updateRegionCreationStatus) {
-				this.plugin.updateRegionCreationStatus({ isCreating: false });
-			}
-			return false;
+		for (const proposal of accepted) {
+			const child = this.regionService.createRegion(
+				proposal.name,
+				proposal.color,
+				'concept',
+				{
+					type: 'concept',
+					aiMode: proposal.aiNamed ? this.settings.aiMode : undefined,
+					processingInfo: {
+						discovery: {
+							method: split.method,
+							keywords: proposal.keywords,
+							tags: proposal.tags.length > 0 ? proposal.tags : undefined,
+							cohesion: proposal.cohesion,
+							clusterCount: split.clusters.length,
+							notesClustered: split.notesClustered,
+							unassignedCount: split.unassignedCount,
+							aiNamed: proposal.aiNamed || undefined,
+							mergedFrom: proposal.mergedFrom,
+							splitFrom: region.name,
+						},
+					},
+				},
+				proposal.notes
+			);
+			this.regionService.setParentRegion(child.id, region.id);
 		}
 
-		// Calculate centroid from search result embeddings
-		const centroid = this.embeddingService.calculateCentroid(searchResultEmbeddings);
-		
-		if (centroid.length === 0) {
-			if (this.plugin?.updateRegionCreationStatus) {
-				this.plugin.updateRegionCreationStatus({ isCreating: false });
-			}
-			return false;
+		// Trigger save and UI update
+		if (this.plugin?.onRegionUpdate) {
+			await this.plugin.onRegionUpdate();
 		}
 
-		// Update status
-		if (this.plugin?.updateRegionCreationStatus) {
-			this.plugin.updateRegionCreationStatus({
-				isCreating: true,
-				step: 'Finding similar notes...',
-				details: `Searching for notes similar to ${filesWithEmbeddings.length} search results`
-			});
+		new Notice(`Split "${region.name}" into ${accepted.length} sub-region${accepted.length !== 1 ? 's' : ''}.`);
+		return accepted.length;
+	}
+
+	async mergeRegions(initialRegionIds: string[] = []): Promise<void> {
+		const regions = this.regionService.getRegions().filter(region => !region.archived);
+		if (regions.length < 2) {
+			new Notice('Merging regions needs at least two regions.');
+			return;
 		}
 
-		// Find similar notes using embedding analysis
-		// Get all markdown files as candidates (excluding search results)
-		const allMarkdownFiles = this.app.vault.getMarkdownFiles();
-		const candidateFiles = allMarkdownFiles.filter(f => 
-			!filteredResults.some(sr => sr.path === f.path)
-		);
+		const result = await new Promise<MergeRegionsResult | null>((resolve) => {
+			new MergeRegionsModal(this.app, regions, initialRegionIds, this.settings.defaultColors, resolve).open();
+		});
+		if (!result) {
+			return;
+		}
 
-		// Filter candidates by settings
-		const filteredCandidates = this.regionService.filterNotesByIgnores(
-			candidateFiles,
-			this.app.metadataCache,
-			this.noteService
-		);
+		const merged = this.regionService.mergeRegions(result.regionIds, result.name, result.color, result.keepAsChildren);
+		if (!merged) {
+			new Notice('Could not merge: a region was deleted in the meantime.');
+			return;
+		}
 
-		const similarNotes = await this.embeddingService.findSimilarNotes(
-			centroid,
-			filteredCandidates,
-			filteredResults,
-			50 // Max 50 additional similar notes
-		);
+		// Trigger save and UI update
+		if (this.plugin?.onRegionUpdate) {
+			await this.plugin.onRegionUpdate();
+		}
 
-		processingInfo.similarNotesFound = similarNotes.length;
-		processingInfo.similarityThreshold = this.settings.embeddingSimilarityThreshold;
+		new Notice(`Region "${merged.name}" created with ${merged.notes.length} notes from ${result.regionIds.length} regions.`);
+	}
 
-		// Combine search results with similar notes
-		const allNotes = [...filteredResults];
-		for (const { file } of similarNotes) {
-			if (!allNotes.some(n => n.path === file.path)) {
-				allNotes.push(file);
-			}
+	async createCombinedRegion(initialOperandIds: string[] = []): Promise<void> {
+		const regions = this.regionService.getRegions().filter(region => !region.archived);
+		if (regions.length < 2) {
+			new Notice('Combining regions needs at least two regions.');
+			return;
 		}
 
-		if (allNotes.length === 0) {
-			if (this.plugin?.updateRegionCreationStatus) {
-				this.plugin.updateRegionCreationStatus({ isCreating: false });
-			}
-			return false;
+		const result = await new Promise<CombineRegionsResult | null>((resolve) => {
+			new CombineRegionsModal(this.app, regions, initialOperandIds, this.settings.defaultColors, resolve).open();
+		});
+		if (!result) {
+			return;
 		}
 
-		// Create region (using provided name and color)
-		const notePaths = allNotes.map(file => file.path);
-		const region = this.regionService.createRegion(
-			name,
-			color,
-			'search',
+		const notes = combineRegionNotes(result.operation, result.operandIds.map(id => this.regionService.getRegion(id)!.notes));
+		console.log(`[Thoughtlands] Combining ${result.operandIds.length} regions by ${result.operation}: ${notes.length} notes`);
+
+		this.regionService.createRegion(
+			result.name,
+			result.color,
+			'combined',
 			{
-				type: 'search',
-				query: searchQuery || '',
-				processingInfo: processingInfo,
+				type: 'combined',
+				operation: result.operation,
+				operandIds: result.operandIds,
+				autoRecompute: result.autoRecompute,
 			},
-			notePaths
+			notes
 		);
-		
-		// Save the threshold used for this region
-		this.regionService.updateRegion(region.id, {
-			similarityThreshold: this.settings.embeddingSimilarityThreshold
-		});
 
 		// Trigger save and UI update
 		if (this.plugin?.onRegionUpdate) {
 			await this.plugin.onRegionUpdate();
 		}
 
-		if (this.plugin?.updateRegionCreationStatus) {
-			this.plugin.updateRegionCreationStatus({ isCreating: false });
-		}
-
-		const additionalCount = similarNotes.length;
-		new Notice(`Region "${name}" re-created with ${notePaths.length} notes (${filteredResults.length} from search + ${additionalCount} from AI analysis).`);
-		return true;
+		new Notice(`Region "${result.name}" created with ${notes.length} notes.`);
 	}
 
 	async createRegionFromConcept(): Promise<void> {
@@ -1594,12 +2053,6 @@ export class CreateRegionCommands {
 		let embeddingAddedCount = 0;
 		const notesBeforeEmbedding = finalNotes.length;
 		if (useLocalForConcept && this.embeddingService.isEmbeddingProcessComplete()) {
-			// Temporarily update threshold for this search (will be set after nameColor is obtained)
-			const originalThreshold = this.settings.embeddingSimilarityThreshold;
-			// Note: threshold will be set after nameColor is obtained, use default for now
-			const tempThreshold = this.settings.embeddingSimilarityThreshold;
-			this.settings.embeddingSimilarityThreshold = tempThreshold;
-			this.embeddingService.updateSettings(this.settings);
 			try {
 				// Update status: embedding filtering
 				if (this.plugin?.updateRegionCreationStatus) {
@@ -1672,9 +2125,6 @@ export class CreateRegionCommands {
 				}
 				new Notice('Embedding filtering failed, using all matching notes.');
 			}
-			// Restore original threshold
-			this.settings.embeddingSimilarityThreshold = originalThreshold;
-			this.embeddingService.updateSettings(this.settings);
 		} else if (useLocalForConcept && !this.embeddingService.isEmbeddingProcessComplete()) {
 			console.log('[Thoughtlands] Embeddings not complete, skipping embedding-based filtering');
 		}
@@ -1854,79 +2304,15 @@ export class CreateRegionCommands {
 		return queryString;
 	}
 
-	private async searchFiles(searchTerms: string): Promise<TFile[]> {
-		// Search files using the provided search terms
+	private async searchFiles(query: SearchQueryNode): Promise<TFile[]> {
+		// Search files using the parsed query (see services/searchQuery.ts)
 		// Applies plugin's own filters (included/excluded paths and tags)
 		
-		console.log('[Thoughtlands] Searching files with terms:', searchTerms);
-		
-		// Get all files and search them
-		const allFiles = this.app.vault.getMarkdownFiles();
-		const matchingFiles: TFile[] = [];
-		
-		// Split search terms into words (for multi-word queries)
-		const searchWords = searchTerms ? searchTerms.toLowerCase().split(/\s+/).filter((w: string) => w.length > 0) : [];
+		console.log('[Thoughtlands] Searching files with query:', JSON.stringify(query));
 		
-		for (const file of allFiles) {
-			const fileCache = this.app.metadataCache.getFileCache(file);
-			if (!fileCache) continue;
-			
-			let matches = false;
-			
-			if (searchWords.length === 0) {
-				// No search terms, include all files (they'll be filtered by path/tag settings)
-				matches = true;
-			} else {
-				// Check metadata first (faster)
-				const searchableMetadata = (
-					file.path.toLowerCase() + ' ' +
-					file.basename.toLowerCase() + ' ' +
-					(fileCache.frontmatter ? JSON.stringify(fileCache.frontmatter).toLowerCase() : '') + ' ' +
-					(fileCache.tags ? fileCache.tags.map(t => t.tag.toLowerCase()).join(' ') : '') + ' ' +
-					(fileCache.links ? fileCache.links.map(l => (l.original || l.displayText || '').toLowerCase()).join(' ') : '')
-				);
-				
-				// Check if all words are in metadata
-				let allWordsInMetadata = true;
-				for (const word of searchWords) {
-					if (!searchableMetadata.includes(word)) {
-						allWordsInMetadata = false;
-						break;
-					}
-				}
-				
-				if (allWordsInMetadata) {
-					matches = true;
-				} else {
-					// Check file content
-					try {
-						const content = await this.app.vault.read(file);
-						const contentLower = content.toLowerCase();
-						
-						let allWordsInContent = true;
-						for (const word of searchWords) {
-							if (!contentLower.includes(word)) {
-								allWordsInContent = false;
-								break;
-							}
-						}
-						
-						if (allWordsInContent) {
-							matches = true;
-						}
-					} catch (e) {
-						// If we can't read the file, skip it
-						continue;
-					}
-				}
-			}
-			
-			if (matches) {
-				matchingFiles.push(file);
-			}
-		}
+		const matchingFiles = await this.findMatchingFiles(query);
 		
-		console.log('[Thoughtlands] Found', matchingFiles.length, 'files matching search terms');
+		console.log('[Thoughtlands] Found', matchingFiles.length, 'files matching search query');
 		
 		// Apply plugin's own filters (included/excluded paths and tags)
 		const filteredFiles = this.regionService.filterNotesByIgnores(
@@ -1941,127 +2327,46 @@ export class CreateRegionCommands {
 	}
 	
 	private async manualSearch(queryString: string): Promise<TFile[]> {
-		// Parse the query string for path filters and text search
-		const pathMatch = queryString.match(/path:([^\s]+)/);
-		const pathFilter = pathMatch ? pathMatch[1].trim() : null;
-		
-		// Extract text search terms (everything except path: filters)
-		const textQuery = queryString.replace(/path:[^\s]+/g, '').trim();
-		
-		const allMarkdownFiles = this.app.vault.getMarkdownFiles();
+		// Same query language as searchFiles, without the plugin's path/tag filters
+		return this.findMatchingFiles(parseSearchQuery(queryString));
+	}
+	
+	private async findMatchingFiles(query: SearchQueryNode): Promise<TFile[]> {
+		// Words and phrases are looked up in the search index; only line: and regex queries read notes
+		const contentMatches = await this.searchIndex.createContentMatcher(query);
+		const needsText = searchQueryNeedsText(query);
 		const matchingFiles: TFile[] = [];
 		
-		for (const file of allMarkdownFiles) {
-			// Check path filter first
-			if (pathFilter) {
-				if (!file.path.includes(pathFilter)) {
-					continue;
-				}
-			}
-			
-			// If we only have a path filter, include the file
-			if (!textQuery) {
-				matchingFiles.push(file);
-				continue;
-			}
-			
-			// Check text search in various places
+		for (const file of this.app.vault.getMarkdownFiles()) {
 			const fileCache = this.app.metadataCache.getFileCache(file);
-			let matches = false;
-			
-			// Check in file path/name
-			if (file.path.toLowerCase().includes(textQuery.toLowerCase()) || 
-			    file.basename.toLowerCase().includes(textQuery.toLowerCase())) {
-				matches = true;
-			}
-			
-			// Check in frontmatter
-			if (fileCache?.frontmatter) {
-				const frontmatterStr = JSON.stringify(fileCache.frontmatter).toLowerCase();
-				if (frontmatterStr.includes(textQuery.toLowerCase())) {
-					matches = true;
-				}
-			}
-			
-			// Check in tags
-			if (fileCache?.tags) {
-				for (const tag of fileCache.tags) {
-					if (tag.tag.toLowerCase().includes(textQuery.toLowerCase())) {
-						matches = true;
-						break;
-					}
-				}
-			}
-			
-			// Check in links
-			if (fileCache?.links) {
-				for (const link of fileCache.links) {
-					if (link.original?.toLowerCase().includes(textQuery.toLowerCase()) ||
-					    link.displayText?.toLowerCase().includes(textQuery.toLowerCase())) {
-						matches = true;
-						break;
-					}
-				}
-			}
-			
-			// For multi-word queries, check if ALL words appear somewhere (not necessarily together)
-			// This handles cases like "John Adams" where both words should be present
-			if (!matches && textQuery.includes(' ') && fileCache) {
-				const words = textQuery.toLowerCase().split(/\s+/).filter(w => w.length > 0);
-				let allWordsFound = true;
-				const searchableText = (
-					file.path.toLowerCase() + ' ' +
-					file.basename.toLowerCase() + ' ' +
-					(fileCache?.frontmatter ? JSON.stringify(fileCache.frontmatter).toLowerCase() : '') + ' ' +
-					(fileCache?.tags ? fileCache.tags.map(t => t.tag.toLowerCase()).join(' ') : '') + ' ' +
-					(fileCache?.links ? fileCache.links.map(l => (l.original || l.displayText || '').toLowerCase()).join(' ') : '')
-				);
-				
-				for (const word of words) {
-					if (!searchableText.includes(word)) {
-						allWordsFound = false;
-						break;
-					}
-				}
-				
-				if (allWordsFound) {
-					matches = true;
-				}
-			}
+			if (!fileCache) continue;
 			
-			// Search file content - this is critical for finding all matches
-			if (!matches) {
+			let content = '';
+			if (needsText) {
 				try {
-					const content = await this.app.vault.read(file);
-					const contentLower = content.toLowerCase();
-					const queryLower = textQuery.toLowerCase();
-					
-					// For multi-word queries, check if all words are in content
-					if (textQuery.includes(' ')) {
-						const words = queryLower.split(/\s+/).filter(w => w.length > 0);
-						let allWordsInContent = true;
-						for (const word of words) {
-							if (!contentLower.includes(word)) {
-								allWordsInContent = false;
-								break;
-							}
-						}
-						if (allWordsInContent) {
-							matches = true;
-						}
-					} else {
-						// Single word - check if it's in content
-						if (contentLower.includes(queryLower)) {
-							matches = true;
-						}
-					}
+					content = await this.app.vault.cachedRead(file);
 				} catch (e) {
 					// If we can't read the file, skip it
 					continue;
 				}
 			}
 			
-			if (matches) {
+			const tags = (getAllTags(fileCache) || []).map(tag => tag.replace(/^#/, ''));
+			const note: SearchableNote = {
+				path: file.path,
+				name: file.name,
+				tags,
+				frontmatter: fileCache.frontmatter || {},
+				metadata: [
+					fileCache.frontmatter ? JSON.stringify(fileCache.frontmatter) : '',
+					tags.map(tag => `#${tag}`).join(' '),
+					fileCache.links ? fileCache.links.map(l => l.original || l.displayText || '').join(' ') : '',
+				].join(' '),
+				content,
+				contentMatches: node => contentMatches(node, file.path),
+			};
+			
+			if (matchesSearchQuery(query, note)) {
 				matchingFiles.push(file);
 			}
 		}
@@ -4462,6 +4767,11 @@ export class CreateRegionCommands {
 					console.log(`[Thoughtlands] Skipping ${file.path} - no valid embedding available`);
 					continue;
 				}
+				if (embedding.length !== conceptEmbedding.length) {
+					// Freshly generated with the new embedding model while the previous one still serves queries
+					console.log(`[Thoughtlands] Skipping ${file.path} - embedding is from a different model (${embedding.length} vs ${conceptEmbedding.length} dimensions)`);
+					continue;
+				}
 
 				const similarity = this.embeddingService.cosineSimilarity(conceptEmbedding, embedding);
 				if (similarity >= this.settings.embeddingSimilarityThreshold) {
@@ -4504,69 +4814,156 @@ export class CreateRegionCommands {
 				this.settings.maxEmbeddingResults
 			);
 
-			return similarNotes.map((r: { file: TFile; similarity: number }) => r.file);
+			return similarNotes.map((r: SimilarNoteResult) => r.file);
 		} catch (error) {
 			console.error('[Thoughtlands] Error finding missed notes:', error);
 			return [];
 		}
 	}
 
+	/**
+	 * Notes similar to the query built from the examples (see EmbeddingService.buildExemplarQuery),
+	 * arranged for the output mode. Positive examples that have embeddings lead the results (and start
+	 * the path modes); negative ones are never results. Null when the examples yield no query.
+	 */
+	private async findNotesLikeExemplars(
+		exemplars: ExemplarSet,
+		semanticMode: SemanticSimilarityMode,
+		threshold: number
+	): Promise<{ results: SimilarNoteResult[]; similarNotesFound: number; exemplars: ExemplarSet } | null> {
+		const query = await this.embeddingService.buildExemplarQuery(exemplars);
+		if (!query) {
+			return null;
+		}
+
+		const examplePaths = new Set([...exemplars.positiveNotes, ...exemplars.negativeNotes]);
+		const positiveFiles = query.positiveNotes
+			.map(path => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+		const candidates = this.regionService.filterNotesByIgnores(
+			this.app.vault.getMarkdownFiles(),
+			this.app.metadataCache,
+			this.noteService
+		).filter(file => !examplePaths.has(file.path));
+
+		const similarNotes = await this.embeddingService.findSimilarNotes(
+			query.vector,
+			candidates,
+			[], // Examples are already left out of the candidates
+			100, // Max 100 similar notes
+			threshold
+		);
+
+		let results: SimilarNoteResult[] = similarNotes;
+		if (semanticMode === 'hopscotch') {
+			results = await this.createHopscotchPath(query.vector, similarNotes, candidates, threshold);
+		} else if (semanticMode === 'rolling-path') {
+			results = await this.createRollingPath(query.vector, similarNotes, candidates, threshold);
+		}
+
+		const positiveResults = await this.embeddingService.topK(query.vector, positiveFiles.length, positiveFiles);
+		console.log(`[Thoughtlands] Example-note query (${query.positiveNotes.length} like, ${query.negativeNotes.length} unlike, concept: ${query.conceptEmbedded}): ${similarNotes.length} similar notes, ${results.length} kept for ${semanticMode}`);
+		return {
+			results: [...positiveResults, ...results],
+			similarNotesFound: similarNotes.length,
+			exemplars: {
+				positiveNotes: query.positiveNotes,
+				negativeNotes: query.negativeNotes,
+				conceptText: exemplars.conceptText?.trim() || undefined,
+			},
+		};
+	}
+
+	// Fuse keyword and embedding rankings for Search + AI Analysis; null when neither the hits nor the query have embeddings
+	private async rankSearchResults(
+		query: SearchQueryNode,
+		hits: TFile[],
+		threshold: number,
+		fusion: HybridFusionOptions
+	): Promise<{ allNotes: TFile[]; additionalCount: number; processingInfo: ConceptProcessingInfo } | null> {
+		const candidates = this.regionService.filterNotesByIgnores(
+			this.app.vault.getMarkdownFiles(),
+			this.app.metadataCache,
+			this.noteService
+		);
+		const result = await this.hybridSearch.rank(query, hits, candidates, {
+			fusion,
+			threshold,
+			maxAdditional: 50, // Max 50 additional similar notes
+		});
+		if (!result) {
+			return null;
+		}
+
+		const hybridScores: Record<string, HybridNoteScore> = {};
+		for (const { file, score } of result.ranked) {
+			hybridScores[file.path] = score;
+		}
+		return {
+			allNotes: result.ranked.map(({ file }) => file),
+			additionalCount: result.additionalCount,
+			processingInfo: {
+				searchResultsCount: hits.length,
+				searchResultsWithEmbeddings: result.hitsWithEmbeddings,
+				similarNotesFound: result.additionalCount,
+				similarityThreshold: threshold,
+				matchedPassages: this.buildMatchedPassages(result.ranked),
+				hybridFusion: fusion,
+				hybridScores,
+				queryEmbedded: result.queryEmbedded,
+			},
+		};
+	}
+
+	// Keep the best-matching chunk for each note so the info modal can show why it matched
+	private buildMatchedPassages(results: SimilarNoteResult[]): Record<string, MatchedPassage> {
+		const passages: Record<string, MatchedPassage> = {};
+		for (const { file, similarity, passage } of results) {
+			if (!passage) continue;
+			passages[file.path] = {
+				heading: passage.heading,
+				excerpt: passage.preview,
+				offset: passage.offset,
+				similarity,
+			};
+		}
+		return passages;
+	}
+
 	// Create a hopscotch path: start with concept, then most similar to it, then most similar to that, etc.
 	private async createHopscotchPath(
 		conceptEmbedding: number[],
-		similarNotes: Array<{ file: TFile; similarity: number }>,
-		allCandidates: TFile[]
-	): Promise<TFile[]> {
-		const path: TFile[] = [];
+		similarNotes: SimilarNoteResult[],
+		allCandidates: TFile[],
+		threshold: number
+	): Promise<SimilarNoteResult[]> {
+		const path: SimilarNoteResult[] = [];
 		const usedFiles = new Set<string>();
 		
 		// Start with the most similar note to the concept
 		if (similarNotes.length > 0) {
 			const first = similarNotes[0];
-			path.push(first.file);
+			path.push(first);
 			usedFiles.add(first.file.path);
 		}
 
-		// Get embeddings for all candidates
 		const storageService = this.embeddingService.getStorageService();
-		const candidateEmbeddings = new Map<string, number[]>();
-		
-		for (const file of allCandidates) {
-			if (!usedFiles.has(file.path)) {
-				const embedding = await storageService.getEmbedding(file);
-				if (embedding) {
-					candidateEmbeddings.set(file.path, embedding);
-				}
-			}
-		}
+		const candidatePaths = new Set(allCandidates.map(f => f.path));
+		const isAvailable = (file: TFile) => candidatePaths.has(file.path) && !usedFiles.has(file.path);
 
 		// Build path: at each step, find the note most similar to the last note in the path
-		let currentEmbedding = conceptEmbedding;
+		let currentVectors: NoteVectors = { embedding: conceptEmbedding };
 		const maxPathLength = Math.min(50, similarNotes.length); // Limit path length
 		
-		while (path.length < maxPathLength && candidateEmbeddings.size > 0) {
-			let bestFile: TFile | null = null;
-			let bestSimilarity = -1;
-			let bestEmbedding: number[] | null = null;
-
-			// Find the note most similar to the current embedding
-			for (const [filePath, embedding] of candidateEmbeddings.entries()) {
-				const similarity = this.embeddingService.cosineSimilarity(currentEmbedding, embedding);
-				if (similarity > bestSimilarity) {
-					bestSimilarity = similarity;
-					const file = allCandidates.find((f: TFile) => f.path === filePath);
-					if (file) {
-						bestFile = file;
-						bestEmbedding = embedding;
-					}
-				}
-			}
-
-			if (bestFile && bestEmbedding && bestSimilarity >= (this.settings.embeddingSimilarityThreshold ?? 0.65)) {
-				path.push(bestFile);
-				usedFiles.add(bestFile.path);
-				candidateEmbeddings.delete(bestFile.path);
-				currentEmbedding = bestEmbedding; // Move to next note's embedding
+		while (path.length < maxPathLength) {
+			// Nearest unused candidate, comparing chunk against chunk
+			const [best] = await this.embeddingService.topK(currentVectors, 1, isAvailable);
+			const bestVectors = best ? storageService.getStoredEntry(best.file.path) : null;
+
+			if (best && bestVectors && best.similarity >= threshold) {
+				path.push(best);
+				usedFiles.add(best.file.path);
+				currentVectors = bestVectors; // Move to next note's vectors
 			} else {
 				break; // No more similar notes above threshold
 			}
@@ -4578,31 +4975,23 @@ export class CreateRegionCommands {
 	// Create a rolling path: aggregate all notes at each step, find most similar to aggregation
 	private async createRollingPath(
 		conceptEmbedding: number[],
-		similarNotes: Array<{ file: TFile; similarity: number }>,
-		allCandidates: TFile[]
-	): Promise<TFile[]> {
-		const path: TFile[] = [];
+		similarNotes: SimilarNoteResult[],
+		allCandidates: TFile[],
+		threshold: number
+	): Promise<SimilarNoteResult[]> {
+		const path: SimilarNoteResult[] = [];
 		const usedFiles = new Set<string>();
 		
 		// Start with the most similar note to the concept
 		if (similarNotes.length > 0) {
 			const first = similarNotes[0];
-			path.push(first.file);
+			path.push(first);
 			usedFiles.add(first.file.path);
 		}
 
-		// Get embeddings for all candidates
 		const storageService = this.embeddingService.getStorageService();
-		const candidateEmbeddings = new Map<string, number[]>();
-		
-		for (const file of allCandidates) {
-			if (!usedFiles.has(file.path)) {
-				const embedding = await storageService.getEmbedding(file);
-				if (embedding) {
-					candidateEmbeddings.set(file.path, embedding);
-				}
-			}
-		}
+		const candidatePaths = new Set(allCandidates.map(f => f.path));
+		const isAvailable = (file: TFile) => candidatePaths.has(file.path) && !usedFiles.has(file.path);
 
 		// Build path: at each step, aggregate all notes in path so far, find most similar to aggregation
 		const pathEmbeddings: number[][] = [conceptEmbedding]; // Start with concept embedding
@@ -4610,13 +4999,13 @@ export class CreateRegionCommands {
 		
 		// Get embedding for first note in path
 		if (path.length > 0) {
-			const firstEmbedding = await storageService.getEmbedding(path[0]);
-			if (firstEmbedding) {
-				pathEmbeddings.push(firstEmbedding);
+			const firstEntry = storageService.getStoredEntry(path[0].file.path);
+			if (firstEntry) {
+				pathEmbeddings.push(firstEntry.embedding);
 			}
 		}
 		
-		while (path.length < maxPathLength && candidateEmbeddings.size > 0) {
+		while (path.length < maxPathLength) {
 			// Aggregate all embeddings in the path so far (including concept)
 			const aggregatedEmbedding = this.embeddingService.calculateCentroid(pathEmbeddings);
 			
@@ -4624,28 +5013,14 @@ export class CreateRegionCommands {
 				break;
 			}
 
-			let bestFile: TFile | null = null;
-			let bestSimilarity = -1;
-			let bestEmbedding: number[] | null = null;
-
-			// Find the note most similar to the aggregated embedding
-			for (const [filePath, embedding] of candidateEmbeddings.entries()) {
-				const similarity = this.embeddingService.cosineSimilarity(aggregatedEmbedding, embedding);
-				if (similarity > bestSimilarity) {
-					bestSimilarity = similarity;
-					const file = allCandidates.find((f: TFile) => f.path === filePath);
-					if (file) {
-						bestFile = file;
-						bestEmbedding = embedding;
-					}
-				}
-			}
+			// Find the unused note whose chunks best match the aggregated embedding
+			const [best] = await this.embeddingService.topK(aggregatedEmbedding, 1, isAvailable);
+			const bestVectors = best ? storageService.getStoredEntry(best.file.path) : null;
 
-			if (bestFile && bestEmbedding && bestSimilarity >= (this.settings.embeddingSimilarityThreshold ?? 0.65)) {
-				path.push(bestFile);
-				usedFiles.add(bestFile.path);
-				candidateEmbeddings.delete(bestFile.path);
-				pathEmbeddings.push(bestEmbedding); // Add to aggregation for next step
+			if (best && bestVectors && best.similarity >= threshold) {
+				path.push(best);
+				usedFiles.add(best.file.path);
+				pathEmbeddings.push(bestVectors.embedding); // Add to aggregation for next step
 			} else {
 				break; // No more similar notes above threshold
 			}
@@ -4655,3 +5030,33 @@ export class CreateRegionCommands {
 	}
 }
 
+// Syntax hint and inline parse error under a search query input; the error updates as the user types
+function renderSearchQueryHelp(containerEl: HTMLElement, input: HTMLInputElement): HTMLElement {
+	const errorEl = containerEl.createDiv({ attr: { style: 'display: none; margin: -10px 0 10px 0; font-size: 0.85em; color: var(--text-error);' } });
+	containerEl.createDiv({
+		text: 'Supports "exact phrases", OR, (groups), -exclusions, tag:, path:, file:, line:, [property:value] and /regex/.',
+		attr: { style: 'margin: -5px 0 10px 0; font-size: 0.85em; color: var(--text-muted);' }
+	});
+	input.addEventListener('input', () => {
+		const text = input.value.trim();
+		if (text) {
+			showSearchQueryError(errorEl, text);
+		} else {
+			errorEl.style.display = 'none';
+		}
+	});
+	return errorEl;
+}
+
+// Parse the query, showing the error (with the position it points at) or hiding the error element
+function showSearchQueryError(errorEl: HTMLElement, text: string): SearchQueryNode | null {
+	const { query, error } = tryParseSearchQuery(text);
+	if (error) {
+		const near = text.substring(error.position, error.position + 15);
+		errorEl.setText(`${error.message} (at character ${error.position + 1}${near ? `: "${near}"` : ''})`);
+		errorEl.style.display = 'block';
+	} else {
+		errorEl.style.display = 'none';
+	}
+	return query;
+}
@@ -5,12 +5,27 @@ import { NoteService } from './services/noteService';
 import { OpenAIService } from './services/openAIService';
 import { LocalAIService } from './services/localAIService';
 import { EmbeddingService } from './services/embeddingService';
+import { EmbeddingJobService } from './services/embeddingJobService';
+import { LivingRegionService } from './services/livingRegionService';
+import { EmbeddingUpdateService } from './services/embeddingUpdateService';
+import { EmbeddingBundleService } from './services/embeddingBundleService';
+import { SearchIndexService } from './services/searchIndexService';
+import { HybridSearchService } from './services/hybridSearchService';
+import { RegionDiscoveryService } from './services/regionDiscoveryService';
+import { RegionAnalysisService } from './services/regionAnalysisService';
+import { isEmbeddingConfigured, parseEmbeddingModelId } from './services/embeddingProviders';
+import { applyPreprocessingSignature, isRawPipeline } from './services/embeddingPreprocessor';
+import { EmbeddingHealthReport } from './services/embeddingStorageService';
 import { TagAffinityCache } from './services/tagAffinityCache';
 import { JSONExportService } from './services/jsonExportService';
 import { CreateRegionCommands } from './commands/createRegionCommands';
-import { ThoughtlandsSettings, DEFAULT_SETTINGS } from './settings/thoughtlandsSettings';
+import { ThoughtlandsSettings, DEFAULT_SETTINGS, ChunkAggregation, EmbeddingProviderType, HybridFusionMethod, DiscoveryMethod, DiscoveryNaming } from './settings/thoughtlandsSettings';
 import { ThoughtlandsSidebarView, THOUGHTLANDS_VIEW_TYPE } from './views/thoughtlandsSidebarView';
+import { RegionOverlapView, REGION_OVERLAP_VIEW_TYPE } from './views/regionOverlapView';
 import { Region } from './models/region';
+import { EmbeddingHealthModal } from './ui/embeddingHealthModal';
+import { SimplePromptModal } from './ui/simplePromptModal';
+import { RegionSuggestModal } from './ui/regionSuggestModal';
 
 export interface RegionCreationStatus {
 	isCreating: boolean;
@@ -26,12 +41,17 @@ export default class ThoughtlandsPlugin extends Plugin {
 	openAIService: OpenAIService;
 	localAIService: LocalAIService;
 	embeddingService: EmbeddingService;
+	embeddingJobService: EmbeddingJobService;
+	livingRegionService: LivingRegionService;
+	embeddingUpdateService: EmbeddingUpdateService;
+	embeddingBundleService: EmbeddingBundleService;
+	searchIndexService: SearchIndexService;
+	hybridSearchService: HybridSearchService;
+	regionDiscoveryService: RegionDiscoveryService;
+	regionAnalysisService: RegionAnalysisService;
 	tagAffinityCache: TagAffinityCache;
 	jsonExportService: JSONExportService;
 	createRegionCommands: CreateRegionCommands;
-	private embeddingQueue: Array<{ file: TFile; isNew: boolean }> = [];
-	private isProcessingEmbeddingQueue: boolean = false;
-	private filesCurrentlyProcessing: Set<string> = new Set(); // Track files being processed to prevent duplicates
 	private isInitialized: boolean = false;
 	private regionCreationStatus: RegionCreationStatus = { isCreating: false };
 	private regionCreationStatusCallbacks: Set<() => void> = new Set();
@@ -49,7 +69,15 @@ export default class ThoughtlandsPlugin extends Plugin {
 		this.localAIService = new LocalAIService(this.app, this.settings);
 		// Pass plugin instance to EmbeddingService so it can use loadData/saveData
 		this.embeddingService = new EmbeddingService(this.app, this.settings, this);
-		this.canvasService = new CanvasService(this.app, this.embeddingService, this.localAIService, this.settings, this);
+		this.embeddingJobService = new EmbeddingJobService(this.app, this, this.embeddingService, this.settings, () => this.getEmbeddableFiles());
+		this.embeddingBundleService = new EmbeddingBundleService(this.app, this.embeddingService);
+		this.searchIndexService = new SearchIndexService(this.app, this);
+		this.hybridSearchService = new HybridSearchService(this.embeddingService, this.searchIndexService);
+		this.regionDiscoveryService = new RegionDiscoveryService(this.app, this.embeddingService, this.searchIndexService, this.noteService, this.settings);
+		this.regionAnalysisService = new RegionAnalysisService(this.app, this.embeddingService, this.regionService, this.noteService);
+		this.livingRegionService = new LivingRegionService(this.app, this.regionService, this.noteService, this.embeddingService, this.settings);
+		this.embeddingUpdateService = new EmbeddingUpdateService(this.app, this.settings, this.embeddingService, this.regionService, this.noteService, this.livingRegionService, () => this.onRegionUpdate());
+		this.canvasService = new CanvasService(this.app, this.embeddingService, this.settings, this);
 		this.jsonExportService = new JSONExportService(this.app, this.regionService);
 		this.createRegionCommands = new CreateRegionCommands(
 			this.app,
@@ -58,6 +86,9 @@ export default class ThoughtlandsPlugin extends Plugin {
 			this.openAIService,
 			this.localAIService,
 			this.embeddingService,
+			this.searchIndexService,
+			this.hybridSearchService,
+			this.regionDiscoveryService,
 			this.settings,
 			this
 		);
@@ -66,7 +97,7 @@ export default class ThoughtlandsPlugin extends Plugin {
 		await this.loadRegions();
 
 		// Load embeddings data on startup so completion checks work
-		if (this.settings.aiMode === 'local') {
+		if (isEmbeddingConfigured(this.settings)) {
 			await this.embeddingService.getStorageService().loadEmbeddings();
 		}
 
@@ -74,6 +105,8 @@ export default class ThoughtlandsPlugin extends Plugin {
 		setTimeout(() => {
 			this.isInitialized = true;
 			console.log('[Thoughtlands] Plugin initialized, file monitoring enabled');
+			// Pick up an embedding job interrupted when Obsidian last closed
+			this.resumeEmbeddingJob();
 		}, 2000); // 2 second delay to let Obsidian finish loading files
 
 		// Register sidebar view
@@ -89,6 +122,10 @@ export default class ThoughtlandsPlugin extends Plugin {
 				() => this.onRegionUpdate()
 			)
 		);
+		this.registerView(
+			REGION_OVERLAP_VIEW_TYPE,
+			(leaf) => new RegionOverlapView(leaf, this.regionService, this.regionAnalysisService)
+		);
 
 		// Add commands
 		this.addCommands();
@@ -101,11 +138,61 @@ export default class ThoughtlandsPlugin extends Plugin {
 			this.activateView();
 		});
 
+		// Build or catch up the search index once the vault has finished loading
+		this.app.workspace.onLayoutReady(() => {
+			this.searchIndexService.ready().catch(error => {
+				console.error('[Thoughtlands] Error building search index:', error);
+			});
+		});
+
+		// "More like this" actions in the editor and file explorer menus
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu, editor, info) => {
+				const file = info.file;
+				if (file && file.extension === 'md' && isEmbeddingConfigured(this.settings)) {
+					menu.addItem((item) => {
+						item.setTitle('More like this note')
+							.setIcon('map')
+							.onClick(() => this.createRegionFromNotes([file]));
+					});
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (file instanceof TFile && file.extension === 'md' && isEmbeddingConfigured(this.settings)) {
+					menu.addItem((item) => {
+						item.setTitle('More like this note')
+							.setIcon('map')
+							.onClick(() => this.createRegionFromNotes([file]));
+					});
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu, files) => {
+				const notes = files.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+				if (notes.length > 0 && isEmbeddingConfigured(this.settings)) {
+					menu.addItem((item) => {
+						item.setTitle(notes.length === 1 ? 'More like this note' : `More like these ${notes.length} notes`)
+							.setIcon('map')
+							.onClick(() => this.createRegionFromNotes(notes));
+					});
+				}
+			})
+		);
+
 		// Monitor file changes to update embeddings for new/edited files
 		// Use a queue to process files one at a time to avoid overwhelming Ollama
 		this.registerEvent(
 			this.app.vault.on('modify', (file) => {
-				if (file instanceof TFile && file.extension === 'md' && this.settings.aiMode === 'local') {
+				this.embeddingJobService.noteActivity();
+				if (file instanceof TFile) {
+					this.searchIndexService.markChanged(file);
+				}
+				if (file instanceof TFile && file.extension === 'md' && isEmbeddingConfigured(this.settings)) {
 					this.queueEmbeddingUpdate(file, false); // false = modified file
 				}
 			})
@@ -113,15 +200,52 @@ export default class ThoughtlandsPlugin extends Plugin {
 
 		this.registerEvent(
 			this.app.vault.on('create', (file) => {
-				if (file instanceof TFile && file.extension === 'md' && this.settings.aiMode === 'local') {
+				this.embeddingJobService.noteActivity();
+				if (file instanceof TFile) {
+					this.searchIndexService.markChanged(file);
+				}
+				if (file instanceof TFile && file.extension === 'md' && isEmbeddingConfigured(this.settings)) {
 					this.queueEmbeddingUpdate(file, true); // true = new file
 				}
 			})
 		);
+
+		// Keep embeddings, region note lists and canvases in step with renames and deletions
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (file instanceof TFile) {
+					this.searchIndexService.renamePath(oldPath, file.path);
+					this.handleFileRename(file, oldPath).catch(error => {
+						console.error(`[Thoughtlands] Error handling rename of ${oldPath}:`, error);
+					});
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (file instanceof TFile) {
+					this.searchIndexService.removePath(file.path);
+					this.handleFileDelete(file).catch(error => {
+						console.error(`[Thoughtlands] Error handling deletion of ${file.path}:`, error);
+					});
+				}
+			})
+		);
 	}
 
 	onunload() {
 		// Cleanup when plugin is unloaded
+		if (this.embeddingJobService) {
+			// Keeps the checkpoint so the job resumes on the next start
+			this.embeddingJobService.stop();
+		}
+		if (this.embeddingService) {
+			this.embeddingService.dispose();
+		}
+		if (this.searchIndexService) {
+			this.searchIndexService.flush();
+		}
 	}
 
 	async loadSettings() {
@@ -136,10 +260,37 @@ export default class ThoughtlandsPlugin extends Plugin {
 			if (!this.settings.ollamaUrl) this.settings.ollamaUrl = 'http://localhost:11434';
 			if (!this.settings.ollamaEmbeddingModel) this.settings.ollamaEmbeddingModel = 'nomic-embed-text';
 			if (!this.settings.ollamaChatModel) this.settings.ollamaChatModel = 'llama3.2';
+			// Existing local-mode users keep embedding with Ollama
+			if (!settingsData.embeddingProvider) this.settings.embeddingProvider = this.settings.aiMode === 'local' ? 'ollama' : 'openai';
+			if (!this.settings.openAIEmbeddingModel) this.settings.openAIEmbeddingModel = 'text-embedding-3-small';
+			if (!this.settings.compatibleBaseUrl) this.settings.compatibleBaseUrl = 'http://localhost:1234/v1';
+			if (this.settings.compatibleApiKey === undefined) this.settings.compatibleApiKey = '';
+			if (this.settings.compatibleEmbeddingModel === undefined) this.settings.compatibleEmbeddingModel = '';
 			if (!this.settings.includedPaths) this.settings.includedPaths = [];
 			if (!this.settings.includedTags) this.settings.includedTags = [];
 			if (!this.settings.embeddingSimilarityThreshold) this.settings.embeddingSimilarityThreshold = 0.65;
 			if (!this.settings.maxEmbeddingResults) this.settings.maxEmbeddingResults = 20;
+			if (!this.settings.chunkSize) this.settings.chunkSize = 1500;
+			if (!this.settings.maxChunksPerNote) this.settings.maxChunksPerNote = 20;
+			if (!this.settings.chunkAggregation) this.settings.chunkAggregation = 'max';
+			if (!this.settings.chunkTopK) this.settings.chunkTopK = 3;
+			if (!this.settings.hybridFusion) this.settings.hybridFusion = 'rrf';
+			if (this.settings.hybridLexicalWeight === undefined) this.settings.hybridLexicalWeight = 0.5;
+			if (!this.settings.discoveryMethod) this.settings.discoveryMethod = 'kmeans';
+			if (!this.settings.discoveryMinClusterSize) this.settings.discoveryMinClusterSize = 5;
+			if (!this.settings.discoveryDensitySimilarity) this.settings.discoveryDensitySimilarity = 0.75;
+			if (!this.settings.discoveryNaming) this.settings.discoveryNaming = 'keywords';
+			if (this.settings.updateCanvasesOnRename === undefined) this.settings.updateCanvasesOnRename = true;
+			if (!this.settings.embeddingConcurrency) this.settings.embeddingConcurrency = 1;
+			if (this.settings.embeddingMaxRequestsPerSecond === undefined) this.settings.embeddingMaxRequestsPerSecond = 5;
+			if (this.settings.embeddingOnlyWhenIdle === undefined) this.settings.embeddingOnlyWhenIdle = false;
+			if (this.settings.embeddingStripFrontmatter === undefined) this.settings.embeddingStripFrontmatter = false;
+			if (this.settings.embeddingDropCodeBlocks === undefined) this.settings.embeddingDropCodeBlocks = false;
+			if (this.settings.embeddingResolveEmbeds === undefined) this.settings.embeddingResolveEmbeds = false;
+			if (this.settings.embeddingPrependTitle === undefined) this.settings.embeddingPrependTitle = false;
+			if (this.settings.embeddingPrependHeadings === undefined) this.settings.embeddingPrependHeadings = false;
+			if (this.settings.embeddingPrependTags === undefined) this.settings.embeddingPrependTags = false;
+			if (this.settings.embeddingTaskPrefixes === undefined) this.settings.embeddingTaskPrefixes = false;
 		} else {
 			this.settings = Object.assign({}, DEFAULT_SETTINGS);
 		}
@@ -156,6 +307,11 @@ export default class ThoughtlandsPlugin extends Plugin {
 		data.ollamaUrl = this.settings.ollamaUrl;
 		data.ollamaEmbeddingModel = this.settings.ollamaEmbeddingModel;
 		data.ollamaChatModel = this.settings.ollamaChatModel;
+		data.embeddingProvider = this.settings.embeddingProvider;
+		data.openAIEmbeddingModel = this.settings.openAIEmbeddingModel;
+		data.compatibleBaseUrl = this.settings.compatibleBaseUrl;
+		data.compatibleApiKey = this.settings.compatibleApiKey;
+		data.compatibleEmbeddingModel = this.settings.compatibleEmbeddingModel;
 		data.ignoredTags = this.settings.ignoredTags;
 		data.ignoredPaths = this.settings.ignoredPaths;
 		data.includedPaths = this.settings.includedPaths;
@@ -164,6 +320,27 @@ export default class ThoughtlandsPlugin extends Plugin {
 		data.aiModel = this.settings.aiModel;
 		data.embeddingSimilarityThreshold = this.settings.embeddingSimilarityThreshold;
 		data.maxEmbeddingResults = this.settings.maxEmbeddingResults;
+		data.chunkSize = this.settings.chunkSize;
+		data.maxChunksPerNote = this.settings.maxChunksPerNote;
+		data.chunkAggregation = this.settings.chunkAggregation;
+		data.chunkTopK = this.settings.chunkTopK;
+		data.hybridFusion = this.settings.hybridFusion;
+		data.hybridLexicalWeight = this.settings.hybridLexicalWeight;
+		data.discoveryMethod = this.settings.discoveryMethod;
+		data.discoveryMinClusterSize = this.settings.discoveryMinClusterSize;
+		data.discoveryDensitySimilarity = this.settings.discoveryDensitySimilarity;
+		data.discoveryNaming = this.settings.discoveryNaming;
+		data.updateCanvasesOnRename = this.settings.updateCanvasesOnRename;
+		data.embeddingConcurrency = this.settings.embeddingConcurrency;
+		data.embeddingMaxRequestsPerSecond = this.settings.embeddingMaxRequestsPerSecond;
+		data.embeddingOnlyWhenIdle = this.settings.embeddingOnlyWhenIdle;
+		data.embeddingStripFrontmatter = this.settings.embeddingStripFrontmatter;
+		data.embeddingDropCodeBlocks = this.settings.embeddingDropCodeBlocks;
+		data.embeddingResolveEmbeds = this.settings.embeddingResolveEmbeds;
+		data.embeddingPrependTitle = this.settings.embeddingPrependTitle;
+		data.embeddingPrependHeadings = this.settings.embeddingPrependHeadings;
+		data.embeddingPrependTags = this.settings.embeddingPrependTags;
+		data.embeddingTaskPrefixes = this.settings.embeddingTaskPrefixes;
 		
 		// Preserve regions if they exist (don't overwrite)
 		if (existingData?.regions && Array.isArray(existingData.regions)) {
@@ -188,6 +365,18 @@ export default class ThoughtlandsPlugin extends Plugin {
 		if (this.embeddingService) {
 			this.embeddingService.updateSettings(this.settings);
 		}
+		if (this.embeddingJobService) {
+			this.embeddingJobService.updateSettings(this.settings);
+		}
+		if (this.livingRegionService) {
+			this.livingRegionService.updateSettings(this.settings);
+		}
+		if (this.embeddingUpdateService) {
+			this.embeddingUpdateService.updateSettings(this.settings);
+		}
+		if (this.regionDiscoveryService) {
+			this.regionDiscoveryService.updateSettings(this.settings);
+		}
 		// Update commands with new settings
 		if (this.createRegionCommands) {
 			this.createRegionCommands.updateSettings(this.settings);
@@ -211,6 +400,8 @@ export default class ThoughtlandsPlugin extends Plugin {
 	}
 
 	async saveRegions() {
+		// Combined regions follow changes to the regions they are built from
+		this.regionService.recomputeCombinedRegions();
 		const regions = this.regionService.getRegions();
 		// Save regions along with settings to preserve both
 		const existingData = await this.loadData();
@@ -249,6 +440,11 @@ export default class ThoughtlandsPlugin extends Plugin {
 				leaf.view.render();
 			}
 		});
+		this.app.workspace.getLeavesOfType(REGION_OVERLAP_VIEW_TYPE).forEach(leaf => {
+			if (leaf.view instanceof RegionOverlapView) {
+				leaf.view.refresh();
+			}
+		});
 	}
 
 	getRegionCreationStatus(): RegionCreationStatus {
@@ -281,8 +477,8 @@ export default class ThoughtlandsPlugin extends Plugin {
 			},
 		});
 
-		// Create Region from Search Results + AI Analysis (only if local model is active)
-		if (this.settings.aiMode === 'local') {
+		// Create Region from Search Results + AI Analysis (only if an embedding provider is configured)
+		if (isEmbeddingConfigured(this.settings)) {
 		this.addCommand({
 				id: 'create-region-from-search-ai-analysis',
 				name: 'Create Region from Search Results + AI Analysis',
@@ -302,8 +498,8 @@ export default class ThoughtlandsPlugin extends Plugin {
 			},
 		});
 
-		// Create Region from Semantic Similarity Analysis (only if local mode enabled)
-		if (this.settings.aiMode === 'local') {
+		// Create Region from Semantic Similarity Analysis (only if an embedding provider is configured)
+		if (isEmbeddingConfigured(this.settings)) {
 			this.addCommand({
 				id: 'create-region-from-semantic-similarity',
 				name: 'Create Region from Semantic Similarity Analysis',
@@ -312,8 +508,88 @@ export default class ThoughtlandsPlugin extends Plugin {
 					await this.onRegionUpdate();
 				},
 			});
+
+			// Notes like some examples and unlike others
+			this.addCommand({
+				id: 'create-region-from-example-notes',
+				name: 'Create Region from Example Notes',
+				callback: async () => {
+					await this.createRegionCommands.createRegionFromExemplars();
+					await this.onRegionUpdate();
+				},
+			});
+
+			// More like the note being viewed (several notes: file explorer context menu)
+			this.addCommand({
+				id: 'create-region-more-like-this',
+				name: 'Create Region: More Like This Note',
+				checkCallback: (checking: boolean) => {
+					const file = this.app.workspace.getActiveFile();
+					if (!file || file.extension !== 'md') {
+						return false;
+					}
+					if (!checking) {
+						this.createRegionFromNotes([file]);
+					}
+					return true;
+				},
+			});
 		}
 
+		// Cluster the vault into proposed regions (only if an embedding provider is configured)
+		if (isEmbeddingConfigured(this.settings)) {
+			this.addCommand({
+				id: 'discover-regions',
+				name: 'Discover Regions',
+				callback: async () => {
+					await this.createRegionCommands.discoverRegions();
+					await this.onRegionUpdate();
+				},
+			});
+
+			this.addCommand({
+				id: 'split-region',
+				name: 'Split Region into Sub-regions',
+				callback: () => {
+					const regions = this.regionService.getRegions().filter(region => !region.archived);
+					if (regions.length === 0) {
+						new Notice('No regions to split.');
+						return;
+					}
+					new RegionSuggestModal(this.app, regions, 'Choose a region to split...', async (region) => {
+						await this.createRegionCommands.splitRegion(region);
+					}).open();
+				},
+			});
+		}
+
+		// How regions relate: overlap heatmap, region pairs and bridge notes
+		this.addCommand({
+			id: 'show-region-overlap',
+			name: 'Show Region Overlap',
+			callback: () => {
+				this.activateOverlapView();
+			},
+		});
+
+		// Merge regions into one, keeping where each note came from
+		this.addCommand({
+			id: 'merge-regions',
+			name: 'Merge Regions',
+			callback: async () => {
+				await this.createRegionCommands.mergeRegions();
+			},
+		});
+
+		// Combine existing regions with a set operation
+		this.addCommand({
+			id: 'combine-regions',
+			name: 'Combine Regions',
+			callback: async () => {
+				await this.createRegionCommands.createCombinedRegion();
+			},
+		});
+
 		// Create Region from AI Concept Search (register if OpenAI key or local mode enabled)
 		const showAICommand = (this.settings.aiMode === 'openai' && this.settings.openAIApiKey && this.settings.openAIApiKey.trim().length > 0) ||
 		                      (this.settings.aiMode === 'local');
@@ -343,6 +619,41 @@ export default class ThoughtlandsPlugin extends Plugin {
 			},
 		});
 
+		// Export / Import Embeddings Bundle
+		this.addCommand({
+			id: 'export-embeddings-bundle',
+			name: 'Export Embeddings Bundle',
+			callback: () => {
+				new SimplePromptModal(this.app, 'Export embeddings to', 'Bundle path in the vault', async (path) => {
+					if (path.trim()) {
+						await this.exportEmbeddingsBundle(path.trim());
+					}
+				}, this.embeddingBundleService.getDefaultBundlePath()).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'import-embeddings-bundle',
+			name: 'Import Embeddings Bundle',
+			callback: () => {
+				const newest = this.embeddingBundleService.findBundles()[0];
+				new SimplePromptModal(this.app, 'Import embeddings from', 'Bundle path in the vault', async (path) => {
+					if (path.trim()) {
+						await this.importEmbeddingsBundle(path.trim());
+					}
+				}, newest ? newest.path : this.embeddingBundleService.getDefaultBundlePath()).open();
+			},
+		});
+
+		// Embedding Health
+		this.addCommand({
+			id: 'show-embedding-health',
+			name: 'Show Embedding Health',
+			callback: () => {
+				new EmbeddingHealthModal(this.app, this).open();
+			},
+		});
+
 		// Open Thoughtlands Sidebar
 		this.addCommand({
 			id: 'open-thoughtlands-sidebar',
@@ -353,6 +664,17 @@ export default class ThoughtlandsPlugin extends Plugin {
 		});
 	}
 
+	// Start a "More like this" region from the given notes
+	private async createRegionFromNotes(files: TFile[]): Promise<void> {
+		try {
+			await this.createRegionCommands.createRegionFromNotes(files);
+			await this.onRegionUpdate();
+		} catch (error) {
+			console.error('[Thoughtlands] Error creating region from notes:', error);
+			new Notice(`Error creating region: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
 	async activateView() {
 		const { workspace } = this.app;
 
@@ -369,9 +691,22 @@ export default class ThoughtlandsPlugin extends Plugin {
 		}
 	}
 
-	async generateInitialEmbeddings(): Promise<void> {
+	// Open the region overlap view in the main area, or reveal it if it is already open
+	async activateOverlapView() {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(REGION_OVERLAP_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({ type: REGION_OVERLAP_VIEW_TYPE, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	// Notes in scope for embedding: ignore/include paths and tags
+	private getEmbeddableFiles(): TFile[] {
 		const allFiles = this.app.vault.getMarkdownFiles();
-		console.log(`[Thoughtlands] Starting embedding process. Total files in vault: ${allFiles.length}`);
+		console.log(`[Thoughtlands] Collecting notes to embed. Total files in vault: ${allFiles.length}`);
 		console.log(`[Thoughtlands] Current filter settings:`, {
 			includedPaths: this.settings.includedPaths,
 			ignoredPaths: this.settings.ignoredPaths,
@@ -383,7 +718,7 @@ export default class ThoughtlandsPlugin extends Plugin {
 		const filteredFiles = this.regionService.filterNotesByIgnores(allFiles);
 		
 		// Also filter by included tags if set
-		const finalFiles = filteredFiles.filter(file => {
+		return filteredFiles.filter(file => {
 			// Check included tags if set
 			if (this.settings.includedTags.length > 0) {
 				const fileCache = this.app.metadataCache.getFileCache(file);
@@ -402,15 +737,40 @@ export default class ThoughtlandsPlugin extends Plugin {
 			}
 			return true;
 		});
-		
-		new Notice(`Starting embedding process for ${finalFiles.length} notes...`);
-		
+	}
+
+	async generateInitialEmbeddings(): Promise<void> {
+		if (this.embeddingJobService.isActive()) {
+			// Already running in the background; a paused job is resumed
+			this.embeddingJobService.resume();
+			new Notice('Embedding job is already running');
+			return;
+		}
+
+		new Notice('Starting embedding process...');
+		await this.runEmbeddingJob();
+	}
+
+	private async resumeEmbeddingJob(): Promise<void> {
+		if (!isEmbeddingConfigured(this.settings) || this.embeddingJobService.isActive()) {
+			return;
+		}
+		if (!(await this.embeddingJobService.hasCheckpoint())) {
+			return;
+		}
+		new Notice('Resuming embedding process...');
+		await this.runEmbeddingJob();
+	}
+
+	private async runEmbeddingJob(): Promise<void> {
 		try {
-			await this.embeddingService.generateInitialEmbeddings(finalFiles, (progress) => {
+			const finished = await this.embeddingJobService.run((progress) => {
 				// Update status bar
 				this.updateEmbeddingProgress(progress);
 			});
-			new Notice(`Embedding process complete!`);
+			if (finished) {
+				new Notice(`Embedding process complete!`);
+			}
 			// Trigger sidebar re-render to show/hide UI elements
 			this.onRegionUpdate();
 		} catch (error) {
@@ -426,16 +786,91 @@ export default class ThoughtlandsPlugin extends Plugin {
 		// The settings tab will listen to progress updates
 	}
 
+	async exportEmbeddingsBundle(path: string): Promise<void> {
+		try {
+			const result = await this.embeddingBundleService.exportBundle(path);
+			new Notice(`Exported ${result.entryCount} embeddings (${result.model}) to ${result.path}`);
+		} catch (error) {
+			console.error('[Thoughtlands] Error exporting embeddings bundle:', error);
+			new Notice(`Error exporting embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Import a bundle exported on another machine. Entries whose fingerprint matches the local note
+	 * are reused; when the bundle is for the configured model, every note still missing a current
+	 * embedding (changed since the export, or not in the bundle) goes through the update queue.
+	 */
+	async importEmbeddingsBundle(path: string): Promise<void> {
+		let result;
+		try {
+			new Notice('Importing embeddings...');
+			result = await this.embeddingBundleService.importBundle(path);
+		} catch (error) {
+			console.error('[Thoughtlands] Error importing embeddings bundle:', error);
+			new Notice(`Error importing embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return;
+		}
+
+		const summary = `Imported ${result.reused} embeddings (${result.model}); ${result.mismatched.length} changed note${result.mismatched.length !== 1 ? 's' : ''} need re-embedding`;
+		if (!result.isTarget) {
+			new Notice(`${summary}. The bundle is for a different model or preprocessing; select it under Stored embeddings in settings to use it.`, 10000);
+		} else if (!this.embeddingService.isEmbeddingProcessComplete()) {
+			new Notice(`${summary}. Run "Generate Initial Embeddings" to embed the rest.`, 10000);
+		} else {
+			// The bundle didn't cover every note; embed the rest now so the build stays complete
+			const missing = await this.embeddingService.getStorageService().getMissingFiles(this.getEmbeddableFiles());
+			if (missing.length === 0) {
+				new Notice(`${summary}.`, 10000);
+			} else {
+				new Notice(`${summary}. Embedding ${missing.length} note${missing.length !== 1 ? 's' : ''}...`, 10000);
+				try {
+					const embedded = await this.retryEmbeddings(missing);
+					new Notice(`Embedded ${embedded} of ${missing.length} note${missing.length !== 1 ? 's' : ''} not covered by the bundle${embedded < missing.length ? '; see the embedding health panel for the rest' : ''}.`, 10000);
+				} catch (error) {
+					console.error('[Thoughtlands] Error embedding notes not covered by the bundle:', error);
+					new Notice(`Error embedding notes not covered by the bundle: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		}
+		this.onRegionUpdate();
+	}
+
+	// Per-file embedding state of every note, with notes filtered out by the settings reported as excluded
+	async getEmbeddingHealthReport(): Promise<EmbeddingHealthReport> {
+		return this.embeddingService.getStorageService().getHealthReport(this.noteService.getAllNotes(), this.getEmbeddableFiles());
+	}
+
+	// Re-embed the given notes now (health panel retry, bundle import), then re-score them against living regions
+	async retryEmbeddings(files: TFile[]): Promise<number> {
+		const embedded = await this.embeddingService.generateEmbeddingsBatch(files);
+		let regionsChanged = false;
+		for (const file of embedded.keys()) {
+			const changed = await this.livingRegionService.rescoreNote(file);
+			regionsChanged = regionsChanged || changed.length > 0;
+		}
+		if (regionsChanged) {
+			await this.onRegionUpdate();
+		}
+		return embedded.size;
+	}
+
+	// Keep notes out of embedding (and region creation) by adding them to the ignored paths
+	async excludeFromEmbeddings(paths: string[]): Promise<void> {
+		const ignored = new Set(this.settings.ignoredPaths.map(path => path.toLowerCase()));
+		for (const path of paths) {
+			if (!ignored.has(path.toLowerCase())) {
+				this.settings.ignoredPaths.push(path);
+			}
+		}
+		await this.saveSettings();
+		console.log(`[Thoughtlands] Excluded ${paths.length} note${paths.length !== 1 ? 's' : ''} from embedding`);
+	}
+
 	async deleteEmbeddings(): Promise<void> {
 		try {
-			const data = await this.loadData() || {};
-			delete data.embeddings;
-			await this.saveData(data);
-			// Clear the in-memory cache
-			const storageService = this.embeddingService.getStorageService();
-			storageService['embeddingsData'] = null;
-			// Force reload to ensure it's null
-			await storageService.loadEmbeddings();
+			// Removes the vector index files (and clears the in-memory cache)
+			await this.embeddingService.getStorageService().clearEmbeddings();
 			console.log('[Thoughtlands] Embeddings deleted');
 			// Trigger sidebar re-render to show pre-embeddings mode
 			this.onRegionUpdate();
@@ -445,168 +880,92 @@ export default class ThoughtlandsPlugin extends Plugin {
 		}
 	}
 
-	private queueEmbeddingUpdate(file: TFile, isNew: boolean): void {
-		// First check if file should be included/excluded (before any logging)
-		const filtered = this.regionService.filterNotesByIgnores([file]);
-		if (filtered.length === 0) {
-			// File is outside included paths or in ignored paths - silently skip
+	private async handleFileRename(file: TFile, oldPath: string): Promise<void> {
+		if (file.extension === 'canvas') {
+			const changed = this.regionService.renameCanvasPath(oldPath, file.path);
+			if (changed.length > 0) {
+				await this.onRegionUpdate();
+			}
 			return;
 		}
-
-		// Don't process files until plugin is fully initialized
-		// This prevents processing files that Obsidian fires 'create' events for on startup
-		if (!this.isInitialized) {
-			// Only log if file is in scope (already filtered above)
-			return; // Silent skip during initialization
+		if (file.extension !== 'md') {
+			return;
 		}
 
-		// Only process if embeddings are complete (initial build done)
-		if (!this.embeddingService.isEmbeddingProcessComplete()) {
-			return; // Silent skip if embeddings not complete
+		// Move the stored vectors to the new path (content is unchanged, so nothing is re-embedded)
+		if (isEmbeddingConfigured(this.settings)) {
+			await this.embeddingService.getStorageService().renameEmbedding(oldPath, file.path);
 		}
 
-		// Skip if file is currently being processed
-		if (this.filesCurrentlyProcessing.has(file.path)) {
-			console.log(`[Thoughtlands] Skipping ${file.path} - already being processed`);
+		const changed = this.regionService.renameNotePath(oldPath, file.path);
+		if (changed.length === 0) {
 			return;
 		}
+		console.log(`[Thoughtlands] Renamed ${oldPath} -> ${file.path} in ${changed.length} region${changed.length !== 1 ? 's' : ''}`);
 
-		// Check if file already has a current embedding (before queuing)
-		// This prevents unnecessary queueing
-		this.embeddingService.getStorageService().hasEmbedding(file).then(hasEmbedding => {
-			if (hasEmbedding) {
-				// File already has embedding, no need to queue
-				return;
-			}
-
-			// Add to queue if not already queued (check both queue and currently processing)
-			const alreadyQueued = this.embeddingQueue.some((item) => item.file.path === file.path);
-			if (!alreadyQueued && !this.filesCurrentlyProcessing.has(file.path)) {
-				this.embeddingQueue.push({ file, isNew });
+		if (this.settings.updateCanvasesOnRename) {
+			await this.rewriteRegionCanvases(changed, oldPath, file.path);
 		}
-		
-		// Start processing queue if not already processing
-		if (!this.isProcessingEmbeddingQueue) {
-			this.processEmbeddingQueue();
-		}
-		}).catch(error => {
-			console.warn(`[Thoughtlands] Error checking embedding for ${file.path}:`, error);
-			// On error, still queue it (safer to process than skip)
-			const alreadyQueued = this.embeddingQueue.some((item) => item.file.path === file.path);
-			if (!alreadyQueued && !this.filesCurrentlyProcessing.has(file.path)) {
-				this.embeddingQueue.push({ file, isNew });
-			}
-			
-			if (!this.isProcessingEmbeddingQueue) {
-				this.processEmbeddingQueue();
-			}
-		});
+		await this.onRegionUpdate();
 	}
 
-	private async processEmbeddingQueue(): Promise<void> {
-		if (this.isProcessingEmbeddingQueue) {
-			return; // Already processing
+	private async handleFileDelete(file: TFile): Promise<void> {
+		if (file.extension !== 'md') {
+			return;
 		}
-		
-		this.isProcessingEmbeddingQueue = true;
-		
-		while (this.embeddingQueue.length > 0) {
-			const item = this.embeddingQueue.shift();
-			if (!item) break;
-			
-			const { file, isNew } = item;
-			
-			// Skip if file is already being processed (double-check)
-			if (this.filesCurrentlyProcessing.has(file.path)) {
-				console.log(`[Thoughtlands] Skipping ${file.path} - already being processed (duplicate in queue)`);
-				continue;
-			}
-			
-			// Mark as currently processing
-			this.filesCurrentlyProcessing.add(file.path);
-			
-			try {
-				await this.updateEmbeddingForFile(file, isNew);
-			} catch (error) {
-				console.error(`[Thoughtlands] Error processing ${file.path} from queue:`, error);
-			} finally {
-				// Always remove from currently processing set
-				this.filesCurrentlyProcessing.delete(file.path);
-			}
-			
-			// Small delay between files to avoid overwhelming Ollama
-			if (this.embeddingQueue.length > 0) {
-				await new Promise(resolve => setTimeout(resolve, 500)); // 500ms delay between files
-			}
+
+		if (isEmbeddingConfigured(this.settings)) {
+			await this.embeddingService.getStorageService().removeEmbeddings([file.path]);
 		}
-		
-		this.isProcessingEmbeddingQueue = false;
-	}
+		// Drop any pending embedding work for the deleted note
+		this.embeddingUpdateService.cancel(file.path);
 
-	async updateEmbeddingForFile(file: TFile, isNew: boolean = false): Promise<void> {
-		// Only update if embeddings are complete (initial build done)
-		if (!this.embeddingService.isEmbeddingProcessComplete()) {
+		const changed = this.regionService.removeNotePath(file.path);
+		if (changed.length === 0) {
 			return;
 		}
+		console.log(`[Thoughtlands] Removed deleted note ${file.path} from ${changed.length} region${changed.length !== 1 ? 's' : ''}`);
 
-		// Double-check that file isn't being processed (defense in depth)
-		if (this.filesCurrentlyProcessing.has(file.path)) {
-			console.log(`[Thoughtlands] Skipping ${file.path} - already being processed`);
-			return;
+		if (this.settings.updateCanvasesOnRename) {
+			await this.rewriteRegionCanvases(changed, file.path, null);
 		}
+		await this.onRegionUpdate();
+	}
 
-		// Check if file already has a current embedding
-		const storageService = this.embeddingService.getStorageService();
-		const hasCurrentEmbedding = await storageService.hasEmbedding(file);
-		
-		// If file already has a current embedding, skip it (no need to regenerate)
-		if (hasCurrentEmbedding) {
-			console.log(`[Thoughtlands] Skipping ${file.path} - already has current embedding`);
-			return;
+	// Update file nodes in every canvas recorded on the affected regions (each canvas once)
+	private async rewriteRegionCanvases(regions: Region[], oldPath: string, newPath: string | null): Promise<void> {
+		const canvasPaths = new Set<string>();
+		for (const region of regions) {
+			for (const entry of region.canvases || []) {
+				canvasPaths.add(entry.path);
+			}
+			if (region.canvasPath) {
+				canvasPaths.add(region.canvasPath);
+			}
 		}
-		
-		// Log what we're doing
-		const fileType = isNew ? 'new' : 'modified';
-		console.log(`[Thoughtlands] Processing ${fileType} file: ${file.path}`);
-
-		// Check if file should be included/excluded
-		const filtered = this.regionService.filterNotesByIgnores([file]);
-		if (filtered.length === 0) {
-			console.log(`[Thoughtlands] Skipping ${file.path} (excluded by filters)`);
-			return; // File is excluded
-		}
-
-		// Check included tags if set
-		if (this.settings.includedTags.length > 0) {
-			const fileCache = this.app.metadataCache.getFileCache(file);
-			if (fileCache) {
-				const fileTags = this.noteService['extractTags'](fileCache);
-				const fileTagsLower = fileTags.map(ft => ft.toLowerCase());
-				const hasIncludedTag = fileTagsLower.some(fileTag =>
-					this.settings.includedTags.some(included =>
-						included.toLowerCase() === fileTag
-					)
-				);
-				if (!hasIncludedTag) {
-					console.log(`[Thoughtlands] Skipping ${file.path} (no included tags)`);
-					return; // File doesn't have included tags
-				}
+
+		for (const canvasPath of canvasPaths) {
+			try {
+				await this.canvasService.rewriteFileNodes(canvasPath, oldPath, newPath);
+			} catch (error) {
+				console.warn(`[Thoughtlands] Failed to update canvas ${canvasPath}:`, error);
 			}
 		}
+	}
 
-		try {
-			// Generate embedding for the file (this will update storage if hash changed)
-			await this.embeddingService.generateEmbeddingForFile(file);
-			// Only log if there's an error or in debug mode
-		} catch (error) {
-			console.warn(`[Thoughtlands] Failed to update embedding for ${file.path} (${fileType}):`, error);
+	private queueEmbeddingUpdate(file: TFile, isNew: boolean): void {
+		// Don't process files until plugin is fully initialized
+		// This prevents processing files that Obsidian fires 'create' events for on startup
+		if (!this.isInitialized) {
+			return; // Silent skip during initialization
 		}
+		this.embeddingUpdateService.enqueue(file, isNew);
 	}
 }
 
 class ThoughtlandsSettingTab extends PluginSettingTab {
 	plugin: ThoughtlandsPlugin;
-	ollamaStatusSetting?: Setting;
+	embeddingStatusSetting?: Setting;
 	embeddingProgressSetting?: Setting;
 	private progressUnsubscribe?: () => void;
 
@@ -625,28 +984,40 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 		this.embeddingProgressSetting.setDesc(progressText);
 	}
 
-	async checkOllamaStatus(): Promise<void> {
-		if (!this.ollamaStatusSetting) return;
+	async checkEmbeddingStatus(): Promise<void> {
+		if (!this.embeddingStatusSetting) return;
+
+		if (!isEmbeddingConfigured(this.plugin.settings)) {
+			this.embeddingStatusSetting.setDesc('Embedding provider not configured');
+			this.embeddingStatusSetting.descEl.style.color = 'var(--text-warning)';
+			return;
+		}
 
-		const status = await this.plugin.embeddingService.checkOllamaStatus();
+		const status = await this.plugin.embeddingService.checkEmbeddingStatus();
+		const providerNames: Record<EmbeddingProviderType, string> = {
+			'ollama': 'Ollama',
+			'openai': 'OpenAI',
+			'openai-compatible': 'Embedding server',
+		};
+		const providerName = providerNames[this.plugin.settings.embeddingProvider] || 'Embedding provider';
 		
 		let statusText = '';
 		let statusColor = '';
 		
 		if (status.available && status.modelInstalled) {
-			statusText = `✓ Ollama connected, model "${status.modelName}" available`;
+			statusText = `✓ ${providerName} connected, model "${status.modelName}" available`;
 			statusColor = 'var(--text-success)';
 		} else if (status.available && !status.modelInstalled) {
-			statusText = `⚠ Ollama connected, but model "${status.modelName}" not found`;
+			statusText = `⚠ ${providerName} connected, but model "${status.modelName}" not usable${status.error ? `: ${status.error}` : ''}`;
 			statusColor = 'var(--text-warning)';
 		} else {
-			statusText = `✗ Ollama not available: ${status.error || 'Connection failed'}`;
+			statusText = `✗ ${providerName} not available: ${status.error || 'Connection failed'}`;
 			statusColor = 'var(--text-error)';
 		}
 
-		this.ollamaStatusSetting.setDesc(statusText);
+		this.embeddingStatusSetting.setDesc(statusText);
 		// Update the desc element color if possible
-		const descEl = this.ollamaStatusSetting.descEl;
+		const descEl = this.embeddingStatusSetting.descEl;
 		if (descEl) {
 			descEl.style.color = statusColor;
 		}
@@ -675,24 +1046,43 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 					});
 			});
 
-		// Ollama Status
-		const ollamaStatusSetting = new Setting(containerEl)
-			.setName('Ollama Status')
-			.setDesc('Checking Ollama connection and model availability...')
+		// Embedding provider is chosen separately, so OpenAI chat users can embed with OpenAI (or a local server)
+		new Setting(containerEl)
+			.setName('Embedding Provider')
+			.setDesc('Backend used to embed notes for semantic similarity, search + AI analysis and canvas layouts')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('ollama', 'Ollama')
+					.addOption('openai', 'OpenAI')
+					.addOption('openai-compatible', 'OpenAI-compatible server (LM Studio, llama.cpp, vLLM)')
+					.setValue(this.plugin.settings.embeddingProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingProvider = value as EmbeddingProviderType;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		// Embedding Status
+		const embeddingStatusSetting = new Setting(containerEl)
+			.setName('Embedding Status')
+			.setDesc('Checking embedding provider connection and model availability...')
 			.addExtraButton(button => {
 				button.setIcon('refresh-cw')
 					.setTooltip('Refresh status')
 					.onClick(async () => {
-						await this.checkOllamaStatus();
+						await this.checkEmbeddingStatus();
 					});
 			});
 
 		// Store reference to update status
-		this.ollamaStatusSetting = ollamaStatusSetting;
-		this.checkOllamaStatus();
+		this.embeddingStatusSetting = embeddingStatusSetting;
+		this.checkEmbeddingStatus();
 
-		// Embedding Progress (only show if local mode)
-		if (this.plugin.settings.aiMode === 'local') {
+		const embeddingsConfigured = isEmbeddingConfigured(this.plugin.settings);
+
+		// Embedding Progress (only show if an embedding provider is configured)
+		if (embeddingsConfigured) {
 			const embeddingProgressSetting = new Setting(containerEl)
 				.setName('Embedding Progress')
 				.setDesc('No embedding process running');
@@ -742,7 +1132,7 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 		}
 
 		// Ollama Settings (only show if local mode)
-		if (this.plugin.settings.aiMode === 'local') {
+		if (this.plugin.settings.aiMode === 'local' || this.plugin.settings.embeddingProvider === 'ollama') {
 			new Setting(containerEl)
 				.setName('Ollama URL')
 				.setDesc('URL for Ollama API (default: http://localhost:11434)')
@@ -752,10 +1142,12 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 					text.onChange(async (value) => {
 						this.plugin.settings.ollamaUrl = value.trim() || 'http://localhost:11434';
 						await this.plugin.saveSettings();
-						await this.checkOllamaStatus();
+						await this.checkEmbeddingStatus();
 					});
 				});
+		}
 
+		if (this.plugin.settings.embeddingProvider === 'ollama') {
 			new Setting(containerEl)
 				.setName('Embedding Model')
 				.setDesc('Ollama model name for embeddings (e.g., nomic-embed-text)')
@@ -765,10 +1157,129 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 					text.onChange(async (value) => {
 						this.plugin.settings.ollamaEmbeddingModel = value.trim() || 'nomic-embed-text';
 						await this.plugin.saveSettings();
-						await this.checkOllamaStatus();
+						await this.checkEmbeddingStatus();
+					});
+				});
+		} else if (this.plugin.settings.embeddingProvider === 'openai') {
+			new Setting(containerEl)
+				.setName('OpenAI Embedding Model')
+				.setDesc('OpenAI model used to embed notes (uses the OpenAI API key)')
+				.addDropdown(dropdown => {
+					dropdown
+						.addOption('text-embedding-3-small', 'text-embedding-3-small')
+						.addOption('text-embedding-3-large', 'text-embedding-3-large')
+						.addOption('text-embedding-ada-002', 'text-embedding-ada-002')
+						.setValue(this.plugin.settings.openAIEmbeddingModel)
+						.onChange(async (value) => {
+							this.plugin.settings.openAIEmbeddingModel = value;
+							await this.plugin.saveSettings();
+							await this.checkEmbeddingStatus();
+						});
+				});
+		} else {
+			new Setting(containerEl)
+				.setName('Embedding Server URL')
+				.setDesc('Base URL of the OpenAI-compatible API, including /v1 (e.g., http://localhost:1234/v1 for LM Studio)')
+				.addText(text => {
+					text.setPlaceholder('http://localhost:1234/v1')
+						.setValue(this.plugin.settings.compatibleBaseUrl);
+					text.onChange(async (value) => {
+						this.plugin.settings.compatibleBaseUrl = value.trim();
+						await this.plugin.saveSettings();
+					});
+				});
+
+			new Setting(containerEl)
+				.setName('Embedding Server API Key')
+				.setDesc('Only needed if the server requires one')
+				.addText(text => {
+					text.setPlaceholder('(optional)')
+						.setValue(this.plugin.settings.compatibleApiKey);
+					text.inputEl.type = 'password';
+					text.onChange(async (value) => {
+						this.plugin.settings.compatibleApiKey = value.trim();
+						await this.plugin.saveSettings();
 					});
 				});
 
+			new Setting(containerEl)
+				.setName('Embedding Server Model')
+				.setDesc('Embedding model name as the server reports it (e.g., nomic-embed-text-v1.5)')
+				.addText(text => {
+					text.setPlaceholder('nomic-embed-text-v1.5')
+						.setValue(this.plugin.settings.compatibleEmbeddingModel);
+					text.onChange(async (value) => {
+						this.plugin.settings.compatibleEmbeddingModel = value.trim();
+						await this.plugin.saveSettings();
+					});
+				});
+		}
+
+		if (embeddingsConfigured) {
+			// Embeddings are kept per model, so switching back to a previous model needs no re-embedding
+			const storageService = this.plugin.embeddingService.getStorageService();
+			for (const space of storageService.getSpaces()) {
+				const status = space.isServing ? ' (answering queries)' : space.isTarget ? ' (building)' : '';
+				const spaceSetting = new Setting(containerEl)
+					.setName(`Stored embeddings: ${space.model}${status}`)
+					.setDesc(`${space.entryCount} notes, ${space.dimension ?? '?'} dimensions, ${isRawPipeline(space.preprocessing) ? 'raw text' : `preprocessed (${space.preprocessing})`}, ${space.lastFullBuild ? `complete (${new Date(space.lastFullBuild).toLocaleString()})` : 'incomplete'}`);
+				if (!space.isTarget) {
+					spaceSetting.addButton(button => {
+						button.setButtonText('Use')
+							.setTooltip('Switch the embedding model and preprocessing to this one')
+							.onClick(async () => {
+								const { provider, model } = parseEmbeddingModelId(space.model);
+								this.plugin.settings.embeddingProvider = provider;
+								if (provider === 'openai') {
+									this.plugin.settings.openAIEmbeddingModel = model;
+								} else if (provider === 'openai-compatible') {
+									this.plugin.settings.compatibleEmbeddingModel = model;
+								} else {
+									this.plugin.settings.ollamaEmbeddingModel = model;
+								}
+								applyPreprocessingSignature(this.plugin.settings, space.preprocessing);
+								await this.plugin.saveSettings();
+								this.display();
+							});
+					});
+				}
+				if (!space.isServing) {
+					spaceSetting.addButton(button => {
+						button.setButtonText('Delete')
+							.setWarning()
+							.onClick(async () => {
+								if (confirm(`Delete the stored embeddings for "${space.model}"?`)) {
+									await storageService.deleteSpace(space.key);
+									this.display();
+								}
+							});
+					});
+				}
+			}
+
+			new Setting(containerEl)
+				.setName('Embedding Health')
+				.setDesc('Coverage of the current embeddings, with notes that failed, were skipped or have stale embeddings. Retry or exclude them from there.')
+				.addButton(button => {
+					button.setButtonText('Open')
+						.onClick(() => {
+							new EmbeddingHealthModal(this.app, this.plugin).open();
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('Query Embedding Cache')
+				.setDesc('Embeddings of concept texts, search terms and canvas cards are kept (up to 1000, least recently used dropped first) so repeated queries don\'t call the embedding server again.')
+				.addButton(button => {
+					button.setButtonText('Clear')
+						.onClick(async () => {
+							await this.plugin.embeddingService.clearQueryCache();
+							new Notice('Query embedding cache cleared');
+						});
+				});
+		}
+
+		if (this.plugin.settings.aiMode === 'local') {
 			new Setting(containerEl)
 				.setName('Chat Model')
 				.setDesc('Ollama model name for tag analysis (e.g., llama3.2)')
@@ -780,7 +1291,9 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					});
 				});
+		}
 
+		if (embeddingsConfigured) {
 			new Setting(containerEl)
 				.setName('Embedding Similarity Threshold')
 				.setDesc('Minimum similarity (0-1) for notes to be considered relevant. Higher = more strict.')
@@ -810,13 +1323,233 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 						}
 					});
 				});
+
+			new Setting(containerEl)
+				.setName('Note Similarity From Chunks')
+				.setDesc('Notes are embedded in heading/paragraph-aware chunks. "Best passage" scores a note by its single most similar chunk; "Top-k average" averages its best few chunks, favouring notes that stay on topic.')
+				.addDropdown(dropdown => {
+					dropdown
+						.addOption('max', 'Best passage (max)')
+						.addOption('top-k-avg', 'Top-k average')
+						.setValue(this.plugin.settings.chunkAggregation)
+						.onChange(async (value) => {
+							this.plugin.settings.chunkAggregation = value as ChunkAggregation;
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+
+			if (this.plugin.settings.chunkAggregation === 'top-k-avg') {
+				new Setting(containerEl)
+					.setName('Top-k Chunks')
+					.setDesc('Number of best-matching chunks averaged per note.')
+					.addSlider(slider => {
+						slider
+							.setLimits(1, 10, 1)
+							.setValue(this.plugin.settings.chunkTopK)
+							.setDynamicTooltip()
+							.onChange(async (value) => {
+								this.plugin.settings.chunkTopK = value;
+								await this.plugin.saveSettings();
+							});
+					});
+			}
+
+			new Setting(containerEl)
+				.setName('Search + AI Ranking')
+				.setDesc('How Search + AI Analysis combines the keyword ranking (BM25 over note text) with similarity to the query and to the search results. Reciprocal rank fusion only uses positions in each ranking; a weighted sum mixes the scores themselves. Can be changed per region when creating it.')
+				.addDropdown(dropdown => {
+					dropdown
+						.addOption('rrf', 'Reciprocal rank fusion')
+						.addOption('weighted', 'Weighted sum')
+						.setValue(this.plugin.settings.hybridFusion)
+						.onChange(async (value) => {
+							this.plugin.settings.hybridFusion = value as HybridFusionMethod;
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+
+			if (this.plugin.settings.hybridFusion === 'weighted') {
+				new Setting(containerEl)
+					.setName('Keyword Weight')
+					.setDesc('Share of the keyword score in the weighted sum (0 = embeddings only, 1 = keywords only).')
+					.addSlider(slider => {
+						slider
+							.setLimits(0, 1, 0.05)
+							.setValue(this.plugin.settings.hybridLexicalWeight)
+							.setDynamicTooltip()
+							.onChange(async (value) => {
+								this.plugin.settings.hybridLexicalWeight = value;
+								await this.plugin.saveSettings();
+							});
+					});
+			}
+
+			new Setting(containerEl)
+				.setName('Discover Regions: Clustering')
+				.setDesc('How Discover Regions groups the embedded notes. K-means places every note in one of an automatically chosen number of groups; density-based clustering only groups notes with enough close neighbours and leaves the rest out.')
+				.addDropdown(dropdown => {
+					dropdown
+						.addOption('kmeans', 'K-means (automatic number of groups)')
+						.addOption('density', 'Density-based (leaves outliers out)')
+						.setValue(this.plugin.settings.discoveryMethod)
+						.onChange(async (value) => {
+							this.plugin.settings.discoveryMethod = value as DiscoveryMethod;
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('Discover Regions: Minimum Group Size')
+				.setDesc('Smallest group of notes proposed as a region or sub-region (when splitting a region). In density-based clustering, also the number of close neighbours a note needs to start a group.')
+				.addText(text => {
+					text.setPlaceholder('5')
+						.setValue(this.plugin.settings.discoveryMinClusterSize.toString());
+					text.inputEl.type = 'number';
+					text.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 2) {
+							this.plugin.settings.discoveryMinClusterSize = num;
+							await this.plugin.saveSettings();
+						}
+					});
+				});
+
+			if (this.plugin.settings.discoveryMethod === 'density') {
+				new Setting(containerEl)
+					.setName('Discover Regions: Neighbour Similarity')
+					.setDesc('How similar two notes must be to count as neighbours. Higher = smaller, tighter groups and more notes left out.')
+					.addSlider(slider => {
+						slider
+							.setLimits(0.5, 0.95, 0.01)
+							.setValue(this.plugin.settings.discoveryDensitySimilarity)
+							.setDynamicTooltip()
+							.onChange(async (value) => {
+								this.plugin.settings.discoveryDensitySimilarity = value;
+								await this.plugin.saveSettings();
+							});
+					});
+			}
+
+			new Setting(containerEl)
+				.setName('Discover Regions: Naming')
+				.setDesc('Name proposed regions after the words that set their notes apart from the rest of the vault, or ask the AI (slower; falls back to keywords when it fails).')
+				.addDropdown(dropdown => {
+					dropdown
+						.addOption('keywords', 'Distinctive keywords')
+						.addOption('ai', 'AI-generated names')
+						.setValue(this.plugin.settings.discoveryNaming)
+						.onChange(async (value) => {
+							this.plugin.settings.discoveryNaming = value as DiscoveryNaming;
+							await this.plugin.saveSettings();
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('Chunk Size')
+				.setDesc('Target number of characters per embedded chunk. Changes apply to notes embedded afterwards; use Delete & Rebuild to re-chunk everything.')
+				.addText(text => {
+					text.setPlaceholder('1500')
+						.setValue(this.plugin.settings.chunkSize.toString());
+					text.inputEl.type = 'number';
+					text.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 200) {
+							this.plugin.settings.chunkSize = num;
+							await this.plugin.saveSettings();
+						}
+					});
+				});
+
+			new Setting(containerEl)
+				.setName('Max Chunks Per Note')
+				.setDesc('Upper limit on chunks per note. Very long notes use larger chunks so they stay under this limit.')
+				.addText(text => {
+					text.setPlaceholder('20')
+						.setValue(this.plugin.settings.maxChunksPerNote.toString());
+					text.inputEl.type = 'number';
+					text.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.maxChunksPerNote = num;
+							await this.plugin.saveSettings();
+						}
+					});
+				});
+
+			new Setting(containerEl)
+				.setName('Embedding Concurrency')
+				.setDesc('Batched embedding requests sent in parallel while generating embeddings. Keep at 1 for Ollama on modest hardware.')
+				.addText(text => {
+					text.setPlaceholder('1')
+						.setValue(this.plugin.settings.embeddingConcurrency.toString());
+					text.inputEl.type = 'number';
+					text.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 1 && num <= 8) {
+							this.plugin.settings.embeddingConcurrency = num;
+							await this.plugin.saveSettings();
+						}
+					});
+				});
+
+			new Setting(containerEl)
+				.setName('Max Embedding Requests Per Second')
+				.setDesc('Caps how fast notes are embedded, to limit CPU use or stay within API rate limits. 0 = no cap.')
+				.addText(text => {
+					text.setPlaceholder('5')
+						.setValue(this.plugin.settings.embeddingMaxRequestsPerSecond.toString());
+					text.inputEl.type = 'number';
+					text.onChange(async (value) => {
+						const num = parseFloat(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.embeddingMaxRequestsPerSecond = num;
+							await this.plugin.saveSettings();
+						}
+					});
+				});
+
+			new Setting(containerEl)
+				.setName('Embed Only While Idle')
+				.setDesc('Hold the embedding job back until no notes have been edited for 30 seconds.')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.embeddingOnlyWhenIdle)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingOnlyWhenIdle = value;
+						await this.plugin.saveSettings();
+					}));
+
+			// Preprocessing stages; changing any of them starts a new embedding space (see Stored embeddings)
+			const preprocessingStages: Array<{ key: 'embeddingStripFrontmatter' | 'embeddingDropCodeBlocks' | 'embeddingResolveEmbeds' | 'embeddingPrependTitle' | 'embeddingPrependHeadings' | 'embeddingPrependTags' | 'embeddingTaskPrefixes'; name: string; desc: string }> = [
+				{ key: 'embeddingStripFrontmatter', name: 'Preprocess: Strip Frontmatter', desc: 'Leave YAML frontmatter out of the embedded text.' },
+				{ key: 'embeddingDropCodeBlocks', name: 'Preprocess: Drop Code Blocks', desc: 'Leave fenced code blocks out of the embedded text.' },
+				{ key: 'embeddingResolveEmbeds', name: 'Preprocess: Resolve Embeds', desc: 'Replace ![[note]] embeds with the embedded note\'s text; embedded images and other attachments are dropped.' },
+				{ key: 'embeddingPrependTitle', name: 'Preprocess: Prepend Title', desc: 'Start every chunk with the note title.' },
+				{ key: 'embeddingPrependHeadings', name: 'Preprocess: Prepend Heading', desc: 'Start every chunk with the heading it falls under.' },
+				{ key: 'embeddingPrependTags', name: 'Preprocess: Prepend Tags', desc: 'Start every chunk with the note\'s tags.' },
+				{ key: 'embeddingTaskPrefixes', name: 'Preprocess: Task Prefixes', desc: 'Add the document/query prefixes some models expect (nomic-embed-text: search_document: / search_query:, E5, mxbai, BGE, Arctic Embed).' },
+			];
+			for (const stage of preprocessingStages) {
+				new Setting(containerEl)
+					.setName(stage.name)
+					.setDesc(`${stage.desc} Changing this re-embeds notes; current embeddings keep answering queries until it finishes.`)
+					.addToggle(toggle => toggle
+						.setValue(this.plugin.settings[stage.key])
+						.onChange(async (value) => {
+							this.plugin.settings[stage.key] = value;
+							await this.plugin.saveSettings();
+							this.plugin.onRegionUpdate();
+						}));
+			}
 		}
 
-		// OpenAI Settings (only show if OpenAI mode)
-		if (this.plugin.settings.aiMode === 'openai') {
+		// OpenAI Settings (only show if OpenAI is used for chat or embeddings)
+		if (this.plugin.settings.aiMode === 'openai' || this.plugin.settings.embeddingProvider === 'openai') {
 			new Setting(containerEl)
 				.setName('OpenAI API Key')
-				.setDesc('Your OpenAI API key for AI concept search')
+				.setDesc('Your OpenAI API key for AI concept search and OpenAI embeddings')
 				.addText(text => {
 					text.setPlaceholder('sk-...')
 						.setValue(this.plugin.settings.openAIApiKey);
@@ -826,7 +1559,9 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					});
 				});
+		}
 
+		if (this.plugin.settings.aiMode === 'openai') {
 			new Setting(containerEl)
 				.setName('AI Model')
 				.setDesc('OpenAI model to use for concept search')
@@ -926,5 +1661,37 @@ class ThoughtlandsSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Search index
+		const indexStats = this.plugin.searchIndexService.getStats();
+		new Setting(containerEl)
+			.setName('Search Index')
+			.setDesc(`Words in ${indexStats.notes} notes are indexed so search regions don't read every note. The index is saved between sessions and kept up to date as notes change; rebuild it if search results look out of date.`)
+			.addButton(button => {
+				button.setButtonText('Rebuild')
+					.onClick(async () => {
+						button.setDisabled(true);
+						new Notice('Rebuilding search index...');
+						try {
+							const count = await this.plugin.searchIndexService.rebuild();
+							new Notice(`Search index rebuilt: ${count} notes`);
+						} catch (error) {
+							console.error('[Thoughtlands] Error rebuilding search index:', error);
+							new Notice(`Error rebuilding search index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+						}
+						this.display();
+					});
+			});
+
+		// Canvas maintenance
+		new Setting(containerEl)
+			.setName('Update Canvases on Rename/Delete')
+			.setDesc('When a note in a region is renamed or deleted, rewrite its file nodes in the canvases that region was added to. Deleted notes have their cards (and connections) removed.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.updateCanvasesOnRename)
+				.onChange(async (value) => {
+					this.plugin.settings.updateCanvasesOnRename = value;
+					await this.plugin.saveSettings();
+				}));
+
 	}
 }
@@ -1,10 +1,24 @@
-export type RegionMode = 'search' | 'concept';
+import { SearchQueryNode } from '../services/searchQuery';
+import { HybridFusionMethod, DiscoveryMethod } from '../settings/thoughtlandsSettings';
+
+export type RegionMode = 'search' | 'concept' | 'combined' | 'merged';
 
 export function getModeDisplayName(mode: RegionMode, region?: Region): string {
 	switch (mode) {
 		case 'search':
 			return 'Search';
+		case 'combined':
+			return region?.source.operation ? `Combined (${getSetOperationDisplayName(region.source.operation)})` : 'Combined';
+		case 'merged':
+			return 'Merged';
 		case 'concept':
+			if (region && isDiscoveredRegion(region)) {
+				return region.source.processingInfo!.discovery!.splitFrom ? 'Split' : 'Discovered';
+			}
+			if (region && isExemplarRegion(region)) {
+				const onlyPositive = !region.source.negativeNotes?.length && !region.source.processingInfo?.conceptText;
+				return onlyPositive ? 'More Like This' : 'Example Notes';
+			}
 			// Check if this is semantic similarity (has conceptText but no tag analysis)
 			if (region?.source?.processingInfo?.conceptText && 
 				!region.source.processingInfo.initialTags && 
@@ -22,8 +36,178 @@ export function getModeDisplayName(mode: RegionMode, region?: Region): string {
 	}
 }
 
+/**
+ * Whether a region's criteria can be re-checked one note at a time, which living regions need.
+ * Semantic similarity and example-note regions (except the path modes, whose order depends on
+ * the whole candidate set) and tag-based concept regions qualify; search regions depend on
+ * Obsidian's search results.
+ */
+export function supportsLiveMembership(region: Region): boolean {
+	if (region.mode !== 'concept') {
+		return false;
+	}
+	const info = region.source.processingInfo;
+	if (isExemplarRegion(region) || (info?.conceptText && !info.initialTags && !info.refinedTags)) {
+		const semanticMode = info?.semanticSimilarityMode;
+		return semanticMode !== 'hopscotch' && semanticMode !== 'rolling-path';
+	}
+	return !!region.source.tags && region.source.tags.length > 0;
+}
+
 export type SemanticSimilarityMode = 'walkabout' | 'hopscotch' | 'rolling-path' | 'crowd';
 
+// Regions whose query is built from example notes ("More like this" and positive/negative examples)
+export function isExemplarRegion(region: Region): boolean {
+	return region.mode === 'concept' && (!!region.source.seedNotes?.length || !!region.source.negativeNotes?.length);
+}
+
+// Regions proposed by Discover Regions (clusters of the vault's embedded notes)
+export function isDiscoveredRegion(region: Region): boolean {
+	return region.mode === 'concept' && !!region.source.processingInfo?.discovery;
+}
+
+// Regions made by merging other regions
+export function isMergedRegion(region: Region): boolean {
+	return region.mode === 'merged' && !!region.source.mergedRegions;
+}
+
+// Set operations for combining regions. Difference keeps the first region's notes that are in none of the others;
+// symmetric difference chains A △ B △ C, keeping the notes that are in an odd number of the regions
+// (for two regions, the notes in exactly one)
+export type RegionSetOperation = 'union' | 'intersection' | 'difference' | 'symmetric-difference';
+
+// Regions built from other regions with a set operation
+export function isCombinedRegion(region: Region): boolean {
+	return region.mode === 'combined' && !!region.source.operation && !!region.source.operandIds;
+}
+
+export function getSetOperationDisplayName(operation: RegionSetOperation): string {
+	switch (operation) {
+		case 'union':
+			return 'Union';
+		case 'intersection':
+			return 'Intersection';
+		case 'difference':
+			return 'Difference';
+		case 'symmetric-difference':
+			return 'Symmetric Difference';
+	}
+}
+
+export function getSetOperationSymbol(operation: RegionSetOperation): string {
+	switch (operation) {
+		case 'union':
+			return '∪';
+		case 'intersection':
+			return '∩';
+		case 'difference':
+			return '−';
+		case 'symmetric-difference':
+			return '△';
+	}
+}
+
+// The notes of a combination, in the order they first appear in the operands
+export function combineRegionNotes(operation: RegionSetOperation, operands: string[][]): string[] {
+	if (operands.length === 0) {
+		return [];
+	}
+	const counts: Map<string, number> = new Map(); // Operands each note is in
+	for (const notes of operands) {
+		for (const path of new Set(notes)) {
+			counts.set(path, (counts.get(path) || 0) + 1);
+		}
+	}
+	const ordered = Array.from(counts.keys());
+
+	switch (operation) {
+		case 'union':
+			return ordered;
+		case 'intersection':
+			return ordered.filter(path => counts.get(path) === operands.length);
+		case 'difference': {
+			const others = new Set(operands.slice(1).flat());
+			return Array.from(new Set(operands[0])).filter(path => !others.has(path));
+		}
+		case 'symmetric-difference':
+			return ordered.filter(path => counts.get(path)! % 2 === 1);
+	}
+}
+
+// Example notes (and optional concept text) a region's query is built from
+export interface ExemplarSet {
+	positiveNotes: string[]; // Results should be like these
+	negativeNotes: string[]; // ...and unlike these
+	conceptText?: string;
+}
+
+export function getRegionExemplars(region: Region): ExemplarSet {
+	return {
+		positiveNotes: region.source.seedNotes ? [...region.source.seedNotes] : [],
+		negativeNotes: region.source.negativeNotes ? [...region.source.negativeNotes] : [],
+		conceptText: region.source.processingInfo?.conceptText,
+	};
+}
+
+// Display text for a region's example notes
+export function describeSeedNotes(seedNotes: string[]): string {
+	const names = seedNotes.map(path => (path.split('/').pop() || path).replace(/\.md$/, ''));
+	return names.length <= 3 ? names.join(', ') : `${names.slice(0, 3).join(', ')} and ${names.length - 3} more`;
+}
+
+// The chunk of a note that produced its similarity score
+export interface MatchedPassage {
+	heading?: string; // Nearest heading above the passage
+	excerpt: string; // Start of the passage text
+	offset: number; // Character offset of the passage within the note
+	similarity: number;
+}
+
+// Fusion used to rank a Search + AI Analysis region, kept so a re-run ranks the same way
+export interface HybridFusionOptions {
+	method: HybridFusionMethod;
+	lexicalWeight: number; // Share of the keyword score (weighted sum only)
+}
+
+// Why a note ranked where it did in a Search + AI Analysis region
+export interface HybridNoteScore {
+	rank: number; // 1-based position in the fused ranking
+	fused: number; // Reciprocal rank fusion or weighted score
+	searchHit: boolean; // Matched the search query itself (always kept)
+	bm25?: number; // Keyword score over the note text
+	lexicalRank?: number;
+	matchedWords?: string[]; // Query words found in the note
+	querySimilarity?: number; // Similarity to the embedded query text
+	queryRank?: number;
+	centroidSimilarity?: number; // Similarity to the centroid of the search results
+	centroidRank?: number;
+}
+
+// How a discovered region's cluster was found
+export interface RegionDiscoveryInfo {
+	method: DiscoveryMethod;
+	keywords: string[]; // Words that set the cluster's notes apart from the rest of the vault
+	tags?: string[]; // Tags shared by many of the cluster's notes
+	cohesion: number; // Mean similarity of the notes to the cluster centre
+	clusterCount: number; // Clusters proposed in the same run
+	notesClustered: number; // Embedded notes considered in the run
+	unassignedCount: number; // Notes left out of every proposal (noise or too-small clusters)
+	aiNamed?: boolean; // Name suggested by the AI rather than taken from the keywords
+	mergedFrom?: number; // Number of proposals merged into this one during review
+	splitFrom?: string; // Name of the region whose notes were clustered (Split region) rather than the vault
+}
+
+// A region as it was when merged into another, kept as provenance
+export interface MergedRegionInfo {
+	id: string;
+	name: string;
+	color: string;
+	mode: RegionMode;
+	source: RegionSource;
+	noteCount: number;
+	kept: boolean; // Kept as a sub-region of the merged region rather than deleted
+}
+
 export interface ConceptProcessingInfo {
 	initialTags?: string[]; // Tags from first AI prompt (validated)
 	refinedTags?: string[]; // Tags after second pass with note excerpts (validated)
@@ -39,20 +223,105 @@ export interface ConceptProcessingInfo {
 	searchResultsCount?: number; // Number of search results found
 	searchResultsWithEmbeddings?: number; // Number of search results that had embeddings
 	similarNotesFound?: number; // Number of similar notes found via embedding analysis
+	hybridFusion?: HybridFusionOptions; // How keyword and embedding rankings were combined
+	hybridScores?: Record<string, HybridNoteScore>; // Per-note fused score and its components
+	queryEmbedded?: boolean; // Whether the query text itself was embedded (false for operator-only queries)
 	// Semantic Similarity Analysis specific fields
 	conceptText?: string; // The concept text used for semantic similarity analysis
 	semanticSimilarityMode?: SemanticSimilarityMode; // Output mode for semantic similarity arrangement
+	matchedPassages?: Record<string, MatchedPassage>; // Best-matching passage per note path (chunked embeddings)
+	// Discover Regions specific fields
+	discovery?: RegionDiscoveryInfo;
 }
 
 export interface RegionSource {
-	type: 'search' | 'tags' | 'concept';
+	type: 'search' | 'tags' | 'concept' | 'combined' | 'merged';
 	query?: string;
+	parsedQuery?: SearchQueryNode; // Parsed form of the search query, re-used as-is when the region is re-run
 	tags?: string[];
 	concepts?: string[];
+	seedNotes?: string[]; // Positive example notes ("More like this"); their embeddings build the query
+	negativeNotes?: string[]; // Negative example notes; the query is pushed away from them
+	operation?: RegionSetOperation; // Combined regions: how the operands are combined
+	operandIds?: string[]; // Combined regions: ids of the regions combined, in order (difference subtracts the rest from the first)
+	autoRecompute?: boolean; // Combined regions: recompute the notes whenever an operand's notes change
+	mergedRegions?: MergedRegionInfo[]; // Merged regions: the regions merged, in order
+	noteOrigins?: Record<string, string[]>; // Merged regions: note path → ids of the merged regions it came from
 	aiMode?: 'local' | 'openai'; // Which AI was used for concept regions
 	processingInfo?: ConceptProcessingInfo; // Processing narrative for concept regions
 }
 
+// A membership change found by re-scoring a note against a live region's criteria
+export interface LiveRegionChange {
+	path: string;
+	change: 'add' | 'remove';
+	similarity?: number; // Score against the region's criteria (embedding-based regions)
+	passage?: MatchedPassage; // Best-matching passage, kept for the region once an addition is accepted
+	detectedAt: string;
+	status: 'pending' | 'accepted' | 'dismissed';
+	resolvedAt?: string;
+}
+
+export interface LiveRegionState {
+	enabled: boolean;
+	enabledAt: string;
+	changes: LiveRegionChange[]; // Change log, oldest first
+}
+
+// The criteria a region's membership was computed with
+export interface RegionSnapshotParams {
+	mode: RegionMode;
+	semanticSimilarityMode?: SemanticSimilarityMode;
+	similarityThreshold?: number;
+	query?: string;
+	conceptText?: string;
+	concepts?: string[];
+	seedNotes?: string[];
+	negativeNotes?: string[];
+	tags?: string[];
+	operation?: RegionSetOperation;
+	operandIds?: string[];
+}
+
+// A version of a region's membership, recorded on every re-run, accepted live refresh, revert and combined-region recompute
+export interface RegionSnapshot {
+	version: number; // 1 for the first recorded state, increasing by one per snapshot
+	createdAt: string;
+	trigger: 'initial' | 'rerun' | 'live-refresh' | 'revert' | 'recompute';
+	params: RegionSnapshotParams;
+	notes: string[];
+	passages?: Record<string, MatchedPassage>; // Matched passage (and similarity) per note at the time
+	revertedTo?: number; // Version restored by a revert
+}
+
+export interface RegionSnapshotDiff {
+	added: string[];
+	removed: string[];
+	changed: Array<{ path: string; before: number; after: number; delta: number }>; // Similarity deltas for notes in both versions
+}
+
+// Compare two snapshots of the same region. Similarity deltas are sorted largest change first.
+export function diffRegionSnapshots(from: RegionSnapshot, to: RegionSnapshot): RegionSnapshotDiff {
+	const fromNotes = new Set(from.notes);
+	const toNotes = new Set(to.notes);
+	const changed: RegionSnapshotDiff['changed'] = [];
+
+	for (const path of to.notes) {
+		const before = from.passages?.[path]?.similarity;
+		const after = to.passages?.[path]?.similarity;
+		if (fromNotes.has(path) && before !== undefined && after !== undefined && Math.abs(after - before) >= 0.0005) {
+			changed.push({ path, before, after, delta: after - before });
+		}
+	}
+	changed.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+	return {
+		added: to.notes.filter(path => !fromNotes.has(path)),
+		removed: from.notes.filter(path => !toNotes.has(path)),
+		changed,
+	};
+}
+
 export interface CanvasEntry {
 	path: string;
 	addedAt: string;
@@ -72,6 +341,9 @@ export interface Region {
 	canvases?: CanvasEntry[]; // Array of canvas entries with timestamps
 	similarityThreshold?: number; // Region-specific similarity threshold (overrides global setting)
 	archived?: boolean; // Whether the region is archived
+	live?: LiveRegionState; // Re-score new and modified notes against the region's criteria
+	history?: RegionSnapshot[]; // Membership versions, oldest first
+	parentId?: string; // Region this one was split from or merged into; shown nested under it in the sidebar
 }
 
 export interface RegionsData {
@@ -1,7 +1,8 @@
 import { App, TFile, Plugin } from 'obsidian';
-import { Region } from '../models/region';
+import { Region, isExemplarRegion, isDiscoveredRegion, isCombinedRegion, isMergedRegion, getRegionExemplars, describeSeedNotes } from '../models/region';
 import { EmbeddingService } from './embeddingService';
-import { LocalAIService } from './localAIService';
+import { NoteVectors } from './embeddingStorageService';
+import { LLMClient, createLLMClient, isLLMConfigured, cleanSummary } from './llmClient';
 import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
 
 // Canvas data structures
@@ -41,16 +42,58 @@ interface CanvasData {
 export class CanvasService {
 	private app: App;
 	private embeddingService?: EmbeddingService;
-	private localAIService?: LocalAIService;
 	private settings?: ThoughtlandsSettings;
 	private plugin?: Plugin;
+	private llmClient?: LLMClient; // Fixed chat client; otherwise one is created for the current AI mode
 
-	constructor(app: App, embeddingService?: EmbeddingService, localAIService?: LocalAIService, settings?: ThoughtlandsSettings, plugin?: Plugin) {
+	constructor(app: App, embeddingService?: EmbeddingService, settings?: ThoughtlandsSettings, plugin?: Plugin, llmClient?: LLMClient) {
 		this.app = app;
 		this.embeddingService = embeddingService;
-		this.localAIService = localAIService;
 		this.settings = settings;
 		this.plugin = plugin;
+		this.llmClient = llmClient;
+	}
+
+	/**
+	 * Rewrite file nodes in a canvas after a note was renamed (newPath) or deleted (newPath = null).
+	 * Deleted notes have their nodes and any edges attached to them removed.
+	 * Returns true if the canvas was modified.
+	 */
+	async rewriteFileNodes(canvasPath: string, oldPath: string, newPath: string | null): Promise<boolean> {
+		const canvasFile = this.app.vault.getAbstractFileByPath(canvasPath);
+		if (!(canvasFile instanceof TFile)) {
+			return false;
+		}
+
+		let canvas: CanvasData;
+		try {
+			canvas = JSON.parse(await this.app.vault.read(canvasFile));
+		} catch (error) {
+			console.warn(`[Thoughtlands:CanvasService] Could not parse canvas ${canvasPath}:`, error);
+			return false;
+		}
+		if (!canvas.nodes) {
+			return false;
+		}
+
+		const matching = canvas.nodes.filter(node => node.type === 'file' && node.file === oldPath);
+		if (matching.length === 0) {
+			return false;
+		}
+
+		if (newPath) {
+			for (const node of matching) {
+				node.file = newPath;
+			}
+		} else {
+			const removedIds = new Set(matching.map(node => node.id));
+			canvas.nodes = canvas.nodes.filter(node => !removedIds.has(node.id));
+			canvas.edges = (canvas.edges || []).filter(edge => !removedIds.has(edge.fromNode) && !removedIds.has(edge.toNode));
+		}
+
+		await this.app.vault.modify(canvasFile, JSON.stringify(canvas, null, '\t'));
+		console.log(`[Thoughtlands:CanvasService] ${newPath ? 'Updated' : 'Removed'} ${matching.length} node${matching.length !== 1 ? 's' : ''} for ${oldPath} in ${canvasPath}`);
+		return true;
 	}
 
 	async addRegionToCanvas(canvasFile: TFile, region: Region, isNewCanvas: boolean = false, drawConnections: boolean = false, card?: { text: string; color: string; clustering?: number; crowdLayout?: 'regiment' | 'gaggle' }, arrangeBySimilarity: boolean = false, clustering?: number): Promise<{ path: string; isNew: boolean } | null> {
@@ -149,7 +192,29 @@ export class CanvasService {
 				let centerEmbedding: number[] | null = null;
 				let centerText = '';
 				
-				if (card) {
+				let exemplarQuery = null;
+				let clusterCentroid: number[] | null = null;
+				if (isExemplarRegion(region)) {
+					try {
+						exemplarQuery = await this.embeddingService.buildExemplarQuery(getRegionExemplars(region));
+					} catch (error) {
+						console.warn('[Thoughtlands:CanvasService] Failed to build query from example notes:', error);
+					}
+				} else if (isDiscoveredRegion(region) || isCombinedRegion(region) || isMergedRegion(region)) {
+					clusterCentroid = (await this.embeddingService.getNotesCentroid(region.notes))?.centroid ?? null;
+				}
+				
+				if (exemplarQuery) {
+					// Example-note region: the query built from the examples is the center, the card only labels it
+					centerText = card ? card.text : (region.source.processingInfo?.conceptText || `More like: ${describeSeedNotes(exemplarQuery.positiveNotes)}`);
+					centerEmbedding = exemplarQuery.vector;
+					console.log(`[Thoughtlands:CanvasService] Using example-note query (${exemplarQuery.positiveNotes.length} like, ${exemplarQuery.negativeNotes.length} unlike) as center`);
+				} else if (clusterCentroid) {
+					// Discovered, combined or merged region: the centre of its notes is the center
+					centerText = card ? card.text : (region.source.processingInfo?.discovery?.keywords.join(', ') || region.name);
+					centerEmbedding = clusterCentroid;
+					console.log('[Thoughtlands:CanvasService] Using the centroid of the region\'s notes as center');
+				} else if (card) {
 					// Use card text as center
 					centerText = card.text;
 					try {
@@ -181,8 +246,9 @@ export class CanvasService {
 				// If we have a center embedding, arrange notes based on mode
 				if (centerEmbedding) {
 					console.log(`[Thoughtlands:CanvasService] Center embedding exists, processing ${region.notes.length} region notes`);
-					// Calculate similarity scores for all notes
+					// Calculate similarity scores for all notes (scored against each note's chunks rather than just its opening)
 					const noteSimilarities: { notePath: string; similarity: number; file: TFile }[] = [];
+					const regionFiles: TFile[] = [];
 					
 					for (const notePath of region.notes) {
 						const noteFile = this.app.vault.getAbstractFileByPath(notePath);
@@ -190,26 +256,19 @@ export class CanvasService {
 							console.warn(`[Thoughtlands:CanvasService] Note file not found: ${notePath}`);
 							continue;
 						}
-						
-						try {
-							// Get embedding for this note
-							const storageService = this.embeddingService.getStorageService();
-							const hasEmbedding = await storageService.hasEmbedding(noteFile);
-							
-							if (hasEmbedding) {
-								const noteEmbedding = await storageService.getEmbedding(noteFile);
-								if (noteEmbedding) {
-									const similarity = this.embeddingService.cosineSimilarity(centerEmbedding, noteEmbedding);
-									noteSimilarities.push({ notePath, similarity, file: noteFile });
-								} else {
-									console.warn(`[Thoughtlands:CanvasService] No embedding data for note: ${notePath}`);
-								}
-							} else {
-								console.warn(`[Thoughtlands:CanvasService] Note has no embedding: ${notePath}`);
-							}
-						} catch (error) {
-							console.warn('[Thoughtlands:CanvasService] Failed to get embedding for note:', notePath, error);
+						regionFiles.push(noteFile);
+					}
+					
+					try {
+						const matches = await this.embeddingService.topK(centerEmbedding, regionFiles.length, regionFiles);
+						for (const match of matches) {
+							noteSimilarities.push({ notePath: match.file.path, similarity: match.similarity, file: match.file });
+						}
+						if (matches.length < regionFiles.length) {
+							console.warn(`[Thoughtlands:CanvasService] ${regionFiles.length - matches.length} region notes have no embedding`);
 						}
+					} catch (error) {
+						console.warn('[Thoughtlands:CanvasService] Failed to score region notes against center:', error);
 					}
 					
 					// Sort by similarity (highest first)
@@ -516,7 +575,7 @@ export class CanvasService {
 						}
 						
 						// Add summary card at the end of the path
-						if (noteSimilarities.length > 0 && this.localAIService && this.settings && this.settings.aiMode === 'local') {
+						if (noteSimilarities.length > 0 && this.canSummarize()) {
 							// Update status: generating path summary
 							if (this.plugin && (this.plugin as any).updateRegionCreationStatus) {
 								(this.plugin as any).updateRegionCreationStatus({
@@ -548,92 +607,46 @@ export class CanvasService {
 							}
 							
 							if (noteContents.length > 0) {
-								// Generate summary using local AI - frame as answering the concept/question
+								// Generate summary - frame as answering the concept/question
 								const combinedText = noteContents.join('\n\n');
 								const conceptQuestion = centerText || card?.text || 'the concept';
 								const prompt = `Based on the following notes, provide a 4-6 sentence summary that answers: "${conceptQuestion}". Focus on the main themes and key insights from these notes. Start directly with the summary content - do not include any introductory phrases like "Here is a summary" or "Summary:".\n\nNotes:\n${combinedText}\n\nSummary:`;
 								
 								try {
-									const response = await fetch(`${this.settings.ollamaUrl}/api/chat`, {
-										method: 'POST',
-										headers: { 'Content-Type': 'application/json' },
-										body: JSON.stringify({
-											model: this.settings.ollamaChatModel,
-											messages: [
-												{ 
-													role: 'system', 
-													content: 'You are a helpful assistant that creates 4-6 sentence summaries that answer questions or address concepts based on provided notes. Always start directly with the summary content - never include introductory phrases, labels, or prefixes like "Here is a summary", "Summary:", or similar.' 
-												},
-												{ role: 'user', content: prompt }
-											],
-											stream: false,
-											options: {
-												temperature: 0.3,
-												num_predict: 300,
-											}
-										}),
-									});
+									const summary = await this.generateSummary(
+										'You are a helpful assistant that creates 4-6 sentence summaries that answer questions or address concepts based on provided notes. Always start directly with the summary content - never include introductory phrases, labels, or prefixes like "Here is a summary", "Summary:", or similar.',
+										prompt
+									);
 									
-									if (response.ok) {
-										const data = await response.json();
-										let summary = data.message?.content?.trim() || '';
+									if (summary) {
+										// Create summary card
+										const summaryCardId = Array.from({ length: 16 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+										let canvasColor = card?.color || '1';
+										if (canvasColor && !canvasColor.match(/^[1-6]$/) && !canvasColor.startsWith('#')) {
+											canvasColor = '#' + canvasColor.replace(/^#/, '');
+										}
 										
-										if (summary) {
-											// Aggressively remove any prefixes - comprehensive list of common patterns
-											const prefixPatterns = [
-												/^based on the following notes[,:]?\s*/i,
-												/^here is a summary of the notes in \d+-\d+ sentences?[,:]?\s*/i,
-												/^here is a summary[,:]?\s*/i,
-												/^summary[,:]?\s*/i,
-												/^the summary is[,:]?\s*/i,
-												/^here is the summary[,:]?\s*/i,
-												/^summary of the notes[,:]?\s*/i,
-												/^this summary[,:]?\s*/i,
-												/^the following summary[,:]?\s*/i,
-												/^in summary[,:]?\s*/i,
-												/^to summarize[,:]?\s*/i,
-												/^summarizing[,:]?\s*/i,
-											];
-											
-											for (const pattern of prefixPatterns) {
-												summary = summary.replace(pattern, '').trim();
+										const summaryCard: CanvasNode = {
+											id: summaryCardId,
+											type: 'text',
+											text: summary,
+											x: Math.round(summaryCardX - cardWidth / 2),
+											y: Math.round(summaryCardY - cardHeight / 2),
+											width: cardWidth,
+											height: cardHeight,
+											color: canvasColor,
+											styleAttributes: {
+												'font-size': '0.9em',
+												'text-align': 'center',
+												'border-radius': '8px',
+												'border': '2px solid var(--color-accent)',
+												'background-color': 'var(--background-secondary)'
 											}
-											
-											// Remove leading quotes, dashes, or other punctuation
-											summary = summary.replace(/^["'`\-—–]\s*/, '').replace(/\s*["'`\-—–]$/, '');
-											
-											// Remove any remaining leading colons or dashes
-											summary = summary.replace(/^[:;]\s*/, '').trim();
-											
-											// Create summary card
-											const summaryCardId = Array.from({ length: 16 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
-											let canvasColor = card?.color || '1';
-											if (canvasColor && !canvasColor.match(/^[1-6]$/) && !canvasColor.startsWith('#')) {
-												canvasColor = '#' + canvasColor.replace(/^#/, '');
-											}
-											
-											const summaryCard: CanvasNode = {
-												id: summaryCardId,
-												type: 'text',
-												text: summary,
-												x: Math.round(summaryCardX - cardWidth / 2),
-												y: Math.round(summaryCardY - cardHeight / 2),
-												width: cardWidth,
-												height: cardHeight,
-												color: canvasColor,
-												styleAttributes: {
-													'font-size': '0.9em',
-													'text-align': 'center',
-													'border-radius': '8px',
-													'border': '2px solid var(--color-accent)',
-													'background-color': 'var(--background-secondary)'
-												}
-											};
-											
-											canvas.nodes.push(summaryCard);
-											addedNodes.push(summaryCard);
-											console.log(`[Thoughtlands:CanvasService] Added path summary card at end of path`);
-										}
+										};
+										
+										canvas.nodes.push(summaryCard);
+										addedNodes.push(summaryCard);
+										console.log(`[Thoughtlands:CanvasService] Added path summary card at end of path`);
 									}
 								} catch (error) {
 									console.warn(`[Thoughtlands:CanvasService] Failed to generate path summary:`, error);
@@ -724,16 +737,12 @@ export class CanvasService {
 						
 						// Step 3: Compute 2D layout from note-to-note similarities
 						// Get embeddings for all notes
-						const noteEmbeddings = new Map<string, number[]>();
+						const noteEmbeddings = new Map<string, NoteVectors>();
+						const storageService = this.embeddingService.getStorageService();
 						for (const note of noteSimilarities) {
-							try {
-								const storageService = this.embeddingService.getStorageService();
-								const embedding = await storageService.getEmbedding(note.file);
-								if (embedding) {
-									noteEmbeddings.set(note.notePath, embedding);
-								}
-							} catch (error) {
-								console.warn('[Thoughtlands:CanvasService] Failed to get embedding:', note.notePath, error);
+							const entry = storageService.getStoredEntry(note.notePath);
+							if (entry) {
+								noteEmbeddings.set(note.notePath, entry);
 							}
 						}
 						
@@ -748,13 +757,16 @@ export class CanvasService {
 							for (let j = 0; j < n; j++) {
 								if (i === j) {
 									similarityMatrix[i][j] = 1.0;
+								} else if (j < i) {
+									similarityMatrix[i][j] = similarityMatrix[j][i]; // Symmetric, already computed
 								} else {
 									const note1 = noteSimilarities[i];
 									const note2 = noteSimilarities[j];
 									const emb1 = noteEmbeddings.get(note1.notePath);
 									const emb2 = noteEmbeddings.get(note2.notePath);
 									if (emb1 && emb2) {
-										similarityMatrix[i][j] = this.embeddingService.cosineSimilarity(emb1, emb2);
+										// Chunk-to-chunk comparison so notes sharing a passage land near each other
+										similarityMatrix[i][j] = this.embeddingService.compareNoteVectors(emb1, emb2).similarity;
 									} else {
 										similarityMatrix[i][j] = 0;
 									}
@@ -1079,7 +1091,7 @@ export class CanvasService {
 						console.log(`[Thoughtlands:CanvasService] Placed ${addedNodes.length} notes using new walkabout layout (clustering level=${clusteringLevel}, alpha=${alpha.toFixed(2)})`);
 						
 						// Step 11: Add cluster summary cards at level 4
-						if (clusteringLevel === 4 && this.localAIService && this.settings && this.settings.aiMode === 'local') {
+						if (clusteringLevel === 4 && this.canSummarize()) {
 							// Update status: generating summaries
 							if (this.plugin && (this.plugin as any).updateRegionCreationStatus) {
 								(this.plugin as any).updateRegionCreationStatus({
@@ -1633,7 +1645,7 @@ export class CanvasService {
 		centerY: number,
 		cardColor?: string
 	): Promise<void> {
-		if (!this.localAIService || !this.settings) return;
+		if (!this.canSummarize()) return;
 
 		const cardWidth = 300;
 		const cardHeight = 100;
@@ -1664,59 +1676,16 @@ export class CanvasService {
 
 			if (noteContents.length === 0) continue;
 
-			// Generate summary using local AI
+			// Generate summary
 			const combinedText = noteContents.join('\n\n');
 			const prompt = `Summarize the following notes in 4-6 sentences. Focus on the common themes and main ideas. Start directly with the summary content - do not include any introductory phrases like "Here is a summary" or "Summary:".\n\n${combinedText}\n\nSummary:`;
 
 			try {
-				const response = await fetch(`${this.settings.ollamaUrl}/api/chat`, {
-					method: 'POST',
-					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify({
-						model: this.settings.ollamaChatModel,
-						messages: [
-							{ role: 'system', content: 'You are a helpful assistant that creates 4-6 sentence summaries. Always start directly with the summary content - never include introductory phrases, labels, or prefixes like "Here is a summary", "Summary:", or similar.' },
-							{ role: 'user', content: prompt }
-						],
-						stream: false,
-						options: {
-							temperature: 0.3,
-							num_predict: 300,
-						}
-					}),
-				});
-
-				if (!response.ok) continue;
-
-				const data = await response.json();
-				let summary = data.message?.content?.trim() || '';
+				const summary = await this.generateSummary(
+					'You are a helpful assistant that creates 4-6 sentence summaries. Always start directly with the summary content - never include introductory phrases, labels, or prefixes like "Here is a summary", "Summary:", or similar.',
+					prompt
+				);
 				if (!summary) continue;
-				
-				// Aggressively remove any prefixes - comprehensive list of common patterns
-				const prefixPatterns = [
-					/^based on the following notes[,:]?\s*/i,
-					/^here is a summary of the notes in \d+-\d+ sentences?[,:]?\s*/i,
-					/^here is a summary[,:]?\s*/i,
-					/^summary[,:]?\s*/i,
-					/^the summary is[,:]?\s*/i,
-					/^here is the summary[,:]?\s*/i,
-					/^summary of the notes[,:]?\s*/i,
-					/^this summary[,:]?\s*/i,
-					/^the following summary[,:]?\s*/i,
-					/^in summary[,:]?\s*/i,
-					/^to summarize[,:]?\s*/i,
-					/^summarizing[,:]?\s*/i,
-				];
-				
-				for (const pattern of prefixPatterns) {
-					summary = summary.replace(pattern, '').trim();
-				}
-				
-				// Remove leading quotes, dashes, or other punctuation
-				summary = summary.replace(/^["'`\-—–]\s*/, '').replace(/\s*["'`\-—–]$/, '');
-				
-				// Remove any remaining leading colons or dashes
-				summary = summary.replace(/^[:;]\s*/, '').trim();
 
 				// Calculate position for summary card (near cluster center)
 				const clusterAngle = clusterAngles.get(clusterId);
@@ -1760,5 +1729,18 @@ export class CanvasService {
 			}
 		}
 	}
-}
 
+	// Summaries work with whichever chat backend the AI mode selects
+	private canSummarize(): boolean {
+		return !!this.llmClient || (!!this.settings && isLLMConfigured(this.settings));
+	}
+
+	private async generateSummary(systemPrompt: string, prompt: string): Promise<string> {
+		const client = this.llmClient ?? createLLMClient(this.settings!);
+		const summary = await client.complete([
+			{ role: 'system', content: systemPrompt },
+			{ role: 'user', content: prompt },
+		], { temperature: 0.3, maxTokens: 300 });
+		return cleanSummary(summary);
+	}
+}
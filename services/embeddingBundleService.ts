@@ -0,0 +1,156 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { EmbeddingService } from './embeddingService';
+import { EmbeddingEntry, EmbeddingsData } from './embeddingStorageService';
+import { applyVectorFile, encodeVectorFile } from './vectorIndexStore';
+
+export const BUNDLE_EXTENSION = 'tlbundle';
+
+export interface BundleExportResult {
+	path: string;
+	model: string;
+	entryCount: number;
+}
+
+export interface BundleImportResult {
+	model: string;
+	dimension: number | null;
+	preprocessing: string;
+	reused: number; // Entries whose fingerprint matched the local file
+	mismatched: TFile[]; // Local notes whose content differs from the bundle's fingerprint
+	notInVault: number; // Entries for notes that don't exist in this vault
+	spaceKey: string;
+	isTarget: boolean; // The bundle's space is the configured model and pipeline
+}
+
+/**
+ * Moves an embedding space between machines as a single file in the vault. A bundle uses the
+ * vector index file layout (see vectorIndexStore.ts): a manifest header with the model, dimension,
+ * preprocessing pipeline and each note's content fingerprint, followed by the packed Float32 vectors.
+ * On import, entries are only reused when the local note's content hash matches the fingerprint.
+ */
+export class EmbeddingBundleService {
+	private app: App;
+	private embeddingService: EmbeddingService;
+
+	constructor(app: App, embeddingService: EmbeddingService) {
+		this.app = app;
+		this.embeddingService = embeddingService;
+	}
+
+	// Suggested bundle path for the embeddings currently answering queries
+	getDefaultBundlePath(): string {
+		const model = this.embeddingService.getModelStatus().servingModel || this.embeddingService.getModelStatus().targetModel;
+		return `Thoughtlands embeddings (${model.replace(/[\\/:*?"<>|]/g, '_')}).${BUNDLE_EXTENSION}`;
+	}
+
+	// Bundles already in the vault, newest first (e.g. exported on another machine and synced here)
+	findBundles(): TFile[] {
+		return this.app.vault.getFiles()
+			.filter(file => file.extension === BUNDLE_EXTENSION)
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+	}
+
+	// Write the serving space (the embeddings answering queries) to a bundle file in the vault
+	async exportBundle(path: string): Promise<BundleExportResult> {
+		const storageService = this.embeddingService.getStorageService();
+		await storageService.loadEmbeddings();
+		const data = storageService.getEmbeddingsData('serving');
+		if (!data || Object.keys(data.data).length === 0) {
+			throw new Error('There are no embeddings to export');
+		}
+
+		const bundlePath = normalizePath(path.endsWith(`.${BUNDLE_EXTENSION}`) ? path : `${path}.${BUNDLE_EXTENSION}`);
+		const folder = bundlePath.includes('/') ? bundlePath.substring(0, bundlePath.lastIndexOf('/')) : '';
+		if (folder && !(await this.app.vault.adapter.exists(folder))) {
+			await this.app.vault.adapter.mkdir(folder);
+		}
+
+		// Machine-specific modification times are left out; the content hash is what identifies a note
+		const entries: Record<string, EmbeddingEntry> = {};
+		for (const [notePath, entry] of Object.entries(data.data)) {
+			entries[notePath] = { ...entry, mtime: undefined };
+		}
+		await this.app.vault.adapter.writeBinary(bundlePath, encodeVectorFile(entries, data.meta));
+
+		const entryCount = Object.keys(entries).length;
+		console.log(`[Thoughtlands:EmbeddingBundle] Exported ${entryCount} embeddings for ${data.meta.model} to ${bundlePath}`);
+		return { path: bundlePath, model: data.meta.model, entryCount };
+	}
+
+	/**
+	 * Read a bundle and keep the entries whose fingerprint (size and SHA-256 content hash) matches
+	 * the local note. Mismatched notes are returned so the caller can queue them for re-embedding.
+	 */
+	async importBundle(path: string): Promise<BundleImportResult> {
+		const bundlePath = normalizePath(path);
+		if (!(await this.app.vault.adapter.exists(bundlePath))) {
+			throw new Error(`Bundle not found: ${bundlePath}`);
+		}
+
+		const bundle: EmbeddingsData = { meta: { model: '', lastFullBuild: null, version: '1.0' }, data: {} };
+		applyVectorFile(await this.app.vault.adapter.readBinary(bundlePath), bundle);
+		if (!bundle.meta.model) {
+			throw new Error('Bundle has no model information');
+		}
+
+		const storageService = this.embeddingService.getStorageService();
+		const verified: Record<string, EmbeddingEntry> = {};
+		const mismatched: TFile[] = [];
+		let notInVault = 0;
+
+		for (const [notePath, entry] of Object.entries(bundle.data)) {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (!(file instanceof TFile)) {
+				notInVault++;
+				continue;
+			}
+
+			// Size is a cheap first check; older 32-bit hashes can't be verified and are re-embedded
+			let matches = false;
+			if (entry.hash.length === 64 && (entry.size === undefined || entry.size === file.stat.size)) {
+				try {
+					const content = await this.app.vault.read(file);
+					matches = (await storageService.computeContentHash(content)) === entry.hash;
+				} catch (error) {
+					console.warn(`[Thoughtlands:EmbeddingBundle] Could not read ${file.path}:`, error);
+				}
+			}
+
+			if (matches) {
+				verified[notePath] = { ...entry, mtime: file.stat.mtime, size: file.stat.size };
+			} else {
+				mismatched.push(file);
+			}
+		}
+
+		const preprocessing = bundle.meta.preprocessing || 'raw';
+		let spaceKey = '';
+		let isTarget = false;
+		if (Object.keys(verified).length > 0) {
+			({ key: spaceKey, isTarget } = await storageService.importEntries(bundle.meta, verified));
+		} else {
+			const status = this.embeddingService.getModelStatus();
+			isTarget = status.targetModel === bundle.meta.model && status.targetPreprocessing === preprocessing;
+		}
+
+		console.log(`[Thoughtlands:EmbeddingBundle] Imported ${bundlePath}:`, {
+			model: bundle.meta.model,
+			dimension: bundle.meta.dimension,
+			preprocessing,
+			reused: Object.keys(verified).length,
+			mismatched: mismatched.length,
+			notInVault,
+		});
+
+		return {
+			model: bundle.meta.model,
+			dimension: bundle.meta.dimension || null,
+			preprocessing,
+			reused: Object.keys(verified).length,
+			mismatched,
+			notInVault,
+			spaceKey,
+			isTarget,
+		};
+	}
+}
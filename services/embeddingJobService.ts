@@ -0,0 +1,274 @@
+import { App, TFile } from 'obsidian';
+import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
+import { EmbeddingService, EmbeddingBuildControl, EmbeddingProgress } from './embeddingService';
+import { getEmbeddingModelId } from './embeddingProviders';
+import { getSettingsPreprocessingSignature } from './embeddingPreprocessor';
+
+export type EmbeddingJobState = 'idle' | 'running' | 'paused' | 'waiting-for-idle';
+
+// Saved after every batch so an interrupted build resumes on the next start
+interface EmbeddingJobCheckpoint {
+	model: string; // Embedding model the job is building
+	preprocessing?: string; // Preprocessing pipeline signature the job is building
+	startedAt: string;
+	updatedAt: string;
+	paused: boolean;
+	completed: number;
+	total: number;
+}
+
+const CHECKPOINT_FILE = 'embedding-job.json';
+const IDLE_DELAY_MS = 30000; // Vault counts as idle after this long without edits
+const IDLE_POLL_MS = 1000;
+
+/**
+ * Runs the initial embedding build as a persistent background job. The job checkpoints after
+ * every batch, resumes on startup, honours the concurrency and requests-per-second settings, and
+ * can be paused, resumed or cancelled (or held back until the vault is idle).
+ */
+export class EmbeddingJobService {
+	private app: App;
+	private embeddingService: EmbeddingService;
+	private settings: ThoughtlandsSettings;
+	private checkpointPath: string;
+	private getFiles: () => TFile[];
+	private state: EmbeddingJobState = 'idle';
+	private checkpoint: EmbeddingJobCheckpoint | null = null;
+	private paused: boolean = false;
+	private stopRequested: boolean = false;
+	private cancelled: boolean = false;
+	private resumeWaiters: Array<() => void> = [];
+	private nextRequestAt: number = 0;
+	private lastActivity: number = 0;
+	private stateCallbacks: Set<(state: EmbeddingJobState) => void> = new Set();
+
+	constructor(app: App, plugin: any, embeddingService: EmbeddingService, settings: ThoughtlandsSettings, getFiles: () => TFile[]) {
+		this.app = app;
+		this.embeddingService = embeddingService;
+		this.settings = settings;
+		this.getFiles = getFiles;
+		const pluginDir = plugin.manifest?.dir || `${app.vault.configDir}/plugins/thoughtlands`;
+		this.checkpointPath = `${pluginDir}/${CHECKPOINT_FILE}`;
+	}
+
+	updateSettings(newSettings: ThoughtlandsSettings): void {
+		this.settings = newSettings;
+	}
+
+	getState(): EmbeddingJobState {
+		return this.state;
+	}
+
+	isActive(): boolean {
+		return this.state !== 'idle';
+	}
+
+	onStateChange(callback: (state: EmbeddingJobState) => void): () => void {
+		this.stateCallbacks.add(callback);
+		return () => {
+			this.stateCallbacks.delete(callback);
+		};
+	}
+
+	// Called on vault edits; used by the "only while idle" option
+	noteActivity(): void {
+		this.lastActivity = Date.now();
+	}
+
+	async hasCheckpoint(): Promise<boolean> {
+		return this.app.vault.adapter.exists(this.checkpointPath);
+	}
+
+	/**
+	 * Start a new build, or continue the one recorded in the checkpoint. Resolves true when every
+	 * note has been embedded and false when the job was cancelled or stopped.
+	 */
+	async run(onProgress?: (progress: EmbeddingProgress) => void): Promise<boolean> {
+		if (this.isActive()) {
+			this.resume();
+			return false;
+		}
+
+		const model = getEmbeddingModelId(this.settings);
+		const preprocessing = getSettingsPreprocessingSignature(this.settings);
+		const saved = await this.loadCheckpoint();
+		if (saved && saved.model === model && (saved.preprocessing || 'raw') === preprocessing) {
+			this.checkpoint = saved;
+			console.log(`[Thoughtlands:EmbeddingJob] Resuming embedding job for ${model} (${saved.completed} / ${saved.total}${saved.paused ? ', paused' : ''})`);
+		} else {
+			if (saved) {
+				console.log(`[Thoughtlands:EmbeddingJob] Discarding checkpoint for ${saved.model} (${saved.preprocessing || 'raw'}); now building ${model} (${preprocessing})`);
+			}
+			const now = new Date().toISOString();
+			this.checkpoint = { model, preprocessing, startedAt: now, updatedAt: now, paused: false, completed: 0, total: 0 };
+		}
+
+		this.paused = this.checkpoint.paused;
+		this.stopRequested = false;
+		this.cancelled = false;
+		this.nextRequestAt = 0;
+		this.setState(this.paused ? 'paused' : 'running');
+		await this.saveCheckpoint();
+
+		const control: EmbeddingBuildControl = {
+			concurrency: Math.max(1, this.settings.embeddingConcurrency),
+			jobTotal: this.checkpoint.total || undefined,
+			waitUntilRunnable: () => this.waitUntilRunnable(),
+			beforeRequest: () => this.throttle(),
+			onBatchComplete: async (completed, total) => {
+				if (this.checkpoint) {
+					this.checkpoint.completed = completed;
+					this.checkpoint.total = total;
+					await this.saveCheckpoint();
+				}
+			},
+		};
+
+		let finished = false;
+		try {
+			finished = await this.embeddingService.generateInitialEmbeddings(this.getFiles(), onProgress, control);
+		} finally {
+			// Stopped and failed jobs keep their checkpoint so they resume on the next start
+			if (finished || this.cancelled) {
+				await this.clearCheckpoint();
+			}
+			this.checkpoint = null;
+			this.setState('idle');
+		}
+		return finished;
+	}
+
+	pause(): void {
+		if (!this.isActive() || this.paused) return;
+		this.paused = true;
+		this.setState('paused');
+		this.saveCheckpoint();
+		this.wakeWaiters();
+		console.log('[Thoughtlands:EmbeddingJob] Paused');
+	}
+
+	resume(): void {
+		if (!this.isActive() || !this.paused) return;
+		this.paused = false;
+		this.setState('running');
+		this.saveCheckpoint();
+		this.wakeWaiters();
+		console.log('[Thoughtlands:EmbeddingJob] Resumed');
+	}
+
+	// Stop the job and forget it. Notes embedded so far are kept.
+	cancel(): void {
+		if (!this.isActive()) return;
+		this.stopRequested = true;
+		this.cancelled = true;
+		this.checkpoint = null;
+		this.wakeWaiters();
+		console.log('[Thoughtlands:EmbeddingJob] Cancelled');
+	}
+
+	// Stop the job but keep its checkpoint so it resumes on the next start (plugin unload)
+	stop(): void {
+		if (!this.isActive()) return;
+		this.stopRequested = true;
+		this.wakeWaiters();
+	}
+
+	private async waitUntilRunnable(): Promise<boolean> {
+		while (!this.stopRequested) {
+			if (this.paused) {
+				this.setState('paused');
+				await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+				continue;
+			}
+
+			const idleFor = Date.now() - this.lastActivity;
+			if (this.settings.embeddingOnlyWhenIdle && idleFor < IDLE_DELAY_MS) {
+				this.setState('waiting-for-idle');
+				await this.sleep(Math.min(IDLE_DELAY_MS - idleFor, IDLE_POLL_MS));
+				continue;
+			}
+
+			this.setState('running');
+			return true;
+		}
+		return false;
+	}
+
+	// Spaces requests evenly to stay under the requests-per-second cap (0 = no cap)
+	private async throttle(): Promise<void> {
+		const maxPerSecond = this.settings.embeddingMaxRequestsPerSecond;
+		if (!maxPerSecond || maxPerSecond <= 0) return;
+
+		const interval = 1000 / maxPerSecond;
+		const now = Date.now();
+		const startAt = Math.max(now, this.nextRequestAt);
+		this.nextRequestAt = startAt + interval;
+		if (startAt > now) {
+			await new Promise(resolve => setTimeout(resolve, startAt - now));
+		}
+	}
+
+	// Sleep that ends early when the job is paused, resumed or cancelled
+	private sleep(ms: number): Promise<void> {
+		return new Promise(resolve => {
+			const timer = setTimeout(done, ms);
+			const waiters = this.resumeWaiters;
+			function done() {
+				clearTimeout(timer);
+				const index = waiters.indexOf(done);
+				if (index !== -1) waiters.splice(index, 1);
+				resolve();
+			}
+			waiters.push(done);
+		});
+	}
+
+	private wakeWaiters(): void {
+		const waiters = this.resumeWaiters;
+		this.resumeWaiters = [];
+		for (const wake of waiters) {
+			wake();
+		}
+	}
+
+	private setState(state: EmbeddingJobState): void {
+		if (state === this.state) return;
+		this.state = state;
+		for (const callback of this.stateCallbacks) {
+			callback(state);
+		}
+	}
+
+	private async loadCheckpoint(): Promise<EmbeddingJobCheckpoint | null> {
+		try {
+			if (!(await this.app.vault.adapter.exists(this.checkpointPath))) {
+				return null;
+			}
+			return JSON.parse(await this.app.vault.adapter.read(this.checkpointPath)) as EmbeddingJobCheckpoint;
+		} catch (error) {
+			console.warn('[Thoughtlands:EmbeddingJob] Could not read checkpoint:', error);
+			return null;
+		}
+	}
+
+	private async saveCheckpoint(): Promise<void> {
+		if (!this.checkpoint) return;
+		this.checkpoint.paused = this.paused;
+		this.checkpoint.updatedAt = new Date().toISOString();
+		try {
+			await this.app.vault.adapter.write(this.checkpointPath, JSON.stringify(this.checkpoint));
+		} catch (error) {
+			console.warn('[Thoughtlands:EmbeddingJob] Could not save checkpoint:', error);
+		}
+	}
+
+	private async clearCheckpoint(): Promise<void> {
+		try {
+			if (await this.app.vault.adapter.exists(this.checkpointPath)) {
+				await this.app.vault.adapter.remove(this.checkpointPath);
+			}
+		} catch (error) {
+			console.warn('[Thoughtlands:EmbeddingJob] Could not remove checkpoint:', error);
+		}
+	}
+}
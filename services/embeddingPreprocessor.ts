@@ -0,0 +1,154 @@
+import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
+import { getEmbeddingModelId, parseEmbeddingModelId } from './embeddingProviders';
+
+// Toggleable stages applied to note text before it is embedded
+export interface PreprocessingOptions {
+	stripFrontmatter: boolean;
+	dropCodeBlocks: boolean;
+	resolveEmbeds: boolean; // Replace ![[note]] embeds with the embedded note's text (attachments are dropped)
+	prependTitle: boolean;
+	prependHeadings: boolean;
+	prependTags: boolean;
+	taskPrefixes: boolean; // Model-specific document/query prefixes, e.g. search_document: / search_query:
+}
+
+// Context prepended to a chunk when the title/heading/tag stages are on
+export interface ChunkContext {
+	title?: string;
+	heading?: string;
+	tags?: string[];
+}
+
+interface TaskPrefixes {
+	document: string;
+	query: string;
+}
+
+const RAW_PIPELINE = 'raw';
+const RETRIEVAL_QUERY_INSTRUCTION = 'Represent this sentence for searching relevant passages: ';
+
+// Models trained with task prefixes, matched against the model name
+const TASK_PREFIXES: Array<{ pattern: RegExp; prefixes: TaskPrefixes }> = [
+	{ pattern: /nomic-embed/, prefixes: { document: 'search_document: ', query: 'search_query: ' } },
+	{ pattern: /(^|[^a-z])e5([-_]|$)/, prefixes: { document: 'passage: ', query: 'query: ' } },
+	{ pattern: /mxbai-embed|bge-|snowflake-arctic-embed/, prefixes: { document: '', query: RETRIEVAL_QUERY_INSTRUCTION } },
+];
+
+export function getPreprocessingOptions(settings: ThoughtlandsSettings): PreprocessingOptions {
+	return {
+		stripFrontmatter: settings.embeddingStripFrontmatter,
+		dropCodeBlocks: settings.embeddingDropCodeBlocks,
+		resolveEmbeds: settings.embeddingResolveEmbeds,
+		prependTitle: settings.embeddingPrependTitle,
+		prependHeadings: settings.embeddingPrependHeadings,
+		prependTags: settings.embeddingPrependTags,
+		taskPrefixes: settings.embeddingTaskPrefixes,
+	};
+}
+
+// Prefixes for a model id (see getEmbeddingModelId), or null if the model doesn't use them
+export function getTaskPrefixes(modelId: string): TaskPrefixes | null {
+	const name = parseEmbeddingModelId(modelId).model.toLowerCase();
+	const match = TASK_PREFIXES.find(entry => entry.pattern.test(name));
+	return match ? match.prefixes : null;
+}
+
+/**
+ * Stable description of the stages that change what a model sees, e.g. "frontmatter+code+prefixes".
+ * Stored in EmbeddingsData.meta; vectors built with a different signature are kept in their own space.
+ * Task prefixes only count for models that have them, so the toggle doesn't invalidate other models.
+ */
+export function getPreprocessingSignature(options: PreprocessingOptions, modelId: string): string {
+	const stages: string[] = [];
+	if (options.stripFrontmatter) stages.push('frontmatter');
+	if (options.dropCodeBlocks) stages.push('code');
+	if (options.resolveEmbeds) stages.push('embeds');
+	if (options.prependTitle) stages.push('title');
+	if (options.prependHeadings) stages.push('headings');
+	if (options.prependTags) stages.push('tags');
+	if (options.taskPrefixes && getTaskPrefixes(modelId)) stages.push('prefixes');
+	return stages.length > 0 ? stages.join('+') : RAW_PIPELINE;
+}
+
+export function getSettingsPreprocessingSignature(settings: ThoughtlandsSettings): string {
+	return getPreprocessingSignature(getPreprocessingOptions(settings), getEmbeddingModelId(settings));
+}
+
+// Set the preprocessing toggles so that settings produce the given signature (used when switching to a stored space)
+export function applyPreprocessingSignature(settings: ThoughtlandsSettings, signature: string): void {
+	const stages = isRawPipeline(signature) ? [] : signature.split('+');
+	settings.embeddingStripFrontmatter = stages.includes('frontmatter');
+	settings.embeddingDropCodeBlocks = stages.includes('code');
+	settings.embeddingResolveEmbeds = stages.includes('embeds');
+	settings.embeddingPrependTitle = stages.includes('title');
+	settings.embeddingPrependHeadings = stages.includes('headings');
+	settings.embeddingPrependTags = stages.includes('tags');
+	settings.embeddingTaskPrefixes = stages.includes('prefixes');
+}
+
+export function isRawPipeline(signature: string | undefined): boolean {
+	return !signature || signature === RAW_PIPELINE;
+}
+
+/**
+ * Blank out frontmatter and fenced code blocks before chunking. Removed text is replaced with
+ * spaces (newlines are kept) so chunk offsets still point into the original note.
+ */
+export function maskNoteContent(content: string, options: PreprocessingOptions): string {
+	const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+	let masked = content;
+
+	if (options.stripFrontmatter) {
+		masked = masked.replace(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?=\r?\n|$)/, blank);
+	}
+	if (options.dropCodeBlocks) {
+		// Unterminated fences run to the end of the note, as in Obsidian's reading view
+		masked = masked.replace(/^[ \t]*(```|~~~)[^\n]*\n[\s\S]*?(^[ \t]*\1[ \t]*$|(?![\s\S]))/gm, blank);
+	}
+	return masked;
+}
+
+// Embeds in a chunk, e.g. ![[Note]], ![[Note#Heading|alias]] or ![[image.png]]
+export function findEmbeds(text: string): Array<{ match: string; link: string }> {
+	const embeds: Array<{ match: string; link: string }> = [];
+	const pattern = /!\[\[([^\]|#^]+)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		embeds.push({ match: match[0], link: match[1].trim() });
+	}
+	return embeds;
+}
+
+// Text sent to the embedding model for one chunk: context header, document prefix, tidied text
+export function buildDocumentInput(text: string, context: ChunkContext, options: PreprocessingOptions, modelId: string): string {
+	// Masked regions and resolved embeds leave runs of blank lines behind; raw text is sent as is
+	let body = options.stripFrontmatter || options.dropCodeBlocks || options.resolveEmbeds
+		? text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim()
+		: text;
+
+	const header: string[] = [];
+	if (options.prependTitle && context.title) {
+		header.push(`Title: ${context.title}`);
+	}
+	if (options.prependHeadings && context.heading) {
+		header.push(`Section: ${context.heading}`);
+	}
+	if (options.prependTags && context.tags && context.tags.length > 0) {
+		header.push(`Tags: ${context.tags.join(', ')}`);
+	}
+	if (header.length > 0) {
+		body = `${header.join('\n')}\n\n${body}`;
+	}
+
+	const prefixes = options.taskPrefixes ? getTaskPrefixes(modelId) : null;
+	return prefixes ? prefixes.document + body : body;
+}
+
+// Query text for a space built with the given pipeline signature
+export function buildQueryInput(text: string, signature: string | undefined, modelId: string): string {
+	if (isRawPipeline(signature) || !signature!.split('+').includes('prefixes')) {
+		return text;
+	}
+	const prefixes = getTaskPrefixes(modelId);
+	return prefixes ? prefixes.query + text : text;
+}
@@ -0,0 +1,469 @@
+import { ThoughtlandsSettings, EmbeddingProviderType } from '../settings/thoughtlandsSettings';
+
+export interface EmbeddingStatus {
+	available: boolean;
+	modelInstalled: boolean;
+	modelName: string;
+	error?: string;
+}
+
+// A backend that turns text into embedding vectors
+export interface EmbeddingProvider {
+	readonly type: EmbeddingProviderType;
+	embed(text: string, model: string): Promise<number[]>;
+	embedBatch(texts: string[], model: string): Promise<number[][]>; // One request; vectors are returned in input order
+	checkStatus(model: string): Promise<EmbeddingStatus>;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const REQUEST_TIMEOUT_MS = 30000;
+const BATCH_TIMEOUT_PER_INPUT_MS = 1000; // Extra time allowed per additional input in a batch request
+
+// Batches get a longer timeout since the server embeds every input before it responds
+function getRequestTimeout(inputs: number): number {
+	return REQUEST_TIMEOUT_MS + BATCH_TIMEOUT_PER_INPUT_MS * Math.max(0, inputs - 1);
+}
+
+/**
+ * Whether a failed request can be blamed on its inputs (a bad request, a payload that's too large or
+ * an input longer than the model's context) rather than on the server or the connection. Only these
+ * are worth splitting a batch over; auth, network, timeout and server errors fail every input alike.
+ */
+export function isInputError(error: unknown): boolean {
+	const message = error instanceof Error ? error.message : String(error);
+	if (/context length|context window|too long|too many tokens|maximum.*tokens/i.test(message)) {
+		return true;
+	}
+	const status = message.match(/API error: (\d{3})/);
+	return !!status && [400, 413, 422].includes(Number(status[1]));
+}
+
+export function createEmbeddingProvider(type: EmbeddingProviderType, settings: ThoughtlandsSettings): EmbeddingProvider {
+	switch (type) {
+		case 'openai':
+			return new OpenAICompatibleEmbeddingProvider('openai', OPENAI_BASE_URL, settings.openAIApiKey);
+		case 'openai-compatible':
+			return new OpenAICompatibleEmbeddingProvider('openai-compatible', settings.compatibleBaseUrl, settings.compatibleApiKey);
+		default:
+			return new OllamaEmbeddingProvider(settings);
+	}
+}
+
+// Whether the configured embedding provider has what it needs to run (Ollama needs no credentials)
+export function isEmbeddingConfigured(settings: ThoughtlandsSettings): boolean {
+	switch (settings.embeddingProvider) {
+		case 'openai':
+			return !!settings.openAIApiKey && settings.openAIApiKey.trim().length > 0;
+		case 'openai-compatible':
+			return !!settings.compatibleBaseUrl && !!settings.compatibleEmbeddingModel;
+		default:
+			return true;
+	}
+}
+
+/**
+ * Stored vectors are keyed by a model id that also names the provider, e.g. "nomic-embed-text"
+ * (Ollama, unprefixed for compatibility with existing embeddings), "openai/text-embedding-3-small"
+ * or "openai-compatible/bge-m3".
+ */
+export function getEmbeddingModelId(settings: ThoughtlandsSettings): string {
+	switch (settings.embeddingProvider) {
+		case 'openai':
+			return `openai/${settings.openAIEmbeddingModel}`;
+		case 'openai-compatible':
+			return `openai-compatible/${settings.compatibleEmbeddingModel}`;
+		default:
+			return settings.ollamaEmbeddingModel;
+	}
+}
+
+export function parseEmbeddingModelId(id: string): { provider: EmbeddingProviderType; model: string } {
+	for (const provider of ['openai', 'openai-compatible'] as EmbeddingProviderType[]) {
+		if (id.startsWith(`${provider}/`)) {
+			return { provider, model: id.substring(provider.length + 1) };
+		}
+	}
+	return { provider: 'ollama', model: id };
+}
+
+/**
+ * OpenAI's `/v1/embeddings` API, also spoken by LM Studio, llama.cpp server, vLLM and similar servers.
+ * Point the base URL at a local stub server to exercise it without a real backend.
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+	readonly type: EmbeddingProviderType;
+	private baseUrl: string;
+	private apiKey: string;
+
+	constructor(type: EmbeddingProviderType, baseUrl: string, apiKey: string) {
+		this.type = type;
+		this.baseUrl = baseUrl.replace(/\/+$/, '');
+		this.apiKey = apiKey;
+	}
+
+	async embed(text: string, model: string): Promise<number[]> {
+		const [embedding] = await this.embedBatch([text], model);
+		return embedding;
+	}
+
+	async embedBatch(texts: string[], model: string): Promise<number[][]> {
+		if (texts.length === 0) {
+			return [];
+		}
+		const maxRetries = 3;
+		const timeoutMs = getRequestTimeout(texts.length);
+		let lastError: Error | null = null;
+
+		for (let attempt = 0; attempt <= maxRetries; attempt++) {
+			if (attempt > 0) {
+				console.log(`[Thoughtlands:OpenAIEmbeddings] Retry attempt ${attempt}/${maxRetries} for embedding request`);
+			}
+
+			let response: Response;
+			const controller = new AbortController();
+			const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+			try {
+				response = await fetch(`${this.baseUrl}/embeddings`, {
+					method: 'POST',
+					headers: this.buildHeaders(),
+					body: JSON.stringify({ model, input: texts.length === 1 ? texts[0] : texts }),
+					signal: controller.signal,
+				});
+			} catch (fetchError) {
+				lastError = new Error(fetchError instanceof Error && fetchError.name === 'AbortError'
+					? `Request timeout after ${timeoutMs / 1000} seconds`
+					: `Failed to connect to ${this.baseUrl}: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`);
+				if (attempt < maxRetries) {
+					await this.backoff(attempt);
+					continue;
+				}
+				throw lastError;
+			} finally {
+				clearTimeout(timeoutId);
+			}
+
+			if (!response.ok) {
+				let errorText = '';
+				try {
+					const body = await response.json();
+					errorText = body.error?.message || JSON.stringify(body);
+				} catch {
+					errorText = `HTTP ${response.status}`;
+				}
+				lastError = new Error(`Embedding API error: ${response.status} - ${errorText}`);
+				// Rate limits and server errors are worth retrying; bad requests and auth errors are not
+				if ((response.status === 429 || response.status >= 500) && attempt < maxRetries) {
+					const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+					await this.backoff(attempt, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+					continue;
+				}
+				throw lastError;
+			}
+
+			const data = await response.json();
+			// Results carry the index of their input; servers aren't required to keep the order
+			const items: any[] = Array.isArray(data.data) ? [...data.data] : [];
+			items.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+			const embeddings = items.map(item => item.embedding);
+			if (embeddings.length !== texts.length || embeddings.some(embedding => !Array.isArray(embedding) || embedding.length === 0)) {
+				console.error('[Thoughtlands:OpenAIEmbeddings] Invalid embedding response:', {
+					keys: Object.keys(data),
+					model: data.model,
+					inputs: texts.length,
+					embeddings: embeddings.length,
+				});
+				throw new Error(`Invalid embedding response from ${this.baseUrl} for model "${model}"`);
+			}
+			return embeddings;
+		}
+
+		throw lastError || new Error('Failed to generate embedding after retries');
+	}
+
+	async checkStatus(model: string): Promise<EmbeddingStatus> {
+		if (this.type === 'openai' && !this.apiKey) {
+			return { available: false, modelInstalled: false, modelName: model, error: 'OpenAI API key not configured' };
+		}
+		try {
+			await this.embed('test', model);
+			return { available: true, modelInstalled: true, modelName: model };
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Failed to reach embedding endpoint';
+			// A response with an error status means the server is up but rejected the model or key
+			const available = message.startsWith('Embedding API error');
+			return { available, modelInstalled: false, modelName: model, error: message };
+		}
+	}
+
+	private buildHeaders(): Record<string, string> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.apiKey) {
+			headers['Authorization'] = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
+	private async backoff(attempt: number, delayMs?: number): Promise<void> {
+		const delay = delayMs ?? Math.min(1000 * Math.pow(2, attempt), 5000); // Exponential backoff, max 5s
+		console.warn(`[Thoughtlands:OpenAIEmbeddings] Retryable error, waiting ${delay}ms before retry...`);
+		await new Promise(resolve => setTimeout(resolve, delay));
+	}
+}
+
+type OllamaEmbedEndpoint = '/api/embed' | '/api/embeddings';
+
+// Embedding endpoint each Ollama server speaks, keyed by base URL; detected on first use
+const ollamaEndpoints: Map<string, OllamaEmbedEndpoint> = new Map();
+
+// Ollama answers unknown routes with a plain "404 page not found"; a JSON error (e.g. a missing model) means the route exists
+function isMissingRoute(status: number, errorText: string): boolean {
+	return status === 405 || (status === 404 && !errorText.includes('"error"'));
+}
+
+async function readErrorText(response: Response): Promise<string> {
+	try {
+		return await response.text();
+	} catch (textError) {
+		return `Unable to read error response: ${textError instanceof Error ? textError.message : 'Unknown error'}`;
+	}
+}
+
+/**
+ * Ollama's native embedding API. `/api/embed` takes an array `input`, so a whole batch is one
+ * request; servers that predate it only have `/api/embeddings`, which takes one `prompt` per request.
+ * Which one a server speaks is detected once and remembered for that server.
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+	readonly type: EmbeddingProviderType = 'ollama';
+	private settings: ThoughtlandsSettings;
+
+	constructor(settings: ThoughtlandsSettings) {
+		this.settings = settings;
+	}
+
+	async checkStatus(model: string): Promise<EmbeddingStatus> {
+		try {
+			// Check if Ollama is running and model is available
+			const response = await fetch(`${this.settings.ollamaUrl}/api/tags`, {
+				method: 'GET',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+			});
+
+			if (!response.ok) {
+				return {
+					available: false,
+					modelInstalled: false,
+					modelName: model,
+					error: `Ollama not responding (${response.status})`,
+				};
+			}
+
+			const data = await response.json();
+			const models = data.models || [];
+			
+			// Log available models for debugging
+			console.log('[Thoughtlands:Ollama] Available Ollama models:', models.map((m: any) => m.name));
+			console.log('[Thoughtlands:Ollama] Looking for model:', model);
+			
+			// Check if model is installed - model names might include tags like "nomic-embed-text:latest"
+			// or just "nomic-embed-text", so we check if the model name starts with our target model name
+			const modelInstalled = models.some((m: any) => {
+				const modelName = m.name || '';
+				// Check exact match or if model name starts with our target (handles tags like :latest, :v1, etc.)
+				const matches = modelName === model || 
+				               modelName.startsWith(model + ':') ||
+				               modelName.startsWith(model + '@');
+				if (matches) {
+					console.log(`[Thoughtlands:Ollama] Found matching model: "${modelName}"`);
+				}
+				return matches;
+			});
+
+			// Also check which embedding endpoint is available (re-detected here in case the server was upgraded)
+			let embedEndpointAvailable = false;
+			if (modelInstalled) {
+				try {
+					embedEndpointAvailable = (await this.detectEndpoint(model)) !== null;
+				} catch (testError) {
+					console.warn('[Thoughtlands:Ollama] Error testing embedding endpoint:', testError);
+				}
+			}
+
+			return {
+				available: true,
+				modelInstalled: modelInstalled && embedEndpointAvailable,
+				modelName: model,
+				error: !modelInstalled 
+					? `Model "${model}" not found in Ollama`
+					: !embedEndpointAvailable
+					? `Model found but /api/embed endpoint not available (may need Ollama update)`
+					: undefined,
+			};
+		} catch (error) {
+			return {
+				available: false,
+				modelInstalled: false,
+				modelName: model,
+				error: error instanceof Error ? error.message : 'Failed to connect to Ollama',
+			};
+		}
+	}
+
+	async embed(text: string, model: string): Promise<number[]> {
+		console.log(`[Thoughtlands:Ollama] Sending embedding request:`, {
+			url: this.getBaseUrl(),
+			model: model,
+			textLength: text.length,
+			textPreview: text.substring(0, 100)
+		});
+		const [embedding] = await this.embedBatch([text], model);
+		return embedding;
+	}
+
+	async embedBatch(texts: string[], model: string): Promise<number[][]> {
+		if (texts.length === 0) {
+			return [];
+		}
+
+		const baseUrl = this.getBaseUrl();
+		try {
+			if (ollamaEndpoints.get(baseUrl) !== '/api/embeddings') {
+				// Batch requests fail fast; the caller splits a failed batch to find the input at fault
+				const maxRetries = texts.length > 1 ? 1 : 3;
+				const response = await this.post('/api/embed', { model, input: texts }, getRequestTimeout(texts.length), maxRetries);
+				if (response.ok) {
+					ollamaEndpoints.set(baseUrl, '/api/embed');
+					return this.parseEmbeddings(await response.json(), texts, model);
+				}
+
+				const errorText = await readErrorText(response);
+				if (ollamaEndpoints.has(baseUrl) || !isMissingRoute(response.status, errorText)) {
+					throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
+				}
+				console.log(`[Thoughtlands:Ollama] /api/embed not available on ${baseUrl}, using /api/embeddings (one request per input)`);
+				ollamaEndpoints.set(baseUrl, '/api/embeddings');
+			}
+
+			// The legacy endpoint embeds a single prompt per request
+			const embeddings: number[][] = [];
+			for (const text of texts) {
+				const response = await this.post('/api/embeddings', { model, prompt: text }, REQUEST_TIMEOUT_MS, 3);
+				if (!response.ok) {
+					throw new Error(`Ollama API error: ${response.status} - ${await readErrorText(response)}`);
+				}
+				embeddings.push(...this.parseEmbeddings(await response.json(), [text], model));
+			}
+			return embeddings;
+		} catch (error) {
+			console.error(`[Thoughtlands:Ollama] Error generating ${texts.length} embedding${texts.length !== 1 ? 's' : ''}:`, error);
+			throw error;
+		}
+	}
+
+	// Probe which embedding endpoint the server speaks and remember it; null when neither works
+	private async detectEndpoint(model: string): Promise<OllamaEmbedEndpoint | null> {
+		const baseUrl = this.getBaseUrl();
+		const probes: Array<{ endpoint: OllamaEmbedEndpoint; body: object }> = [
+			{ endpoint: '/api/embed', body: { model, input: ['test'] } },
+			{ endpoint: '/api/embeddings', body: { model, prompt: 'test' } },
+		];
+		for (const probe of probes) {
+			const response = await this.post(probe.endpoint, probe.body, REQUEST_TIMEOUT_MS, 0);
+			if (response.ok) {
+				ollamaEndpoints.set(baseUrl, probe.endpoint);
+				console.log(`[Thoughtlands:Ollama] ${baseUrl} embeds with ${probe.endpoint}`);
+				return probe.endpoint;
+			}
+			const errorText = await readErrorText(response);
+			if (!isMissingRoute(response.status, errorText)) {
+				console.warn('[Thoughtlands:Ollama] Embedding endpoint returned:', response.status, errorText);
+				return null;
+			}
+			console.log(`[Thoughtlands:Ollama] ${probe.endpoint} not available`);
+		}
+		ollamaEndpoints.delete(baseUrl);
+		return null;
+	}
+
+	// POST with a timeout; network errors and server errors (500, 502+) are retried with exponential backoff
+	private async post(path: string, body: object, timeoutMs: number, maxRetries: number): Promise<Response> {
+		const url = `${this.getBaseUrl()}${path}`;
+		let lastError: Error | null = null;
+
+		for (let attempt = 0; attempt <= maxRetries; attempt++) {
+			if (attempt > 0) {
+				console.log(`[Thoughtlands:Ollama] Retry attempt ${attempt}/${maxRetries} for ${path}`);
+			}
+
+			let response: Response;
+			const controller = new AbortController();
+			const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+			try {
+				response = await fetch(url, {
+					method: 'POST',
+					headers: {
+						'Content-Type': 'application/json',
+					},
+					body: JSON.stringify(body),
+					signal: controller.signal,
+				});
+			} catch (fetchError) {
+				lastError = new Error(fetchError instanceof Error && fetchError.name === 'AbortError'
+					? `Request timeout after ${timeoutMs / 1000} seconds`
+					: `Failed to connect to Ollama: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`);
+				if (attempt < maxRetries) {
+					await this.backoff(attempt, lastError.message);
+					continue;
+				}
+				throw lastError;
+			} finally {
+				clearTimeout(timeoutId);
+			}
+
+			if ((response.status === 500 || response.status >= 502) && attempt < maxRetries) {
+				lastError = new Error(`Ollama API error: ${response.status} - ${await readErrorText(response)}`);
+				await this.backoff(attempt, lastError.message);
+				continue;
+			}
+			return response;
+		}
+
+		throw lastError || new Error('Failed to generate embedding after retries');
+	}
+
+	// `/api/embed` returns `embeddings` (one per input); `/api/embeddings` returns a single `embedding`
+	private parseEmbeddings(data: any, texts: string[], model: string): number[][] {
+		const embeddings: any[] = Array.isArray(data.embeddings)
+			? data.embeddings
+			: Array.isArray(data.embedding) ? [data.embedding] : [];
+
+		if (embeddings.length !== texts.length || embeddings.some(embedding => !Array.isArray(embedding) || embedding.length === 0)) {
+			// Check if model needs to be pulled/loaded
+			if (data.model && Array.isArray(data.embeddings) && data.embeddings.length === 0) {
+				console.warn(`[Thoughtlands:Ollama] Model "${data.model}" returned empty embeddings. This may indicate the model needs to be pulled or loaded. Try running: ollama pull ${model}`);
+			}
+			console.error('[Thoughtlands:Ollama] Invalid embedding response:', {
+				hasEmbedding: !!data.embedding,
+				hasEmbeddings: !!data.embeddings,
+				keys: Object.keys(data),
+				inputs: texts.length,
+				embeddingsLength: embeddings.length,
+				textPreview: texts[0].substring(0, 100),
+			});
+			throw new Error(`Invalid embedding response: ${JSON.stringify(data).substring(0, 500)}. This may indicate the model is not properly loaded. Try running: ollama pull ${model}`);
+		}
+		return embeddings;
+	}
+
+	private getBaseUrl(): string {
+		return this.settings.ollamaUrl.replace(/\/+$/, '');
+	}
+
+	private async backoff(attempt: number, reason: string): Promise<void> {
+		const delay = Math.min(1000 * Math.pow(2, attempt), 5000); // Exponential backoff, max 5s
+		console.warn(`[Thoughtlands:Ollama] Retryable error (${reason}), waiting ${delay}ms before retry...`);
+		await new Promise(resolve => setTimeout(resolve, delay));
+	}
+}
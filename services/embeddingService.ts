@@ -1,19 +1,48 @@
-import { App, TFile, Notice } from 'obsidian';
-import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
-import { EmbeddingStorageService } from './embeddingStorageService';
-
-export interface EmbeddingStatus {
-	available: boolean;
-	modelInstalled: boolean;
-	modelName: string;
-	error?: string;
-}
+import { App, TFile, Notice, getAllTags } from 'obsidian';
+import { ThoughtlandsSettings, EmbeddingProviderType } from '../settings/thoughtlandsSettings';
+import { EmbeddingStorageService, EmbeddingEntry, EmbeddingFailure, NoteVectors, ChunkEmbedding } from './embeddingStorageService';
+import { QueryEmbeddingCache } from './queryEmbeddingCache';
+import { chunkNoteContent } from './noteChunker';
+import { getPreprocessingOptions, getSettingsPreprocessingSignature, maskNoteContent, findEmbeds, buildDocumentInput, buildQueryInput, ChunkContext } from './embeddingPreprocessor';
+import { EmbeddingProvider, EmbeddingStatus, createEmbeddingProvider, getEmbeddingModelId, isInputError, parseEmbeddingModelId } from './embeddingProviders';
+import { ExemplarSet } from '../models/region';
 
 export interface EmbeddingResult {
 	embedding: number[];
 	file: TFile;
 }
 
+// Result of comparing a query (or note) against a note's chunk vectors
+export interface NoteMatch {
+	similarity: number;
+	chunk?: ChunkEmbedding; // Best-matching chunk of the compared note, if it has chunks
+}
+
+export interface SimilarNoteResult {
+	file: TFile;
+	similarity: number;
+	passage?: ChunkEmbedding;
+}
+
+// Rocchio query built from example notes
+export interface ExemplarQuery {
+	vector: number[];
+	positiveNotes: string[]; // The examples that had embeddings and went into the query
+	negativeNotes: string[];
+	conceptEmbedded: boolean;
+}
+
+// Which model answers queries versus which one is configured (they differ while re-embedding after a model change)
+export interface EmbeddingModelStatus {
+	targetModel: string; // Configured embedding model
+	servingModel: string | null; // Model whose stored vectors answer queries
+	servingDimension: number | null;
+	servingPreprocessing: string; // Preprocessing pipeline of the serving vectors
+	targetPreprocessing: string; // Configured preprocessing pipeline
+	targetComplete: boolean; // Initial build finished for the configured model
+	dimensionMismatch: { queryDimension: number; storedDimension: number } | null; // Last query that could not be compared
+}
+
 export interface EmbeddingProgress {
 	total: number;
 	completed: number;
@@ -22,26 +51,83 @@ export interface EmbeddingProgress {
 	currentFile?: string;
 }
 
+// Hooks the background embedding job uses to pause, throttle and checkpoint an initial build
+export interface EmbeddingBuildControl {
+	concurrency: number; // Embedding requests in flight
+	jobTotal?: number; // Notes left to embed when the job started; a resumed job reports progress against it
+	waitUntilRunnable(): Promise<boolean>; // Resolves once the build may continue, or false when it should stop
+	beforeRequest(): Promise<void>; // Called before every embedding request (rate limiting)
+	onBatchComplete(completed: number, total: number): Promise<void>;
+}
+
+// A note split into chunks, with the text the embedding model sees for each chunk
+interface PreparedNote {
+	chunks: Array<Omit<ChunkEmbedding, 'embedding'>>;
+	inputs: string[];
+}
+
+// Chunks embedded per request adapt to how fast the server answers
+const INITIAL_EMBEDDING_BATCH = 8;
+const MAX_EMBEDDING_BATCH = 64;
+const FAST_BATCH_MS = 4000; // Batches answered faster than this double in size
+const SLOW_BATCH_MS = 15000; // Batches slower than this halve in size
+
+// Rocchio weights for exemplar queries: concept text, centroid of the positive and of the negative examples
+const ROCCHIO_CONCEPT_WEIGHT = 1;
+const ROCCHIO_POSITIVE_WEIGHT = 0.75;
+const ROCCHIO_NEGATIVE_WEIGHT = 0.25;
+
+const NO_CHUNKS_REASON = 'No text left to embed (every chunk is under 10 characters after preprocessing)';
+
+// Settings the embedding providers and the adaptive batch size depend on (URLs, keys and model)
+function getProviderSignature(settings: ThoughtlandsSettings): string {
+	return JSON.stringify([
+		getEmbeddingModelId(settings),
+		settings.ollamaUrl,
+		settings.openAIApiKey,
+		settings.compatibleBaseUrl,
+		settings.compatibleApiKey,
+	]);
+}
+
+// Short reason for the embedding health panel
+function describeError(error: unknown): string {
+	const message = error instanceof Error ? error.message : String(error);
+	return message.length > 300 ? `${message.substring(0, 300)}…` : message;
+}
+
 export class EmbeddingService {
 	private app: App;
 	private settings: ThoughtlandsSettings;
-	private embeddingCache: Map<string, number[]> = new Map();
+	private queryCache: QueryEmbeddingCache;
 	private storageService: EmbeddingStorageService;
 	private isProcessing: boolean = false;
 	private currentProgress: EmbeddingProgress | null = null;
 	private progressCallbacks: Set<(progress: EmbeddingProgress) => void> = new Set();
 	private filesGeneratingEmbeddings: Set<string> = new Set(); // Track files currently generating embeddings
+	private providers: Map<EmbeddingProviderType, EmbeddingProvider> = new Map();
+	private dimensionMismatch: { queryDimension: number; storedDimension: number } | null = null;
+	private batchSize: number = INITIAL_EMBEDDING_BATCH; // Current chunks per embedding request
+	private providerSignature: string; // Provider settings the cached providers were created with
 
 	constructor(app: App, settings: ThoughtlandsSettings, plugin: any) {
 		this.app = app;
 		this.settings = settings;
-		this.storageService = new EmbeddingStorageService(app, plugin);
+		this.storageService = new EmbeddingStorageService(app, plugin, getEmbeddingModelId(settings), getSettingsPreprocessingSignature(settings));
+		this.queryCache = new QueryEmbeddingCache(app, plugin);
+		this.providerSignature = getProviderSignature(settings);
 	}
 
 	updateSettings(newSettings: ThoughtlandsSettings): void {
 		this.settings = newSettings;
-		// Clear cache when settings change
-		this.embeddingCache.clear();
+		this.storageService.setTargetModel(getEmbeddingModelId(newSettings), getSettingsPreprocessingSignature(newSettings));
+		// Clear providers (URLs, keys) when their settings change; cached query vectors are keyed by model and pipeline
+		const providerSignature = getProviderSignature(newSettings);
+		if (providerSignature !== this.providerSignature) {
+			this.providerSignature = providerSignature;
+			this.providers.clear();
+			this.batchSize = INITIAL_EMBEDDING_BATCH;
+		}
 	}
 
 	onProgress(callback: (progress: EmbeddingProgress) => void): () => void {
@@ -76,320 +162,81 @@ export class EmbeddingService {
 		return hasLastFullBuild;
 	}
 
+	getModelStatus(): EmbeddingModelStatus {
+		const targetData = this.storageService.getEmbeddingsData('target');
+		return {
+			targetModel: getEmbeddingModelId(this.settings),
+			servingModel: this.storageService.getServingModel(),
+			servingDimension: this.storageService.getServingDimension(),
+			servingPreprocessing: this.storageService.getServingPreprocessing(),
+			targetPreprocessing: getSettingsPreprocessingSignature(this.settings),
+			targetComplete: !!(targetData && targetData.meta.lastFullBuild),
+			dimensionMismatch: this.dimensionMismatch,
+		};
+	}
+
 	isEmbeddingProcessInProgress(): boolean {
 		return this.isProcessing;
 	}
 
-	async checkOllamaStatus(): Promise<EmbeddingStatus> {
-		try {
-			// Check if Ollama is running and model is available
-			const response = await fetch(`${this.settings.ollamaUrl}/api/tags`, {
-				method: 'GET',
-				headers: {
-					'Content-Type': 'application/json',
-				},
-			});
-
-			if (!response.ok) {
-				return {
-					available: false,
-					modelInstalled: false,
-					modelName: this.settings.ollamaEmbeddingModel,
-					error: `Ollama not responding (${response.status})`,
-				};
-			}
-
-			const data = await response.json();
-			const models = data.models || [];
-			
-			// Log available models for debugging
-			console.log('[Thoughtlands:EmbeddingService] Available Ollama models:', models.map((m: any) => m.name));
-			console.log('[Thoughtlands:EmbeddingService] Looking for model:', this.settings.ollamaEmbeddingModel);
-			
-			// Check if model is installed - model names might include tags like "nomic-embed-text:latest"
-			// or just "nomic-embed-text", so we check if the model name starts with our target model name
-			const modelInstalled = models.some((m: any) => {
-				const modelName = m.name || '';
-				// Check exact match or if model name starts with our target (handles tags like :latest, :v1, etc.)
-				const matches = modelName === this.settings.ollamaEmbeddingModel || 
-				               modelName.startsWith(this.settings.ollamaEmbeddingModel + ':') ||
-				               modelName.startsWith(this.settings.ollamaEmbeddingModel + '@');
-				if (matches) {
-					console.log(`[Thoughtlands:EmbeddingService] Found matching model: "${modelName}"`);
-				}
-				return matches;
-			});
-
-			// Also check if /api/embed or /api/embeddings endpoint is available
-			let embedEndpointAvailable = false;
-			if (modelInstalled) {
-				try {
-					// Try /api/embed first
-					let embedTest = await fetch(`${this.settings.ollamaUrl}/api/embed`, {
-						method: 'POST',
-						headers: {
-							'Content-Type': 'application/json',
-						},
-						body: JSON.stringify({
-							model: this.settings.ollamaEmbeddingModel,
-							input: 'test', // Ollama uses "input" not "prompt" for embeddings
-						}),
-					});
-					
-					// If 404/405, try /api/embeddings
-					if (!embedTest.ok && (embedTest.status === 404 || embedTest.status === 405)) {
-						console.log('[Thoughtlands:EmbeddingService] /api/embed not available, trying /api/embeddings');
-						embedTest = await fetch(`${this.settings.ollamaUrl}/api/embeddings`, {
-							method: 'POST',
-							headers: {
-								'Content-Type': 'application/json',
-							},
-							body: JSON.stringify({
-								model: this.settings.ollamaEmbeddingModel,
-								input: 'test', // Ollama uses "input" not "prompt" for embeddings
-							}),
-						});
-					}
-					
-					embedEndpointAvailable = embedTest.ok;
-					if (!embedTest.ok) {
-						console.warn('[Thoughtlands:EmbeddingService] Embedding endpoint returned:', embedTest.status);
-					}
-				} catch (testError) {
-					console.warn('[Thoughtlands:EmbeddingService] Error testing embedding endpoint:', testError);
-				}
-			}
+	// Checks the configured embedding provider (Ollama, OpenAI or an OpenAI-compatible server)
+	async checkEmbeddingStatus(): Promise<EmbeddingStatus> {
+		const { provider, model } = parseEmbeddingModelId(getEmbeddingModelId(this.settings));
+		return this.getProvider(provider).checkStatus(model);
+	}
 
-			return {
-				available: true,
-				modelInstalled: modelInstalled && embedEndpointAvailable,
-				modelName: this.settings.ollamaEmbeddingModel,
-				error: !modelInstalled 
-					? `Model "${this.settings.ollamaEmbeddingModel}" not found in Ollama`
-					: !embedEndpointAvailable
-					? `Model found but /api/embed endpoint not available (may need Ollama update)`
-					: undefined,
-			};
-		} catch (error) {
-			return {
-				available: false,
-				modelInstalled: false,
-				modelName: this.settings.ollamaEmbeddingModel,
-				error: error instanceof Error ? error.message : 'Failed to connect to Ollama',
-			};
+	private getProvider(type: EmbeddingProviderType): EmbeddingProvider {
+		let provider = this.providers.get(type);
+		if (!provider) {
+			provider = createEmbeddingProvider(type, this.settings);
+			this.providers.set(type, provider);
 		}
+		return provider;
 	}
 
-	async generateEmbedding(text: string): Promise<number[]> {
+	// Query text is embedded with the model currently serving queries (and that space's query prefix)
+	// so it can be compared with the stored vectors; note content passes the target model explicitly,
+	// already preprocessed, while it is being re-embedded.
+	async generateEmbedding(text: string, useCache: boolean = true, model?: string): Promise<number[]> {
 		// Validate input
 		if (!text || text.trim().length === 0) {
 			throw new Error('Cannot generate embedding for empty text');
 		}
 
-		// Check cache first
-		const cacheKey = text.substring(0, 100); // Use first 100 chars as cache key
-		if (this.embeddingCache.has(cacheKey)) {
-			return this.embeddingCache.get(cacheKey)!;
+		let input = text;
+		let pipeline = '';
+		if (!model) {
+			model = this.storageService.getServingModel() || getEmbeddingModelId(this.settings);
+			pipeline = this.storageService.getServingPreprocessing();
+			input = buildQueryInput(text, pipeline, model);
 		}
 
-		// Retry logic for transient errors
-		const maxRetries = 3;
-		let lastError: Error | null = null;
-		
-		for (let attempt = 0; attempt <= maxRetries; attempt++) {
-			try {
-				// Log the request details (only on first attempt)
-				if (attempt === 0) {
-					console.log(`[Thoughtlands:EmbeddingService] Sending embedding request:`, {
-						url: `${this.settings.ollamaUrl}/api/embed`,
-						model: this.settings.ollamaEmbeddingModel,
-						textLength: text.length,
-						textPreview: text.substring(0, 100)
-					});
-				} else {
-					console.log(`[Thoughtlands:EmbeddingService] Retry attempt ${attempt}/${maxRetries} for embedding request`);
-				}
-				
-				const requestBody = {
-					model: this.settings.ollamaEmbeddingModel,
-					input: text, // Ollama uses "input" not "prompt" for embeddings
-				};
-				
-				// Try /api/embed first, then fallback to /api/embeddings if needed
-				let response: Response;
-				try {
-					// Add timeout to prevent hanging (30 seconds)
-					const controller = new AbortController();
-					const timeoutId = setTimeout(() => controller.abort(), 30000);
-					
-					try {
-						response = await fetch(`${this.settings.ollamaUrl}/api/embed`, {
-					method: 'POST',
-					headers: {
-						'Content-Type': 'application/json',
-					},
-					body: JSON.stringify(requestBody),
-							signal: controller.signal,
-				});
-						clearTimeout(timeoutId);
-					} catch (fetchError) {
-						clearTimeout(timeoutId);
-						if (fetchError instanceof Error && fetchError.name === 'AbortError') {
-							throw new Error('Request timeout after 30 seconds');
-						}
-						throw fetchError;
-					}
-
-				// If 404/405, try /api/embeddings (plural) as fallback
-				if (!response.ok && (response.status === 404 || response.status === 405)) {
-					console.log('[Thoughtlands:EmbeddingService] /api/embed failed, trying /api/embeddings');
-						try {
-							// Add timeout for fallback request too
-							const fallbackController = new AbortController();
-							const fallbackTimeoutId = setTimeout(() => fallbackController.abort(), 30000);
-							
-							try {
-					response = await fetch(`${this.settings.ollamaUrl}/api/embeddings`, {
-						method: 'POST',
-						headers: {
-							'Content-Type': 'application/json',
-						},
-						body: JSON.stringify({
-							model: this.settings.ollamaEmbeddingModel,
-							input: text, // Ollama uses "input" not "prompt" for embeddings
-						}),
-									signal: fallbackController.signal,
-					});
-								clearTimeout(fallbackTimeoutId);
-							} catch (fallbackFetchError) {
-								clearTimeout(fallbackTimeoutId);
-								if (fallbackFetchError instanceof Error && fallbackFetchError.name === 'AbortError') {
-									throw new Error('Fallback request timeout after 30 seconds');
-								}
-								throw fallbackFetchError;
-							}
-						} catch (fallbackError) {
-							// If fallback fetch throws, use the original response for error reporting
-							console.error('[Thoughtlands:EmbeddingService] Fallback fetch failed:', fallbackError);
-							// Re-throw as a more descriptive error
-							throw new Error(`Failed to connect to Ollama embedding endpoint: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}`);
-						}
-					}
-				} catch (fetchError) {
-					// Network error or other fetch failure
-					const error = new Error(`Failed to connect to Ollama: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`);
-					(error as any).retryable = true; // Network errors are retryable
-					if (attempt < maxRetries) {
-						const delay = Math.min(1000 * Math.pow(2, attempt), 5000);
-						console.warn(`[Thoughtlands:EmbeddingService] Network error, waiting ${delay}ms before retry...`);
-						await new Promise(resolve => setTimeout(resolve, delay));
-						lastError = error;
-						continue; // Retry
-					}
-					throw error;
-				}
-
-				if (!response.ok) {
-					let errorText = '';
-					try {
-						errorText = await response.text();
-					} catch (textError) {
-						errorText = `Unable to read error response: ${textError instanceof Error ? textError.message : 'Unknown error'}`;
-					}
-					const error = new Error(`Ollama API error: ${response.status} - ${errorText}`);
-					// Mark as retryable for 500 errors (server issues) or connection errors
-					const isRetryable = response.status === 500 || response.status >= 502;
-					(error as any).retryable = isRetryable;
-					
-					// If retryable and we have retries left, wait and retry
-					if (isRetryable && attempt < maxRetries) {
-						const delay = Math.min(1000 * Math.pow(2, attempt), 5000); // Exponential backoff, max 5s
-						console.warn(`[Thoughtlands:EmbeddingService] Retryable error, waiting ${delay}ms before retry...`);
-						await new Promise(resolve => setTimeout(resolve, delay));
-						lastError = error;
-						continue; // Retry
-					}
-					
-					throw error;
-				}
-				
-				// Success - break out of retry loop
-				lastError = null;
+		// The model id names the provider, so vectors from a previous provider can still be queried
+		const parsed = parseEmbeddingModelId(model);
+		const embed = () => this.getProvider(parsed.provider).embed(input, parsed.model);
+		if (!useCache) {
+			return embed();
+		}
 
-			const data = await response.json();
-			
-				// Log the response structure
-				console.log(`[Thoughtlands:EmbeddingService] Received embedding response:`, {
-				status: response.status,
-				hasEmbedding: !!data.embedding,
-				hasEmbeddings: !!data.embeddings,
-				keys: Object.keys(data),
-				embeddingType: Array.isArray(data.embedding) ? 'array' : typeof data.embedding,
-				embeddingsType: Array.isArray(data.embeddings) ? 'array' : typeof data.embeddings,
-				embeddingsLength: Array.isArray(data.embeddings) ? data.embeddings.length : 0,
-				embeddingLength: Array.isArray(data.embedding) ? data.embedding.length : 'N/A',
-				model: data.model
-			});
-			
-				// Ollama may return 'embedding' (singular) or 'embeddings' (plural) array
-				let embedding: number[] | undefined;
-				if (data.embedding) {
-					embedding = Array.isArray(data.embedding) ? data.embedding : undefined;
-				} else if (data.embeddings && Array.isArray(data.embeddings)) {
-					// If it's an array, take the first element
-					embedding = data.embeddings[0] || undefined;
-				}
-				
-				if (!embedding || embedding.length === 0) {
-					// Check if model needs to be pulled/loaded
-					if (data.model && data.embeddings && Array.isArray(data.embeddings) && data.embeddings.length === 0) {
-						console.warn(`[Thoughtlands:EmbeddingService] Model "${data.model}" returned empty embeddings. This may indicate the model needs to be pulled or loaded. Try running: ollama pull ${this.settings.ollamaEmbeddingModel}`);
-					}
-					
-					// Log detailed error information
-					console.error('[Thoughtlands:EmbeddingService] Invalid embedding response:', {
-						hasEmbedding: !!data.embedding,
-						hasEmbeddings: !!data.embeddings,
-						keys: Object.keys(data),
-						embeddingType: Array.isArray(data.embedding) ? 'array' : typeof data.embedding,
-						embeddingsType: Array.isArray(data.embeddings) ? 'array' : typeof data.embeddings,
-						embeddingsLength: Array.isArray(data.embeddings) ? data.embeddings.length : 0,
-						textLength: text.length,
-						textPreview: text.substring(0, 100),
-						fullResponse: JSON.stringify(data)
-					});
-					throw new Error(`Invalid embedding response: ${JSON.stringify(data)}. This may indicate the model is not properly loaded. Try running: ollama pull ${this.settings.ollamaEmbeddingModel}`);
-				}
+		// Persistent cache keyed by the full text, model and pipeline (skipped for note chunks)
+		const cacheKey = await this.storageService.computeContentHash(`${model}\n${pipeline}\n${text}`);
+		return this.queryCache.getOrCreate(cacheKey, embed);
+	}
 
-				// Cache the result
-				this.embeddingCache.set(cacheKey, embedding);
+	async clearQueryCache(): Promise<void> {
+		await this.queryCache.clear();
+		console.log('[Thoughtlands:EmbeddingService] Cleared query embedding cache');
+	}
 
-				return embedding;
-			} catch (error: any) {
-				lastError = error;
-				// If it's retryable and we have retries left, continue the loop
-				if (error.retryable && attempt < maxRetries) {
-					const delay = Math.min(1000 * Math.pow(2, attempt), 5000); // Exponential backoff, max 5s
-					console.warn(`[Thoughtlands:EmbeddingService] Retryable error (${error.message}), waiting ${delay}ms before retry...`);
-					await new Promise(resolve => setTimeout(resolve, delay));
-					continue;
-				}
-				// Not retryable or out of retries - throw
-				console.error('[Thoughtlands:EmbeddingService] Error generating embedding:', error);
-				throw error;
-			}
-		}
-		
-		// If we get here, all retries failed
-		if (lastError) {
-			throw lastError;
-		}
-		throw new Error('Failed to generate embedding after retries');
+	// Stop background work and write pending cache changes when the plugin unloads
+	dispose(): void {
+		this.storageService.dispose();
+		this.queryCache.flush();
 	}
 
 	async generateEmbeddingForFile(file: TFile): Promise<number[]> {
-		// Check storage first
-		const storedEmbedding = await this.storageService.getEmbedding(file);
+		// Check storage first (in the configured model's space, which is where new vectors are written)
+		const storedEmbedding = await this.storageService.getEmbedding(file, 'target');
 		if (storedEmbedding) {
 			return storedEmbedding;
 		}
@@ -399,7 +246,7 @@ export class EmbeddingService {
 			console.log(`[Thoughtlands:EmbeddingService] ${file.path} is already generating embedding, skipping duplicate request`);
 			// Wait a bit and check storage again (in case the other process finished)
 			await new Promise(resolve => setTimeout(resolve, 100));
-			const retryEmbedding = await this.storageService.getEmbedding(file);
+			const retryEmbedding = await this.storageService.getEmbedding(file, 'target');
 			if (retryEmbedding) {
 				return retryEmbedding;
 			}
@@ -412,8 +259,7 @@ export class EmbeddingService {
 
 		try {
 			const content = await this.app.vault.read(file);
-			// Use first 2000 characters for embedding (models have token limits)
-			const text = content.substring(0, 2000).trim();
+			const text = content.trim();
 			
 			// Log file details for debugging
 			console.log(`[Thoughtlands:EmbeddingService] Processing file: ${file.path}`, {
@@ -427,26 +273,34 @@ export class EmbeddingService {
 			// Skip empty files
 			if (!text || text.length === 0) {
 				console.warn(`[Thoughtlands:EmbeddingService] Skipping empty file: ${file.path}`);
+				await this.storageService.recordFailures([{ file, state: 'skipped', reason: 'Empty note' }]);
 				return [];
 			}
 			
 			// Skip very short files (likely just metadata or headers)
 			if (text.length < 10) {
 				console.warn(`[Thoughtlands:EmbeddingService] Skipping very short file: ${file.path} (${text.length} chars)`);
+				await this.storageService.recordFailures([{ file, state: 'skipped', reason: `Too short (${text.length} chars)` }]);
 				return [];
 			}
 			
 			try {
-				const embedding = await this.generateEmbedding(text);
+				const vectors = await this.embedNoteContent(content, file);
+				if (!vectors) {
+					console.warn(`[Thoughtlands:EmbeddingService] No chunks produced for ${file.path}, skipping`);
+					await this.storageService.recordFailures([{ file, state: 'skipped', reason: NO_CHUNKS_REASON }]);
+					return [];
+				}
 				
-				// Store the embedding
-				const hash = await this.storageService.computeHash(file);
-				const updates = new Map<TFile, { hash: string; embedding: number[] }>();
-				updates.set(file, { hash, embedding });
+				// Store the note vector along with its chunk vectors
+				const stamp = await this.storageService.computeStamp(file, content);
+				const updates = new Map<TFile, EmbeddingEntry>();
+				updates.set(file, { ...stamp, ...vectors });
 				await this.storageService.updateEmbeddings(updates);
 				
-				return embedding;
+				return vectors.embedding;
 			} catch (error: any) {
+				await this.storageService.recordFailures([{ file, state: 'failed', reason: describeError(error) }]);
 				// If it's an empty embedding error, log and skip (don't throw)
 				if (error.message && error.message.includes('Invalid embedding response')) {
 					console.warn(`[Thoughtlands:EmbeddingService] Skipping file with empty embedding response: ${file.path}. This may indicate the file is too short or the model needs to be reloaded.`);
@@ -464,148 +318,242 @@ export class EmbeddingService {
 		}
 	}
 
-	async generateEmbeddingsBatch(files: TFile[]): Promise<Map<TFile, number[]>> {
+	// Split note content into chunks and embed them, after running the configured preprocessing
+	// pipeline. The note-level embedding is the mean of the chunk embeddings so code that only needs
+	// a single vector keeps working.
+	private async embedNoteContent(content: string, file: TFile): Promise<NoteVectors | null> {
+		const prepared = await this.prepareNote(content, file);
+		if (prepared.inputs.length === 0) {
+			return null;
+		}
+
+		const results = await this.embedInputs(prepared.inputs, getEmbeddingModelId(this.settings));
+		const failure = results.find(result => result instanceof Error);
+		if (failure) {
+			throw failure;
+		}
+		return this.assembleNoteVectors(prepared, results as number[][], content);
+	}
+
+	// Chunk a note and build the model input for every chunk worth embedding
+	private async prepareNote(content: string, file: TFile): Promise<PreparedNote> {
+		const options = getPreprocessingOptions(this.settings);
+		const modelId = getEmbeddingModelId(this.settings);
+		const noteChunks = chunkNoteContent(maskNoteContent(content, options), {
+			chunkSize: this.settings.chunkSize,
+			maxChunks: this.settings.maxChunksPerNote,
+		});
+
+		const fileCache = this.app.metadataCache.getFileCache(file);
+		const context: ChunkContext = {
+			title: file.basename,
+			tags: fileCache ? Array.from(new Set((getAllTags(fileCache) || []).map(tag => tag.replace(/^#/, '')))) : [],
+		};
+
+		const prepared: PreparedNote = { chunks: [], inputs: [] };
+		for (const chunk of noteChunks) {
+			if (chunk.text.trim().length < 10) {
+				continue; // Too short to carry meaning on its own
+			}
+			const text = options.resolveEmbeds ? await this.resolveEmbeds(chunk.text, file) : chunk.text;
+			prepared.inputs.push(buildDocumentInput(text, { ...context, heading: chunk.heading }, options, modelId));
+			prepared.chunks.push({
+				offset: chunk.offset,
+				length: chunk.text.length,
+				heading: chunk.heading,
+				preview: chunk.text.replace(/\s+/g, ' ').substring(0, 200),
+			});
+		}
+		return prepared;
+	}
+
+	private assembleNoteVectors(prepared: PreparedNote, embeddings: number[][], content: string): NoteVectors {
+		const chunks: ChunkEmbedding[] = prepared.chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] }));
+		console.log(`[Thoughtlands:EmbeddingService] Embedded ${chunks.length} chunk${chunks.length !== 1 ? 's' : ''} (${content.length} chars)`);
+		return {
+			embedding: this.calculateCentroid(chunks.map(c => c.embedding)),
+			chunks,
+		};
+	}
+
+	/**
+	 * Embed model inputs in batched requests, keeping up to `concurrency` requests in flight. The
+	 * batch size grows while the server answers quickly and shrinks when it is slow or fails. A
+	 * batch rejected because of its inputs is split in half and retried until the input at fault is
+	 * isolated; each result is either a vector or the error for that one input. Any other error
+	 * (auth, network, timeout, server) stops the workers and is thrown.
+	 */
+	private async embedInputs(
+		inputs: string[],
+		modelId: string,
+		control?: Pick<EmbeddingBuildControl, 'concurrency' | 'beforeRequest'>
+	): Promise<Array<number[] | Error>> {
+		const results: Array<number[] | Error> = new Array(inputs.length);
+		const parsed = parseEmbeddingModelId(modelId);
+		const provider = this.getProvider(parsed.provider);
+
+		let cursor = 0;
+		let fatal: unknown = null; // First error not caused by an input; no further batches are started
+		const worker = async () => {
+			while (cursor < inputs.length && !fatal) {
+				const start = cursor;
+				cursor = Math.min(inputs.length, start + this.batchSize);
+				try {
+					await this.embedRange(provider, parsed.model, inputs, start, cursor, results, control?.beforeRequest);
+				} catch (error) {
+					fatal = fatal ?? error;
+				}
+			}
+		};
+		const workers = Math.min(Math.max(1, control?.concurrency ?? 1), inputs.length);
+		await Promise.all(Array.from({ length: workers }, () => worker()));
+		if (fatal) {
+			throw fatal;
+		}
+		return results;
+	}
+
+	private async embedRange(
+		provider: EmbeddingProvider,
+		model: string,
+		inputs: string[],
+		start: number,
+		end: number,
+		results: Array<number[] | Error>,
+		beforeRequest?: () => Promise<void>
+	): Promise<void> {
+		const size = end - start;
+		if (beforeRequest) {
+			await beforeRequest();
+		}
+
+		const startedAt = Date.now();
+		try {
+			const embeddings = await provider.embedBatch(inputs.slice(start, end), model);
+			embeddings.forEach((embedding, i) => {
+				results[start + i] = embedding;
+			});
+			this.adaptBatchSize(size, Date.now() - startedAt);
+		} catch (error) {
+			if (!isInputError(error)) {
+				throw error;
+			}
+			if (size === 1) {
+				results[start] = error instanceof Error ? error : new Error(String(error));
+				return;
+			}
+			const mid = start + Math.ceil(size / 2);
+			this.batchSize = Math.max(1, Math.min(this.batchSize, mid - start));
+			console.warn(`[Thoughtlands:EmbeddingService] Batch of ${size} inputs failed, splitting (batch size now ${this.batchSize}):`, error);
+			await this.embedRange(provider, model, inputs, start, mid, results, beforeRequest);
+			await this.embedRange(provider, model, inputs, mid, end, results, beforeRequest);
+		}
+	}
+
+	private adaptBatchSize(size: number, elapsedMs: number): void {
+		if (elapsedMs > SLOW_BATCH_MS) {
+			this.batchSize = Math.max(1, Math.floor(size / 2));
+			console.log(`[Thoughtlands:EmbeddingService] Batch of ${size} took ${elapsedMs}ms, reducing batch size to ${this.batchSize}`);
+		} else if (elapsedMs < FAST_BATCH_MS && size >= this.batchSize && this.batchSize < MAX_EMBEDDING_BATCH) {
+			// Only full batches say anything about capacity; the tail of a queue is often smaller
+			this.batchSize = Math.min(MAX_EMBEDDING_BATCH, this.batchSize * 2);
+		}
+	}
+
+	// Replace ![[note]] embeds with the embedded note's text (one level deep, capped at the chunk
+	// size); embedded attachments such as images carry no text and are dropped
+	private async resolveEmbeds(text: string, file: TFile): Promise<string> {
+		const options = getPreprocessingOptions(this.settings);
+		let resolved = text;
+		for (const embed of findEmbeds(text)) {
+			const target = this.app.metadataCache.getFirstLinkpathDest(embed.link, file.path);
+			let replacement = '';
+			if (target && target.extension === 'md' && target.path !== file.path) {
+				try {
+					const embedded = maskNoteContent(await this.app.vault.cachedRead(target), options);
+					replacement = embedded.replace(/\s+/g, ' ').trim().substring(0, this.settings.chunkSize);
+				} catch (error) {
+					console.warn(`[Thoughtlands:EmbeddingService] Could not read embedded note ${target.path}:`, error);
+				}
+			}
+			resolved = resolved.replace(embed.match, replacement);
+		}
+		return resolved;
+	}
+
+	// Embed several notes, pooling their chunks into shared batched requests. A note whose chunk
+	// can't be embedded is skipped (and logged) without affecting the rest of the batch.
+	async generateEmbeddingsBatch(files: TFile[], control?: Pick<EmbeddingBuildControl, 'concurrency' | 'beforeRequest'>): Promise<Map<TFile, number[]>> {
 		const results = new Map<TFile, number[]>();
 		
 		if (files.length === 0) {
 			return results;
 		}
 
-		// Process files with throttling to avoid overwhelming Ollama
-		// Limit to 1 concurrent request to prevent crashes (Ollama is very sensitive)
-		const CONCURRENT_LIMIT = 1;
-		console.log(`[Thoughtlands:EmbeddingService] Generating embeddings for ${files.length} files (max ${CONCURRENT_LIMIT} concurrent)`);
+		// Requests in flight; defaults to 1 to prevent crashes (Ollama is very sensitive)
+		const concurrency = Math.max(1, control?.concurrency ?? 1);
 		
 		try {
-			// Process files in batches to limit concurrency
-			for (let i = 0; i < files.length; i += CONCURRENT_LIMIT) {
-				const batch = files.slice(i, i + CONCURRENT_LIMIT);
-				const batchPromises = batch.map(async (file) => {
+			const notes: Array<{ file: TFile; content: string; prepared: PreparedNote; first: number }> = [];
+			const inputs: string[] = [];
+			const failures: Array<{ file: TFile; state: EmbeddingFailure['state']; reason: string }> = [];
+			for (const file of files) {
 				try {
 					const content = await this.app.vault.read(file);
-					const text = content.substring(0, 2000);
 					
-					if (!text || text.trim().length === 0) {
+					if (!content || content.trim().length === 0) {
 						console.warn(`[Thoughtlands:EmbeddingService] Empty content for ${file.path}`);
-						return null;
-					}
-
-					// Try /api/embed first, then fallback to /api/embeddings if needed
-					let response: Response;
-					try {
-						response = await fetch(`${this.settings.ollamaUrl}/api/embed`, {
-						method: 'POST',
-						headers: {
-							'Content-Type': 'application/json',
-						},
-						body: JSON.stringify({
-							model: this.settings.ollamaEmbeddingModel,
-							input: text, // Ollama uses "input" not "prompt" for embeddings
-						}),
-					});
-
-					// If 404/405, try /api/embeddings (plural) as fallback
-					if (!response.ok && (response.status === 404 || response.status === 405)) {
-						console.log(`[Thoughtlands:EmbeddingService] /api/embed failed for ${file.path}, trying /api/embeddings`);
-							try {
-						response = await fetch(`${this.settings.ollamaUrl}/api/embeddings`, {
-							method: 'POST',
-							headers: {
-								'Content-Type': 'application/json',
-							},
-							body: JSON.stringify({
-								model: this.settings.ollamaEmbeddingModel,
-								input: text, // Ollama uses "input" not "prompt" for embeddings
-							}),
-						});
-							} catch (fallbackError) {
-								console.error(`[Thoughtlands:EmbeddingService] Fallback fetch failed for ${file.path}:`, fallbackError);
-								return null;
-							}
-						}
-					} catch (fetchError) {
-						console.error(`[Thoughtlands:EmbeddingService] Network error for ${file.path}:`, fetchError);
-						return null;
+						failures.push({ file, state: 'skipped', reason: 'Empty note' });
+						continue;
 					}
 
-					if (!response.ok) {
-						let errorText = '';
-						try {
-							errorText = await response.text();
-						} catch (textError) {
-							errorText = `Unable to read error response: ${textError instanceof Error ? textError.message : 'Unknown error'}`;
-						}
-						console.error(`[Thoughtlands:EmbeddingService] Error for ${file.path}:`, {
-							status: response.status,
-							error: errorText
-						});
-						return null;
+					const prepared = await this.prepareNote(content, file);
+					if (prepared.inputs.length === 0) {
+						console.warn(`[Thoughtlands:EmbeddingService] No chunks produced for ${file.path}`);
+						failures.push({ file, state: 'skipped', reason: NO_CHUNKS_REASON });
+						continue;
 					}
 
-					const data = await response.json();
-					
-					// Ollama may return 'embedding' (singular) or 'embeddings' (plural) array
-					let embedding: number[] | undefined;
-					if (data.embedding) {
-						embedding = Array.isArray(data.embedding) ? data.embedding : undefined;
-					} else if (data.embeddings && Array.isArray(data.embeddings)) {
-						// If it's an array, take the first element
-						embedding = data.embeddings[0] || undefined;
-					}
-					
-					if (!embedding || embedding.length === 0) {
-						console.error(`[Thoughtlands:EmbeddingService] Invalid embedding for ${file.path}:`, {
-							hasEmbedding: !!data.embedding,
-							hasEmbeddings: !!data.embeddings,
-							embeddingsLength: Array.isArray(data.embeddings) ? data.embeddings.length : 0,
-							dataKeys: Object.keys(data),
-							textLength: text.length,
-							textPreview: text.substring(0, 100),
-							fullResponse: JSON.stringify(data),
-							dataSample: data
-						});
-						return null;
-					}
-
-					// Verify all elements are numbers
-					if (!embedding.every((val: any) => typeof val === 'number')) {
-						console.warn(`[Thoughtlands:EmbeddingService] Embedding contains non-numeric values for ${file.path}`);
-						return null;
-					}
-
-					return { file, embedding };
+					notes.push({ file, content, prepared, first: inputs.length });
+					inputs.push(...prepared.inputs);
 				} catch (error) {
-					console.error(`[Thoughtlands:EmbeddingService] Exception generating embedding for ${file.path}:`, error);
-					return null;
+					console.error(`[Thoughtlands:EmbeddingService] Exception preparing ${file.path} for embedding:`, error);
+					failures.push({ file, state: 'failed', reason: describeError(error) });
 				}
-				});
+			}
 
-				const batchResults = await Promise.all(batchPromises);
-				
-				// Store embeddings from this batch
-				const updates = new Map<TFile, { hash: string; embedding: number[] }>();
-				
-				for (const result of batchResults) {
-					if (!result) continue;
-					
-					const { file, embedding } = result;
-					results.set(file, embedding);
-					
-					const hash = await this.storageService.computeHash(file);
-					updates.set(file, { hash, embedding });
-				}
-				
-				if (updates.size > 0) {
-					await this.storageService.updateEmbeddings(updates);
+			if (inputs.length === 0) {
+				await this.storageService.recordFailures(failures);
+				return results;
+			}
+
+			console.log(`[Thoughtlands:EmbeddingService] Generating embeddings for ${notes.length} files (${inputs.length} chunks, ${this.batchSize} per request, max ${concurrency} concurrent)`);
+			const embeddings = await this.embedInputs(inputs, getEmbeddingModelId(this.settings), control);
+			
+			// Store embeddings from this batch
+			const updates = new Map<TFile, EmbeddingEntry>();
+			
+			for (const { file, content, prepared, first } of notes) {
+				const noteEmbeddings = embeddings.slice(first, first + prepared.inputs.length);
+				const failure = noteEmbeddings.find(result => result instanceof Error);
+				if (failure) {
+					console.error(`[Thoughtlands:EmbeddingService] Exception generating embedding for ${file.path}:`, failure);
+					failures.push({ file, state: 'failed', reason: describeError(failure) });
+					continue;
 				}
+
+				const vectors = this.assembleNoteVectors(prepared, noteEmbeddings as number[][], content);
+				results.set(file, vectors.embedding);
 				
-				// Delay between batches to avoid overwhelming Ollama
-				// Since we're processing 1 at a time, add a small delay between each file
-				if (i + CONCURRENT_LIMIT < files.length) {
-					await new Promise(resolve => setTimeout(resolve, 200)); // 200ms delay between files
-				}
+				const stamp = await this.storageService.computeStamp(file, content);
+				updates.set(file, { ...stamp, ...vectors });
 			}
 			
+			if (updates.size > 0) {
+				await this.storageService.updateEmbeddings(updates);
+			}
+			await this.storageService.recordFailures(failures);
+			
 			return results;
 		} catch (error) {
 			console.error('[Thoughtlands:EmbeddingService] Error generating batch embeddings:', error);
@@ -613,10 +561,16 @@ export class EmbeddingService {
 		}
 	}
 
+	/**
+	 * Embed every note that has no current embedding, then mark the build complete. With a control
+	 * the build runs as the background job: it can be paused, rate limited and stopped between
+	 * batches. Returns false when the build was stopped before it finished.
+	 */
 	async generateInitialEmbeddings(
 		allFiles: TFile[],
-		onProgress?: (progress: EmbeddingProgress) => void
-	): Promise<void> {
+		onProgress?: (progress: EmbeddingProgress) => void,
+		control?: EmbeddingBuildControl
+	): Promise<boolean> {
 		if (this.isProcessing) {
 			throw new Error('Embedding process already in progress');
 		}
@@ -629,28 +583,34 @@ export class EmbeddingService {
 			
 			// Get files that need embeddings
 			const missingFiles = await this.storageService.getMissingFiles(allFiles);
-			const total = missingFiles.length;
+			const total = Math.max(control?.jobTotal ?? 0, missingFiles.length);
+			const completedBefore = total - missingFiles.length;
 			
-			console.log(`[Thoughtlands:EmbeddingService] Starting initial embedding process for ${total} files`);
+			console.log(`[Thoughtlands:EmbeddingService] Starting initial embedding process for ${missingFiles.length} files${completedBefore > 0 ? ` (resuming after ${completedBefore})` : ''}`);
 			
-			if (total === 0) {
+			if (missingFiles.length === 0) {
 				// All files have embeddings, mark as complete
-				await this.storageService.markFullBuildComplete(this.settings.ollamaEmbeddingModel);
+				await this.storageService.markFullBuildComplete(getEmbeddingModelId(this.settings));
 				this.notifyProgress({
 					total: allFiles.length,
 					completed: allFiles.length,
 					current: allFiles.length,
 					percentage: 100,
 				});
-				this.isProcessing = false;
-				return;
+				return true;
 			}
 			
-			// Process in batches of 15 (middle of 10-20 range)
+			// Process in batches of 15 notes, whose chunks share batched embedding requests; the
+			// background job checkpoints after each batch and can pause or stop between them
 			const batchSize = 15;
-			let completed = 0;
+			let completed = completedBefore;
 			
 			for (let i = 0; i < missingFiles.length; i += batchSize) {
+				if (control && !(await control.waitUntilRunnable())) {
+					console.log(`[Thoughtlands:EmbeddingService] Initial embedding process stopped after ${completed} of ${total} files`);
+					return false;
+				}
+
 				const batch = missingFiles.slice(i, i + batchSize);
 				const batchNum = Math.floor(i / batchSize) + 1;
 				const totalBatches = Math.ceil(missingFiles.length / batchSize);
@@ -674,16 +634,19 @@ export class EmbeddingService {
 				}
 				
 				// Generate embeddings for batch
-				await this.generateEmbeddingsBatch(batch);
+				await this.generateEmbeddingsBatch(batch, control);
+				if (control) {
+					await control.onBatchComplete(completed, total);
+				}
 				
 				// Throttle to prevent UI blocking (300ms between batches)
-				if (i + batchSize < missingFiles.length) {
+				if (!control && i + batchSize < missingFiles.length) {
 					await new Promise(resolve => setTimeout(resolve, 300));
 				}
 			}
 			
 			// Mark full build as complete
-			await this.storageService.markFullBuildComplete(this.settings.ollamaEmbeddingModel);
+			await this.storageService.markFullBuildComplete(getEmbeddingModelId(this.settings));
 			
 			console.log(`[Thoughtlands:EmbeddingService] Initial embedding process complete for ${total} files`);
 			
@@ -693,6 +656,7 @@ export class EmbeddingService {
 				current: total,
 				percentage: 100,
 			});
+			return true;
 		} catch (error) {
 			console.error('[Thoughtlands:EmbeddingService] Error in initial embedding process:', error);
 			throw error;
@@ -727,6 +691,65 @@ export class EmbeddingService {
 		return centroid;
 	}
 
+	// Centroid of the stored embeddings of the given notes ("more like these"); null when none of them is embedded
+	async getNotesCentroid(paths: string[]): Promise<{ centroid: number[]; embeddedPaths: string[] } | null> {
+		await this.storageService.loadEmbeddings();
+		const embeddings: number[][] = [];
+		const embeddedPaths: string[] = [];
+		for (const path of paths) {
+			const entry = this.storageService.getStoredEntry(path);
+			if (entry) {
+				embeddings.push(entry.embedding);
+				embeddedPaths.push(path);
+			}
+		}
+		if (embeddings.length === 0) {
+			return null;
+		}
+		return { centroid: this.calculateCentroid(embeddings), embeddedPaths };
+	}
+
+	/**
+	 * Rocchio-style query from example notes: the concept embedding plus the centroid of the positive
+	 * examples, minus a smaller share of the centroid of the negative ones. Each part is scaled to unit
+	 * length first so no part dominates by magnitude alone. Examples without a stored embedding are
+	 * left out. Null when neither the concept text nor any positive example yields a vector.
+	 */
+	async buildExemplarQuery(exemplars: ExemplarSet): Promise<ExemplarQuery | null> {
+		const positive = await this.getNotesCentroid(exemplars.positiveNotes);
+		const negative = await this.getNotesCentroid(exemplars.negativeNotes);
+		const conceptText = exemplars.conceptText?.trim();
+		const concept = conceptText ? await this.generateEmbedding(conceptText) : null;
+
+		const parts: Array<{ vector: number[]; weight: number }> = [];
+		if (concept) parts.push({ vector: concept, weight: ROCCHIO_CONCEPT_WEIGHT });
+		if (positive) parts.push({ vector: positive.centroid, weight: ROCCHIO_POSITIVE_WEIGHT });
+		if (parts.length === 0) {
+			return null;
+		}
+		if (negative) parts.push({ vector: negative.centroid, weight: -ROCCHIO_NEGATIVE_WEIGHT });
+
+		const dimension = parts[0].vector.length;
+		if (parts.some(part => part.vector.length !== dimension)) {
+			throw new Error('The concept text and the example notes were embedded with different models. Re-embed the vault with the current model.');
+		}
+
+		const vector = new Array(dimension).fill(0);
+		for (const part of parts) {
+			const norm = Math.sqrt(part.vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+			for (let i = 0; i < dimension; i++) {
+				vector[i] += part.weight * part.vector[i] / norm;
+			}
+		}
+
+		return {
+			vector,
+			positiveNotes: positive ? positive.embeddedPaths : [],
+			negativeNotes: negative ? negative.embeddedPaths : [],
+			conceptEmbedded: !!concept,
+		};
+	}
+
 	cosineSimilarity(vec1: number[], vec2: number[]): number {
 		if (vec1.length !== vec2.length) {
 			throw new Error('Vectors must have the same dimension');
@@ -750,55 +773,133 @@ export class EmbeddingService {
 		return dotProduct / denominator;
 	}
 
-	async findSimilarNotes(
-		centroid: number[],
-		candidateFiles: TFile[],
-		excludeFiles: TFile[],
-		maxResults: number = 20
-	): Promise<{ file: TFile; similarity: number }[]> {
-		const excludePaths = new Set(excludeFiles.map(f => f.path));
-		const results: { file: TFile; similarity: number }[] = [];
+	/**
+	 * Compare two sets of note vectors using their chunks.
+	 * Every chunk of `query` is compared with every chunk of `target` (a plain query vector or an
+	 * older entry without chunks counts as a single chunk). The pairwise scores are combined using
+	 * the chunk aggregation setting: the best pair ('max') or the mean of the best k pairs ('top-k-avg').
+	 * The returned chunk is the target passage from the best-scoring pair.
+	 */
+	compareNoteVectors(query: NoteVectors, target: NoteVectors): NoteMatch {
+		const queryVectors = query.chunks && query.chunks.length > 0
+			? query.chunks.map(c => c.embedding)
+			: [query.embedding];
+		const targetChunks: (ChunkEmbedding | undefined)[] = target.chunks && target.chunks.length > 0
+			? target.chunks
+			: [undefined];
+
+		const scores: { similarity: number; chunk?: ChunkEmbedding }[] = [];
+		for (const queryVector of queryVectors) {
+			for (const chunk of targetChunks) {
+				const targetVector = chunk ? chunk.embedding : target.embedding;
+				scores.push({ similarity: this.cosineSimilarity(queryVector, targetVector), chunk });
+			}
+		}
 
-		console.log(`[Thoughtlands:EmbeddingService] Finding similar notes from ${candidateFiles.length} candidates, excluding ${excludeFiles.length} files`);
+		scores.sort((a, b) => b.similarity - a.similarity);
+		const best = scores[0];
 
-		// Only check files that already have embeddings - don't generate new ones on the fly
-		// This prevents 500 errors from trying to generate embeddings for too many files at once
-		const filesWithEmbeddings: TFile[] = [];
-		for (const file of candidateFiles) {
-			if (excludePaths.has(file.path)) {
-				continue;
-			}
-			// Check if file already has an embedding
-			const hasEmbedding = await this.storageService.hasEmbedding(file);
-			if (hasEmbedding) {
-				filesWithEmbeddings.push(file);
+		if (this.settings.chunkAggregation === 'top-k-avg') {
+			const k = Math.max(1, Math.min(this.settings.chunkTopK || 3, scores.length));
+			let sum = 0;
+			for (let i = 0; i < k; i++) {
+				sum += scores[i].similarity;
 			}
+			return { similarity: sum / k, chunk: best.chunk };
 		}
 
-		console.log(`[Thoughtlands:EmbeddingService] Found ${filesWithEmbeddings.length} files with existing embeddings out of ${candidateFiles.length} candidates`);
+		return { similarity: best.similarity, chunk: best.chunk };
+	}
 
-		for (const file of filesWithEmbeddings) {
-			try {
-				// Get existing embedding from storage (don't generate new ones)
-				const embedding = await this.storageService.getEmbedding(file);
-				if (!embedding) {
-					continue; // Skip if no embedding found
-				}
-				
-				const similarity = this.cosineSimilarity(centroid, embedding);
+	/**
+	 * Nearest notes to a query, using the approximate index over the serving model's chunk vectors.
+	 * Notes returned by the index are re-scored with compareNoteVectors, so the chunk aggregation
+	 * setting still applies and each result carries its matched passage. `filter` restricts the
+	 * results either with a predicate or with an explicit list of files; short lists are scored
+	 * exactly instead of probing the index.
+	 */
+	async topK(
+		query: number[] | NoteVectors,
+		k: number,
+		filter?: TFile[] | ((file: TFile) => boolean)
+	): Promise<SimilarNoteResult[]> {
+		await this.storageService.loadEmbeddings();
+		const index = this.storageService.getSearchIndex();
+		if (!index || k <= 0) {
+			return [];
+		}
+
+		const queryVectors: NoteVectors = Array.isArray(query) ? { embedding: query } : query;
 
-				if (similarity >= this.settings.embeddingSimilarityThreshold) {
-					results.push({ file, similarity });
+		// Vectors from different models can't be compared; report it instead of returning meaningless scores
+		if (queryVectors.embedding.length !== index.getDimension()) {
+			console.warn(`[Thoughtlands:EmbeddingService] Query vector has ${queryVectors.embedding.length} dimensions but stored embeddings have ${index.getDimension()}. Re-embed the vault with the current model.`);
+			this.dimensionMismatch = { queryDimension: queryVectors.embedding.length, storedDimension: index.getDimension() };
+			return [];
+		}
+		this.dimensionMismatch = null;
+
+		// Over-fetch so re-scoring with the aggregation setting can reorder the candidates
+		const poolSize = Math.max(k * 2, k + 10);
+		const searchVectors = queryVectors.chunks && queryVectors.chunks.length > 0
+			? queryVectors.chunks.map(c => c.embedding)
+			: [queryVectors.embedding];
+		const candidatePaths = new Set<string>();
+
+		if (Array.isArray(filter)) {
+			const paths = filter.map(f => f.path);
+			const allowed = new Set(paths);
+			const exact = paths.length < index.noteCount / 4;
+			for (const vector of searchVectors) {
+				const hits = exact
+					? index.searchWithin(vector, paths, poolSize)
+					: index.search(vector, poolSize, path => allowed.has(path));
+				hits.forEach(hit => candidatePaths.add(hit.path));
+			}
+		} else {
+			const pathFilter = filter
+				? (path: string) => {
+					const file = this.app.vault.getAbstractFileByPath(path);
+					return file instanceof TFile && filter(file);
 				}
-			} catch (error) {
-				console.warn(`[Thoughtlands:EmbeddingService] Failed to generate embedding for ${file.path}:`, error);
-				// Continue with other files
+				: undefined;
+			for (const vector of searchVectors) {
+				index.search(vector, poolSize, pathFilter).forEach(hit => candidatePaths.add(hit.path));
 			}
 		}
 
-		// Sort by similarity (highest first) and return top N
+		const results: SimilarNoteResult[] = [];
+		for (const path of candidatePaths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			const entry = this.storageService.getStoredEntry(path);
+			if (!(file instanceof TFile) || !entry) continue;
+			const match = this.compareNoteVectors(queryVectors, entry);
+			results.push({ file, similarity: match.similarity, passage: match.chunk });
+		}
+
 		results.sort((a, b) => b.similarity - a.similarity);
-		return results.slice(0, maxResults);
+		return results.slice(0, k);
+	}
+
+	async findSimilarNotes(
+		centroid: number[],
+		candidateFiles: TFile[],
+		excludeFiles: TFile[],
+		maxResults: number = 20,
+		threshold: number = this.settings.embeddingSimilarityThreshold
+	): Promise<SimilarNoteResult[]> {
+		const excludePaths = new Set(excludeFiles.map(f => f.path));
+		const candidates = candidateFiles.filter(file => !excludePaths.has(file.path));
+
+		console.log(`[Thoughtlands:EmbeddingService] Finding similar notes from ${candidateFiles.length} candidates, excluding ${excludeFiles.length} files`);
+
+		// Only notes that already have embeddings can match - nothing is generated on the fly
+		const results = await this.topK(centroid, maxResults, candidates);
+		const aboveThreshold = results.filter(result => result.similarity >= threshold);
+
+		console.log(`[Thoughtlands:EmbeddingService] Found ${aboveThreshold.length} similar notes above threshold ${threshold}`);
+
+		return aboveThreshold;
 	}
 }
 
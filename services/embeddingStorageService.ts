@@ -1,56 +1,265 @@
 import { App, TFile } from 'obsidian';
+import { VectorIndexStore } from './vectorIndexStore';
+import { VectorSearchIndex } from './vectorSearchIndex';
 
-export interface EmbeddingEntry {
-	hash: string;
+export interface ChunkEmbedding {
+	offset: number; // Character offset of the chunk within the note
+	length: number; // Character length of the chunk
+	heading?: string; // Nearest heading above the chunk
+	preview: string; // Short excerpt shown when this chunk is the matched passage
 	embedding: number[];
 }
 
+// Note-level vector plus optional per-chunk vectors
+export interface NoteVectors {
+	embedding: number[]; // Mean of the chunk embeddings (or a single whole-note embedding for older entries)
+	chunks?: ChunkEmbedding[];
+}
+
+export interface EmbeddingEntry extends NoteVectors {
+	hash: string; // SHA-256 of the note content (older entries: 32-bit string hash)
+	mtime?: number; // File modification time when the hash was last verified
+	size?: number; // File size when the hash was last verified
+}
+
+// Content fingerprint stored with an entry
+export type EntryStamp = Pick<EmbeddingEntry, 'hash' | 'mtime' | 'size'>;
+
+// One "model space": every vector in it was produced by the same model, dimension and preprocessing pipeline
 export interface EmbeddingsData {
 	meta: {
 		model: string;
+		dimension?: number; // Vector dimension (unset until the first vector is stored)
 		lastFullBuild: string | null;
+		updatedAt?: string; // Last time vectors were written to this space
+		preprocessing?: string; // Preprocessing pipeline signature (unset: raw note text)
 		version: string;
 	};
 	data: Record<string, EmbeddingEntry>;
 }
 
+// Summary of a stored model space (for the settings tab and sidebar)
+export interface EmbeddingSpaceInfo {
+	key: string;
+	model: string;
+	dimension: number | null;
+	preprocessing: string; // Preprocessing pipeline signature ("raw" for unprocessed note text)
+	entryCount: number;
+	lastFullBuild: string | null;
+	isServing: boolean; // Used to answer queries
+	isTarget: boolean; // Matches the configured embedding model (new vectors are written here)
+}
+
+// Why a note has no current vectors after its last embedding attempt
+export interface EmbeddingFailure {
+	state: 'failed' | 'skipped'; // failed: the request or response was bad; skipped: nothing worth embedding
+	reason: string;
+	at: string; // Time of the attempt
+	mtime?: number; // File modification time at the attempt (skipped notes are tried again once the file changes)
+	size?: number;
+}
+
+// ok: current vectors; stale: vectors for older content; missing: never embedded; excluded: filtered out by settings
+export type FileEmbeddingState = 'ok' | 'stale' | 'missing' | 'failed' | 'skipped' | 'excluded';
+
+export interface FileEmbeddingStatus {
+	file: TFile;
+	state: FileEmbeddingState;
+	reason?: string;
+	at?: string;
+}
+
+// Per-file embedding state of the configured (target) space, for the embedding health panel
+export interface EmbeddingHealthReport {
+	noteCount: number; // Notes checked (NoteService.getAllNotes)
+	counts: Record<FileEmbeddingState, number>;
+	files: FileEmbeddingStatus[]; // Notes that are stale, missing, failed or skipped
+}
+
+// Queries read from the serving space; embedding builds read and write the target (configured) model's space
+export type EmbeddingSpaceRole = 'serving' | 'target';
+
+interface EmbeddingSpace {
+	key: string;
+	data: EmbeddingsData;
+	index: VectorIndexStore;
+	search: VectorSearchIndex | null; // Built on first query, then updated along with the stored vectors
+}
+
+const VECTORS_FOLDER = 'vectors';
+const LEGACY_INDEX_FOLDER = 'vector-index';
+const FAILURES_FILE = 'embedding-failures.json'; // Failures per target model and pipeline, keyed by note path
+
 export class EmbeddingStorageService {
 	private app: App;
 	private plugin: any; // Plugin instance
-	private embeddingsData: EmbeddingsData | null = null;
+	private pluginDir: string;
+	private spaces: Map<string, EmbeddingSpace> = new Map();
+	private loaded: boolean = false;
+	private loadPromise: Promise<EmbeddingsData | null> | null = null;
+	private targetModel: string;
+	private targetPreprocessing: string;
+	private restamped: Map<EmbeddingSpace, Set<string>> = new Map(); // Entries whose fingerprint was refreshed in memory but not yet written
+	private failures: Record<string, Record<string, EmbeddingFailure>> = {}; // Keyed by failureKey(), then note path
+	private version: number = 0; // Bumped whenever stored vectors change, so results computed from them can be reused until then
 
-	constructor(app: App, plugin: any) {
+	constructor(app: App, plugin: any, targetModel: string, targetPreprocessing: string = 'raw') {
 		this.app = app;
 		this.plugin = plugin;
+		this.targetModel = targetModel;
+		this.targetPreprocessing = targetPreprocessing;
+		// Vectors live in binary indexes in the plugin folder (one per model space); data.json only keeps settings and regions
+		this.pluginDir = plugin.manifest?.dir || `${app.vault.configDir}/plugins/thoughtlands`;
+	}
+
+	// Called when the configured embedding model or preprocessing pipeline changes. Existing spaces
+	// are kept, so switching back to a previous model or pipeline reuses its vectors without re-embedding.
+	setTargetModel(model: string, preprocessing: string = 'raw'): void {
+		if (model !== this.targetModel) {
+			console.log(`[Thoughtlands:EmbeddingStorage] Target embedding model changed: ${this.targetModel} -> ${model}`);
+		}
+		if (preprocessing !== this.targetPreprocessing) {
+			console.log(`[Thoughtlands:EmbeddingStorage] Preprocessing pipeline changed: ${this.targetPreprocessing} -> ${preprocessing}`);
+		}
+		this.targetModel = model;
+		this.targetPreprocessing = preprocessing;
+	}
+
+	getTargetModel(): string {
+		return this.targetModel;
+	}
+
+	getVersion(): number {
+		return this.version;
+	}
+
+	// Model whose vectors currently answer queries (may differ from the target while it is being built)
+	getServingModel(): string | null {
+		const space = this.getServingSpace();
+		return space ? space.data.meta.model : null;
+	}
+
+	getServingDimension(): number | null {
+		const space = this.getServingSpace();
+		return space?.data.meta.dimension || null;
+	}
+
+	// Pipeline the serving vectors were built with; queries must be prepared the same way
+	getServingPreprocessing(): string {
+		const space = this.getServingSpace();
+		return space ? space.data.meta.preprocessing || 'raw' : this.targetPreprocessing;
 	}
 
 	async loadEmbeddings(): Promise<EmbeddingsData | null> {
+		// All writes go through this service, so once loaded the in-memory copy is authoritative
+		if (this.loaded) {
+			return this.getEmbeddingsData();
+		}
+		// Share a single load between concurrent callers (sidebar, settings tab and commands all call this)
+		if (!this.loadPromise) {
+			this.loadPromise = this.readEmbeddings().finally(() => {
+				this.loadPromise = null;
+			});
+		}
+		return this.loadPromise;
+	}
+
+	private async readEmbeddings(): Promise<EmbeddingsData | null> {
 		try {
-			// Use plugin's loadData method
-			const data = await this.plugin.loadData();
-			if (data && data.embeddings) {
-				this.embeddingsData = data.embeddings as EmbeddingsData;
-				console.log('[Thoughtlands:EmbeddingStorage] Loaded embeddings:', {
-					model: this.embeddingsData.meta.model,
-					lastFullBuild: this.embeddingsData.meta.lastFullBuild,
-					entryCount: Object.keys(this.embeddingsData.data).length
-				});
-				return this.embeddingsData;
+			const adapter = this.app.vault.adapter;
+			const vectorsFolder = `${this.pluginDir}/${VECTORS_FOLDER}`;
+			if (await adapter.exists(vectorsFolder)) {
+				const listing = await adapter.list(vectorsFolder);
+				for (const folder of listing.folders) {
+					const key = folder.split('/').pop() || folder;
+					const space = this.createSpace(key);
+					const data = await space.index.load();
+					if (data) {
+						space.data = data;
+						this.spaces.set(key, space);
+					}
+				}
 			}
+
+			// Migrate embeddings stored by older versions (data.json, then the single-model index)
+			await this.migrateFromPluginData();
+			await this.migrateLegacyIndex();
+			await this.loadFailures();
+
+			this.loaded = true;
+			this.version++;
+
+			const serving = this.getServingSpace();
+			console.log('[Thoughtlands:EmbeddingStorage] Loaded embeddings:', {
+				spaces: Array.from(this.spaces.keys()),
+				targetModel: this.targetModel,
+				servingModel: serving ? serving.data.meta.model : null,
+				entryCount: serving ? Object.keys(serving.data.data).length : 0
+			});
+			return this.getEmbeddingsData();
 		} catch (error) {
 			console.error('[Thoughtlands:EmbeddingStorage] Error loading embeddings:', error);
 		}
-		
+
 		return null;
 	}
 
+	private async migrateFromPluginData(): Promise<void> {
+		const pluginData = await this.plugin.loadData();
+		if (!pluginData || !pluginData.embeddings) {
+			return;
+		}
+
+		// If spaces already exist the JSON copy is a leftover (e.g. re-added by a concurrent save)
+		if (this.spaces.size === 0) {
+			const legacy = pluginData.embeddings as EmbeddingsData;
+			console.log(`[Thoughtlands:EmbeddingStorage] Migrating ${Object.keys(legacy.data || {}).length} embeddings from data.json to the vector index`);
+			await this.importSpace({ meta: legacy.meta, data: legacy.data || {} });
+		}
+
+		// Only drop the JSON copy once the binary index has been written
+		delete pluginData.embeddings;
+		await this.plugin.saveData(pluginData);
+	}
+
+	// Earlier versions kept a single index for whichever model was configured
+	private async migrateLegacyIndex(): Promise<void> {
+		const legacyIndex = new VectorIndexStore(this.app, `${this.pluginDir}/${LEGACY_INDEX_FOLDER}`, () => null);
+		if (!(await legacyIndex.exists())) {
+			return;
+		}
+
+		const legacy = await legacyIndex.load();
+		if (legacy && Object.keys(legacy.data).length > 0) {
+			console.log(`[Thoughtlands:EmbeddingStorage] Moving ${Object.keys(legacy.data).length} embeddings into a per-model space`);
+			await this.importSpace(legacy);
+		}
+		await legacyIndex.clear();
+	}
+
+	// Write a complete set of embeddings as a new space, keyed by its model and dimension
+	private async importSpace(data: EmbeddingsData): Promise<void> {
+		const dimension = data.meta.dimension || this.detectDimension(data);
+		data.meta.model = data.meta.model || this.targetModel;
+		data.meta.dimension = dimension || undefined;
+		const space = this.createSpace(this.spaceKey(data.meta.model, dimension, data.meta.preprocessing));
+		space.data = data;
+		space.search = null;
+		await space.index.writeFull(data);
+		this.spaces.set(space.key, space);
+	}
+
 	async saveEmbeddings(data: EmbeddingsData): Promise<void> {
 		try {
-			// Use plugin's saveData method
-			const existingData = await this.plugin.loadData() || {};
-			existingData.embeddings = data;
-			await this.plugin.saveData(existingData);
-			this.embeddingsData = data;
+			// Full rewrite of the space's index as a single base file
+			const preprocessing = data.meta.preprocessing || 'raw';
+			const space = this.findSpace(data.meta.model, data.meta.dimension, preprocessing) ||
+				this.createSpace(this.spaceKey(data.meta.model, data.meta.dimension, preprocessing));
+			await space.index.writeFull(data);
+			space.data = data;
+			space.search = null;
+			this.spaces.set(space.key, space);
+			this.version++;
 			console.log('[Thoughtlands:EmbeddingStorage] Saved embeddings:', {
 				model: data.meta.model,
 				lastFullBuild: data.meta.lastFullBuild,
@@ -62,121 +271,631 @@ export class EmbeddingStorageService {
 		}
 	}
 
-	async getEmbedding(file: TFile): Promise<number[] | null> {
-		if (!this.embeddingsData) {
+	// Remove every stored embedding (all model spaces and any legacy copies)
+	async clearEmbeddings(): Promise<void> {
+		for (const space of this.spaces.values()) {
+			await space.index.clear();
+		}
+		this.spaces.clear();
+		this.version++;
+
+		const adapter = this.app.vault.adapter;
+		for (const folder of [VECTORS_FOLDER, LEGACY_INDEX_FOLDER]) {
+			const path = `${this.pluginDir}/${folder}`;
+			if (await adapter.exists(path)) {
+				await adapter.rmdir(path, true);
+			}
+		}
+
+		this.failures = {};
+		if (await adapter.exists(`${this.pluginDir}/${FAILURES_FILE}`)) {
+			await adapter.remove(`${this.pluginDir}/${FAILURES_FILE}`);
+		}
+
+		const pluginData = await this.plugin.loadData();
+		if (pluginData && pluginData.embeddings) {
+			delete pluginData.embeddings;
+			await this.plugin.saveData(pluginData);
+		}
+		console.log('[Thoughtlands:EmbeddingStorage] Cleared embeddings');
+	}
+
+	// Remove a single model space (e.g. an old model that is no longer needed)
+	async deleteSpace(key: string): Promise<void> {
+		const space = this.spaces.get(key);
+		if (!space) {
+			return;
+		}
+		await space.index.clear();
+		this.spaces.delete(key);
+		this.version++;
+		console.log(`[Thoughtlands:EmbeddingStorage] Deleted embedding space ${key}`);
+	}
+
+	getSpaces(): EmbeddingSpaceInfo[] {
+		const serving = this.getServingSpace();
+		const target = this.findTargetSpace();
+		return Array.from(this.spaces.values()).map(space => ({
+			key: space.key,
+			model: space.data.meta.model,
+			dimension: space.data.meta.dimension || null,
+			preprocessing: space.data.meta.preprocessing || 'raw',
+			entryCount: Object.keys(space.data.data).length,
+			lastFullBuild: space.data.meta.lastFullBuild,
+			isServing: space === serving,
+			isTarget: space === target,
+		}));
+	}
+
+	// Stop background work (compaction) when the plugin unloads
+	dispose(): void {
+		for (const space of this.spaces.values()) {
+			space.index.cancelCompaction();
+		}
+	}
+
+	async getEmbedding(file: TFile, role: EmbeddingSpaceRole = 'serving'): Promise<number[] | null> {
+		const entry = await this.getEntry(file, role);
+		return entry ? entry.embedding : null;
+	}
+
+	// Returns the full stored entry (note vector and chunk vectors) if it is still current
+	async getEntry(file: TFile, role: EmbeddingSpaceRole = 'serving'): Promise<EmbeddingEntry | null> {
+		if (!this.loaded) {
 			await this.loadEmbeddings();
 		}
-		
-		if (!this.embeddingsData) {
+
+		const space = this.resolveSpace(role);
+		if (!space) {
 			return null;
 		}
-		
-		const entry = this.embeddingsData.data[file.path];
+
+		const entry = space.data.data[file.path];
 		if (!entry) {
 			return null;
 		}
-		
-		// Verify hash matches current content
-		const currentHash = await this.computeHash(file);
-		if (entry.hash !== currentHash) {
+
+		if (!(await this.isEntryCurrent(file, entry, space))) {
 			// Content has changed, embedding is stale
 			return null;
 		}
-		
-		return entry.embedding;
+
+		return entry;
+	}
+
+	// Stored entry without the content hash check (no file read), for scoring many notes at once
+	getStoredEntry(path: string, role: EmbeddingSpaceRole = 'serving'): EmbeddingEntry | null {
+		const data = this.getEmbeddingsData(role);
+		return data ? data.data[path] || null : null;
 	}
 
-	async hasEmbedding(file: TFile): Promise<boolean> {
-		const embedding = await this.getEmbedding(file);
+	// Nearest-neighbour index over the space's vectors, built the first time it is needed
+	getSearchIndex(role: EmbeddingSpaceRole = 'serving'): VectorSearchIndex | null {
+		const space = this.resolveSpace(role);
+		if (!space) {
+			return null;
+		}
+		if (!space.search) {
+			const dimension = space.data.meta.dimension || this.detectDimension(space.data);
+			if (!dimension) {
+				return null;
+			}
+			const startTime = Date.now();
+			const search = new VectorSearchIndex(dimension);
+			search.bulkLoad(Object.entries(space.data.data).map(([path, entry]) => [path, this.searchVectors(entry)] as [string, number[][]]));
+			space.search = search;
+			console.log(`[Thoughtlands:EmbeddingStorage] Built search index for ${space.key}: ${search.noteCount} notes, ${search.size} vectors in ${Date.now() - startTime}ms`);
+		}
+		return space.search;
+	}
+
+	async hasEmbedding(file: TFile, role: EmbeddingSpaceRole = 'serving'): Promise<boolean> {
+		const embedding = await this.getEmbedding(file, role);
 		return embedding !== null;
 	}
 
 	async computeHash(file: TFile): Promise<string> {
 		try {
 			const content = await this.app.vault.read(file);
-			// Use a simple hash (MD5-like, but we'll use a simple string hash)
-			// In a real implementation, you might want to use crypto.createHash
-			let hash = 0;
-			for (let i = 0; i < content.length; i++) {
-				const char = content.charCodeAt(i);
-				hash = ((hash << 5) - hash) + char;
-				hash = hash & hash; // Convert to 32-bit integer
-			}
-			return Math.abs(hash).toString(16);
+			return await this.computeContentHash(content);
 		} catch (error) {
 			console.error(`[Thoughtlands:EmbeddingStorage] Error computing hash for ${file.path}:`, error);
 			return '';
 		}
 	}
 
-	async updateEmbeddings(updates: Map<TFile, { hash: string; embedding: number[] }>): Promise<void> {
-		if (!this.embeddingsData) {
-			// Initialize if doesn't exist
-			this.embeddingsData = {
-				meta: {
-					model: 'nomic-embed-text',
-					lastFullBuild: null,
-					version: '1.0',
-				},
-				data: {},
-			};
+	async computeContentHash(content: string): Promise<string> {
+		const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+		return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+	}
+
+	// Fingerprint for a new entry; pass the content when it has already been read
+	async computeStamp(file: TFile, content?: string): Promise<EntryStamp> {
+		const text = content ?? await this.app.vault.read(file);
+		return {
+			hash: await this.computeContentHash(text),
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+		};
+	}
+
+	/**
+	 * Whether a stored entry still matches the file. Unchanged mtime and size mean the file was not
+	 * touched, so it is never read. Otherwise the content is hashed; if it is unchanged (e.g. the file
+	 * was only touched, or the entry predates the stat fields) the entry's stat is refreshed so the next
+	 * check takes the fast path again. Entries with the old 32-bit hash are upgraded the same way.
+	 */
+	private async isEntryCurrent(file: TFile, entry: EmbeddingEntry, space: EmbeddingSpace): Promise<boolean> {
+		if (entry.mtime === file.stat.mtime && entry.size === file.stat.size) {
+			return true;
+		}
+
+		let content: string;
+		try {
+			content = await this.app.vault.read(file);
+		} catch (error) {
+			console.error(`[Thoughtlands:EmbeddingStorage] Error reading ${file.path}:`, error);
+			return false;
+		}
+
+		const hash = await this.computeContentHash(content);
+		const matches = entry.hash.length === 64 ? entry.hash === hash : entry.hash === this.legacyHash(content);
+		if (matches) {
+			entry.hash = hash;
+			entry.mtime = file.stat.mtime;
+			entry.size = file.stat.size;
+			const paths = this.restamped.get(space) || new Set<string>();
+			paths.add(file.path);
+			this.restamped.set(space, paths);
+		}
+		return matches;
+	}
+
+	// 32-bit shift-add hash used by earlier versions, only for validating old entries
+	private legacyHash(content: string): string {
+		let hash = 0;
+		for (let i = 0; i < content.length; i++) {
+			hash = ((hash << 5) - hash) + content.charCodeAt(i);
+			hash = hash & hash; // Convert to 32-bit integer
+		}
+		return Math.abs(hash).toString(16);
+	}
+
+	// Persist refreshed fingerprints so later sessions take the fast path too
+	async flushRestampedEntries(): Promise<void> {
+		let count = 0;
+		for (const [space, paths] of this.restamped) {
+			const changed: Record<string, EmbeddingEntry> = {};
+			for (const path of paths) {
+				const entry = space.data.data[path];
+				if (entry) changed[path] = entry;
+			}
+			count += Object.keys(changed).length;
+			if (this.spaces.get(space.key) === space && Object.keys(changed).length > 0) {
+				await space.index.appendSegment(changed, space.data.meta);
+			}
+		}
+		this.restamped.clear();
+		if (count > 0) {
+			console.log(`[Thoughtlands:EmbeddingStorage] Refreshed fingerprints for ${count} unchanged note${count !== 1 ? 's' : ''}`);
+		}
+	}
+
+	// New vectors always go to the target model's space
+	async updateEmbeddings(updates: Map<TFile, EmbeddingEntry>): Promise<void> {
+		if (!this.loaded) {
+			await this.loadEmbeddings();
 		}
-		
+		const entries = Array.from(updates.entries());
+		if (entries.length === 0) {
+			return;
+		}
+
+		const dimension = entries[0][1].embedding.length;
+		let space = this.findSpace(this.targetModel, dimension, this.targetPreprocessing);
+		if (!space) {
+			const existing = this.findTargetSpace();
+			if (existing && existing.data.meta.dimension) {
+				// Same model name, different vectors: the model was replaced. Start a fresh space rather than mixing.
+				console.warn(`[Thoughtlands:EmbeddingStorage] Model "${this.targetModel}" now returns ${dimension}-dimensional vectors (stored: ${existing.data.meta.dimension}). Starting a new embedding space.`);
+			}
+			space = this.createSpace(this.spaceKey(this.targetModel, dimension, this.targetPreprocessing));
+			this.spaces.set(space.key, space);
+		}
+		if (!space.data.meta.dimension) {
+			space.data.meta.dimension = dimension;
+		}
+		space.data.meta.updatedAt = new Date().toISOString();
+
 		// Update entries
-		for (const [file, entry] of updates.entries()) {
-			this.embeddingsData.data[file.path] = entry;
+		const changed: Record<string, EmbeddingEntry> = {};
+		for (const [file, entry] of entries) {
+			if (entry.embedding.length !== dimension) {
+				console.warn(`[Thoughtlands:EmbeddingStorage] Skipping ${file.path}: dimension ${entry.embedding.length} does not match ${dimension}`);
+				continue;
+			}
+			space.data.data[file.path] = entry;
+			changed[file.path] = entry;
+			space.search?.setNote(file.path, this.searchVectors(entry));
+		}
+		this.version++;
+
+		// Only the changed entries are written, as a new segment of the index
+		try {
+			await space.index.appendSegment(changed, space.data.meta);
+		} catch (error) {
+			console.error('[Thoughtlands:EmbeddingStorage] Error saving embeddings:', error);
+			throw error;
+		}
+
+		await this.clearFailures(Object.keys(changed));
+	}
+
+	/**
+	 * Merge entries from an imported bundle into the space with the bundle's model, dimension and
+	 * pipeline (created if there is none). Callers pass only entries already verified against the
+	 * local files. A bundle from a completed build marks the space complete too, so the notes it
+	 * didn't cover go through the regular update queue instead of a full build.
+	 */
+	async importEntries(meta: EmbeddingsData['meta'], entries: Record<string, EmbeddingEntry>): Promise<{ key: string; isTarget: boolean }> {
+		if (!this.loaded) {
+			await this.loadEmbeddings();
+		}
+
+		const preprocessing = meta.preprocessing || 'raw';
+		let space = this.findSpace(meta.model, meta.dimension, preprocessing);
+		if (!space) {
+			space = this.createSpace(this.spaceKey(meta.model, meta.dimension, preprocessing));
+			space.data.meta.model = meta.model;
+			space.data.meta.dimension = meta.dimension;
+			space.data.meta.preprocessing = preprocessing === 'raw' ? undefined : preprocessing;
+			this.spaces.set(space.key, space);
+		}
+		if (!space.data.meta.dimension) {
+			space.data.meta.dimension = meta.dimension;
+		}
+		if (!space.data.meta.lastFullBuild && meta.lastFullBuild) {
+			space.data.meta.lastFullBuild = meta.lastFullBuild;
+		}
+		space.data.meta.updatedAt = new Date().toISOString();
+
+		for (const [path, entry] of Object.entries(entries)) {
+			space.data.data[path] = entry;
+			space.search?.setNote(path, this.searchVectors(entry));
+		}
+		this.version++;
+		await space.index.appendSegment(entries, space.data.meta);
+
+		const isTarget = this.findTargetSpace() === space;
+		if (isTarget) {
+			await this.clearFailures(Object.keys(entries));
+		}
+		console.log(`[Thoughtlands:EmbeddingStorage] Imported ${Object.keys(entries).length} embeddings into ${space.key}`);
+		return { key: space.key, isTarget };
+	}
+
+	// Move a renamed note's entry in every space. The content hash is unchanged, so no re-embedding is needed.
+	async renameEmbedding(oldPath: string, newPath: string): Promise<boolean> {
+		if (!this.loaded) {
+			await this.loadEmbeddings();
+		}
+
+		let moved = false;
+		for (const space of this.spaces.values()) {
+			const entry = space.data.data[oldPath];
+			if (!entry) continue;
+
+			delete space.data.data[oldPath];
+			space.data.data[newPath] = entry;
+			space.search?.renameNote(oldPath, newPath);
+			await space.index.appendSegment({ [newPath]: entry }, space.data.meta, [oldPath]);
+			moved = true;
+		}
+		if (moved) {
+			this.version++;
+			console.log(`[Thoughtlands:EmbeddingStorage] Moved embedding ${oldPath} -> ${newPath}`);
+		}
+
+		let failureMoved = false;
+		for (const failures of Object.values(this.failures)) {
+			if (failures[oldPath]) {
+				failures[newPath] = failures[oldPath];
+				delete failures[oldPath];
+				failureMoved = true;
+			}
+		}
+		if (failureMoved) {
+			await this.saveFailures();
+		}
+		return moved;
+	}
+
+	async removeEmbeddings(paths: string[]): Promise<void> {
+		if (!this.loaded) {
+			await this.loadEmbeddings();
+		}
+
+		for (const space of this.spaces.values()) {
+			const data = space.data.data;
+			const removed = paths.filter(path => data[path]);
+			if (removed.length === 0) continue;
+
+			for (const path of removed) {
+				delete data[path];
+				space.search?.removeNote(path);
+			}
+			this.version++;
+			await space.index.appendSegment({}, space.data.meta, removed);
+			console.log(`[Thoughtlands:EmbeddingStorage] Removed ${removed.length} embedding${removed.length !== 1 ? 's' : ''} from ${space.key}`);
+		}
+
+		let failureRemoved = false;
+		for (const failures of Object.values(this.failures)) {
+			for (const path of paths) {
+				if (failures[path]) {
+					delete failures[path];
+					failureRemoved = true;
+				}
+			}
+		}
+		if (failureRemoved) {
+			await this.saveFailures();
 		}
-		
-		await this.saveEmbeddings(this.embeddingsData);
 	}
 
 	async markFullBuildComplete(model: string): Promise<void> {
-		if (!this.embeddingsData) {
-			this.embeddingsData = {
-				meta: {
-					model: model,
-					lastFullBuild: new Date().toISOString(),
-					version: '1.0',
-				},
-				data: {},
-			};
-		} else {
-			this.embeddingsData.meta.model = model;
-			this.embeddingsData.meta.lastFullBuild = new Date().toISOString();
+		if (!this.loaded) {
+			await this.loadEmbeddings();
 		}
-		
-		await this.saveEmbeddings(this.embeddingsData);
+		let space = this.findSpace(model, undefined, this.targetPreprocessing);
+		if (!space) {
+			// Nothing was embedded (e.g. empty vault); still record the build so completion checks pass
+			space = this.createSpace(this.spaceKey(model, null, this.targetPreprocessing));
+			space.data.meta.model = model;
+			this.spaces.set(space.key, space);
+		}
+		space.data.meta.lastFullBuild = new Date().toISOString();
+		this.version++; // The space may start serving queries
+
+		// Metadata-only segment
+		await space.index.appendSegment({}, space.data.meta);
 	}
 
-	getEmbeddingsData(): EmbeddingsData | null {
-		return this.embeddingsData;
+	getEmbeddingsData(role: EmbeddingSpaceRole = 'serving'): EmbeddingsData | null {
+		const space = this.resolveSpace(role);
+		return space ? space.data : null;
+	}
+
+	private resolveSpace(role: EmbeddingSpaceRole): EmbeddingSpace | null {
+		return role === 'serving' ? this.getServingSpace() : this.findTargetSpace();
 	}
 
 	async getMissingFiles(allFiles: TFile[]): Promise<TFile[]> {
-		if (!this.embeddingsData) {
+		if (!this.loaded) {
 			await this.loadEmbeddings();
 		}
-		
+
 		const missing: TFile[] = [];
-		
+
+		// Builds always fill in the target model's space
+		const space = this.resolveSpace('target');
+		const failures = this.failures[this.failureKey()] || {};
 		for (const file of allFiles) {
-			const hasEmbedding = await this.hasEmbedding(file);
-			if (!hasEmbedding) {
+			// Notes with nothing worth embedding are only tried again once they change
+			const failure = failures[file.path];
+			if (failure && failure.state === 'skipped' && failure.mtime === file.stat.mtime && failure.size === file.stat.size) {
+				continue;
+			}
+			const entry = space ? space.data.data[file.path] : undefined;
+			// Entries from before chunking only cover the start of the note, so re-embed them too
+			if (!space || !entry || !entry.chunks || !(await this.isEntryCurrent(file, entry, space))) {
 				missing.push(file);
 			}
 		}
-		
+		await this.flushRestampedEntries();
+
 		return missing;
 	}
 
+	// Remember why notes could not be embedded into the target space (replaces earlier records for them)
+	async recordFailures(failures: Array<{ file: TFile; state: EmbeddingFailure['state']; reason: string }>): Promise<void> {
+		if (failures.length === 0) {
+			return;
+		}
+		const key = this.failureKey();
+		const records = this.failures[key] || (this.failures[key] = {});
+		const at = new Date().toISOString();
+		for (const { file, state, reason } of failures) {
+			records[file.path] = { state, reason, at, mtime: file.stat.mtime, size: file.stat.size };
+		}
+		await this.saveFailures();
+	}
+
+	// Failures recorded for the target space, keyed by note path
+	getFailures(): Record<string, EmbeddingFailure> {
+		return { ...(this.failures[this.failureKey()] || {}) };
+	}
+
+	/**
+	 * State of every note in `notes` for the target space. Notes not in `embeddable` (filtered out by
+	 * the ignore/include settings) are reported as excluded; a recorded failure wins over stale/missing.
+	 */
+	async getHealthReport(notes: TFile[], embeddable: TFile[]): Promise<EmbeddingHealthReport> {
+		if (!this.loaded) {
+			await this.loadEmbeddings();
+		}
+
+		const space = this.resolveSpace('target');
+		const failures = this.failures[this.failureKey()] || {};
+		const embeddablePaths = new Set(embeddable.map(file => file.path));
+		const counts: Record<FileEmbeddingState, number> = { ok: 0, stale: 0, missing: 0, failed: 0, skipped: 0, excluded: 0 };
+		const files: FileEmbeddingStatus[] = [];
+
+		for (const file of notes) {
+			let status: FileEmbeddingStatus;
+			const entry = space ? space.data.data[file.path] : undefined;
+			const failure = failures[file.path];
+			if (!embeddablePaths.has(file.path)) {
+				status = { file, state: 'excluded' };
+			} else if (entry && entry.chunks && (await this.isEntryCurrent(file, entry, space!))) {
+				status = { file, state: 'ok' };
+			} else if (failure) {
+				status = { file, state: failure.state, reason: failure.reason, at: failure.at };
+			} else {
+				status = { file, state: entry ? 'stale' : 'missing' };
+			}
+			counts[status.state]++;
+			if (status.state !== 'ok' && status.state !== 'excluded') {
+				files.push(status);
+			}
+		}
+		await this.flushRestampedEntries();
+
+		return { noteCount: notes.length, counts, files };
+	}
+
 	getProgress(): { total: number; completed: number; percentage: number } {
-		if (!this.embeddingsData) {
+		const data = this.getEmbeddingsData();
+		if (!data) {
 			return { total: 0, completed: 0, percentage: 0 };
 		}
-		
-		const total = Object.keys(this.embeddingsData.data).length;
+
+		const total = Object.keys(data.data).length;
 		// We can't know the total without scanning, so we'll track this separately
 		return { total: 0, completed: total, percentage: 0 };
 	}
-}
 
+	/**
+	 * Queries are served by the target model's space once its initial build has completed.
+	 * Until then the most recently completed space of another model keeps answering queries,
+	 * so changing models never leaves the vault without semantic search.
+	 */
+	private getServingSpace(): EmbeddingSpace | null {
+		const target = this.findTargetSpace();
+		if (target && target.data.meta.lastFullBuild) {
+			return target;
+		}
+
+		let best: EmbeddingSpace | null = null;
+		for (const space of this.spaces.values()) {
+			if (!space.data.meta.lastFullBuild) continue;
+			if (!best || space.data.meta.lastFullBuild > (best.data.meta.lastFullBuild || '')) {
+				best = space;
+			}
+		}
+		return best ?? target;
+	}
+
+	// Space new vectors are written to: the configured model built with the configured pipeline
+	private findTargetSpace(): EmbeddingSpace | null {
+		return this.findSpace(this.targetModel, undefined, this.targetPreprocessing);
+	}
+
+	// Most recently written space for a model (optionally restricted to a dimension and pipeline)
+	private findSpace(model: string, dimension?: number, preprocessing?: string): EmbeddingSpace | null {
+		let best: EmbeddingSpace | null = null;
+		let bestStamp = '';
+		for (const space of this.spaces.values()) {
+			const meta = space.data.meta;
+			if (meta.model !== model) continue;
+			if (dimension && meta.dimension && meta.dimension !== dimension) continue;
+			if (preprocessing && (meta.preprocessing || 'raw') !== preprocessing) continue;
+			const stamp = meta.updatedAt || meta.lastFullBuild || '';
+			if (!best || stamp > bestStamp) {
+				best = space;
+				bestStamp = stamp;
+			}
+		}
+		return best;
+	}
+
+	private createSpace(key: string): EmbeddingSpace {
+		const space: EmbeddingSpace = {
+			key,
+			data: {
+				meta: {
+					model: this.targetModel,
+					lastFullBuild: null,
+					preprocessing: this.targetPreprocessing === 'raw' ? undefined : this.targetPreprocessing,
+					version: '1.0'
+				},
+				data: {},
+			},
+			// Compaction snapshots whatever is in memory for this space
+			index: new VectorIndexStore(this.app, `${this.pluginDir}/${VECTORS_FOLDER}/${key}`, () => space.data),
+			search: null,
+		};
+		return space;
+	}
+
+	// Folder-safe key combining model name, vector dimension and (unless raw) a short hash of the
+	// preprocessing pipeline, e.g. "nomic-embed-text_latest-768" or "nomic-embed-text_latest-768-p1a2b3c4d"
+	private spaceKey(model: string, dimension: number | null | undefined, preprocessing?: string): string {
+		const safeModel = model.replace(/[^A-Za-z0-9._-]/g, '_');
+		const key = `${safeModel}-${dimension || 'pending'}`;
+		if (!preprocessing || preprocessing === 'raw') {
+			return key;
+		}
+		let hash = 0x811c9dc5; // FNV-1a
+		for (let i = 0; i < preprocessing.length; i++) {
+			hash = Math.imul(hash ^ preprocessing.charCodeAt(i), 0x01000193);
+		}
+		return `${key}-p${(hash >>> 0).toString(16).padStart(8, '0')}`;
+	}
+
+	// Failures belong to the configured model and pipeline; the vector dimension isn't known before the first success
+	private failureKey(): string {
+		return `${this.targetModel}|${this.targetPreprocessing}`;
+	}
+
+	private async clearFailures(paths: string[]): Promise<void> {
+		const failures = this.failures[this.failureKey()];
+		if (!failures) {
+			return;
+		}
+		const cleared = paths.filter(path => failures[path]);
+		if (cleared.length === 0) {
+			return;
+		}
+		for (const path of cleared) {
+			delete failures[path];
+		}
+		await this.saveFailures();
+	}
+
+	private async loadFailures(): Promise<void> {
+		const path = `${this.pluginDir}/${FAILURES_FILE}`;
+		try {
+			if (await this.app.vault.adapter.exists(path)) {
+				this.failures = JSON.parse(await this.app.vault.adapter.read(path));
+			}
+		} catch (error) {
+			console.warn('[Thoughtlands:EmbeddingStorage] Could not read embedding failures:', error);
+			this.failures = {};
+		}
+	}
+
+	private async saveFailures(): Promise<void> {
+		try {
+			await this.app.vault.adapter.write(`${this.pluginDir}/${FAILURES_FILE}`, JSON.stringify(this.failures));
+		} catch (error) {
+			console.warn('[Thoughtlands:EmbeddingStorage] Could not save embedding failures:', error);
+		}
+	}
+
+	// Chunk vectors are indexed individually so a passage anywhere in a note can be found
+	private searchVectors(entry: EmbeddingEntry): number[][] {
+		return entry.chunks && entry.chunks.length > 0
+			? entry.chunks.map(chunk => chunk.embedding)
+			: [entry.embedding];
+	}
+
+	private detectDimension(data: EmbeddingsData): number | null {
+		for (const entry of Object.values(data.data)) {
+			if (entry.embedding && entry.embedding.length > 0) {
+				return entry.embedding.length;
+			}
+		}
+		return null;
+	}
+}
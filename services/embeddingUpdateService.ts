@@ -0,0 +1,210 @@
+import { App, TFile } from 'obsidian';
+import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
+import { EmbeddingService } from './embeddingService';
+import { RegionService } from './regionService';
+import { NoteService } from './noteService';
+import { LivingRegionService } from './livingRegionService';
+
+const DELAY_BETWEEN_FILES_MS = 500; // Avoid overwhelming Ollama
+
+/**
+ * Re-embeds notes after they are created or modified, one at a time, and then re-scores them against
+ * living regions. This keeps the stored vectors (and the search index over them) current between
+ * full builds; it only runs once the initial build is complete.
+ */
+export class EmbeddingUpdateService {
+	private app: App;
+	private settings: ThoughtlandsSettings;
+	private embeddingService: EmbeddingService;
+	private regionService: RegionService;
+	private noteService: NoteService;
+	private livingRegionService: LivingRegionService;
+	private onRegionsChanged: () => Promise<void>;
+	private queue: Array<{ file: TFile; isNew: boolean }> = [];
+	private filesCurrentlyProcessing: Set<string> = new Set(); // Track files being processed to prevent duplicates
+	private pendingChecks: Set<Promise<void>> = new Set(); // Embedding checks for notes not yet queued
+	private processing: Promise<void> | null = null;
+
+	constructor(
+		app: App,
+		settings: ThoughtlandsSettings,
+		embeddingService: EmbeddingService,
+		regionService: RegionService,
+		noteService: NoteService,
+		livingRegionService: LivingRegionService,
+		onRegionsChanged: () => Promise<void>
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.embeddingService = embeddingService;
+		this.regionService = regionService;
+		this.noteService = noteService;
+		this.livingRegionService = livingRegionService;
+		this.onRegionsChanged = onRegionsChanged;
+	}
+
+	updateSettings(newSettings: ThoughtlandsSettings): void {
+		this.settings = newSettings;
+	}
+
+	// Queue a created or modified note; notes out of scope or with a current embedding are skipped
+	enqueue(file: TFile, isNew: boolean): void {
+		// First check if file should be included/excluded (before any logging)
+		const filtered = this.regionService.filterNotesByIgnores([file]);
+		if (filtered.length === 0) {
+			// File is outside included paths or in ignored paths - silently skip
+			return;
+		}
+
+		// Only process if embeddings are complete (initial build done)
+		if (!this.embeddingService.isEmbeddingProcessComplete()) {
+			return; // Silent skip if embeddings not complete
+		}
+
+		// Skip if file is currently being processed
+		if (this.filesCurrentlyProcessing.has(file.path)) {
+			console.log(`[Thoughtlands:EmbeddingUpdates] Skipping ${file.path} - already being processed`);
+			return;
+		}
+
+		// Check if file already has a current embedding (before queuing)
+		// This prevents unnecessary queueing
+		const check = this.embeddingService.getStorageService().hasEmbedding(file)
+			.catch(error => {
+				console.warn(`[Thoughtlands:EmbeddingUpdates] Error checking embedding for ${file.path}:`, error);
+				return false; // On error, still queue it (safer to process than skip)
+			})
+			.then(hasEmbedding => {
+				if (!hasEmbedding) {
+					this.add(file, isNew);
+				}
+			})
+			.finally(() => {
+				this.pendingChecks.delete(check);
+			});
+		this.pendingChecks.add(check);
+	}
+
+	// Drop any pending work for a deleted note
+	cancel(path: string): void {
+		this.queue = this.queue.filter(item => item.file.path !== path);
+	}
+
+	// Resolves once every queued note has been processed
+	async whenIdle(): Promise<void> {
+		while (this.pendingChecks.size > 0 || this.processing) {
+			await Promise.all(Array.from(this.pendingChecks));
+			if (this.processing) {
+				await this.processing;
+			}
+		}
+	}
+
+	private add(file: TFile, isNew: boolean): void {
+		// Add to queue if not already queued (check both queue and currently processing)
+		const alreadyQueued = this.queue.some(item => item.file.path === file.path);
+		if (!alreadyQueued && !this.filesCurrentlyProcessing.has(file.path)) {
+			this.queue.push({ file, isNew });
+		}
+
+		// Start processing queue if not already processing
+		if (!this.processing) {
+			this.processing = this.processQueue().finally(() => {
+				this.processing = null;
+			});
+		}
+	}
+
+	private async processQueue(): Promise<void> {
+		while (this.queue.length > 0) {
+			const item = this.queue.shift();
+			if (!item) break;
+
+			const { file, isNew } = item;
+
+			// Skip if file is already being processed (double-check)
+			if (this.filesCurrentlyProcessing.has(file.path)) {
+				console.log(`[Thoughtlands:EmbeddingUpdates] Skipping ${file.path} - already being processed (duplicate in queue)`);
+				continue;
+			}
+
+			// Mark as currently processing
+			this.filesCurrentlyProcessing.add(file.path);
+
+			try {
+				await this.updateEmbeddingForFile(file, isNew);
+			} catch (error) {
+				console.error(`[Thoughtlands:EmbeddingUpdates] Error processing ${file.path} from queue:`, error);
+			} finally {
+				// Always remove from currently processing set
+				this.filesCurrentlyProcessing.delete(file.path);
+			}
+
+			// Small delay between files to avoid overwhelming Ollama
+			if (this.queue.length > 0) {
+				await new Promise(resolve => setTimeout(resolve, DELAY_BETWEEN_FILES_MS));
+			}
+		}
+	}
+
+	// Called by the queue with the note marked as being processed
+	private async updateEmbeddingForFile(file: TFile, isNew: boolean): Promise<void> {
+		// Only update if embeddings are complete (initial build done)
+		if (!this.embeddingService.isEmbeddingProcessComplete()) {
+			return;
+		}
+
+		// Check if file already has a current embedding
+		const storageService = this.embeddingService.getStorageService();
+		const hasCurrentEmbedding = await storageService.hasEmbedding(file);
+
+		// If file already has a current embedding, skip it (no need to regenerate)
+		if (hasCurrentEmbedding) {
+			console.log(`[Thoughtlands:EmbeddingUpdates] Skipping ${file.path} - already has current embedding`);
+			return;
+		}
+
+		// Log what we're doing
+		const fileType = isNew ? 'new' : 'modified';
+		console.log(`[Thoughtlands:EmbeddingUpdates] Processing ${fileType} file: ${file.path}`);
+
+		// Check if file should be included/excluded
+		const filtered = this.regionService.filterNotesByIgnores([file]);
+		if (filtered.length === 0) {
+			console.log(`[Thoughtlands:EmbeddingUpdates] Skipping ${file.path} (excluded by filters)`);
+			return; // File is excluded
+		}
+
+		// Check included tags if set
+		if (this.settings.includedTags.length > 0) {
+			const fileCache = this.app.metadataCache.getFileCache(file);
+			if (fileCache) {
+				const fileTags = this.noteService['extractTags'](fileCache);
+				const fileTagsLower = fileTags.map(ft => ft.toLowerCase());
+				const hasIncludedTag = fileTagsLower.some(fileTag =>
+					this.settings.includedTags.some(included =>
+						included.toLowerCase() === fileTag
+					)
+				);
+				if (!hasIncludedTag) {
+					console.log(`[Thoughtlands:EmbeddingUpdates] Skipping ${file.path} (no included tags)`);
+					return; // File doesn't have included tags
+				}
+			}
+		}
+
+		try {
+			// Generate embedding for the file (this will update storage if hash changed)
+			await this.embeddingService.generateEmbeddingForFile(file);
+		} catch (error) {
+			console.warn(`[Thoughtlands:EmbeddingUpdates] Failed to update embedding for ${file.path} (${fileType}):`, error);
+			return;
+		}
+
+		// Re-score the note against living regions now that its embedding is current
+		const changedRegions = await this.livingRegionService.rescoreNote(file);
+		if (changedRegions.length > 0) {
+			await this.onRegionsChanged();
+		}
+	}
+}
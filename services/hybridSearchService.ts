@@ -0,0 +1,172 @@
+import { TFile } from 'obsidian';
+import { EmbeddingService, SimilarNoteResult } from './embeddingService';
+import { SearchIndexService } from './searchIndexService';
+import { SearchQueryNode, getQueryWords } from './searchQuery';
+import { HybridFusionOptions, HybridNoteScore } from '../models/region';
+
+export const RRF_K = 60; // Reciprocal rank fusion constant; damps the difference between the very top ranks
+
+export interface HybridSearchOptions {
+	fusion: HybridFusionOptions;
+	threshold: number; // Minimum similarity (to the query or the search results) for notes the search didn't find
+	maxAdditional: number; // Notes the search didn't find that may join the region
+}
+
+export interface HybridSearchResult {
+	ranked: Array<SimilarNoteResult & { score: HybridNoteScore }>; // Fused order, best first; similarity is the better of the two embedding scores
+	hitsWithEmbeddings: number;
+	additionalCount: number; // Ranked notes that weren't search hits
+	queryEmbedded: boolean;
+}
+
+/**
+ * Ranks notes for Search + AI Analysis by fusing three rankings: BM25 keyword scores over note text
+ * (from the search index), similarity to the embedded query text, and similarity to the centroid of
+ * the search hits. Search hits are always kept; other notes join when either similarity reaches the
+ * threshold, best fused score first.
+ */
+export class HybridSearchService {
+	private embeddingService: EmbeddingService;
+	private searchIndex: SearchIndexService;
+
+	constructor(embeddingService: EmbeddingService, searchIndex: SearchIndexService) {
+		this.embeddingService = embeddingService;
+		this.searchIndex = searchIndex;
+	}
+
+	// `candidates` are the notes allowed in the region (already filtered by the plugin settings), hits included
+	async rank(query: SearchQueryNode, hits: TFile[], candidates: TFile[], options: HybridSearchOptions): Promise<HybridSearchResult | null> {
+		const storageService = this.embeddingService.getStorageService();
+		await storageService.loadEmbeddings();
+		const hitPaths = new Set(hits.map(file => file.path));
+
+		// Centroid of the search hits that have embeddings
+		const hitEmbeddings: number[][] = [];
+		for (const file of hits) {
+			const embedding = await storageService.getEmbedding(file);
+			if (embedding) hitEmbeddings.push(embedding);
+		}
+		const centroid = hitEmbeddings.length > 0 ? this.embeddingService.calculateCentroid(hitEmbeddings) : null;
+
+		// The query's own words, embedded like any query text (operator-only queries have none)
+		const words = getQueryWords(query);
+		let queryEmbedding: number[] | null = null;
+		if (words.length > 0) {
+			try {
+				queryEmbedding = await this.embeddingService.generateEmbedding(words.join(' '));
+			} catch (error) {
+				console.warn('[Thoughtlands:HybridSearch] Could not embed query text; ranking by the search results only:', error);
+			}
+		}
+
+		if (!centroid && !queryEmbedding) {
+			return null;
+		}
+
+		// Pool: every hit, plus neighbours of the query and of the centroid above the threshold
+		const others = candidates.filter(file => !hitPaths.has(file.path));
+		const poolSize = options.maxAdditional * 2;
+		const pool: Map<string, TFile> = new Map(hits.map(file => [file.path, file]));
+		for (const vector of [queryEmbedding, centroid]) {
+			if (!vector || poolSize <= 0) continue;
+			for (const neighbour of await this.embeddingService.topK(vector, poolSize, others)) {
+				if (neighbour.similarity >= options.threshold) {
+					pool.set(neighbour.file.path, neighbour.file);
+				}
+			}
+		}
+
+		// Both similarities for every pooled note, with the passage of the better one
+		const similarities: Map<string, { query?: number; centroid?: number; best?: SimilarNoteResult }> = new Map();
+		for (const [path, file] of pool) {
+			const entry = storageService.getStoredEntry(path);
+			if (!entry) continue;
+			const scores: { query?: number; centroid?: number; best?: SimilarNoteResult } = {};
+			for (const [key, vector] of [['query', queryEmbedding], ['centroid', centroid]] as Array<['query' | 'centroid', number[] | null]>) {
+				if (!vector || vector.length !== entry.embedding.length) continue;
+				const match = this.embeddingService.compareNoteVectors({ embedding: vector }, entry);
+				scores[key] = match.similarity;
+				if (!scores.best || match.similarity > scores.best.similarity) {
+					scores.best = { file, similarity: match.similarity, passage: match.chunk };
+				}
+			}
+			similarities.set(path, scores);
+		}
+
+		const keywordScores = await this.searchIndex.scoreKeywords(words, Array.from(pool.keys()));
+
+		// The three rankings. Hits that matched only on path, tags or properties rank last lexically
+		const paths = Array.from(pool.keys());
+		const lexicalRanks = rankBy(paths.filter(path => hitPaths.has(path) || keywordScores.has(path)), path => keywordScores.get(path)?.score ?? 0);
+		const queryRanks = rankBy(paths.filter(path => similarities.get(path)?.query !== undefined), path => similarities.get(path)!.query!);
+		const centroidRanks = rankBy(paths.filter(path => similarities.get(path)?.centroid !== undefined), path => similarities.get(path)!.centroid!);
+
+		const maxKeywordScore = Math.max(0, ...Array.from(keywordScores.values()).map(score => score.score));
+		const scored = paths.map(path => {
+			const keyword = keywordScores.get(path);
+			const similarity = similarities.get(path);
+			const score: HybridNoteScore = {
+				rank: 0,
+				fused: 0,
+				searchHit: hitPaths.has(path),
+				bm25: keyword?.score,
+				lexicalRank: lexicalRanks.get(path),
+				matchedWords: keyword?.matchedWords,
+				querySimilarity: similarity?.query,
+				queryRank: queryRanks.get(path),
+				centroidSimilarity: similarity?.centroid,
+				centroidRank: centroidRanks.get(path),
+			};
+			score.fused = options.fusion.method === 'weighted'
+				? weightedScore(score, maxKeywordScore, options.fusion.lexicalWeight)
+				: [score.lexicalRank, score.queryRank, score.centroidRank].reduce<number>((sum, rank) => rank ? sum + 1 / (RRF_K + rank) : sum, 0);
+			return { path, score };
+		});
+		scored.sort((a, b) => b.score.fused - a.score.fused);
+
+		// Keep every hit, and the best-fused other notes up to the limit
+		const kept = [];
+		let additionalCount = 0;
+		for (const item of scored) {
+			if (!item.score.searchHit) {
+				if (additionalCount >= options.maxAdditional) continue;
+				additionalCount++;
+			}
+			kept.push(item);
+		}
+
+		const ranked = kept.map(({ path, score }, index) => {
+			score.rank = index + 1;
+			const best = similarities.get(path)?.best;
+			return { file: pool.get(path)!, similarity: best?.similarity ?? 0, passage: best?.passage, score };
+		});
+
+		console.log(`[Thoughtlands:HybridSearch] Ranked ${ranked.length} notes (${hits.length} hits, ${additionalCount} added) with ${options.fusion.method}`, {
+			words,
+			queryEmbedded: !!queryEmbedding,
+			hitsWithEmbeddings: hitEmbeddings.length,
+			pooled: pool.size,
+		});
+
+		return { ranked, hitsWithEmbeddings: hitEmbeddings.length, additionalCount, queryEmbedded: !!queryEmbedding };
+	}
+}
+
+// 1-based ranks by descending score; equal scores share a rank
+function rankBy(paths: string[], score: (path: string) => number): Map<string, number> {
+	const sorted = paths.map(path => ({ path, value: score(path) })).sort((a, b) => b.value - a.value);
+	const ranks: Map<string, number> = new Map();
+	sorted.forEach((item, index) => {
+		const previous = sorted[index - 1];
+		ranks.set(item.path, previous && previous.value === item.value ? ranks.get(previous.path)! : index + 1);
+	});
+	return ranks;
+}
+
+// Normalized keyword score mixed with the mean of the available embedding similarities
+function weightedScore(score: HybridNoteScore, maxKeywordScore: number, lexicalWeight: number): number {
+	const lexical = maxKeywordScore > 0 ? (score.bm25 ?? 0) / maxKeywordScore : 0;
+	const similarities = [score.querySimilarity, score.centroidSimilarity].filter((value): value is number => value !== undefined);
+	const semantic = similarities.length > 0 ? similarities.reduce((sum, value) => sum + value, 0) / similarities.length : 0;
+	return lexicalWeight * lexical + (1 - lexicalWeight) * semantic;
+}
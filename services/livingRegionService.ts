@@ -0,0 +1,138 @@
+import { App, TFile } from 'obsidian';
+import { Region, supportsLiveMembership, isExemplarRegion, getRegionExemplars } from '../models/region';
+import { RegionService } from './regionService';
+import { NoteService } from './noteService';
+import { EmbeddingService } from './embeddingService';
+import { EmbeddingEntry } from './embeddingStorageService';
+import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
+
+interface LiveScore {
+	matches: boolean;
+	similarity?: number;
+	chunk?: { heading?: string; preview: string; offset: number };
+}
+
+/**
+ * Keeps "living" regions up to date. After a note is created or modified and re-embedded it is
+ * scored against the criteria of every live region; when the result disagrees with the region's
+ * current membership a pending change is logged for the user to accept or dismiss.
+ */
+export class LivingRegionService {
+	private app: App;
+	private regionService: RegionService;
+	private noteService: NoteService;
+	private embeddingService: EmbeddingService;
+	private settings: ThoughtlandsSettings;
+
+	constructor(app: App, regionService: RegionService, noteService: NoteService, embeddingService: EmbeddingService, settings: ThoughtlandsSettings) {
+		this.app = app;
+		this.regionService = regionService;
+		this.noteService = noteService;
+		this.embeddingService = embeddingService;
+		this.settings = settings;
+	}
+
+	updateSettings(newSettings: ThoughtlandsSettings): void {
+		this.settings = newSettings;
+	}
+
+	getLiveRegions(): Region[] {
+		return this.regionService.getRegions().filter(region => region.live?.enabled && !region.archived && supportsLiveMembership(region));
+	}
+
+	// Re-score a note against every live region. Returns the regions whose change log was updated.
+	async rescoreNote(file: TFile): Promise<Region[]> {
+		const regions = this.getLiveRegions();
+		if (regions.length === 0) {
+			return [];
+		}
+
+		const inScope = this.regionService.filterNotesByIgnores([file], this.app.metadataCache, this.noteService).length > 0;
+		const entry = inScope ? await this.embeddingService.getStorageService().getEntry(file) : null;
+		const changed: Region[] = [];
+
+		for (const region of regions) {
+			let score: LiveScore | null;
+			try {
+				score = inScope ? await this.scoreNote(region, file, entry) : { matches: false };
+			} catch (error) {
+				console.warn(`[Thoughtlands:LivingRegions] Could not score ${file.path} for region "${region.name}":`, error);
+				continue;
+			}
+			if (!score) continue;
+
+			const isMember = region.notes.includes(file.path);
+			let updated: boolean;
+			if (score.matches === isMember) {
+				updated = this.regionService.dropPendingLiveChange(region, file.path);
+			} else {
+				updated = this.regionService.recordLiveChange(region, {
+					path: file.path,
+					change: score.matches ? 'add' : 'remove',
+					similarity: score.similarity,
+					passage: score.chunk && score.similarity !== undefined
+						? { heading: score.chunk.heading, excerpt: score.chunk.preview, offset: score.chunk.offset, similarity: score.similarity }
+						: undefined,
+				});
+				if (updated) {
+					const similarityText = score.similarity !== undefined ? ` (similarity ${score.similarity.toFixed(3)})` : '';
+					console.log(`[Thoughtlands:LivingRegions] ${score.matches ? 'Suggest adding' : 'Suggest removing'} ${file.path} ${score.matches ? 'to' : 'from'} "${region.name}"${similarityText}`);
+				}
+			}
+			if (updated) {
+				changed.push(region);
+			}
+		}
+
+		return changed;
+	}
+
+	/**
+	 * Check one note against a region's criteria: similarity to the concept for semantic similarity
+	 * regions and embedding-filtered tag regions, to the query built from the example notes for
+	 * example-note regions, tag overlap for the rest. Returns null when the
+	 * note can't be scored (no current embedding, or vectors from a different model).
+	 */
+	private async scoreNote(region: Region, file: TFile, entry: EmbeddingEntry | null): Promise<LiveScore | null> {
+		const info = region.source.processingInfo;
+		const isExemplar = isExemplarRegion(region);
+		const isSemantic = !!info?.conceptText && !info.initialTags && !info.refinedTags;
+
+		if (!isExemplar && !isSemantic && !info?.embeddingFiltered) {
+			const regionTags = new Set((region.source.tags || []).map(tag => tag.toLowerCase().replace(/^#/, '')));
+			const matches = this.noteService.getNoteTags(file).some(tag => regionTags.has(tag.toLowerCase()));
+			return { matches };
+		}
+
+		if (!entry) {
+			return null;
+		}
+
+		let conceptEmbedding: number[];
+		if (isExemplar) {
+			const query = await this.embeddingService.buildExemplarQuery(getRegionExemplars(region));
+			if (!query) {
+				return null;
+			}
+			conceptEmbedding = query.vector;
+		} else {
+			const conceptText = isSemantic ? info!.conceptText! : (region.source.concepts || []).join(' ');
+			if (!conceptText.trim()) {
+				return null;
+			}
+			conceptEmbedding = await this.embeddingService.generateEmbedding(conceptText);
+		}
+		if (conceptEmbedding.length !== entry.embedding.length) {
+			console.log(`[Thoughtlands:LivingRegions] Skipping ${file.path} for "${region.name}" - embedding is from a different model`);
+			return null;
+		}
+
+		const match = this.embeddingService.compareNoteVectors({ embedding: conceptEmbedding }, entry);
+		const threshold = region.similarityThreshold ?? info?.similarityThreshold ?? this.settings.embeddingSimilarityThreshold;
+		return {
+			matches: match.similarity >= threshold,
+			similarity: match.similarity,
+			chunk: match.chunk,
+		};
+	}
+}
@@ -0,0 +1,491 @@
+import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
+
+export type LLMBackend = 'openai' | 'ollama' | 'fake';
+
+export interface ChatMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+export interface ChatOptions {
+	json?: boolean; // Ask the backend to constrain output to valid JSON
+	temperature?: number;
+	maxTokens?: number; // Upper bound on generated tokens (backend default if unset)
+	timeoutMs?: number; // Per attempt; while streaming it applies to the gap between tokens
+	retries?: number; // Extra attempts after timeouts, network errors, rate limits and server errors
+	onToken?: (token: string) => void; // Streams the reply as it is generated when set
+}
+
+export interface LLMAvailability {
+	available: boolean;
+	error?: string;
+}
+
+/**
+ * A chat-completion backend. Tag analysis, region naming and canvas summaries all go through this
+ * interface so they behave the same whichever AI mode is selected.
+ */
+export interface LLMClient {
+	readonly backend: LLMBackend;
+	readonly model: string;
+	// Reply text, trimmed. Throws LLMError once retries are exhausted
+	complete(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+	// Reply parsed as JSON (code fences tolerated). Throws LLMError if the reply isn't valid JSON
+	completeJSON<T = unknown>(messages: ChatMessage[], options?: ChatOptions): Promise<T>;
+	checkAvailable(): Promise<LLMAvailability>;
+}
+
+export class LLMError extends Error {
+	status?: number; // HTTP status, when the backend answered
+	retryable: boolean;
+	retryAfterMs?: number; // Server-requested delay before the next attempt
+
+	constructor(message: string, retryable: boolean = false, status?: number) {
+		super(message);
+		this.name = 'LLMError';
+		this.retryable = retryable;
+		this.status = status;
+	}
+}
+
+const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
+const DEFAULT_TIMEOUT_MS = 120000; // Local models can take a while on long prompts
+const DEFAULT_RETRIES = 2;
+
+// Chat backend for the selected AI mode (Ollama for local, OpenAI otherwise)
+export function createLLMClient(settings: ThoughtlandsSettings, backend?: LLMBackend): LLMClient {
+	switch (backend ?? (settings.aiMode === 'local' ? 'ollama' : 'openai')) {
+		case 'ollama':
+			return new OllamaLLMClient(settings.ollamaUrl, settings.ollamaChatModel);
+		case 'fake':
+			return new FakeLLMClient();
+		default:
+			return new OpenAILLMClient(settings.openAIApiKey, settings.aiModel);
+	}
+}
+
+// Whether the selected AI mode can serve chat requests (Ollama needs no credentials)
+export function isLLMConfigured(settings: ThoughtlandsSettings): boolean {
+	if (settings.aiMode === 'local') {
+		return true;
+	}
+	return !!settings.openAIApiKey && settings.openAIApiKey.trim().length > 0;
+}
+
+// Remove a surrounding markdown code block (```json ... ```) from a reply
+export function stripCodeFence(text: string): string {
+	let content = text.trim();
+	if (content.startsWith('```')) {
+		content = content.replace(/^```(?:json)?\s*\n?/, '');
+		content = content.replace(/\n?```\s*$/, '');
+		content = content.trim();
+	}
+	return content;
+}
+
+export function parseJSONResponse<T = unknown>(text: string): T {
+	const content = stripCodeFence(text);
+	try {
+		return JSON.parse(content) as T;
+	} catch (error) {
+		// Models sometimes wrap the JSON in a sentence; fall back to the outermost array or object
+		const match = content.match(/\[[\s\S]*\]|\{[\s\S]*\}/);
+		if (match) {
+			try {
+				return JSON.parse(match[0]) as T;
+			} catch {
+				// Report the original parse error below
+			}
+		}
+		throw new LLMError(`Invalid JSON in model response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+}
+
+const SUMMARY_PREFIX_PATTERNS = [
+	/^based on the following notes[,:]?\s*/i,
+	/^here is a summary of the notes in \d+-\d+ sentences?[,:]?\s*/i,
+	/^here is a summary[,:]?\s*/i,
+	/^summary[,:]?\s*/i,
+	/^the summary is[,:]?\s*/i,
+	/^here is the summary[,:]?\s*/i,
+	/^summary of the notes[,:]?\s*/i,
+	/^this summary[,:]?\s*/i,
+	/^the following summary[,:]?\s*/i,
+	/^in summary[,:]?\s*/i,
+	/^to summarize[,:]?\s*/i,
+	/^summarizing[,:]?\s*/i,
+];
+
+// Strip the "Here is a summary:" style preambles models add despite being asked not to
+export function cleanSummary(text: string): string {
+	let summary = text.trim();
+	for (const pattern of SUMMARY_PREFIX_PATTERNS) {
+		summary = summary.replace(pattern, '').trim();
+	}
+
+	// Remove leading quotes, dashes, or other punctuation
+	summary = summary.replace(/^["'`\-—–]\s*/, '').replace(/\s*["'`\-—–]$/, '');
+
+	// Remove any remaining leading colons or dashes
+	return summary.replace(/^[:;]\s*/, '').trim();
+}
+
+// Region names come back quoted more often than not
+export function cleanGeneratedName(text: string): string {
+	return text.trim().replace(/^["']|["']$/g, '').trim();
+}
+
+/**
+ * Retries, timeouts and streaming bookkeeping shared by the backends. Subclasses only implement a
+ * single request; a streamed request that already emitted tokens is never retried, so callers
+ * don't see the reply twice.
+ */
+abstract class BaseLLMClient implements LLMClient {
+	abstract readonly backend: LLMBackend;
+	abstract readonly model: string;
+
+	abstract checkAvailable(): Promise<LLMAvailability>;
+
+	protected abstract send(messages: ChatMessage[], options: ChatOptions, signal: AbortSignal, onActivity: () => void): Promise<string>;
+
+	async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+		const maxRetries = options.retries ?? DEFAULT_RETRIES;
+		const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+		let lastError: LLMError | null = null;
+
+		for (let attempt = 0; attempt <= maxRetries; attempt++) {
+			if (attempt > 0) {
+				console.log(`[Thoughtlands:LLM] Retry attempt ${attempt}/${maxRetries} for ${this.backend} chat request`);
+			}
+
+			let emitted = false;
+			const attemptOptions: ChatOptions = options.onToken
+				? { ...options, onToken: token => { emitted = true; options.onToken!(token); } }
+				: options;
+
+			const controller = new AbortController();
+			let timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+			const onActivity = () => {
+				clearTimeout(timeoutId);
+				timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+			};
+
+			try {
+				const text = await this.send(messages, attemptOptions, controller.signal, onActivity);
+				return text.trim();
+			} catch (error) {
+				lastError = this.toLLMError(error, timeoutMs);
+				if (!lastError.retryable || emitted || attempt >= maxRetries) {
+					throw lastError;
+				}
+				await this.backoff(attempt, lastError);
+			} finally {
+				clearTimeout(timeoutId);
+			}
+		}
+
+		throw lastError || new LLMError('Chat request failed after retries');
+	}
+
+	async completeJSON<T = unknown>(messages: ChatMessage[], options: ChatOptions = {}): Promise<T> {
+		const text = await this.complete(messages, { ...options, json: true });
+		return parseJSONResponse<T>(text);
+	}
+
+	// Read a streamed response body line by line (NDJSON for Ollama, server-sent events for OpenAI)
+	protected async readLines(response: Response, onLine: (line: string) => void, onActivity: () => void): Promise<void> {
+		if (!response.body) {
+			throw new LLMError('Streaming response has no body');
+		}
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = '';
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			onActivity();
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split('\n');
+			buffer = lines.pop() || '';
+			for (const line of lines) {
+				if (line.trim()) onLine(line.trim());
+			}
+		}
+		if (buffer.trim()) {
+			onLine(buffer.trim());
+		}
+	}
+
+	protected async readErrorMessage(response: Response): Promise<string> {
+		try {
+			const text = await response.text();
+			try {
+				const body = JSON.parse(text);
+				const error = body.error?.message || body.error || body.message;
+				return typeof error === 'string' ? error : text;
+			} catch {
+				return text || `HTTP ${response.status}`;
+			}
+		} catch {
+			return `HTTP ${response.status} - Unable to read error response`;
+		}
+	}
+
+	private toLLMError(error: unknown, timeoutMs: number): LLMError {
+		if (error instanceof LLMError) {
+			return error;
+		}
+		if (error instanceof Error && error.name === 'AbortError') {
+			return new LLMError(`Request timeout after ${Math.round(timeoutMs / 1000)} seconds`, true);
+		}
+		// fetch only rejects on network failures, which are worth another attempt
+		return new LLMError(`Failed to connect to ${this.backend}: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+	}
+
+	private async backoff(attempt: number, error: LLMError): Promise<void> {
+		const delay = error.retryAfterMs ?? Math.min(1000 * Math.pow(2, attempt), 5000); // Exponential backoff, max 5s
+		console.warn(`[Thoughtlands:LLM] ${error.message}; waiting ${delay}ms before retry...`);
+		await new Promise(resolve => setTimeout(resolve, delay));
+	}
+}
+
+/**
+ * OpenAI chat completions. JSON mode uses `response_format: json_object`, which only produces
+ * objects, so prompts that want a bare array should stay in text mode and use parseJSONResponse.
+ */
+export class OpenAILLMClient extends BaseLLMClient {
+	readonly backend: LLMBackend = 'openai';
+	readonly model: string;
+	private apiKey: string;
+
+	constructor(apiKey: string, model: string) {
+		super();
+		this.apiKey = apiKey;
+		this.model = model;
+	}
+
+	async checkAvailable(): Promise<LLMAvailability> {
+		if (!this.apiKey) {
+			return { available: false, error: 'OpenAI API key not configured' };
+		}
+		return { available: true };
+	}
+
+	protected async send(messages: ChatMessage[], options: ChatOptions, signal: AbortSignal, onActivity: () => void): Promise<string> {
+		if (!this.apiKey) {
+			throw new LLMError('OpenAI API key not configured');
+		}
+
+		const body: Record<string, unknown> = {
+			model: this.model,
+			messages,
+			temperature: options.temperature ?? 0.7,
+		};
+		if (options.maxTokens !== undefined) body.max_tokens = options.maxTokens;
+		if (options.json) body.response_format = { type: 'json_object' };
+		if (options.onToken) body.stream = true;
+
+		const response = await fetch(OPENAI_CHAT_URL, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'Authorization': `Bearer ${this.apiKey}`,
+			},
+			body: JSON.stringify(body),
+			signal,
+		});
+
+		if (!response.ok) {
+			const message = await this.readErrorMessage(response);
+			console.error('[Thoughtlands:OpenAI] Chat request failed:', { status: response.status, error: message });
+			// Rate limits and server errors are worth retrying; bad requests and auth errors are not
+			const error = new LLMError(message, response.status === 429 || response.status >= 500, response.status);
+			const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+			if (!isNaN(retryAfter)) error.retryAfterMs = retryAfter * 1000;
+			throw error;
+		}
+
+		if (!options.onToken) {
+			const data = await response.json();
+			return data.choices?.[0]?.message?.content || '';
+		}
+
+		let text = '';
+		await this.readLines(response, line => {
+			if (!line.startsWith('data:')) return;
+			const payload = line.substring(5).trim();
+			if (payload === '[DONE]') return;
+			const token = JSON.parse(payload).choices?.[0]?.delta?.content;
+			if (token) {
+				text += token;
+				options.onToken!(token);
+			}
+		}, onActivity);
+		return text;
+	}
+}
+
+/**
+ * Ollama's `/api/chat`, falling back to `/api/generate` on servers that predate the chat endpoint.
+ */
+export class OllamaLLMClient extends BaseLLMClient {
+	readonly backend: LLMBackend = 'ollama';
+	readonly model: string;
+	private baseUrl: string;
+
+	constructor(baseUrl: string, model: string) {
+		super();
+		this.baseUrl = baseUrl.replace(/\/+$/, '');
+		this.model = model;
+	}
+
+	async checkAvailable(): Promise<LLMAvailability> {
+		try {
+			const response = await fetch(`${this.baseUrl}/api/tags`, {
+				method: 'GET',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+			});
+
+			if (!response.ok) {
+				return {
+					available: false,
+					error: `Ollama not responding (HTTP ${response.status}). Is Ollama running at ${this.baseUrl}?`
+				};
+			}
+
+			// Check if the chat model is installed
+			const data = await response.json();
+			const models = data.models || [];
+
+			// Check if chat model is installed - model names might include tags like "llama3.2:latest"
+			const modelInstalled = models.some((m: any) => {
+				const modelName = m.name || '';
+				// Check exact match or if model name starts with our target (handles tags like :latest, :v1, etc.)
+				return modelName === this.model ||
+				       modelName.startsWith(this.model + ':') ||
+				       modelName.startsWith(this.model + '@');
+			});
+
+			if (!modelInstalled) {
+				return {
+					available: false,
+					error: `Ollama model "${this.model}" not installed. Please run: ollama pull ${this.model}`
+				};
+			}
+
+			return { available: true };
+		} catch (error) {
+			return {
+				available: false,
+				error: `Cannot connect to Ollama at ${this.baseUrl}. Is Ollama running? Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+			};
+		}
+	}
+
+	protected async send(messages: ChatMessage[], options: ChatOptions, signal: AbortSignal, onActivity: () => void): Promise<string> {
+		const stream = !!options.onToken;
+		const modelOptions: Record<string, number> = {};
+		if (options.temperature !== undefined) modelOptions.temperature = options.temperature;
+		if (options.maxTokens !== undefined) modelOptions.num_predict = options.maxTokens;
+		const common: Record<string, unknown> = { model: this.model, stream, options: modelOptions };
+		if (options.json) common.format = 'json';
+
+		let response = await fetch(`${this.baseUrl}/api/chat`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ ...common, messages }),
+			signal,
+		});
+
+		if (response.status === 404) {
+			console.log('[Thoughtlands:Ollama] /api/chat returned 404, trying /api/generate endpoint');
+			const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+			const prompt = messages.filter(m => m.role !== 'system').map(m => m.content).join('\n\n');
+			response = await fetch(`${this.baseUrl}/api/generate`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ ...common, prompt, ...(system ? { system } : {}) }),
+				signal,
+			});
+		}
+
+		if (!response.ok) {
+			let message = await this.readErrorMessage(response);
+			// Provide more helpful error messages for common issues
+			if (response.status === 404) {
+				message = `Ollama endpoint not found (404). The model "${this.model}" may not be installed. Try running: ollama pull ${this.model}`;
+			}
+			console.error('[Thoughtlands:Ollama] Chat request failed:', { status: response.status, url: response.url, error: message });
+			throw new LLMError(message, response.status === 500 || response.status >= 502, response.status);
+		}
+
+		// Handle both /api/chat and /api/generate response formats
+		if (!stream) {
+			const data = await response.json();
+			return data.message?.content || data.response || '';
+		}
+
+		let text = '';
+		await this.readLines(response, line => {
+			const data = JSON.parse(line);
+			if (data.error) {
+				throw new LLMError(`Ollama error: ${data.error}`);
+			}
+			const token = data.message?.content ?? data.response;
+			if (token) {
+				text += token;
+				options.onToken!(token);
+			}
+		}, onActivity);
+		return text;
+	}
+}
+
+export type FakeResponder = (messages: ChatMessage[], options: ChatOptions) => string;
+
+/**
+ * Deterministic offline backend. Replies come from the given responder, or cycle through a list of
+ * canned replies; by default it answers `[]` in JSON mode and echoes the first line of the last user
+ * message otherwise. Every request is recorded in `calls`.
+ */
+export class FakeLLMClient extends BaseLLMClient {
+	readonly backend: LLMBackend = 'fake';
+	readonly model: string = 'fake';
+	readonly calls: { messages: ChatMessage[]; options: ChatOptions }[] = [];
+	private responder: FakeResponder;
+
+	constructor(responder?: FakeResponder | string[]) {
+		super();
+		if (Array.isArray(responder)) {
+			const replies = responder;
+			this.responder = () => replies[(this.calls.length - 1) % Math.max(1, replies.length)] ?? '';
+		} else {
+			this.responder = responder ?? FakeLLMClient.defaultResponder;
+		}
+	}
+
+	async checkAvailable(): Promise<LLMAvailability> {
+		return { available: true };
+	}
+
+	protected async send(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+		this.calls.push({ messages, options });
+		const text = this.responder(messages, options);
+		if (options.onToken) {
+			for (const token of text.match(/\S+\s*/g) || []) {
+				options.onToken(token);
+			}
+		}
+		return text;
+	}
+
+	private static defaultResponder(messages: ChatMessage[], options: ChatOptions): string {
+		if (options.json) {
+			return '[]';
+		}
+		const lastUser = [...messages].reverse().find(m => m.role === 'user');
+		return lastUser ? lastUser.content.trim().split('\n')[0] : '';
+	}
+}
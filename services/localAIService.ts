@@ -1,6 +1,7 @@
 import { App } from 'obsidian';
 import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
 import { ConceptScope } from '../ui/conceptInputModal';
+import { LLMClient, createLLMClient, parseJSONResponse, cleanGeneratedName } from './llmClient';
 
 export interface LocalAIResponse {
 	success: boolean;
@@ -11,59 +12,23 @@ export interface LocalAIResponse {
 export class LocalAIService {
 	private app: App;
 	private settings: ThoughtlandsSettings;
+	private llm: LLMClient;
+	private llmOverride?: LLMClient; // Fixed client (e.g. FakeLLMClient) that survives settings changes
 
-	constructor(app: App, settings: ThoughtlandsSettings) {
+	constructor(app: App, settings: ThoughtlandsSettings, llm?: LLMClient) {
 		this.app = app;
 		this.settings = settings;
+		this.llmOverride = llm;
+		this.llm = llm ?? createLLMClient(settings, 'ollama');
 	}
 
 	updateSettings(newSettings: ThoughtlandsSettings): void {
 		this.settings = newSettings;
+		this.llm = this.llmOverride ?? createLLMClient(newSettings, 'ollama');
 	}
 
 	async checkOllamaAvailable(): Promise<{ available: boolean; error?: string }> {
-		try {
-			const response = await fetch(`${this.settings.ollamaUrl}/api/tags`, {
-				method: 'GET',
-				headers: {
-					'Content-Type': 'application/json',
-				},
-			});
-
-			if (!response.ok) {
-				return {
-					available: false,
-					error: `Ollama not responding (HTTP ${response.status}). Is Ollama running at ${this.settings.ollamaUrl}?`
-				};
-			}
-
-			// Check if the chat model is installed
-			const data = await response.json();
-			const models = data.models || [];
-			
-			// Check if chat model is installed - model names might include tags like "llama3.2:latest"
-			const modelInstalled = models.some((m: any) => {
-				const modelName = m.name || '';
-				// Check exact match or if model name starts with our target (handles tags like :latest, :v1, etc.)
-				return modelName === this.settings.ollamaChatModel || 
-				       modelName.startsWith(this.settings.ollamaChatModel + ':') ||
-				       modelName.startsWith(this.settings.ollamaChatModel + '@');
-			});
-
-			if (!modelInstalled) {
-				return {
-					available: false,
-					error: `Ollama model "${this.settings.ollamaChatModel}" not installed. Please run: ollama pull ${this.settings.ollamaChatModel}`
-				};
-			}
-
-			return { available: true };
-		} catch (error) {
-			return {
-				available: false,
-				error: `Cannot connect to Ollama at ${this.settings.ollamaUrl}. Is Ollama running? Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-			};
-		}
+		return this.llm.checkAvailable();
 	}
 
 	async getRelatedTags(
@@ -89,94 +54,18 @@ export class LocalAIService {
 			const prompt = this.buildPrompt(concepts, scope, maxTags, tagSamples, availableTags);
 
 			console.log('[Thoughtlands:LocalAI] Sending request to Ollama:', {
-				model: this.settings.ollamaChatModel,
+				model: this.llm.model,
 				scope: scope,
 				maxTags: maxTags,
 			});
 
-			// Try /api/chat first (preferred for chat-like interactions), fallback to /api/generate
-			let response: Response;
-			
-			try {
-				// Try /api/chat endpoint first (Ollama's chat completion endpoint)
-				response = await fetch(`${this.settings.ollamaUrl}/api/chat`, {
-					method: 'POST',
-					headers: {
-						'Content-Type': 'application/json',
-					},
-					body: JSON.stringify({
-						model: this.settings.ollamaChatModel,
-						messages: [
-							{
-								role: 'system',
-								content: 'You are a tag selection assistant. You MUST ONLY return tags that appear in the provided list. Any tag not in the list will be automatically rejected. Return ONLY a JSON array of tag names, nothing else.',
-							},
-							{
-								role: 'user',
-								content: prompt,
-							},
-						],
-						stream: false,
-					}),
-				});
-
-				if (!response.ok) {
-					// If 404, try the /api/generate endpoint as fallback
-					if (response.status === 404) {
-						console.log('[Thoughtlands:LocalAI] /api/chat returned 404, trying /api/generate endpoint');
-						try {
-						response = await fetch(`${this.settings.ollamaUrl}/api/generate`, {
-							method: 'POST',
-							headers: {
-								'Content-Type': 'application/json',
-							},
-							body: JSON.stringify({
-								model: this.settings.ollamaChatModel,
-								prompt: prompt,
-								stream: false,
-							}),
-						});
-						} catch (fallbackError) {
-							console.error('[Thoughtlands:LocalAI] Fallback fetch failed:', fallbackError);
-							return { success: false, error: `Failed to connect to Ollama: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}` };
-						}
-					}
-				}
-			} catch (fetchError) {
-				console.error('[Thoughtlands:LocalAI] Fetch error:', fetchError);
-				return { success: false, error: `Failed to connect to Ollama: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}` };
-			}
-
-			if (!response.ok) {
-				let errorMessage = `HTTP ${response.status}`;
-				try {
-					const error = await response.json();
-					errorMessage = error.error?.message || error.message || errorMessage;
-				} catch (parseError) {
-					// If we can't parse the error, try to read as text
-					try {
-						const errorText = await response.text();
-						if (errorText) {
-							errorMessage = errorText;
-						}
-					} catch (textError) {
-						// If we can't read the error, use the status
-						errorMessage = `HTTP ${response.status} - Unable to read error response`;
-					}
-				}
-				
-				// Provide more helpful error messages for common issues
-				if (response.status === 404) {
-					errorMessage = `Ollama endpoint not found (404). The model "${this.settings.ollamaChatModel}" may not be installed. Try running: ollama pull ${this.settings.ollamaChatModel}`;
-				}
-				
-				console.error('[Thoughtlands:LocalAI] API request failed:', { status: response.status, url: response.url, error: errorMessage });
-				return { success: false, error: errorMessage };
-			}
-
-			const responseData = await response.json();
-			// Handle both /api/chat and /api/generate response formats
-			const content = responseData.message?.content?.trim() || responseData.response?.trim();
+			const content = await this.llm.complete([
+				{
+					role: 'system',
+					content: 'You are a tag selection assistant. You MUST ONLY return tags that appear in the provided list. Any tag not in the list will be automatically rejected. Return ONLY a JSON array of tag names, nothing else.',
+				},
+				{ role: 'user', content: prompt },
+			]);
 
 			if (!content) {
 				console.error('[Thoughtlands:LocalAI] No content in response');
@@ -188,7 +77,7 @@ export class LocalAIService {
 			// Parse the response to extract tags
 			let tags: string[] = [];
 			try {
-				const parsed = JSON.parse(content);
+				const parsed = parseJSONResponse(content);
 				if (Array.isArray(parsed)) {
 					tags = parsed;
 				} else if (typeof parsed === 'string') {
@@ -265,98 +154,21 @@ export class LocalAIService {
 		try {
 			const prompt = this.buildFilterPrompt(concepts, tags, tagSamples, maxTags, availableTags);
 
-			// Try /api/chat first, fallback to /api/generate
-			let response: Response;
-			
-			try {
-				response = await fetch(`${this.settings.ollamaUrl}/api/chat`, {
-					method: 'POST',
-					headers: {
-						'Content-Type': 'application/json',
-					},
-					body: JSON.stringify({
-						model: this.settings.ollamaChatModel,
-						messages: [
-							{
-								role: 'system',
-								content: 'You are a tag selection assistant. You MUST ONLY return tags from the candidate tags provided by the user. Do NOT invent, create, or suggest any tags that are not in the candidate list. Any tag not in that list will be automatically rejected. Return ONLY a JSON array of tag names (without # prefix), nothing else.',
-							},
-							{
-								role: 'user',
-								content: prompt,
-							},
-						],
-						stream: false,
-					}),
-				});
-
-				if (!response.ok && response.status === 404) {
-					// Fallback to /api/generate
-					try {
-					response = await fetch(`${this.settings.ollamaUrl}/api/generate`, {
-						method: 'POST',
-						headers: {
-							'Content-Type': 'application/json',
-						},
-						body: JSON.stringify({
-							model: this.settings.ollamaChatModel,
-							prompt: prompt,
-							stream: false,
-						}),
-					});
-					} catch (fallbackError) {
-						console.error('[Thoughtlands:LocalAI] Fallback fetch failed:', fallbackError);
-						return { success: false, error: `Failed to connect to Ollama: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}` };
-					}
-				}
-			} catch (fetchError) {
-				return { success: false, error: `Failed to connect to Ollama: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}` };
-			}
-
-			if (!response.ok) {
-				let errorMessage = `HTTP ${response.status}`;
-				try {
-					const error = await response.json();
-					errorMessage = error.error?.message || error.message || errorMessage;
-				} catch (parseError) {
-					// If we can't parse the error, try to read as text
-					try {
-						const errorText = await response.text();
-						if (errorText) {
-							errorMessage = errorText;
-						}
-					} catch (textError) {
-						// If we can't read the error, use the status
-						errorMessage = `HTTP ${response.status} - Unable to read error response`;
-					}
-				}
-				
-				// Provide more helpful error messages for common issues
-				if (response.status === 404) {
-					errorMessage = `Ollama endpoint not found (404). The model "${this.settings.ollamaChatModel}" may not be installed. Try running: ollama pull ${this.settings.ollamaChatModel}`;
-				}
-				
-				return { success: false, error: errorMessage };
-			}
-
-			const responseData = await response.json();
-			// Handle both /api/chat and /api/generate response formats
-			let content = responseData.message?.content?.trim() || responseData.response?.trim();
+			const content = await this.llm.complete([
+				{
+					role: 'system',
+					content: 'You are a tag selection assistant. You MUST ONLY return tags from the candidate tags provided by the user. Do NOT invent, create, or suggest any tags that are not in the candidate list. Any tag not in that list will be automatically rejected. Return ONLY a JSON array of tag names (without # prefix), nothing else.',
+				},
+				{ role: 'user', content: prompt },
+			]);
 
 			if (!content) {
 				return { success: false, error: 'No response from Ollama' };
 			}
 
-			// Strip markdown code blocks if present
-			if (content.startsWith('```')) {
-				content = content.replace(/^```(?:json)?\s*\n?/, '');
-				content = content.replace(/\n?```\s*$/, '');
-				content = content.trim();
-			}
-
 			let filteredTags: string[] = [];
 			try {
-				const parsed = JSON.parse(content);
+				const parsed = parseJSONResponse(content);
 				if (Array.isArray(parsed)) {
 					filteredTags = parsed;
 				}
@@ -617,129 +429,27 @@ export class LocalAIService {
 	async generateRegionName(concepts: string[], tags: string[]): Promise<{ success: boolean; name?: string; error?: string }> {
 		console.log('[Thoughtlands:LocalAI] generateRegionName called with concepts:', concepts, 'tags:', tags);
 		
-		// Check if Ollama is available first
-		const ollamaCheck = await this.checkOllamaAvailable();
-		if (!ollamaCheck.available) {
-			console.error('[Thoughtlands:LocalAI] Ollama not available:', ollamaCheck.error);
-			return {
-				success: false,
-				error: ollamaCheck.error || 'Ollama is not available. Please check if Ollama is running.'
-			};
-		}
-		
-		try {
-			const conceptText = concepts.length === 1 ? concepts[0] : concepts.join(', ');
-			const prompt = `Given this concept: ${conceptText}
+		const conceptText = concepts.length === 1 ? concepts[0] : concepts.join(', ');
+		const prompt = `Given this concept: ${conceptText}
 
 And these related Obsidian tags: ${tags.slice(0, 10).join(', ')}
 
 Generate a concise, descriptive name (2-4 words) for a region that represents notes about these concepts. Return only the name, nothing else.`;
 
-			// Try /api/chat first, fallback to /api/generate
-			let response: Response;
-			
-			try {
-				response = await fetch(`${this.settings.ollamaUrl}/api/chat`, {
-					method: 'POST',
-					headers: {
-						'Content-Type': 'application/json',
-					},
-					body: JSON.stringify({
-						model: this.settings.ollamaChatModel,
-						messages: [
-							{
-								role: 'user',
-								content: prompt,
-							},
-						],
-						stream: false,
-					}),
-				});
-
-				if (!response.ok && response.status === 404) {
-					// Fallback to /api/generate
-					try {
-					response = await fetch(`${this.settings.ollamaUrl}/api/generate`, {
-						method: 'POST',
-						headers: {
-							'Content-Type': 'application/json',
-						},
-						body: JSON.stringify({
-							model: this.settings.ollamaChatModel,
-							prompt: prompt,
-							stream: false,
-						}),
-					});
-					} catch (fallbackError) {
-						console.error('[Thoughtlands:LocalAI] Fallback fetch failed:', fallbackError);
-						return { success: false, error: `Failed to connect to Ollama: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}` };
-					}
-				}
-			} catch (fetchError) {
-				return { success: false, error: `Failed to connect to Ollama: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}` };
-			}
-
-			if (!response.ok) {
-				let errorMessage = `HTTP ${response.status}`;
-				try {
-					const error = await response.json();
-					errorMessage = error.error?.message || error.message || errorMessage;
-				} catch (parseError) {
-					// If we can't parse the error, try to read as text
-					try {
-						const errorText = await response.text();
-						if (errorText) {
-							errorMessage = errorText;
-						}
-					} catch (textError) {
-						// If we can't read the error, use the status
-						errorMessage = `HTTP ${response.status} - Unable to read error response`;
-					}
-				}
-				
-				// Provide more helpful error messages for common issues
-				if (response.status === 404) {
-					errorMessage = `Ollama endpoint not found (404). The model "${this.settings.ollamaChatModel}" may not be installed. Try running: ollama pull ${this.settings.ollamaChatModel}`;
-				}
-				
-				console.error('[Thoughtlands:LocalAI] Name generation failed:', errorMessage);
-				return {
-					success: false,
-					error: errorMessage,
-				};
-			}
-
-			const responseData = await response.json();
-			// Handle both /api/chat and /api/generate response formats
-			const name = responseData.message?.content?.trim() || responseData.response?.trim();
-			
-			if (!name) {
-				return {
-					success: false,
-					error: 'No name generated',
-				};
-			}
-
-			// Clean up the name (remove quotes, extra whitespace, etc.)
-			const cleanName = name.replace(/^["']|["']$/g, '').trim();
-
-			console.log('[Thoughtlands:LocalAI] Generated region name:', cleanName);
-			return {
-				success: true,
-				name: cleanName,
-			};
-		} catch (error) {
-			console.error('[Thoughtlands:LocalAI] Exception during name generation:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error',
-			};
-		}
+		return this.generateName(prompt);
 	}
 
 	async generateRegionNameFromConcept(conceptText: string): Promise<{ success: boolean; name?: string; error?: string }> {
 		console.log('[Thoughtlands:LocalAI] generateRegionNameFromConcept called with concept:', conceptText);
 		
+		const prompt = `Given this concept description: ${conceptText}
+
+Generate a concise, descriptive name (2-4 words) for a region that represents notes about this concept. Return only the name, nothing else.`;
+
+		return this.generateName(prompt);
+	}
+
+	private async generateName(prompt: string): Promise<{ success: boolean; name?: string; error?: string }> {
 		// Check if Ollama is available first
 		const ollamaCheck = await this.checkOllamaAvailable();
 		if (!ollamaCheck.available) {
@@ -749,90 +459,9 @@ Generate a concise, descriptive name (2-4 words) for a region that represents no
 				error: ollamaCheck.error || 'Ollama is not available. Please check if Ollama is running.'
 			};
 		}
-		
-		try {
-			const prompt = `Given this concept description: ${conceptText}
-
-Generate a concise, descriptive name (2-4 words) for a region that represents notes about this concept. Return only the name, nothing else.`;
-
-			// Try /api/chat first, fallback to /api/generate
-			let response: Response;
-			
-			try {
-				response = await fetch(`${this.settings.ollamaUrl}/api/chat`, {
-					method: 'POST',
-					headers: {
-						'Content-Type': 'application/json',
-					},
-					body: JSON.stringify({
-						model: this.settings.ollamaChatModel,
-						messages: [
-							{
-								role: 'user',
-								content: prompt,
-							},
-						],
-						stream: false,
-					}),
-				});
-
-				if (!response.ok && response.status === 404) {
-					// Fallback to /api/generate
-					try {
-					response = await fetch(`${this.settings.ollamaUrl}/api/generate`, {
-						method: 'POST',
-						headers: {
-							'Content-Type': 'application/json',
-						},
-						body: JSON.stringify({
-							model: this.settings.ollamaChatModel,
-							prompt: prompt,
-							stream: false,
-						}),
-					});
-					} catch (fallbackError) {
-						console.error('[Thoughtlands:LocalAI] Fallback fetch failed:', fallbackError);
-						return { success: false, error: `Failed to connect to Ollama: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}` };
-					}
-				}
-			} catch (fetchError) {
-				return { success: false, error: `Failed to connect to Ollama: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}` };
-			}
 
-			if (!response.ok) {
-				let errorMessage = `HTTP ${response.status}`;
-				try {
-					const error = await response.json();
-					errorMessage = error.error?.message || error.message || errorMessage;
-				} catch (parseError) {
-					// If we can't parse the error, try to read as text
-					try {
-						const errorText = await response.text();
-						if (errorText) {
-							errorMessage = errorText;
-						}
-					} catch (textError) {
-						// If we can't read the error, use the status
-						errorMessage = `HTTP ${response.status} - Unable to read error response`;
-					}
-				}
-				
-				// Provide more helpful error messages for common issues
-				if (response.status === 404) {
-					errorMessage = `Ollama endpoint not found (404). The model "${this.settings.ollamaChatModel}" may not be installed. Try running: ollama pull ${this.settings.ollamaChatModel}`;
-				}
-				
-				console.error('[Thoughtlands:LocalAI] Name generation failed:', errorMessage);
-				return {
-					success: false,
-					error: errorMessage,
-				};
-			}
-
-			const responseData = await response.json();
-			// Handle both /api/chat and /api/generate response formats
-			const name = responseData.message?.content?.trim() || responseData.response?.trim();
-			
+		try {
+			const name = cleanGeneratedName(await this.llm.complete([{ role: 'user', content: prompt }]));
 			if (!name) {
 				return {
 					success: false,
@@ -840,13 +469,10 @@ Generate a concise, descriptive name (2-4 words) for a region that represents no
 				};
 			}
 
-			// Clean up the name (remove quotes, extra whitespace, etc.)
-			const cleanName = name.replace(/^["']|["']$/g, '').trim();
-
-			console.log('[Thoughtlands:LocalAI] Generated region name:', cleanName);
+			console.log('[Thoughtlands:LocalAI] Generated region name:', name);
 			return {
 				success: true,
-				name: cleanName,
+				name,
 			};
 		} catch (error) {
 			console.error('[Thoughtlands:LocalAI] Exception during name generation:', error);
@@ -857,4 +483,3 @@ Generate a concise, descriptive name (2-4 words) for a region that represents no
 		}
 	}
 }
-
@@ -0,0 +1,152 @@
+export interface NoteChunk {
+	text: string;
+	offset: number; // Character offset of the chunk within the note content
+	heading?: string; // Nearest heading above the chunk (if any)
+}
+
+export interface ChunkingOptions {
+	chunkSize: number; // Target maximum characters per chunk
+	maxChunks: number; // Upper bound on chunks per note (chunk size grows to stay under it)
+	minChunkSize?: number; // Sections smaller than this are merged into the following section
+}
+
+const HEADING_REGEX = /^#{1,6}\s+(.*)$/;
+
+/**
+ * Split note content into heading/paragraph-aware chunks.
+ *
+ * Sections start at markdown headings; within a section, paragraphs (blank-line separated)
+ * are packed together until the chunk size is reached. Paragraphs longer than the chunk size
+ * are split at the nearest sentence or whitespace boundary. Very small sections (e.g. a heading
+ * followed by a single line) are carried into the next section so they don't become noisy
+ * standalone vectors.
+ */
+export function chunkNoteContent(content: string, options: ChunkingOptions): NoteChunk[] {
+	const chunks: NoteChunk[] = [];
+	if (!content || content.trim().length === 0) {
+		return chunks;
+	}
+
+	// Grow the chunk size for very long notes so we never exceed maxChunks requests per note
+	const maxChunks = Math.max(1, options.maxChunks);
+	const chunkSize = Math.max(options.chunkSize, Math.ceil(content.length / maxChunks));
+	const minChunkSize = options.minChunkSize ?? Math.min(200, Math.floor(chunkSize / 4));
+
+	// Break content into paragraphs, remembering offsets and the heading each belongs to
+	const paragraphs: { text: string; offset: number; heading?: string; startsSection: boolean }[] = [];
+	const lines = content.split('\n');
+	let currentHeading: string | undefined;
+	let paragraphLines: string[] = [];
+	let paragraphOffset = 0;
+	let paragraphEnd = 0;
+	let paragraphStartsSection = false;
+	let offset = 0;
+
+	const flushParagraph = () => {
+		// Slice the original content so offsets inside the paragraph stay accurate
+		const text = paragraphLines.length > 0 ? content.substring(paragraphOffset, paragraphEnd).trim() : '';
+		if (text.length > 0) {
+			paragraphs.push({ text, offset: paragraphOffset, heading: currentHeading, startsSection: paragraphStartsSection });
+		}
+		paragraphLines = [];
+		paragraphStartsSection = false;
+	};
+
+	for (const line of lines) {
+		const headingMatch = line.match(HEADING_REGEX);
+		if (headingMatch) {
+			flushParagraph();
+			currentHeading = headingMatch[1].trim();
+			paragraphStartsSection = true;
+			paragraphOffset = offset;
+			paragraphLines.push(line);
+			paragraphEnd = offset + line.length;
+		} else if (line.trim().length === 0) {
+			// Keep a heading attached to the paragraph that follows it
+			if (!(paragraphLines.length === 1 && HEADING_REGEX.test(paragraphLines[0]))) {
+				flushParagraph();
+			}
+		} else {
+			if (paragraphLines.length === 0) {
+				paragraphOffset = offset;
+			}
+			paragraphLines.push(line);
+			paragraphEnd = offset + line.length;
+		}
+		offset += line.length + 1;
+	}
+	flushParagraph();
+
+	// Pack paragraphs into chunks
+	let buffer = '';
+	let bufferOffset = 0;
+	let bufferHeading: string | undefined;
+
+	const flushBuffer = () => {
+		const text = buffer.trim();
+		if (text.length > 0) {
+			chunks.push({ text, offset: bufferOffset, heading: bufferHeading });
+		}
+		buffer = '';
+	};
+
+	for (const paragraph of paragraphs) {
+		// New section: emit what we have unless it's too small to stand on its own
+		if (paragraph.startsSection && buffer.length >= minChunkSize) {
+			flushBuffer();
+		}
+
+		if (paragraph.text.length > chunkSize) {
+			flushBuffer();
+			for (const piece of splitLongText(paragraph.text, chunkSize)) {
+				chunks.push({ text: piece.text, offset: paragraph.offset + piece.offset, heading: paragraph.heading });
+			}
+			continue;
+		}
+
+		if (buffer.length > 0 && buffer.length + paragraph.text.length + 2 > chunkSize) {
+			flushBuffer();
+		}
+
+		if (buffer.length === 0) {
+			bufferOffset = paragraph.offset;
+			bufferHeading = paragraph.heading;
+			buffer = paragraph.text;
+		} else {
+			buffer += '\n\n' + paragraph.text;
+		}
+	}
+	flushBuffer();
+
+	return chunks;
+}
+
+// Split a single oversized paragraph at sentence (or whitespace) boundaries
+function splitLongText(text: string, chunkSize: number): { text: string; offset: number }[] {
+	const pieces: { text: string; offset: number }[] = [];
+	let start = 0;
+
+	while (start < text.length) {
+		let end = Math.min(start + chunkSize, text.length);
+		if (end < text.length) {
+			const window = text.substring(start, end);
+			const sentenceBreak = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '), window.lastIndexOf('\n'));
+			const spaceBreak = window.lastIndexOf(' ');
+			// Only break early if it leaves a reasonably sized piece
+			if (sentenceBreak > chunkSize / 2) {
+				end = start + sentenceBreak + 1;
+			} else if (spaceBreak > chunkSize / 2) {
+				end = start + spaceBreak;
+			}
+		}
+
+		const raw = text.substring(start, end);
+		const piece = raw.trim();
+		if (piece.length > 0) {
+			pieces.push({ text: piece, offset: start + (raw.length - raw.trimStart().length) });
+		}
+		start = end;
+	}
+
+	return pieces;
+}
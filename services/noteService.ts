@@ -157,6 +157,12 @@ export class NoteService {
 		return tagSamples;
 	}
 
+	// Tags of a single note (frontmatter and inline), without the # prefix
+	getNoteTags(file: TFile): string[] {
+		const fileCache = this.metadataCache.getFileCache(file);
+		return fileCache ? this.extractTags(fileCache) : [];
+	}
+
 	private extractTags(fileCache: any): string[] {
 		const tags: string[] = [];
 
@@ -1,6 +1,7 @@
 import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
 import { TagAffinityCache } from './tagAffinityCache';
 import { ConceptScope } from '../ui/conceptInputModal';
+import { LLMClient, createLLMClient, parseJSONResponse, stripCodeFence, cleanGeneratedName } from './llmClient';
 
 export interface OpenAIResponse {
 	success: boolean;
@@ -17,20 +18,25 @@ export interface RegionNameResponse {
 export class OpenAIService {
 	private settings: ThoughtlandsSettings;
 	private cache: TagAffinityCache;
+	private llm: LLMClient;
+	private llmOverride?: LLMClient; // Fixed client (e.g. FakeLLMClient) that survives settings changes
 
-	constructor(settings: ThoughtlandsSettings, cache: TagAffinityCache) {
+	constructor(settings: ThoughtlandsSettings, cache: TagAffinityCache, llm?: LLMClient) {
 		this.settings = settings;
 		this.cache = cache;
+		this.llmOverride = llm;
+		this.llm = llm ?? createLLMClient(settings, 'openai');
 	}
 
 	async getRelatedTags(concepts: string[], scope: ConceptScope = 'regular', tagSamples?: Map<string, string[]>, availableTags?: string[]): Promise<OpenAIResponse> {
 		console.log('[Thoughtlands:OpenAI] getRelatedTags called with concepts:', concepts, 'scope:', scope);
 		
-		if (!this.settings.openAIApiKey) {
+		const availability = await this.llm.checkAvailable();
+		if (!availability.available) {
 			console.error('[Thoughtlands:OpenAI] API key not configured');
 			return {
 				success: false,
-				error: 'OpenAI API key not configured',
+				error: availability.error,
 			};
 		}
 
@@ -51,49 +57,19 @@ export class OpenAIService {
 		try {
 			const prompt = this.buildPrompt(concepts, scope, maxTags, tagSamples);
 			console.log('[Thoughtlands:OpenAI] Sending request to OpenAI:', {
-				model: this.settings.aiModel,
+				model: this.llm.model,
 				scope: scope,
 				maxTags: maxTags,
 				prompt: prompt
 			});
 			
-			const response = await fetch('https://api.openai.com/v1/chat/completions', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${this.settings.openAIApiKey}`,
+			const content = await this.llm.complete([
+				{
+					role: 'system',
+					content: 'You are a tag selection assistant. You MUST ONLY return tags that appear in the provided VALID TAGS list. Any tag not in that list will be automatically rejected. Return ONLY a JSON array of tag names (without # prefix), nothing else.',
 				},
-				body: JSON.stringify({
-					model: this.settings.aiModel,
-					messages: [
-						{
-							role: 'system',
-							content: 'You are a tag selection assistant. You MUST ONLY return tags that appear in the provided VALID TAGS list. Any tag not in that list will be automatically rejected. Return ONLY a JSON array of tag names (without # prefix), nothing else.',
-						},
-						{
-							role: 'user',
-							content: prompt,
-						},
-					],
-					temperature: 0.7,
-					max_tokens: 200,
-				}),
-			});
-
-			if (!response.ok) {
-				const error = await response.json();
-				console.error('[Thoughtlands:OpenAI] API request failed:', {
-					status: response.status,
-					error: error
-				});
-				return {
-					success: false,
-					error: error.error?.message || `HTTP ${response.status}`,
-				};
-			}
-
-			const data = await response.json();
-			const content = data.choices[0]?.message?.content?.trim();
+				{ role: 'user', content: prompt },
+			], { temperature: 0.7, maxTokens: 200 });
 			console.log('[Thoughtlands:OpenAI] Raw response content:', content);
 			
 			if (!content) {
@@ -107,18 +83,7 @@ export class OpenAIService {
 			// Parse JSON array from response
 			let tags: string[] = [];
 			try {
-				// Strip markdown code blocks if present
-				let jsonContent = content.trim();
-				if (jsonContent.startsWith('```')) {
-					// Remove opening ```json or ```
-					jsonContent = jsonContent.replace(/^```(?:json)?\s*\n?/, '');
-					// Remove closing ```
-					jsonContent = jsonContent.replace(/\n?```\s*$/, '');
-					jsonContent = jsonContent.trim();
-				}
-				
-				// Try to parse as JSON
-				const parsed = JSON.parse(jsonContent);
+				const parsed = parseJSONResponse(content);
 				console.log('[Thoughtlands:OpenAI] Parsed JSON:', parsed);
 				if (Array.isArray(parsed)) {
 					tags = parsed;
@@ -129,12 +94,7 @@ export class OpenAIService {
 				console.log('[Thoughtlands:OpenAI] JSON parse failed, trying text extraction. Error:', parseError);
 				// If not JSON, try to extract tags from text
 				// Strip markdown code blocks first
-				let textContent = content.trim();
-				if (textContent.startsWith('```')) {
-					textContent = textContent.replace(/^```(?:json)?\s*\n?/, '');
-					textContent = textContent.replace(/\n?```\s*$/, '');
-					textContent = textContent.trim();
-				}
+				const textContent = stripCodeFence(content);
 				tags = textContent
 					.split(/[,\n]/)
 					.map((t: string) => t.trim().replace(/^#/, '').replace(/[\[\]"]/g, ''))
@@ -269,9 +229,10 @@ export class OpenAIService {
 	async filterTagsByRelevance(concepts: string[], tags: string[], tagSamples: Map<string, string[]>, maxTags: number, availableTags?: string[]): Promise<OpenAIResponse> {
 		console.log('[Thoughtlands:OpenAI] filterTagsByRelevance called with', tags.length, 'tags, maxTags:', maxTags);
 		
-		if (!this.settings.openAIApiKey) {
+		const availability = await this.llm.checkAvailable();
+		if (!availability.available) {
 			console.error('[Thoughtlands:OpenAI] API key not configured');
-			return { success: false, error: 'OpenAI API key not configured' };
+			return { success: false, error: availability.error };
 		}
 
 		try {
@@ -359,45 +320,22 @@ export class OpenAIService {
 				
 				console.log(`[Thoughtlands:OpenAI] Batch ${i + 1} prompt length:`, prompt.length, 'characters');
 				
-				const response = await fetch('https://api.openai.com/v1/chat/completions', {
-					method: 'POST',
-					headers: {
-						'Content-Type': 'application/json',
-						'Authorization': `Bearer ${this.settings.openAIApiKey}`,
-					},
-					body: JSON.stringify({
-						model: this.settings.aiModel,
-						messages: [
-							{ role: 'system', content: 'You are a helpful assistant that filters tags based on relevance to concepts. Return only a JSON array of tag names (without # prefix), nothing else.' },
-							{ role: 'user', content: prompt },
-						],
-						temperature: 0.7,
-						max_tokens: Math.min(tagsFromThisBatch * 20, 500),
-					}),
-				});
-
-				if (!response.ok) {
-					const error = await response.json();
-					console.error(`[Thoughtlands:OpenAI] Batch ${i + 1} API request failed:`, { status: response.status, error: error });
+				let content: string;
+				try {
+					content = await this.llm.complete([
+						{ role: 'system', content: 'You are a helpful assistant that filters tags based on relevance to concepts. Return only a JSON array of tag names (without # prefix), nothing else.' },
+						{ role: 'user', content: prompt },
+					], { temperature: 0.7, maxTokens: Math.min(tagsFromThisBatch * 20, 500) });
+				} catch (error) {
+					console.error(`[Thoughtlands:OpenAI] Batch ${i + 1} API request failed:`, error);
 					// Continue with other batches even if one fails
 					continue;
 				}
 
-				const data = await response.json();
-				const content = data.choices[0]?.message?.content?.trim();
-
 				if (content) {
 					let batchTags: string[] = [];
 					try {
-						// Strip markdown code blocks if present
-						let jsonContent = content.trim();
-						if (jsonContent.startsWith('```')) {
-							jsonContent = jsonContent.replace(/^```(?:json)?\s*\n?/, '');
-							jsonContent = jsonContent.replace(/\n?```\s*$/, '');
-							jsonContent = jsonContent.trim();
-						}
-						
-						const parsed = JSON.parse(jsonContent);
+						const parsed = parseJSONResponse(content);
 						if (Array.isArray(parsed)) {
 							batchTags = parsed;
 						} else if (typeof parsed === 'string') {
@@ -406,12 +344,7 @@ export class OpenAIService {
 					} catch (parseError) {
 						console.log(`[Thoughtlands:OpenAI] Batch ${i + 1} JSON parse failed, trying text extraction`);
 						// Strip markdown code blocks first
-						let textContent = content.trim();
-						if (textContent.startsWith('```')) {
-							textContent = textContent.replace(/^```(?:json)?\s*\n?/, '');
-							textContent = textContent.replace(/\n?```\s*$/, '');
-							textContent = textContent.trim();
-						}
+						const textContent = stripCodeFence(content);
 						batchTags = textContent
 							.split(/[,\n]/)
 							.map((t: string) => t.trim().replace(/^#/, '').replace(/[\[\]"]/g, ''))
@@ -493,34 +426,14 @@ export class OpenAIService {
 		prompt += `Return only a JSON array of the ${maxTags} most relevant tag names (without the # prefix).`;
 		
 		try {
-			const response = await fetch('https://api.openai.com/v1/chat/completions', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${this.settings.openAIApiKey}`,
-				},
-				body: JSON.stringify({
-					model: this.settings.aiModel,
-					messages: [
-						{ role: 'system', content: 'You are a helpful assistant that selects relevant tags comprehensively. Include tags that are directly or indirectly related. Return only a JSON array of tag names (without # prefix), nothing else.' },
-						{ role: 'user', content: prompt },
-					],
-					temperature: 0.7,
-					max_tokens: Math.min(maxTags * 20, 500),
-				}),
-			});
-
-			if (!response.ok) {
-				console.error('[Thoughtlands:OpenAI] Final selection API request failed');
-				return tags.slice(0, maxTags); // Fallback to first N tags
-			}
-
-			const data = await response.json();
-			const content = data.choices[0]?.message?.content?.trim();
+			const content = await this.llm.complete([
+				{ role: 'system', content: 'You are a helpful assistant that selects relevant tags comprehensively. Include tags that are directly or indirectly related. Return only a JSON array of tag names (without # prefix), nothing else.' },
+				{ role: 'user', content: prompt },
+			], { temperature: 0.7, maxTokens: Math.min(maxTags * 20, 500) });
 
 			if (content) {
 				try {
-					const parsed = JSON.parse(content);
+					const parsed = parseJSONResponse(content);
 					if (Array.isArray(parsed)) {
 						return parsed;
 					}
@@ -544,10 +457,11 @@ export class OpenAIService {
 	async generateRegionName(concepts: string[], tags: string[]): Promise<RegionNameResponse> {
 		console.log('[Thoughtlands:OpenAI] generateRegionName called with concepts:', concepts, 'tags:', tags);
 		
-		if (!this.settings.openAIApiKey) {
+		const availability = await this.llm.checkAvailable();
+		if (!availability.available) {
 			return {
 				success: false,
-				error: 'OpenAI API key not configured',
+				error: availability.error,
 			};
 		}
 
@@ -558,51 +472,66 @@ And these related Obsidian tags: ${tags.slice(0, 10).join(', ')}
 
 Generate a concise, descriptive name (2-4 words) for a region that represents notes about these concepts. Return only the name, nothing else.`;
 
-			const response = await fetch('https://api.openai.com/v1/chat/completions', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${this.settings.openAIApiKey}`,
+			const cleanName = cleanGeneratedName(await this.llm.complete([
+				{
+					role: 'system',
+					content: 'You are a helpful assistant that generates concise, descriptive names for collections of related notes. Return only the name, nothing else.',
 				},
-				body: JSON.stringify({
-					model: this.settings.aiModel,
-					messages: [
-						{
-							role: 'system',
-							content: 'You are a helpful assistant that generates concise, descriptive names for collections of related notes. Return only the name, nothing else.',
-						},
-						{
-							role: 'user',
-							content: prompt,
-						},
-					],
-					temperature: 0.7,
-					max_tokens: 50,
-				}),
-			});
+				{ role: 'user', content: prompt },
+			], { temperature: 0.7, maxTokens: 50 }));
 
-			if (!response.ok) {
-				const error = await response.json();
-				console.error('[Thoughtlands:OpenAI] Name generation failed:', error);
+			if (!cleanName) {
 				return {
 					success: false,
-					error: error.error?.message || `HTTP ${response.status}`,
+					error: 'No name generated',
 				};
 			}
 
-			const data = await response.json();
-			const name = data.choices[0]?.message?.content?.trim();
-			
-			if (!name) {
+			console.log('[Thoughtlands:OpenAI] Generated region name:', cleanName);
+			return {
+				success: true,
+				name: cleanName,
+			};
+		} catch (error) {
+			console.error('[Thoughtlands:OpenAI] Exception during name generation:', error);
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+	}
+
+	async generateRegionNameFromConcept(conceptText: string): Promise<RegionNameResponse> {
+		console.log('[Thoughtlands:OpenAI] generateRegionNameFromConcept called with concept:', conceptText);
+
+		const availability = await this.llm.checkAvailable();
+		if (!availability.available) {
+			return {
+				success: false,
+				error: availability.error,
+			};
+		}
+
+		try {
+			const prompt = `Given this concept description: ${conceptText}
+
+Generate a concise, descriptive name (2-4 words) for a region that represents notes about this concept. Return only the name, nothing else.`;
+
+			const cleanName = cleanGeneratedName(await this.llm.complete([
+				{
+					role: 'system',
+					content: 'You are a helpful assistant that generates concise, descriptive names for collections of related notes. Return only the name, nothing else.',
+				},
+				{ role: 'user', content: prompt },
+			], { temperature: 0.7, maxTokens: 50 }));
+
+			if (!cleanName) {
 				return {
 					success: false,
 					error: 'No name generated',
 				};
 			}
 
-			// Clean up the name (remove quotes, extra whitespace, etc.)
-			const cleanName = name.replace(/^["']|["']$/g, '').trim();
-
 			console.log('[Thoughtlands:OpenAI] Generated region name:', cleanName);
 			return {
 				success: true,
@@ -619,6 +548,7 @@ Generate a concise, descriptive name (2-4 words) for a region that represents no
 
 	updateSettings(newSettings: ThoughtlandsSettings): void {
 		this.settings = newSettings;
+		this.llm = this.llmOverride ?? createLLMClient(newSettings, 'openai');
 	}
 }
 
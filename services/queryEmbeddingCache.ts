@@ -0,0 +1,182 @@
+import { App } from 'obsidian';
+
+// Saved as JSON in the plugin folder; vectors are base64-encoded little-endian Float32 values
+interface StoredQueryEmbeddings {
+	version: number;
+	entries: Array<[string, string]>; // [key, vector], least recently used first
+}
+
+const CACHE_FILE = 'query-embeddings.json';
+const FORMAT_VERSION = 1;
+const MAX_ENTRIES = 1000;
+const SAVE_DELAY_MS = 2000; // Batch writes when several queries are embedded in a row
+
+/**
+ * Persistent LRU cache of query embeddings (concept texts, search terms, canvas card text).
+ * Keys are digests of the full text plus the model and preprocessing pipeline (see
+ * EmbeddingService.generateEmbedding), so re-running a region never asks the server twice.
+ */
+export class QueryEmbeddingCache {
+	private app: App;
+	private path: string;
+	private maxEntries: number;
+	private entries: Map<string, number[]> = new Map(); // Map order doubles as recency order
+	private inFlight: Map<string, Promise<number[]>> = new Map();
+	private loadPromise: Promise<void> | null = null;
+	private saveTimer: number | null = null;
+
+	constructor(app: App, plugin: any, maxEntries: number = MAX_ENTRIES) {
+		this.app = app;
+		const pluginDir = plugin.manifest?.dir || `${app.vault.configDir}/plugins/thoughtlands`;
+		this.path = `${pluginDir}/${CACHE_FILE}`;
+		this.maxEntries = maxEntries;
+	}
+
+	async get(key: string): Promise<number[] | null> {
+		await this.load();
+		const embedding = this.entries.get(key);
+		if (!embedding) {
+			return null;
+		}
+		// Move to the most recently used end
+		this.entries.delete(key);
+		this.entries.set(key, embedding);
+		this.scheduleSave();
+		return embedding;
+	}
+
+	async set(key: string, embedding: number[]): Promise<void> {
+		await this.load();
+		this.entries.delete(key);
+		this.entries.set(key, embedding);
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) break;
+			this.entries.delete(oldest);
+		}
+		this.scheduleSave();
+	}
+
+	// Cached vector, or the result of `create`; concurrent callers with the same key share one request
+	async getOrCreate(key: string, create: () => Promise<number[]>): Promise<number[]> {
+		const cached = await this.get(key);
+		if (cached) {
+			return cached;
+		}
+		const pending = this.inFlight.get(key);
+		if (pending) {
+			return pending;
+		}
+
+		const request = create().then(async embedding => {
+			await this.set(key, embedding);
+			return embedding;
+		});
+		this.inFlight.set(key, request);
+		try {
+			return await request;
+		} finally {
+			this.inFlight.delete(key);
+		}
+	}
+
+	getSize(): number {
+		return this.entries.size;
+	}
+
+	async clear(): Promise<void> {
+		this.cancelSave();
+		await this.load();
+		this.entries.clear();
+		try {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				await this.app.vault.adapter.remove(this.path);
+			}
+		} catch (error) {
+			console.warn('[Thoughtlands:QueryCache] Could not remove query embedding cache:', error);
+		}
+	}
+
+	// Write pending changes now (plugin unload)
+	async flush(): Promise<void> {
+		if (this.saveTimer === null) {
+			return;
+		}
+		this.cancelSave();
+		await this.save();
+	}
+
+	private load(): Promise<void> {
+		// Share a single load between concurrent callers
+		if (!this.loadPromise) {
+			this.loadPromise = this.readFile();
+		}
+		return this.loadPromise;
+	}
+
+	private async readFile(): Promise<void> {
+		try {
+			if (!(await this.app.vault.adapter.exists(this.path))) {
+				return;
+			}
+			const stored = JSON.parse(await this.app.vault.adapter.read(this.path)) as StoredQueryEmbeddings;
+			if (stored.version !== FORMAT_VERSION || !Array.isArray(stored.entries)) {
+				console.warn(`[Thoughtlands:QueryCache] Ignoring query embedding cache with unknown format version ${stored.version}`);
+				return;
+			}
+			for (const [key, encoded] of stored.entries.slice(-this.maxEntries)) {
+				this.entries.set(key, decodeVector(encoded));
+			}
+			console.log(`[Thoughtlands:QueryCache] Loaded ${this.entries.size} cached query embeddings`);
+		} catch (error) {
+			console.warn('[Thoughtlands:QueryCache] Could not read query embedding cache:', error);
+		}
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer !== null) {
+			return;
+		}
+		this.saveTimer = window.setTimeout(() => {
+			this.saveTimer = null;
+			this.save();
+		}, SAVE_DELAY_MS);
+	}
+
+	private cancelSave(): void {
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+	}
+
+	private async save(): Promise<void> {
+		const stored: StoredQueryEmbeddings = {
+			version: FORMAT_VERSION,
+			entries: Array.from(this.entries.entries()).map(([key, embedding]) => [key, encodeVector(embedding)]),
+		};
+		try {
+			await this.app.vault.adapter.write(this.path, JSON.stringify(stored));
+		} catch (error) {
+			console.warn('[Thoughtlands:QueryCache] Could not save query embedding cache:', error);
+		}
+	}
+}
+
+function encodeVector(vector: number[]): string {
+	const bytes = new Uint8Array(Float32Array.from(vector).buffer);
+	let binary = '';
+	for (let i = 0; i < bytes.length; i++) {
+		binary += String.fromCharCode(bytes[i]);
+	}
+	return btoa(binary);
+}
+
+function decodeVector(encoded: string): number[] {
+	const binary = atob(encoded);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return Array.from(new Float32Array(bytes.buffer));
+}
@@ -0,0 +1,192 @@
+import { App } from 'obsidian';
+import { Region } from '../models/region';
+import { EmbeddingService } from './embeddingService';
+import { RegionService } from './regionService';
+import { NoteService } from './noteService';
+
+const BRIDGE_CANDIDATES_PER_REGION = 50; // Nearest notes to each centroid checked as bridge notes
+const MAX_BRIDGE_NOTES = 50;
+
+// A region with the centre of its embedded notes
+export interface RegionProfile {
+	region: Region;
+	embeddedCount: number; // Notes with an embedding
+	centroid: Float32Array | null; // Normalized; null when none of the notes is embedded
+	cohesion: number | null; // Mean similarity of the embedded notes to the centroid
+}
+
+export interface RegionPairStats {
+	a: string; // Region ids
+	b: string;
+	sharedNotes: number;
+	jaccard: number; // Shared notes / notes in either region
+	centroidSimilarity: number | null; // Cosine similarity of the centroids; null when either has none
+}
+
+// A note close to the centres of several regions
+export interface BridgeNote {
+	path: string;
+	regions: Array<{ id: string; similarity: number; member: boolean }>; // Most similar first
+}
+
+export interface RegionAnalysis {
+	profiles: RegionProfile[];
+	pairs: RegionPairStats[]; // Every pair of profiled regions once
+	bridges: BridgeNote[]; // Near the most regions first
+	computedAt: string;
+}
+
+/**
+ * How regions relate: for every pair, the Jaccard overlap of their notes and the cosine similarity
+ * of their centroids (mean note embeddings), plus bridge notes. A note counts as near a region when
+ * it is at least as similar to the region's centroid as the region's own notes are on average, so the
+ * cut-off follows each region's spread and the embedding model instead of a fixed threshold.
+ * Bridge notes are near two or more regions; candidates are the nearest notes to each centroid.
+ */
+export class RegionAnalysisService {
+	private app: App;
+	private embeddingService: EmbeddingService;
+	private regionService: RegionService;
+	private noteService: NoteService;
+	private cache: { key: string; analysis: RegionAnalysis } | null = null;
+
+	constructor(app: App, embeddingService: EmbeddingService, regionService: RegionService, noteService: NoteService) {
+		this.app = app;
+		this.embeddingService = embeddingService;
+		this.regionService = regionService;
+		this.noteService = noteService;
+	}
+
+	// Results are reused until a region's notes or the stored embeddings change, unless `refresh` is set
+	async analyze(regions: Region[], refresh: boolean = false): Promise<RegionAnalysis> {
+		const storageService = this.embeddingService.getStorageService();
+		await storageService.loadEmbeddings();
+
+		const embeddingsKey = `${storageService.getServingModel()}:${storageService.getServingDimension()}:${storageService.getServingPreprocessing()}:${storageService.getVersion()}`;
+		const key = [embeddingsKey, ...regions.map(region => `${region.id}:${region.updatedAt}:${region.notes.length}`)].join('|');
+		if (!refresh && this.cache?.key === key) {
+			return this.cache.analysis;
+		}
+
+		const index = storageService.getSearchIndex();
+		const dimension = index?.getDimension();
+
+		// Note vectors are read once and shared between regions
+		const vectors: Map<string, Float32Array | null> = new Map();
+		const vectorOf = (path: string): Float32Array | null => {
+			if (!vectors.has(path)) {
+				const entry = storageService.getStoredEntry(path);
+				vectors.set(path, entry && entry.embedding.length === dimension ? normalize(entry.embedding) : null);
+			}
+			return vectors.get(path)!;
+		};
+
+		const profiles: RegionProfile[] = regions.map(region => {
+			const members = region.notes.map(vectorOf).filter((vector): vector is Float32Array => vector !== null);
+			if (members.length === 0) {
+				return { region, embeddedCount: 0, centroid: null, cohesion: null };
+			}
+			const centroid = centroidOf(members);
+			const cohesion = members.reduce((sum, vector) => sum + dot(vector, centroid), 0) / members.length;
+			return { region, embeddedCount: members.length, centroid, cohesion };
+		});
+
+		const pairs: RegionPairStats[] = [];
+		const noteSets = profiles.map(profile => new Set(profile.region.notes));
+		for (let i = 0; i < profiles.length; i++) {
+			for (let j = i + 1; j < profiles.length; j++) {
+				let sharedNotes = 0;
+				noteSets[i].forEach(path => {
+					if (noteSets[j].has(path)) sharedNotes++;
+				});
+				const union = noteSets[i].size + noteSets[j].size - sharedNotes;
+				const a = profiles[i];
+				const b = profiles[j];
+				pairs.push({
+					a: a.region.id,
+					b: b.region.id,
+					sharedNotes,
+					jaccard: union > 0 ? sharedNotes / union : 0,
+					centroidSimilarity: a.centroid && b.centroid ? dot(a.centroid, b.centroid) : null,
+				});
+			}
+		}
+
+		// Bridge notes: candidates near any centroid, scored against every centroid
+		const bridges: BridgeNote[] = [];
+		const located = profiles.filter(profile => profile.centroid !== null);
+		if (index && located.length >= 2) {
+			const allowed = new Set(this.regionService.filterNotesByIgnores(this.noteService.getAllNotes(), this.app.metadataCache, this.noteService).map(file => file.path));
+			const candidates: Set<string> = new Set();
+			for (const profile of located) {
+				index.search(Array.from(profile.centroid!), BRIDGE_CANDIDATES_PER_REGION, path => allowed.has(path))
+					.forEach(hit => candidates.add(hit.path));
+			}
+
+			for (const path of candidates) {
+				const vector = vectorOf(path);
+				if (!vector) continue;
+				const near = located
+					.map(profile => ({ id: profile.region.id, similarity: dot(vector, profile.centroid!), cohesion: profile.cohesion!, member: profile.region.notes.includes(path) }))
+					.filter(item => item.similarity >= item.cohesion)
+					.map(({ id, similarity, member }) => ({ id, similarity, member }))
+					.sort((x, y) => y.similarity - x.similarity);
+				if (near.length >= 2) {
+					bridges.push({ path, regions: near });
+				}
+			}
+			bridges.sort((x, y) => y.regions.length - x.regions.length || meanSimilarity(y) - meanSimilarity(x));
+			bridges.splice(MAX_BRIDGE_NOTES);
+		}
+
+		console.log(`[Thoughtlands:RegionAnalysis] Analyzed ${profiles.length} regions (${located.length} with embeddings): ${pairs.length} pairs, ${bridges.length} bridge notes`);
+
+		const analysis: RegionAnalysis = { profiles, pairs, bridges, computedAt: new Date().toISOString() };
+		this.cache = { key, analysis };
+		return analysis;
+	}
+
+	// The other regions, closest centroid first (regions without one last, by overlap)
+	getNearbyRegions(analysis: RegionAnalysis, id: string): Array<{ region: Region; stats: RegionPairStats }> {
+		const regionsById = new Map(analysis.profiles.map(profile => [profile.region.id, profile.region]));
+		return analysis.pairs
+			.filter(pair => pair.a === id || pair.b === id)
+			.map(pair => ({ region: regionsById.get(pair.a === id ? pair.b : pair.a)!, stats: pair }))
+			.sort((x, y) => (y.stats.centroidSimilarity ?? -2) - (x.stats.centroidSimilarity ?? -2) || y.stats.jaccard - x.stats.jaccard);
+	}
+}
+
+function meanSimilarity(bridge: BridgeNote): number {
+	return bridge.regions.reduce((sum, item) => sum + item.similarity, 0) / bridge.regions.length;
+}
+
+function centroidOf(vectors: Float32Array[]): Float32Array {
+	const sum = new Float32Array(vectors[0].length);
+	for (const vector of vectors) {
+		for (let i = 0; i < vector.length; i++) {
+			sum[i] += vector[i];
+		}
+	}
+	return normalize(sum);
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+	const result = new Float32Array(vector.length);
+	let norm = 0;
+	for (let i = 0; i < result.length; i++) {
+		norm += vector[i] * vector[i];
+	}
+	norm = Math.sqrt(norm) || 1;
+	for (let i = 0; i < result.length; i++) {
+		result[i] = vector[i] / norm;
+	}
+	return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) {
+		sum += a[i] * b[i];
+	}
+	return sum;
+}
@@ -0,0 +1,415 @@
+import { App, TFile } from 'obsidian';
+import { EmbeddingService } from './embeddingService';
+import { SearchIndexService } from './searchIndexService';
+import { NoteService } from './noteService';
+import { ThoughtlandsSettings, DiscoveryMethod } from '../settings/thoughtlandsSettings';
+
+const MAX_CLUSTERS = 30;
+const MAX_SPLIT_CLUSTERS = 8; // Sub-regions proposed when splitting a region
+const MAX_K_CANDIDATES = 8; // Numbers of clusters tried when choosing k, spread between 2 and the maximum
+const KMEANS_MAX_ITERATIONS = 25;
+const KMEANS_SEED = 1; // Fixed, so discovering twice on the same vault proposes the same clusters
+const DENSITY_NEIGHBOURS = 50; // Nearest notes looked up per note in density clustering
+const KEYWORDS_PER_CLUSTER = 8;
+const TAGS_PER_CLUSTER = 5;
+const MIN_TAG_SHARE = 0.3; // A tag describes a cluster when at least this share of its notes carry it
+const YIELD_EVERY = 200; // Neighbour lookups between yields to the UI
+
+export interface DiscoveredCluster {
+	notes: string[]; // Closest to the cluster centre first
+	cohesion: number; // Mean similarity of the notes to the cluster centre
+	keywords: string[]; // Words that set the notes apart from the rest of the vault
+	tags: string[]; // Tags carried by many of the notes
+}
+
+export interface DiscoveryResult {
+	method: DiscoveryMethod;
+	clusters: DiscoveredCluster[]; // Largest first
+	notesClustered: number; // Notes with an embedding
+	notesWithoutEmbedding: number;
+	unassignedCount: number; // Noise, or notes in clusters below the minimum size
+}
+
+interface NoteVector {
+	path: string;
+	embedding: number[];
+	vector: Float32Array; // Normalized, so a dot product is the cosine similarity
+}
+
+/**
+ * Groups the vault's embedded notes into proposed regions without any query. K-means (spherical,
+ * on normalized note vectors) is run for several numbers of clusters and the one with the best
+ * simplified silhouette is kept; density-based clustering (DBSCAN over the nearest-neighbour index)
+ * only groups notes with enough close neighbours and leaves the rest unassigned. Each cluster is
+ * described by its distinctive keywords and common tags so it can be named.
+ */
+export class RegionDiscoveryService {
+	private app: App;
+	private embeddingService: EmbeddingService;
+	private searchIndex: SearchIndexService;
+	private noteService: NoteService;
+	private settings: ThoughtlandsSettings;
+
+	constructor(app: App, embeddingService: EmbeddingService, searchIndex: SearchIndexService, noteService: NoteService, settings: ThoughtlandsSettings) {
+		this.app = app;
+		this.embeddingService = embeddingService;
+		this.searchIndex = searchIndex;
+		this.noteService = noteService;
+		this.settings = settings;
+	}
+
+	updateSettings(newSettings: ThoughtlandsSettings): void {
+		this.settings = newSettings;
+	}
+
+	// `files` are the notes allowed in regions (already filtered by the plugin settings)
+	async discover(files: TFile[], onProgress?: (step: string) => void): Promise<DiscoveryResult> {
+		const notes = await this.loadNoteVectors(files.map(file => file.path));
+
+		const method = this.settings.discoveryMethod;
+		const minSize = Math.max(2, this.settings.discoveryMinClusterSize);
+		console.log(`[Thoughtlands:Discovery] Clustering ${notes.length} embedded notes (${files.length - notes.length} without embeddings) with ${method}, minimum cluster size ${minSize}`);
+
+		const groups = method === 'density'
+			? await this.clusterByDensity(notes, minSize, onProgress)
+			: await this.clusterKMeans(notes.map(note => note.vector), minSize, MAX_CLUSTERS, onProgress);
+		const kept = groups.filter(group => group.length >= minSize);
+
+		onProgress?.('Describing clusters...');
+		const clusters: DiscoveredCluster[] = [];
+		for (const group of kept) {
+			clusters.push(await this.describeCluster(group.map(i => notes[i])));
+		}
+		clusters.sort((a, b) => b.notes.length - a.notes.length);
+
+		const assigned = clusters.reduce((sum, cluster) => sum + cluster.notes.length, 0);
+		console.log(`[Thoughtlands:Discovery] Found ${clusters.length} clusters covering ${assigned} notes; ${notes.length - assigned} unassigned`);
+
+		return {
+			method,
+			clusters,
+			notesClustered: notes.length,
+			notesWithoutEmbedding: files.length - notes.length,
+			unassignedCount: notes.length - assigned,
+		};
+	}
+
+	/**
+	 * Split a region's notes into sub-regions with k-means. Keywords are chosen against the region
+	 * rather than the vault, so they tell the sub-regions apart instead of repeating the region's topic.
+	 */
+	async split(paths: string[], onProgress?: (step: string) => void): Promise<DiscoveryResult> {
+		const notes = await this.loadNoteVectors(paths);
+		const minSize = Math.max(2, this.settings.discoveryMinClusterSize);
+		console.log(`[Thoughtlands:Discovery] Splitting ${notes.length} embedded notes of a region (${paths.length - notes.length} without embeddings), minimum cluster size ${minSize}`);
+
+		const groups = await this.clusterKMeans(notes.map(note => note.vector), minSize, MAX_SPLIT_CLUSTERS, onProgress);
+		const kept = groups.filter(group => group.length >= minSize);
+
+		onProgress?.('Describing sub-regions...');
+		const clusters: DiscoveredCluster[] = [];
+		for (const group of kept) {
+			clusters.push(await this.describeCluster(group.map(i => notes[i]), paths));
+		}
+		clusters.sort((a, b) => b.notes.length - a.notes.length);
+
+		const assigned = clusters.reduce((sum, cluster) => sum + cluster.notes.length, 0);
+		console.log(`[Thoughtlands:Discovery] Split into ${clusters.length} sub-regions covering ${assigned} notes`);
+
+		return {
+			method: 'kmeans',
+			clusters,
+			notesClustered: notes.length,
+			notesWithoutEmbedding: paths.length - notes.length,
+			unassignedCount: notes.length - assigned,
+		};
+	}
+
+	private async loadNoteVectors(paths: string[]): Promise<NoteVector[]> {
+		const storageService = this.embeddingService.getStorageService();
+		await storageService.loadEmbeddings();
+		const dimension = storageService.getSearchIndex()?.getDimension();
+
+		const notes: NoteVector[] = [];
+		for (const path of paths) {
+			const entry = storageService.getStoredEntry(path);
+			if (entry && entry.embedding.length === dimension) {
+				notes.push({ path, embedding: entry.embedding, vector: normalize(entry.embedding) });
+			}
+		}
+		return notes;
+	}
+
+	// Spherical k-means for each candidate k; the k with the best simplified silhouette wins
+	private async clusterKMeans(vectors: Float32Array[], minSize: number, maxClusters: number, onProgress?: (step: string) => void): Promise<number[][]> {
+		const maxK = Math.min(maxClusters, Math.floor(vectors.length / minSize));
+		if (maxK < 2) {
+			return [];
+		}
+
+		let best: { k: number; score: number; labels: number[] } | null = null;
+		for (const k of candidateClusterCounts(maxK)) {
+			onProgress?.(`Trying ${k} clusters...`);
+			const { labels, centroids } = await runKMeans(vectors, k);
+			const score = simplifiedSilhouette(vectors, labels, centroids);
+			console.log(`[Thoughtlands:Discovery] k=${k}: silhouette ${score.toFixed(3)}`);
+			if (!best || score > best.score) {
+				best = { k, score, labels };
+			}
+		}
+
+		const groups: number[][] = Array.from({ length: best!.k }, () => []);
+		best!.labels.forEach((label, i) => groups[label].push(i));
+		console.log(`[Thoughtlands:Discovery] Chose k=${best!.k}`);
+		return groups;
+	}
+
+	/**
+	 * DBSCAN: a note with at least minSize - 1 neighbours above the similarity setting starts or
+	 * extends a cluster, and its neighbours join it. Neighbours come from the approximate index, so
+	 * large vaults don't need every pair compared. Notes no cluster reaches are noise.
+	 */
+	private async clusterByDensity(notes: NoteVector[], minSize: number, onProgress?: (step: string) => void): Promise<number[][]> {
+		const index = this.embeddingService.getStorageService().getSearchIndex();
+		if (!index || notes.length === 0) {
+			return [];
+		}
+		const positions: Map<string, number> = new Map(notes.map((note, i) => [note.path, i]));
+		const threshold = this.settings.discoveryDensitySimilarity;
+
+		let lookups = 0;
+		const neighboursOf = async (i: number): Promise<number[]> => {
+			if (++lookups % YIELD_EVERY === 0) {
+				onProgress?.(`Finding neighbours (${lookups} of ${notes.length} notes)...`);
+				await new Promise(resolve => setTimeout(resolve, 0));
+			}
+			return index.search(notes[i].embedding, DENSITY_NEIGHBOURS, path => positions.has(path))
+				.filter(hit => hit.similarity >= threshold && hit.path !== notes[i].path)
+				.map(hit => positions.get(hit.path)!);
+		};
+
+		const UNVISITED = -2;
+		const NOISE = -1;
+		const labels: number[] = new Array(notes.length).fill(UNVISITED);
+		let clusterCount = 0;
+		for (let i = 0; i < notes.length; i++) {
+			if (labels[i] !== UNVISITED) continue;
+			const neighbours = await neighboursOf(i);
+			if (neighbours.length + 1 < minSize) {
+				labels[i] = NOISE;
+				continue;
+			}
+
+			const cluster = clusterCount++;
+			labels[i] = cluster;
+			const queue = [...neighbours];
+			while (queue.length > 0) {
+				const j = queue.pop()!;
+				if (labels[j] === NOISE) {
+					labels[j] = cluster; // Border note: joins, but doesn't extend the cluster
+				}
+				if (labels[j] !== UNVISITED) continue;
+				labels[j] = cluster;
+				const next = await neighboursOf(j);
+				if (next.length + 1 >= minSize) {
+					queue.push(...next);
+				}
+			}
+		}
+
+		const groups: number[][] = Array.from({ length: clusterCount }, () => []);
+		labels.forEach((label, i) => {
+			if (label >= 0) groups[label].push(i);
+		});
+		return groups;
+	}
+
+	private async describeCluster(members: NoteVector[], background?: string[]): Promise<DiscoveredCluster> {
+		const centre = centroidOf(members.map(member => member.vector));
+		const ranked = members
+			.map(member => ({ path: member.path, similarity: dot(member.vector, centre) }))
+			.sort((a, b) => b.similarity - a.similarity);
+		const notes = ranked.map(item => item.path);
+
+		let keywords: string[] = [];
+		try {
+			keywords = await this.searchIndex.getDistinctiveWords(notes, KEYWORDS_PER_CLUSTER, background);
+		} catch (error) {
+			console.warn('[Thoughtlands:Discovery] Could not read keywords from the search index:', error);
+		}
+
+		return {
+			notes,
+			cohesion: ranked.reduce((sum, item) => sum + item.similarity, 0) / ranked.length,
+			keywords,
+			tags: this.getCommonTags(notes),
+		};
+	}
+
+	private getCommonTags(paths: string[]): string[] {
+		const counts: Map<string, number> = new Map();
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+			for (const tag of new Set(this.noteService.getNoteTags(file))) {
+				counts.set(tag, (counts.get(tag) || 0) + 1);
+			}
+		}
+		return Array.from(counts.entries())
+			.filter(([tag, count]) => count >= 2 && count / paths.length >= MIN_TAG_SHARE && !this.settings.ignoredTags.some(ignored => ignored.toLowerCase() === tag.toLowerCase()))
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, TAGS_PER_CLUSTER)
+			.map(([tag]) => tag);
+	}
+}
+
+// Name for a cluster from its keywords, for when no AI name is wanted or available
+export function nameFromKeywords(keywords: string[], fallback: string): string {
+	const words = keywords.slice(0, 3).map(word => word.charAt(0).toUpperCase() + word.slice(1));
+	return words.length > 0 ? words.join(', ') : fallback;
+}
+
+async function runKMeans(vectors: Float32Array[], k: number): Promise<{ labels: number[]; centroids: Float32Array[] }> {
+	const random = seededRandom(KMEANS_SEED);
+
+	// k-means++: each next centre is picked with probability proportional to its distance from the chosen ones
+	const centroids: Float32Array[] = [vectors[Math.floor(random() * vectors.length)]];
+	const distances = vectors.map(vector => 1 - dot(vector, centroids[0]));
+	while (centroids.length < k) {
+		const total = distances.reduce((sum, distance) => sum + Math.max(0, distance), 0);
+		let target = random() * total;
+		let chosen = 0;
+		for (let i = 0; i < vectors.length; i++) {
+			target -= Math.max(0, distances[i]);
+			if (target <= 0) {
+				chosen = i;
+				break;
+			}
+		}
+		centroids.push(vectors[chosen]);
+		vectors.forEach((vector, i) => {
+			distances[i] = Math.min(distances[i], 1 - dot(vector, vectors[chosen]));
+		});
+	}
+
+	const labels: number[] = new Array(vectors.length).fill(-1);
+	for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+		let changed = 0;
+		vectors.forEach((vector, i) => {
+			const label = nearest(vector, centroids).index;
+			if (label !== labels[i]) {
+				labels[i] = label;
+				changed++;
+			}
+		});
+		if (changed === 0) {
+			break;
+		}
+
+		for (let c = 0; c < k; c++) {
+			const members = vectors.filter((_, i) => labels[i] === c);
+			if (members.length > 0) {
+				centroids[c] = centroidOf(members);
+			} else {
+				// Empty cluster: restart it at the note furthest from its own centre
+				let furthest = 0;
+				let lowest = Infinity;
+				vectors.forEach((vector, i) => {
+					const similarity = dot(vector, centroids[labels[i]]);
+					if (similarity < lowest) {
+						lowest = similarity;
+						furthest = i;
+					}
+				});
+				centroids[c] = vectors[furthest];
+			}
+		}
+		await new Promise(resolve => setTimeout(resolve, 0));
+	}
+
+	return { labels, centroids };
+}
+
+// Silhouette with cluster centres standing in for the members, so it costs one pass over the notes
+function simplifiedSilhouette(vectors: Float32Array[], labels: number[], centroids: Float32Array[]): number {
+	let total = 0;
+	vectors.forEach((vector, i) => {
+		const own = 1 - dot(vector, centroids[labels[i]]);
+		let other = Infinity;
+		centroids.forEach((centroid, c) => {
+			if (c !== labels[i]) other = Math.min(other, 1 - dot(vector, centroid));
+		});
+		const scale = Math.max(own, other);
+		total += scale > 0 ? (other - own) / scale : 0;
+	});
+	return total / vectors.length;
+}
+
+// 2..maxK, or MAX_K_CANDIDATES values spread geometrically between them
+function candidateClusterCounts(maxK: number): number[] {
+	if (maxK - 1 <= MAX_K_CANDIDATES) {
+		return Array.from({ length: maxK - 1 }, (_, i) => i + 2);
+	}
+	const counts: Set<number> = new Set();
+	for (let i = 0; i < MAX_K_CANDIDATES; i++) {
+		counts.add(Math.round(2 * Math.pow(maxK / 2, i / (MAX_K_CANDIDATES - 1))));
+	}
+	return Array.from(counts);
+}
+
+function nearest(vector: Float32Array, centroids: Float32Array[]): { index: number; similarity: number } {
+	let index = 0;
+	let similarity = -Infinity;
+	centroids.forEach((centroid, c) => {
+		const value = dot(vector, centroid);
+		if (value > similarity) {
+			similarity = value;
+			index = c;
+		}
+	});
+	return { index, similarity };
+}
+
+// Normalized mean of normalized vectors
+function centroidOf(vectors: Float32Array[]): Float32Array {
+	const sum = new Float32Array(vectors[0].length);
+	for (const vector of vectors) {
+		for (let i = 0; i < sum.length; i++) {
+			sum[i] += vector[i];
+		}
+	}
+	return normalize(sum);
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+	const result = Float32Array.from(vector);
+	let norm = 0;
+	for (let i = 0; i < result.length; i++) {
+		norm += result[i] * result[i];
+	}
+	norm = Math.sqrt(norm) || 1;
+	for (let i = 0; i < result.length; i++) {
+		result[i] /= norm;
+	}
+	return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) {
+		sum += a[i] * b[i];
+	}
+	return sum;
+}
+
+// Small deterministic generator (mulberry32)
+function seededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6D2B79F5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
@@ -1,7 +1,10 @@
 import { TFile } from 'obsidian';
-import { Region, RegionsData } from '../models/region';
+import { Region, RegionsData, LiveRegionChange, RegionSnapshot, isExemplarRegion, isCombinedRegion, combineRegionNotes } from '../models/region';
 import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
 
+const MAX_LIVE_LOG_ENTRIES = 200; // Oldest resolved changes are dropped beyond this
+const MAX_HISTORY_SNAPSHOTS = 50; // Oldest snapshots are dropped beyond this
+
 export class RegionService {
 	private settings: ThoughtlandsSettings;
 	private regions: Region[] = [];
@@ -62,6 +65,81 @@ export class RegionService {
 		return true;
 	}
 
+	// Sub-regions of a region. A region whose parent has been deleted is shown at the top level.
+	getChildRegions(id: string): Region[] {
+		return this.regions.filter(region => region.parentId === id);
+	}
+
+	getParentRegion(region: Region): Region | null {
+		return region.parentId ? this.regions.find(r => r.id === region.parentId) || null : null;
+	}
+
+	// Nest a region under another (or at the top level with null). Refused when it would make a cycle.
+	setParentRegion(id: string, parentId: string | null): boolean {
+		const region = this.regions.find(r => r.id === id);
+		if (!region) return false;
+
+		if (parentId !== null) {
+			for (let ancestor = this.regions.find(r => r.id === parentId); ancestor; ancestor = this.regions.find(r => r.id === ancestor!.parentId)) {
+				if (ancestor.id === id) return false;
+			}
+			if (!this.regions.some(r => r.id === parentId)) return false;
+		}
+		region.parentId = parentId ?? undefined;
+		return true;
+	}
+
+	/**
+	 * Merge regions into a new one. Notes are deduplicated, in the order of the regions, and each
+	 * note records which of the regions it came from. The merged regions are kept nested under the
+	 * new region, or deleted (with their own sub-regions moved under the new region).
+	 */
+	mergeRegions(ids: string[], name: string, color: string, keepAsChildren: boolean): Region | null {
+		const sources = ids.map(id => this.regions.find(r => r.id === id));
+		if (sources.length < 2 || sources.some(source => !source)) return null;
+
+		const noteOrigins: Record<string, string[]> = {};
+		for (const source of sources) {
+			for (const path of source!.notes) {
+				const origins = noteOrigins[path] || (noteOrigins[path] = []);
+				if (!origins.includes(source!.id)) origins.push(source!.id);
+			}
+		}
+
+		const merged = this.createRegion(
+			name,
+			color,
+			'merged',
+			{
+				type: 'merged',
+				mergedRegions: sources.map(source => ({
+					id: source!.id,
+					name: source!.name,
+					color: source!.color,
+					mode: source!.mode,
+					source: source!.source,
+					noteCount: source!.notes.length,
+					kept: keepAsChildren,
+				})),
+				noteOrigins,
+			},
+			Object.keys(noteOrigins)
+		);
+		// The merged region takes the place of the first region in the tree
+		merged.parentId = sources[0]!.parentId && !ids.includes(sources[0]!.parentId) ? sources[0]!.parentId : undefined;
+
+		for (const source of sources) {
+			if (keepAsChildren) {
+				source!.parentId = merged.id;
+			} else {
+				this.getChildRegions(source!.id).forEach(child => child.parentId = merged.id);
+				this.deleteRegion(source!.id);
+			}
+		}
+		console.log(`[Thoughtlands:RegionService] Merged ${sources.length} regions into "${name}" (${merged.notes.length} notes, ${keepAsChildren ? 'kept as sub-regions' : 'originals deleted'})`);
+		return merged;
+	}
+
 	getRegion(id: string): Region | null {
 		return this.regions.find(r => r.id === id) || null;
 	}
@@ -84,6 +162,420 @@ export class RegionService {
 		return true;
 	}
 
+	// Point region note lists at a note's new path after a vault rename.
+	// updatedAt is left alone so bookkeeping doesn't reorder the sidebar.
+	renameNotePath(oldPath: string, newPath: string): Region[] {
+		const changed: Region[] = [];
+		for (const region of this.regions) {
+			const index = region.notes.indexOf(oldPath);
+			if (index === -1) continue;
+
+			if (region.notes.includes(newPath)) {
+				region.notes.splice(index, 1);
+			} else {
+				region.notes[index] = newPath;
+			}
+
+			const passages = region.source.processingInfo?.matchedPassages;
+			if (passages && passages[oldPath]) {
+				passages[newPath] = passages[oldPath];
+				delete passages[oldPath];
+			}
+			const origins = region.source.noteOrigins;
+			if (origins && origins[oldPath]) {
+				origins[newPath] = Array.from(new Set([...(origins[newPath] || []), ...origins[oldPath]]));
+				delete origins[oldPath];
+			}
+			changed.push(region);
+		}
+
+		// Example notes needn't be members either (negative ones never are)
+		for (const region of this.regions) {
+			let updated = false;
+			for (const examples of [region.source.seedNotes, region.source.negativeNotes]) {
+				const index = examples ? examples.indexOf(oldPath) : -1;
+				if (index === -1) continue;
+				examples![index] = newPath;
+				updated = true;
+			}
+			if (updated && !changed.includes(region)) {
+				changed.push(region);
+			}
+		}
+
+		// Pending live changes may refer to notes that aren't (yet) members
+		for (const region of this.regions) {
+			let updated = false;
+			for (const change of region.live?.changes || []) {
+				if (change.path === oldPath) {
+					change.path = newPath;
+					updated = true;
+				}
+			}
+			if (updated && !changed.includes(region)) {
+				changed.push(region);
+			}
+		}
+
+		for (const region of this.regions) {
+			let updated = false;
+			for (const snapshot of region.history || []) {
+				const index = snapshot.notes.indexOf(oldPath);
+				if (index === -1) continue;
+				snapshot.notes[index] = newPath;
+				if (snapshot.passages && snapshot.passages[oldPath]) {
+					snapshot.passages[newPath] = snapshot.passages[oldPath];
+					delete snapshot.passages[oldPath];
+				}
+				updated = true;
+			}
+			if (updated && !changed.includes(region)) {
+				changed.push(region);
+			}
+		}
+		return changed;
+	}
+
+	// Drop a deleted note from every region
+	removeNotePath(path: string): Region[] {
+		const changed: Region[] = [];
+		for (const region of this.regions) {
+			const index = region.notes.indexOf(path);
+			if (index === -1) continue;
+
+			region.notes.splice(index, 1);
+			const passages = region.source.processingInfo?.matchedPassages;
+			if (passages) {
+				delete passages[path];
+			}
+			if (region.source.noteOrigins) {
+				delete region.source.noteOrigins[path];
+			}
+			changed.push(region);
+		}
+
+		// A deleted note can't be added or removed any more, nor restored by a revert
+		for (const region of this.regions) {
+			let updated = this.dropPendingLiveChange(region, path);
+			if (region.source.seedNotes && region.source.seedNotes.includes(path)) {
+				region.source.seedNotes = region.source.seedNotes.filter(example => example !== path);
+				updated = true;
+			}
+			if (region.source.negativeNotes && region.source.negativeNotes.includes(path)) {
+				region.source.negativeNotes = region.source.negativeNotes.filter(example => example !== path);
+				updated = true;
+			}
+			for (const snapshot of region.history || []) {
+				const index = snapshot.notes.indexOf(path);
+				if (index === -1) continue;
+				snapshot.notes.splice(index, 1);
+				if (snapshot.passages) {
+					delete snapshot.passages[path];
+				}
+				updated = true;
+			}
+			if (updated && !changed.includes(region)) {
+				changed.push(region);
+			}
+		}
+		return changed;
+	}
+
+	setLive(id: string, enabled: boolean): Region | null {
+		const region = this.regions.find(r => r.id === id);
+		if (!region) return null;
+
+		if (enabled) {
+			region.live = region.live
+				? { ...region.live, enabled: true, enabledAt: new Date().toISOString() }
+				: { enabled: true, enabledAt: new Date().toISOString(), changes: [] };
+		} else if (region.live) {
+			region.live.enabled = false;
+		}
+		return region;
+	}
+
+	getPendingLiveChanges(region: Region): LiveRegionChange[] {
+		return (region.live?.changes || []).filter(change => change.status === 'pending');
+	}
+
+	/**
+	 * Log a membership change for a live region, replacing any pending change for the same note.
+	 * A change the user already dismissed is not suggested again. Returns whether the log changed.
+	 */
+	recordLiveChange(region: Region, change: Omit<LiveRegionChange, 'detectedAt' | 'status'>): boolean {
+		if (!region.live) return false;
+
+		const previous = [...region.live.changes].reverse().find(c => c.path === change.path);
+		if (previous && previous.change === change.change && previous.status === 'dismissed') {
+			return false;
+		}
+		if (previous && previous.change === change.change && previous.status === 'pending') {
+			// Same suggestion as before; just refresh the score
+			previous.similarity = change.similarity;
+			previous.passage = change.passage;
+			return false;
+		}
+
+		this.dropPendingLiveChange(region, change.path);
+		region.live.changes.push({
+			...change,
+			detectedAt: new Date().toISOString(),
+			status: 'pending',
+		});
+		this.trimLiveLog(region);
+		return true;
+	}
+
+	// Forget a pending change once the note is consistent with the region again
+	dropPendingLiveChange(region: Region, path: string): boolean {
+		if (!region.live) return false;
+
+		const before = region.live.changes.length;
+		region.live.changes = region.live.changes.filter(c => !(c.path === path && c.status === 'pending'));
+		return region.live.changes.length !== before;
+	}
+
+	// Apply (accept) or discard (dismiss) every pending change of a live region
+	resolveLiveChanges(id: string, accept: boolean): LiveRegionChange[] {
+		const region = this.regions.find(r => r.id === id);
+		if (!region || !region.live) return [];
+
+		const resolvedAt = new Date().toISOString();
+		const pending = this.getPendingLiveChanges(region);
+		if (accept && pending.length > 0) {
+			this.ensureHistory(region);
+		}
+		for (const change of pending) {
+			change.status = accept ? 'accepted' : 'dismissed';
+			change.resolvedAt = resolvedAt;
+			if (!accept) continue;
+
+			const index = region.notes.indexOf(change.path);
+			const passages = region.source.processingInfo?.matchedPassages;
+			if (change.change === 'add' && index === -1) {
+				region.notes.push(change.path);
+				if (passages && change.passage) {
+					passages[change.path] = change.passage;
+				}
+			} else if (change.change === 'remove' && index !== -1) {
+				region.notes.splice(index, 1);
+				if (passages) {
+					delete passages[change.path];
+				}
+			}
+		}
+
+		if (accept && pending.length > 0) {
+			region.updatedAt = resolvedAt;
+			this.recordSnapshot(region, 'live-refresh');
+		}
+		return pending;
+	}
+
+	private trimLiveLog(region: Region): void {
+		const changes = region.live!.changes;
+		while (changes.length > MAX_LIVE_LOG_ENTRIES) {
+			const oldestResolved = changes.findIndex(c => c.status !== 'pending');
+			if (oldestResolved === -1) break;
+			changes.splice(oldestResolved, 1);
+		}
+	}
+
+	/**
+	 * Carry the history (and live state) of a region over to the region that replaced it after a
+	 * re-run, and record the re-run's result as a new snapshot.
+	 */
+	inheritHistory(previous: Region, rerun: Region): RegionSnapshot {
+		this.ensureHistory(previous);
+		rerun.history = previous.history!.map(snapshot => ({ ...snapshot }));
+		if (previous.live && !rerun.live) {
+			rerun.live = previous.live;
+		}
+		// The re-run takes the previous region's place in the tree
+		rerun.parentId = previous.parentId;
+		this.getChildRegions(previous.id).forEach(child => child.parentId = rerun.id);
+		// Combined regions built from the previous region follow the re-run
+		for (const region of this.getCombinedRegionsUsing(previous.id)) {
+			region.source.operandIds = region.source.operandIds!.map(id => id === previous.id ? rerun.id : id);
+		}
+		return this.recordSnapshot(rerun, 'rerun');
+	}
+
+	// Combined regions that have the given region as an operand
+	getCombinedRegionsUsing(id: string): Region[] {
+		return this.regions.filter(region => isCombinedRegion(region) && region.source.operandIds!.includes(id));
+	}
+
+	/**
+	 * Recompute a combined region's notes from its operands' current notes. A changed membership
+	 * is recorded as a snapshot. Returns false (and leaves the notes alone) when an operand has been
+	 * deleted or nothing changed.
+	 */
+	recomputeCombinedRegion(region: Region): boolean {
+		if (!isCombinedRegion(region)) return false;
+		const operands = region.source.operandIds!.map(id => this.regions.find(r => r.id === id));
+		if (operands.some(operand => !operand)) {
+			return false;
+		}
+
+		const notes = combineRegionNotes(region.source.operation!, operands.map(operand => operand!.notes));
+		const current = new Set(region.notes);
+		if (notes.length === current.size && notes.every(path => current.has(path))) {
+			return false;
+		}
+
+		region.notes = notes;
+		region.updatedAt = new Date().toISOString();
+		this.recordSnapshot(region, 'recompute');
+		return true;
+	}
+
+	// Bring every auto-recomputing combined region up to date, operands before the regions built from them
+	recomputeCombinedRegions(): Region[] {
+		const changed: Region[] = [];
+		const visited: Set<string> = new Set();
+		const visit = (region: Region) => {
+			if (visited.has(region.id)) return;
+			visited.add(region.id);
+			if (!isCombinedRegion(region)) return;
+			for (const id of region.source.operandIds!) {
+				const operand = this.regions.find(r => r.id === id);
+				if (operand) visit(operand);
+			}
+			if (region.source.autoRecompute && this.recomputeCombinedRegion(region)) {
+				changed.push(region);
+			}
+		};
+		this.regions.forEach(visit);
+		if (changed.length > 0) {
+			console.log(`[Thoughtlands:RegionService] Recomputed ${changed.length} combined region${changed.length !== 1 ? 's' : ''}: ${changed.map(region => region.name).join(', ')}`);
+		}
+		return changed;
+	}
+
+	// Restore a region's notes and parameters from an earlier snapshot. The revert is itself recorded.
+	revertToSnapshot(id: string, version: number): Region | null {
+		const region = this.regions.find(r => r.id === id);
+		if (!region) return null;
+		const snapshot = (region.history || []).find(s => s.version === version);
+		if (!snapshot) return null;
+
+		region.notes = [...snapshot.notes];
+		region.similarityThreshold = snapshot.params.similarityThreshold;
+		const info = region.source.processingInfo;
+		if (info) {
+			info.similarityThreshold = snapshot.params.similarityThreshold;
+			if (snapshot.params.semanticSimilarityMode) {
+				info.semanticSimilarityMode = snapshot.params.semanticSimilarityMode;
+			}
+			if (snapshot.passages) {
+				info.matchedPassages = { ...snapshot.passages };
+			} else {
+				delete info.matchedPassages;
+			}
+		}
+
+		// Example sets are editable on re-run, so they go back too
+		if (isExemplarRegion(region)) {
+			region.source.seedNotes = snapshot.params.seedNotes ? [...snapshot.params.seedNotes] : undefined;
+			region.source.negativeNotes = snapshot.params.negativeNotes ? [...snapshot.params.negativeNotes] : undefined;
+			if (info) {
+				info.conceptText = snapshot.params.conceptText;
+			}
+		}
+
+		// Recomputing from the operands would undo the revert straight away
+		if (isCombinedRegion(region)) {
+			region.source.autoRecompute = false;
+		}
+
+		// Pending suggestions were computed against the membership being replaced
+		if (region.live) {
+			region.live.changes = region.live.changes.filter(change => change.status !== 'pending');
+		}
+
+		region.updatedAt = new Date().toISOString();
+		this.recordSnapshot(region, 'revert', version);
+		return region;
+	}
+
+	private snapshotOf(region: Region, version: number, trigger: RegionSnapshot['trigger'], createdAt: string): RegionSnapshot {
+		const info = region.source.processingInfo;
+		const snapshot: RegionSnapshot = {
+			version,
+			createdAt,
+			trigger,
+			params: {
+				mode: region.mode,
+				semanticSimilarityMode: info?.semanticSimilarityMode,
+				similarityThreshold: region.similarityThreshold ?? info?.similarityThreshold,
+				query: region.source.query,
+				conceptText: info?.conceptText,
+				concepts: region.source.concepts ? [...region.source.concepts] : undefined,
+				seedNotes: region.source.seedNotes ? [...region.source.seedNotes] : undefined,
+				negativeNotes: region.source.negativeNotes ? [...region.source.negativeNotes] : undefined,
+				tags: region.source.tags ? [...region.source.tags] : undefined,
+				operation: region.source.operation,
+				operandIds: region.source.operandIds ? [...region.source.operandIds] : undefined,
+			},
+			notes: [...region.notes],
+		};
+		if (info?.matchedPassages) {
+			const passages: RegionSnapshot['passages'] = {};
+			for (const path of region.notes) {
+				if (info.matchedPassages[path]) {
+					passages[path] = { ...info.matchedPassages[path] };
+				}
+			}
+			snapshot.passages = passages;
+		}
+		return snapshot;
+	}
+
+	// Regions created before history was kept get their current state as version 1
+	private ensureHistory(region: Region): void {
+		if (!region.history || region.history.length === 0) {
+			region.history = [this.snapshotOf(region, 1, 'initial', region.updatedAt)];
+		}
+	}
+
+	private recordSnapshot(region: Region, trigger: RegionSnapshot['trigger'], revertedTo?: number): RegionSnapshot {
+		this.ensureHistory(region);
+		const history = region.history!;
+		const snapshot = this.snapshotOf(region, history[history.length - 1].version + 1, trigger, new Date().toISOString());
+		if (revertedTo !== undefined) {
+			snapshot.revertedTo = revertedTo;
+		}
+		history.push(snapshot);
+		if (history.length > MAX_HISTORY_SNAPSHOTS) {
+			history.splice(0, history.length - MAX_HISTORY_SNAPSHOTS);
+		}
+		return snapshot;
+	}
+
+	// Keep canvas references valid when a canvas file is renamed
+	renameCanvasPath(oldPath: string, newPath: string): Region[] {
+		const changed: Region[] = [];
+		for (const region of this.regions) {
+			let updated = false;
+			for (const entry of region.canvases || []) {
+				if (entry.path === oldPath) {
+					entry.path = newPath;
+					updated = true;
+				}
+			}
+			if (region.canvasPath === oldPath) {
+				region.canvasPath = newPath;
+				updated = true;
+			}
+			if (updated) {
+				changed.push(region);
+			}
+		}
+		return changed;
+	}
+
 	filterNotesByIgnores(files: TFile[], metadataCache?: any, noteService?: any): TFile[] {
 		const filtered = files.filter(file => {
 			const filePath = file.path.toLowerCase();
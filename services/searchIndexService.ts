@@ -0,0 +1,442 @@
+import { App, TFile } from 'obsidian';
+import { SearchQueryNode, SearchTextNode, getContentTextNodes, getTokenPredicates, isIndexableTerm, positionsMatch, tokenizeText } from './searchQuery';
+
+// Saved as JSON in the plugin folder. Each note's words are stored in order, so positions are implicit
+interface StoredSearchIndex {
+	version: number;
+	files: Record<string, { mtime: number; size: number; tokens: string }>; // tokens: space-separated
+}
+
+interface IndexedNote {
+	mtime: number;
+	size: number;
+	tokens: string[];
+}
+
+const INDEX_FILE = 'search-index.json';
+const FORMAT_VERSION = 1;
+const UPDATE_DELAY_MS = 2000; // Edits arrive on every autosave; index them in batches
+const SAVE_DELAY_MS = 10000;
+const YIELD_EVERY = 50; // Notes indexed between yields to the UI during a (re)build
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const MIN_KEYWORD_LENGTH = 3;
+
+// Words too common in notes to describe any group of them
+const STOP_WORDS = new Set([
+	'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+	'has', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'way', 'who', 'did', 'get', 'let',
+	'she', 'too', 'use', 'that', 'with', 'have', 'this', 'will', 'your', 'from', 'they', 'been', 'were', 'what',
+	'when', 'which', 'their', 'there', 'them', 'then', 'than', 'these', 'those', 'would', 'could', 'should',
+	'about', 'into', 'more', 'some', 'such', 'only', 'other', 'also', 'just', 'like', 'over', 'very', 'each',
+	'much', 'most', 'many', 'make', 'made', 'well', 'where', 'while', 'after', 'before', 'being', 'because',
+	'between', 'through', 'does', 'doesn', 'don', 'didn', 'isn', 'wasn', 'here', 'why', 'own', 'same',
+	'both', 'even', 'still', 'must', 'might', 'yet', 'upon', 'under', 'again', 'off', 'once', 'thing',
+	'things', 'something', 'really', 'able', 'every', 'http', 'https', 'www', 'com', 'org', 'html', 'png', 'jpg',
+]);
+
+export interface KeywordScore {
+	score: number; // BM25
+	matchedWords: string[]; // Query words found in the note
+}
+
+/**
+ * Inverted index of note text with word positions, used by search regions instead of reading every
+ * note on every query. It is saved between sessions, reconciled with the vault on startup (notes
+ * whose modification time or size changed are re-read) and kept current from vault events.
+ */
+export class SearchIndexService {
+	private app: App;
+	private path: string;
+	private notes: Map<string, IndexedNote> = new Map();
+	private postings: Map<string, Map<string, number[]>> = new Map(); // word → note path → positions
+	private pending: Set<string> = new Set(); // Paths changed since they were last indexed
+	private readyPromise: Promise<void> | null = null;
+	private work: Promise<unknown> = Promise.resolve(); // Index updates run one at a time
+	private updateTimer: number | null = null;
+	private saveTimer: number | null = null;
+
+	constructor(app: App, plugin: any) {
+		this.app = app;
+		const pluginDir = plugin.manifest?.dir || `${app.vault.configDir}/plugins/thoughtlands`;
+		this.path = `${pluginDir}/${INDEX_FILE}`;
+	}
+
+	// Load the saved index and bring it up to date with the vault; concurrent callers share the work
+	ready(): Promise<void> {
+		if (!this.readyPromise) {
+			this.readyPromise = this.enqueue(async () => {
+				await this.load();
+				await this.reconcile();
+			});
+		}
+		return this.readyPromise;
+	}
+
+	getStats(): { notes: number; words: number } {
+		return { notes: this.notes.size, words: this.postings.size };
+	}
+
+	// Vault events. Changes are indexed shortly after, or right away when a search needs them
+	markChanged(file: TFile): void {
+		// Before the index is first used, the startup reconcile picks changes up from modification times
+		if (file.extension !== 'md' || !this.readyPromise) return;
+		this.pending.add(file.path);
+		this.scheduleUpdate();
+	}
+
+	renamePath(oldPath: string, newPath: string): void {
+		if (this.pending.delete(oldPath)) {
+			this.pending.add(newPath);
+		}
+		const note = this.notes.get(oldPath);
+		if (!note) return;
+		this.removeNote(oldPath);
+		if (newPath.endsWith('.md')) {
+			this.addNote(newPath, note);
+		}
+		this.scheduleSave();
+	}
+
+	removePath(path: string): void {
+		this.pending.delete(path);
+		if (this.notes.has(path)) {
+			this.removeNote(path);
+			this.scheduleSave();
+		}
+	}
+
+	// Drop everything and re-read every note
+	async rebuild(): Promise<number> {
+		await this.ready();
+		return this.enqueue(async () => {
+			this.notes.clear();
+			this.postings.clear();
+			this.pending.clear();
+			await this.reconcile();
+			return this.notes.size;
+		});
+	}
+
+	/**
+	 * Answers the query's word and phrase terms from the index. The returned lookup says whether a
+	 * note's text matches a term; it returns undefined for terms the index can't answer (see
+	 * isIndexableTerm), which are then matched against the note text.
+	 */
+	async createContentMatcher(query: SearchQueryNode): Promise<(node: SearchTextNode, path: string) => boolean | undefined> {
+		await this.ready();
+		await this.enqueue(() => this.applyPending());
+
+		const matches: Map<SearchTextNode, Set<string>> = new Map();
+		for (const node of getContentTextNodes(query)) {
+			if (isIndexableTerm(node)) {
+				matches.set(node, this.findNotes(node));
+			}
+		}
+		return (node, path) => {
+			const paths = matches.get(node);
+			return paths ? paths.has(path) : undefined;
+		};
+	}
+
+	/**
+	 * BM25 scores of the given notes for the query words. A query word also counts occurrences of
+	 * longer words it starts ("mentor" counts "mentorship"); document frequencies and the average
+	 * note length come from the whole index. Notes without any of the words are left out.
+	 */
+	async scoreKeywords(words: string[], paths: string[]): Promise<Map<string, KeywordScore>> {
+		await this.ready();
+		await this.enqueue(() => this.applyPending());
+
+		const scores: Map<string, KeywordScore> = new Map();
+		const wanted = new Set(paths.filter(path => this.notes.has(path)));
+		if (wanted.size === 0 || words.length === 0) {
+			return scores;
+		}
+
+		let totalLength = 0;
+		for (const note of this.notes.values()) {
+			totalLength += note.tokens.length;
+		}
+		const noteCount = this.notes.size;
+		const averageLength = totalLength / noteCount || 1;
+
+		for (const word of Array.from(new Set(words))) {
+			// Occurrences per note, over every indexed word starting with the query word
+			const frequencies: Map<string, number> = new Map();
+			const containing: Set<string> = new Set();
+			for (const [token, postings] of this.postings) {
+				if (!token.startsWith(word)) continue;
+				for (const [path, positions] of postings) {
+					containing.add(path);
+					if (wanted.has(path)) {
+						frequencies.set(path, (frequencies.get(path) || 0) + positions.length);
+					}
+				}
+			}
+
+			const idf = Math.log(1 + (noteCount - containing.size + 0.5) / (containing.size + 0.5));
+			for (const [path, frequency] of frequencies) {
+				const length = this.notes.get(path)!.tokens.length;
+				const weight = idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+				const score = scores.get(path) || { score: 0, matchedWords: [] };
+				score.score += weight;
+				score.matchedWords.push(word);
+				scores.set(path, score);
+			}
+		}
+		return scores;
+	}
+
+	/**
+	 * Words that set a group of notes apart from the rest of the vault: the share of the notes using
+	 * a word, weighted by the word's inverse document frequency over the whole index. Words used by
+	 * only one of the notes, numbers, and very short or common words are skipped. With `background`,
+	 * the document frequency is taken over those notes instead (e.g. the region a group was split from).
+	 */
+	async getDistinctiveWords(paths: string[], count: number, background?: string[]): Promise<string[]> {
+		await this.ready();
+		await this.enqueue(() => this.applyPending());
+
+		const frequencies: Map<string, number> = new Map(); // word → notes of the group using it
+		let groupSize = 0;
+		for (const path of paths) {
+			const note = this.notes.get(path);
+			if (!note) continue;
+			groupSize++;
+			for (const token of new Set(note.tokens)) {
+				frequencies.set(token, (frequencies.get(token) || 0) + 1);
+			}
+		}
+
+		let backgroundFrequencies: Map<string, number> | null = null; // word → background notes using it
+		let backgroundSize = this.notes.size;
+		if (background) {
+			backgroundFrequencies = new Map();
+			backgroundSize = 0;
+			for (const path of background) {
+				const note = this.notes.get(path);
+				if (!note) continue;
+				backgroundSize++;
+				for (const token of new Set(note.tokens)) {
+					backgroundFrequencies.set(token, (backgroundFrequencies.get(token) || 0) + 1);
+				}
+			}
+		}
+
+		const minNotes = Math.min(2, groupSize);
+		const scored: Array<{ word: string; score: number }> = [];
+		for (const [word, frequency] of frequencies) {
+			if (frequency < minNotes || word.length < MIN_KEYWORD_LENGTH || /^\d+$/.test(word) || STOP_WORDS.has(word)) continue;
+			const backgroundFrequency = (backgroundFrequencies ? backgroundFrequencies.get(word) : this.postings.get(word)?.size) || frequency;
+			const idf = Math.log(Math.max(backgroundSize, backgroundFrequency) / backgroundFrequency); // 0 for words every note uses
+			scored.push({ word, score: (frequency / groupSize) * idf });
+		}
+		scored.sort((a, b) => b.score - a.score);
+		return scored.filter(item => item.score > 0).slice(0, count).map(item => item.word);
+	}
+
+	// Write pending changes now (plugin unload)
+	async flush(): Promise<void> {
+		if (this.updateTimer !== null) {
+			window.clearTimeout(this.updateTimer);
+			this.updateTimer = null;
+		}
+		if (this.saveTimer === null) {
+			return;
+		}
+		window.clearTimeout(this.saveTimer);
+		this.saveTimer = null;
+		await this.save();
+	}
+
+	// Notes containing the term (or phrase), using the positions of each of its words
+	private findNotes(node: SearchTextNode): Set<string> {
+		const predicates = getTokenPredicates(node);
+		const proximity = node.type === 'phrase' ? node.proximity : undefined;
+
+		// Positions of each query word per note, merged over every indexed word it matches; words that
+		// must match exactly are looked up, the others need a scan of the indexed words
+		const perWord: Array<Map<string, number[]>> = predicates.map(predicate => {
+			const notes: Map<string, number[]> = new Map();
+			let matching: Array<Map<string, number[]>>;
+			if (predicate.exact) {
+				const postings = this.postings.get(predicate.word);
+				matching = postings ? [postings] : [];
+			} else {
+				matching = [];
+				for (const [word, postings] of this.postings) {
+					if (predicate.matches(word)) matching.push(postings);
+				}
+			}
+			for (const postings of matching) {
+				for (const [path, positions] of postings) {
+					const existing = notes.get(path);
+					if (existing) {
+						for (const position of positions) existing.push(position);
+					} else {
+						notes.set(path, positions.slice());
+					}
+				}
+			}
+			return notes;
+		});
+
+		const result: Set<string> = new Set();
+		const [first, ...rest] = perWord;
+		for (const [path, positions] of first) {
+			if (!rest.every(notes => notes.has(path))) continue;
+			const lists = [positions, ...rest.map(notes => notes.get(path)!)].map(list => list.sort((a, b) => a - b));
+			if (positionsMatch(lists, proximity)) {
+				result.add(path);
+			}
+		}
+		return result;
+	}
+
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const run = this.work.then(task, task);
+		this.work = run.catch(() => undefined);
+		return run;
+	}
+
+	// Re-index notes that are new or changed since the index was saved, and drop deleted ones
+	private async reconcile(): Promise<void> {
+		const files = this.app.vault.getMarkdownFiles();
+		const existing = new Set(files.map(file => file.path));
+		let removed = 0;
+		for (const path of Array.from(this.notes.keys())) {
+			if (!existing.has(path)) {
+				this.removeNote(path);
+				removed++;
+			}
+		}
+
+		const changed = files.filter(file => {
+			const note = this.notes.get(file.path);
+			return !note || note.mtime !== file.stat.mtime || note.size !== file.stat.size;
+		});
+		for (let i = 0; i < changed.length; i++) {
+			await this.indexFile(changed[i]);
+			if ((i + 1) % YIELD_EVERY === 0) {
+				await new Promise(resolve => setTimeout(resolve, 0));
+			}
+		}
+
+		console.log(`[Thoughtlands:SearchIndex] Index ready: ${this.notes.size} notes, ${this.postings.size} words (${changed.length} re-indexed, ${removed} removed)`);
+		if (changed.length > 0 || removed > 0) {
+			this.scheduleSave();
+		}
+	}
+
+	private async applyPending(): Promise<void> {
+		if (this.pending.size === 0) return;
+		const paths = Array.from(this.pending);
+		this.pending.clear();
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.indexFile(file);
+			} else {
+				this.removeNote(path);
+			}
+		}
+		this.scheduleSave();
+	}
+
+	private async indexFile(file: TFile): Promise<void> {
+		try {
+			const content = await this.app.vault.cachedRead(file);
+			this.removeNote(file.path);
+			this.addNote(file.path, { mtime: file.stat.mtime, size: file.stat.size, tokens: tokenizeText(content) });
+		} catch (error) {
+			console.warn(`[Thoughtlands:SearchIndex] Could not index ${file.path}:`, error);
+		}
+	}
+
+	private addNote(path: string, note: IndexedNote): void {
+		this.notes.set(path, note);
+		note.tokens.forEach((token, position) => {
+			let postings = this.postings.get(token);
+			if (!postings) {
+				postings = new Map();
+				this.postings.set(token, postings);
+			}
+			const positions = postings.get(path);
+			if (positions) {
+				positions.push(position);
+			} else {
+				postings.set(path, [position]);
+			}
+		});
+	}
+
+	private removeNote(path: string): void {
+		const note = this.notes.get(path);
+		if (!note) return;
+		this.notes.delete(path);
+		for (const token of new Set(note.tokens)) {
+			const postings = this.postings.get(token);
+			if (!postings) continue;
+			postings.delete(path);
+			if (postings.size === 0) {
+				this.postings.delete(token);
+			}
+		}
+	}
+
+	private scheduleUpdate(): void {
+		if (this.updateTimer !== null) {
+			return;
+		}
+		this.updateTimer = window.setTimeout(() => {
+			this.updateTimer = null;
+			this.enqueue(() => this.applyPending()).catch(error => {
+				console.warn('[Thoughtlands:SearchIndex] Could not update index:', error);
+			});
+		}, UPDATE_DELAY_MS);
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer !== null) {
+			return;
+		}
+		this.saveTimer = window.setTimeout(() => {
+			this.saveTimer = null;
+			this.save();
+		}, SAVE_DELAY_MS);
+	}
+
+	private async load(): Promise<void> {
+		try {
+			if (!(await this.app.vault.adapter.exists(this.path))) {
+				return;
+			}
+			const stored = JSON.parse(await this.app.vault.adapter.read(this.path)) as StoredSearchIndex;
+			if (stored.version !== FORMAT_VERSION || !stored.files) {
+				console.warn(`[Thoughtlands:SearchIndex] Ignoring search index with unknown format version ${stored.version}; rebuilding`);
+				return;
+			}
+			for (const [path, note] of Object.entries(stored.files)) {
+				this.addNote(path, { mtime: note.mtime, size: note.size, tokens: note.tokens ? note.tokens.split(' ') : [] });
+			}
+			console.log(`[Thoughtlands:SearchIndex] Loaded search index with ${this.notes.size} notes`);
+		} catch (error) {
+			console.warn('[Thoughtlands:SearchIndex] Could not read search index; rebuilding:', error);
+			this.notes.clear();
+			this.postings.clear();
+		}
+	}
+
+	private async save(): Promise<void> {
+		const stored: StoredSearchIndex = { version: FORMAT_VERSION, files: {} };
+		for (const [path, note] of this.notes) {
+			stored.files[path] = { mtime: note.mtime, size: note.size, tokens: note.tokens.join(' ') };
+		}
+		try {
+			await this.app.vault.adapter.write(this.path, JSON.stringify(stored));
+		} catch (error) {
+			console.warn('[Thoughtlands:SearchIndex] Could not save search index:', error);
+		}
+	}
+}
@@ -0,0 +1,577 @@
+export type SearchField = 'tag' | 'path' | 'file' | 'line' | 'content';
+
+/**
+ * Parsed search query. Stored on search regions (RegionSource.parsedQuery) as plain JSON so a
+ * re-run evaluates exactly the query the region was created from.
+ */
+export type SearchQueryNode =
+	| { type: 'and'; children: SearchQueryNode[] } // Implicit AND between terms; no children matches every note
+	| { type: 'or'; children: SearchQueryNode[] }
+	| { type: 'not'; child: SearchQueryNode }
+	| { type: 'term'; value: string } // Case-insensitive substring
+	| { type: 'phrase'; value: string; proximity?: number } // Quoted text (case-insensitive); "a b"~N: words within N words of each other
+	| { type: 'regex'; pattern: string; flags: string }
+	| { type: 'field'; field: SearchField; query: SearchQueryNode } // tag:, path:, file:, line:, content:
+	| { type: 'property'; name: string; query?: SearchQueryNode }; // [name] or [name:value]
+
+// The parts of a note a query is matched against
+export interface SearchableNote {
+	path: string;
+	name: string; // File name with extension (file:)
+	tags: string[]; // Inline and frontmatter tags, without '#'
+	frontmatter: Record<string, unknown>;
+	metadata: string; // Frontmatter, tags and links, also searched by plain terms
+	content: string; // May be left empty when contentMatches answers, unless searchQueryNeedsText
+	contentMatches?: (node: SearchTextNode) => boolean | undefined; // Index lookup; undefined falls back to content
+}
+
+export class SearchQueryParseError extends Error {
+	position: number; // Character offset in the query where parsing failed
+
+	constructor(message: string, position: number) {
+		super(message);
+		this.name = 'SearchQueryParseError';
+		this.position = position;
+	}
+}
+
+const FIELDS: SearchField[] = ['tag', 'path', 'file', 'line', 'content'];
+const REGEX_FLAGS = /^[imsu]*$/; // g and y make RegExp.test stateful
+
+/**
+ * Parse a query in (a subset of) Obsidian's search syntax:
+ *   words            every word must appear (implicit AND)
+ *   "exact phrase"   quoted text
+ *   "a b"~5          the words within 5 words of each other, in any order
+ *   a OR b           either side; binds looser than AND
+ *   ( ... )          grouping
+ *   -term            negation of a word, phrase, group or operator
+ *   /regex/          JavaScript regular expression (flags i, m, s, u allowed after the slash)
+ *   tag:#name        tag or any nested tag below it
+ *   path:, file:     note path or file name
+ *   line:( ... )     everything in the group on the same line
+ *   content:         note text only
+ *   [prop], [prop:value]  frontmatter property exists / has a matching value
+ * Operators take a word, phrase, regex or group as their value. Throws SearchQueryParseError.
+ */
+export function parseSearchQuery(query: string): SearchQueryNode {
+	return new SearchQueryParser(query).parse();
+}
+
+// Parse without throwing; the error is returned for inline display
+export function tryParseSearchQuery(query: string): { query: SearchQueryNode | null; error: SearchQueryParseError | null } {
+	try {
+		return { query: parseSearchQuery(query), error: null };
+	} catch (error) {
+		if (error instanceof SearchQueryParseError) {
+			return { query: null, error };
+		}
+		throw error;
+	}
+}
+
+class SearchQueryParser {
+	private input: string;
+	private pos: number = 0;
+	private field: SearchField | 'property' | null = null; // Operator whose value is being parsed
+	private depth: number = 0; // Open parentheses
+
+	constructor(input: string) {
+		this.input = input;
+	}
+
+	parse(): SearchQueryNode {
+		const node = this.parseOr();
+		this.skipWhitespace();
+		if (this.pos < this.input.length) {
+			// parseAnd only stops early on a closing parenthesis or bracket
+			throw new SearchQueryParseError(`Unexpected "${this.input[this.pos]}"`, this.pos);
+		}
+		return node;
+	}
+
+	private parseOr(): SearchQueryNode {
+		const children: SearchQueryNode[] = [this.parseAnd()];
+		while (this.peekOr()) {
+			const orPos = this.pos;
+			this.pos += 2;
+			const next = this.parseAnd();
+			if (isEmpty(children[children.length - 1]) || isEmpty(next)) {
+				throw new SearchQueryParseError('OR needs a term on both sides', orPos);
+			}
+			children.push(next);
+		}
+		return children.length === 1 ? children[0] : { type: 'or', children };
+	}
+
+	private parseAnd(): SearchQueryNode {
+		const children: SearchQueryNode[] = [];
+		for (;;) {
+			this.skipWhitespace();
+			if (this.pos >= this.input.length || this.peekOr()) break;
+			const char = this.input[this.pos];
+			if (char === ')') {
+				if (this.depth === 0) {
+					throw new SearchQueryParseError('Unexpected ")" without a matching "("', this.pos);
+				}
+				break;
+			}
+			if (char === ']' && this.field === 'property') break;
+			children.push(this.parseUnary());
+		}
+		return children.length === 1 ? children[0] : { type: 'and', children };
+	}
+
+	private parseUnary(): SearchQueryNode {
+		if (this.input[this.pos] === '-') {
+			const start = this.pos;
+			this.pos++;
+			const next = this.input[this.pos];
+			if (next === undefined || /\s/.test(next) || next === ')') {
+				throw new SearchQueryParseError('"-" must be followed by the term to exclude', start);
+			}
+			return { type: 'not', child: this.parseUnary() };
+		}
+		return this.parsePrimary();
+	}
+
+	private parsePrimary(): SearchQueryNode {
+		const char = this.input[this.pos];
+		if (char === '(') return this.parseGroup();
+		if (char === '"') return this.parsePhrase();
+		if (char === '/') return this.parseRegex();
+		if (char === '[') return this.parseProperty();
+
+		const start = this.pos;
+		const word = this.readWord();
+		const colon = word.indexOf(':');
+		const fieldName = colon > 0 ? word.substring(0, colon).toLowerCase() as SearchField : null;
+		if (fieldName && FIELDS.includes(fieldName)) {
+			if (this.field) {
+				throw new SearchQueryParseError(`${fieldName}: can't be used inside ${this.field === 'property' ? 'a property value' : `${this.field}:`}`, start);
+			}
+			// Re-read the value after the colon, which may be a phrase, regex or group
+			this.pos = start + colon + 1;
+			const value = this.input[this.pos];
+			if (value === undefined || /\s/.test(value) || value === ')') {
+				throw new SearchQueryParseError(`${fieldName}: needs a value`, start);
+			}
+			this.field = fieldName;
+			try {
+				return { type: 'field', field: fieldName, query: this.parseOperand() };
+			} finally {
+				this.field = null;
+			}
+		}
+		return { type: 'term', value: word };
+	}
+
+	// Value of an operator: a single word, phrase, regex or parenthesized group
+	private parseOperand(): SearchQueryNode {
+		const char = this.input[this.pos];
+		if (char === '(') return this.parseGroup();
+		if (char === '"') return this.parsePhrase();
+		if (char === '/') return this.parseRegex();
+		return { type: 'term', value: this.readWord() };
+	}
+
+	private parseGroup(): SearchQueryNode {
+		const start = this.pos;
+		this.pos++;
+		this.depth++;
+		const node = this.parseOr();
+		this.skipWhitespace();
+		if (this.input[this.pos] !== ')') {
+			throw new SearchQueryParseError('Missing closing ")"', start);
+		}
+		this.pos++;
+		this.depth--;
+		if (isEmpty(node)) {
+			throw new SearchQueryParseError('Empty group "()"', start);
+		}
+		return node;
+	}
+
+	private parseProperty(): SearchQueryNode {
+		const start = this.pos;
+		if (this.field) {
+			throw new SearchQueryParseError(`Properties can't be used inside ${this.field === 'property' ? 'a property value' : `${this.field}:`}`, start);
+		}
+		this.pos++;
+		const nameStart = this.pos;
+		while (this.pos < this.input.length && !/[:\]]/.test(this.input[this.pos])) {
+			this.pos++;
+		}
+		const name = this.input.substring(nameStart, this.pos).trim();
+		if (!name) {
+			throw new SearchQueryParseError('Property name missing in "[...]"', start);
+		}
+		if (this.pos >= this.input.length) {
+			throw new SearchQueryParseError('Missing closing "]"', start);
+		}
+		if (this.input[this.pos] === ']') {
+			this.pos++;
+			return { type: 'property', name };
+		}
+
+		// [name:value] where the value is a query of its own
+		this.pos++;
+		const savedDepth = this.depth;
+		this.field = 'property';
+		this.depth = 0;
+		let value: SearchQueryNode;
+		try {
+			value = this.parseOr();
+		} finally {
+			this.field = null;
+			this.depth = savedDepth;
+		}
+		this.skipWhitespace();
+		if (this.input[this.pos] !== ']') {
+			throw new SearchQueryParseError('Missing closing "]"', start);
+		}
+		this.pos++;
+		if (isEmpty(value)) {
+			throw new SearchQueryParseError(`Property "${name}" needs a value after ":"`, start);
+		}
+		return { type: 'property', name, query: value };
+	}
+
+	private parseRegex(): SearchQueryNode {
+		const start = this.pos;
+		this.pos++;
+		let pattern = '';
+		let inClass = false;
+		for (;;) {
+			const char = this.input[this.pos];
+			if (char === undefined) {
+				throw new SearchQueryParseError('Missing closing "/" for regular expression', start);
+			}
+			if (char === '\\' && this.pos + 1 < this.input.length) {
+				pattern += char + this.input[this.pos + 1];
+				this.pos += 2;
+				continue;
+			}
+			this.pos++;
+			if (char === '/' && !inClass) break;
+			if (char === '[') inClass = true;
+			if (char === ']') inClass = false;
+			pattern += char;
+		}
+
+		const flagsStart = this.pos;
+		while (this.pos < this.input.length && /[a-z]/i.test(this.input[this.pos])) {
+			this.pos++;
+		}
+		const flags = this.input.substring(flagsStart, this.pos);
+		if (!REGEX_FLAGS.test(flags)) {
+			throw new SearchQueryParseError(`Unsupported regular expression flags "${flags}" (use i, m, s or u)`, flagsStart);
+		}
+		if (!pattern) {
+			throw new SearchQueryParseError('Empty regular expression', start);
+		}
+		try {
+			new RegExp(pattern, flags);
+		} catch (error) {
+			throw new SearchQueryParseError(error instanceof Error ? error.message : `Invalid regular expression /${pattern}/`, start);
+		}
+		return { type: 'regex', pattern, flags };
+	}
+
+	// "quoted phrase", optionally followed by ~N for a proximity search
+	private parsePhrase(): SearchQueryNode {
+		const start = this.pos;
+		const value = this.readQuoted();
+		if (this.input[this.pos] !== '~') {
+			return { type: 'phrase', value };
+		}
+		const digits = /^\d+/.exec(this.input.substring(this.pos + 1));
+		if (!digits) {
+			throw new SearchQueryParseError('"~" after a phrase needs a number of words, e.g. "a b"~5', this.pos);
+		}
+		this.pos += 1 + digits[0].length;
+		if (tokenizeText(value).length < 2) {
+			throw new SearchQueryParseError('A proximity search needs at least two words', start);
+		}
+		return { type: 'phrase', value, proximity: parseInt(digits[0], 10) };
+	}
+
+	private readQuoted(): string {
+		const start = this.pos;
+		this.pos++;
+		let value = '';
+		for (;;) {
+			const char = this.input[this.pos];
+			if (char === undefined) {
+				throw new SearchQueryParseError('Missing closing quote', start);
+			}
+			this.pos++;
+			if (char === '\\' && (this.input[this.pos] === '"' || this.input[this.pos] === '\\')) {
+				value += this.input[this.pos];
+				this.pos++;
+				continue;
+			}
+			if (char === '"') break;
+			value += char;
+		}
+		if (!value) {
+			throw new SearchQueryParseError('Empty phrase ""', start);
+		}
+		return value;
+	}
+
+	// A bare word runs until whitespace or a parenthesis (or "]" inside a property value)
+	private readWord(): string {
+		const start = this.pos;
+		while (this.pos < this.input.length) {
+			const char = this.input[this.pos];
+			if (/\s/.test(char) || char === '(' || char === ')' || (char === ']' && this.field === 'property')) break;
+			this.pos++;
+		}
+		if (this.pos === start) {
+			throw new SearchQueryParseError(`Unexpected "${this.input[this.pos] ?? 'end of query'}"`, start);
+		}
+		return this.input.substring(start, this.pos);
+	}
+
+	// "OR" as a standalone word (lowercase "or" is searched as text, as in Obsidian)
+	private peekOr(): boolean {
+		if (!this.input.startsWith('OR', this.pos)) return false;
+		const after = this.input[this.pos + 2];
+		return after === undefined || /\s/.test(after) || after === '(';
+	}
+
+	private skipWhitespace(): void {
+		while (this.pos < this.input.length && /\s/.test(this.input[this.pos])) {
+			this.pos++;
+		}
+	}
+}
+
+function isEmpty(node: SearchQueryNode): boolean {
+	return node.type === 'and' && node.children.length === 0;
+}
+
+// Term and phrase nodes: the leaves an inverted index can answer
+export type SearchTextNode = Extract<SearchQueryNode, { type: 'term' | 'phrase' }>;
+
+// Lowercase words (letters and digits); what the search index stores and phrase queries compare
+export function tokenizeText(text: string): string[] {
+	return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Whether word positions alone decide a term: proximity phrases compare words anyway, other terms
+ * only when they are words separated by single spaces. Punctuation ("C++", "$100") is not indexed,
+ * so such terms are matched as substrings of the note text like titles and properties are.
+ */
+export function isIndexableTerm(node: SearchTextNode): boolean {
+	if (node.type === 'phrase' && node.proximity !== undefined) {
+		return tokenizeText(node.value).length > 0;
+	}
+	return /^[\p{L}\p{N}]+( [\p{L}\p{N}]+)*$/u.test(node.value);
+}
+
+// How one query word is compared with the words of a note
+export interface TokenPredicate {
+	word: string;
+	exact: boolean; // Only the word itself matches, so an index can look it up instead of scanning
+	matches: (token: string) => boolean;
+}
+
+/**
+ * One predicate per query word, for matching words of a note. A single word matches inside longer
+ * words, as plain substring search does. In a phrase the first word may end and the last word may
+ * start a longer word ("hn ada" matches "John Adams"); the words between must match exactly.
+ * Proximity words match as prefixes since their order is free.
+ */
+export function getTokenPredicates(node: SearchTextNode): TokenPredicate[] {
+	const tokens = tokenizeText(node.value);
+	if (tokens.length === 1) {
+		return [{ word: tokens[0], exact: false, matches: token => token.includes(tokens[0]) }];
+	}
+	if (node.type === 'phrase' && node.proximity !== undefined) {
+		return tokens.map(word => ({ word, exact: false, matches: (token: string) => token.startsWith(word) }));
+	}
+	return tokens.map((word, i) => {
+		if (i === 0) return { word, exact: false, matches: (token: string) => token.endsWith(word) };
+		if (i === tokens.length - 1) return { word, exact: false, matches: (token: string) => token.startsWith(word) };
+		return { word, exact: true, matches: (token: string) => token === word };
+	});
+}
+
+/**
+ * Whether word positions (one ascending list per query word) contain the words next to each other
+ * in order, or, with a proximity, all within that many other words of each other in any order.
+ */
+export function positionsMatch(positions: number[][], proximity?: number): boolean {
+	if (positions.some(list => list.length === 0)) return false;
+	if (positions.length === 1) return true;
+
+	if (proximity === undefined) {
+		const following = positions.slice(1).map(list => new Set(list));
+		return positions[0].some(start => following.every((set, i) => set.has(start + i + 1)));
+	}
+
+	// Sliding window over every occurrence, looking for one that covers each word
+	const span = proximity + positions.length - 1;
+	const occurrences: Array<[number, number]> = [];
+	positions.forEach((list, word) => list.forEach(position => occurrences.push([position, word])));
+	occurrences.sort((a, b) => a[0] - b[0]);
+	const counts = new Array(positions.length).fill(0);
+	let covered = 0;
+	let left = 0;
+	for (const [position, word] of occurrences) {
+		if (counts[word]++ === 0) covered++;
+		while (position - occurrences[left][0] > span) {
+			if (--counts[occurrences[left][1]] === 0) covered--;
+			left++;
+		}
+		if (covered === positions.length) return true;
+	}
+	return false;
+}
+
+/**
+ * Whether the query needs the raw text of notes even when a search index can answer words and
+ * phrases: line: groups, regular expressions on the text, and terms the index can't answer.
+ */
+export function searchQueryNeedsText(node: SearchQueryNode): boolean {
+	switch (node.type) {
+		case 'and':
+		case 'or':
+			return node.children.some(searchQueryNeedsText);
+		case 'not':
+			return searchQueryNeedsText(node.child);
+		case 'field':
+			if (node.field === 'line') return true;
+			return node.field === 'content' && searchQueryNeedsText(node.query);
+		case 'property':
+			return false;
+		case 'regex':
+			return true;
+		case 'term':
+		case 'phrase':
+			return !isIndexableTerm(node);
+	}
+}
+
+// Term and phrase leaves that are matched against note text (not tags, paths or properties)
+export function getContentTextNodes(node: SearchQueryNode): SearchTextNode[] {
+	switch (node.type) {
+		case 'and':
+		case 'or':
+			return node.children.flatMap(getContentTextNodes);
+		case 'not':
+			return getContentTextNodes(node.child);
+		case 'field':
+			return node.field === 'content' ? getContentTextNodes(node.query) : [];
+		case 'term':
+		case 'phrase':
+			return [node];
+		default:
+			return [];
+	}
+}
+
+// Words the query asks for in note text (negated parts left out), for keyword scoring and query embeddings
+export function getQueryWords(node: SearchQueryNode): string[] {
+	switch (node.type) {
+		case 'and':
+		case 'or':
+			return node.children.flatMap(getQueryWords);
+		case 'field':
+			return node.field === 'content' || node.field === 'line' ? getQueryWords(node.query) : [];
+		case 'term':
+		case 'phrase':
+			return tokenizeText(node.value);
+		default:
+			return [];
+	}
+}
+
+// How leaf terms are compared against a note for the operator they appear in
+type MatchTarget =
+	| { kind: 'text'; texts: string[]; content: boolean } // content: also the note text
+	| { kind: 'tag'; tags: string[] };
+
+// Compiled once per parsed node rather than once per note (or per line, for line:)
+const compiledRegexes: WeakMap<SearchQueryNode, RegExp> = new WeakMap();
+
+export function matchesSearchQuery(node: SearchQueryNode, note: SearchableNote): boolean {
+	return evaluate(node, note, { kind: 'text', texts: [note.path, note.metadata], content: true });
+}
+
+function evaluate(node: SearchQueryNode, note: SearchableNote, target: MatchTarget): boolean {
+	switch (node.type) {
+		case 'and':
+			return node.children.every(child => evaluate(child, note, target));
+		case 'or':
+			return node.children.some(child => evaluate(child, note, target));
+		case 'not':
+			return !evaluate(node.child, note, target);
+		case 'field':
+			switch (node.field) {
+				case 'tag':
+					return evaluate(node.query, note, { kind: 'tag', tags: note.tags.map(tag => tag.toLowerCase()) });
+				case 'path':
+					return evaluate(node.query, note, { kind: 'text', texts: [note.path], content: false });
+				case 'file':
+					return evaluate(node.query, note, { kind: 'text', texts: [note.name], content: false });
+				case 'content':
+					return evaluate(node.query, note, { kind: 'text', texts: [], content: true });
+				case 'line':
+					return note.content.split('\n').some(line => evaluate(node.query, note, { kind: 'text', texts: [line], content: false }));
+			}
+			return false;
+		case 'property': {
+			const key = Object.keys(note.frontmatter).find(name => name.toLowerCase() === node.name.toLowerCase());
+			if (key === undefined) return false;
+			if (!node.query) return true;
+			return evaluate(node.query, note, { kind: 'text', texts: propertyValueTexts(note.frontmatter[key]), content: false });
+		}
+		case 'regex': {
+			let regex = compiledRegexes.get(node);
+			if (!regex) {
+				regex = new RegExp(node.pattern, node.flags);
+				compiledRegexes.set(node, regex);
+			}
+			const values: string[] = target.kind === 'tag' ? target.tags : target.content ? [...target.texts, note.content] : target.texts;
+			return values.some(value => regex!.test(value));
+		}
+		case 'term':
+		case 'phrase': {
+			if (target.kind === 'tag') {
+				const tag = node.value.replace(/^#/, '').toLowerCase();
+				return target.tags.some(candidate => candidate === tag || candidate.startsWith(`${tag}/`));
+			}
+			if (target.texts.some(text => textMatches(node, text))) return true;
+			if (!target.content) return false;
+			const indexed = note.contentMatches?.(node);
+			return indexed !== undefined ? indexed : textMatches(node, note.content);
+		}
+	}
+}
+
+function textMatches(node: SearchTextNode, text: string): boolean {
+	if (node.type === 'phrase' && node.proximity !== undefined) {
+		const tokens = tokenizeText(text);
+		const positions = getTokenPredicates(node).map(predicate => {
+			const list: number[] = [];
+			tokens.forEach((token, position) => {
+				if (predicate.matches(token)) list.push(position);
+			});
+			return list;
+		});
+		return positionsMatch(positions, node.proximity);
+	}
+	return text.toLowerCase().includes(node.value.toLowerCase());
+}
+
+// Property values as searchable strings; list properties match on any item, empty values as "null"
+function propertyValueTexts(value: unknown): string[] {
+	if (value === null || value === undefined || value === '') return ['null'];
+	if (Array.isArray(value)) return value.flatMap(propertyValueTexts);
+	if (typeof value === 'object') return [JSON.stringify(value)];
+	return [String(value)];
+}
@@ -0,0 +1,378 @@
+import { App } from 'obsidian';
+import { EmbeddingsData, EmbeddingEntry } from './embeddingStorageService';
+
+/**
+ * Binary on-disk store for embedding vectors, kept in the plugin folder instead of data.json.
+ *
+ * Layout (all files live in the store's folder, one folder per embedding model space):
+ *   base-<seq>.bin     - compacted snapshot containing everything up to and including segment <seq>
+ *   segment-<seq>.bin  - small append-only update written for every batch of changes
+ *
+ * Each file is: "TLVI" magic, format version (uint32), JSON header length (uint32), the UTF-8
+ * JSON header (padded to a 4-byte boundary), then the vectors as little-endian Float32 values.
+ * The header lists the entries in order; each entry owns `dim * (1 + chunks.length)` floats
+ * (note vector first, then one vector per chunk). Deleted notes are written as tombstones.
+ *
+ * Segments are replayed on top of the newest base in sequence order. Compaction writes a new base
+ * under the highest merged sequence number before removing older files, so a crash mid-compaction
+ * never loses data.
+ */
+
+const MAGIC = 'TLVI';
+const FORMAT_VERSION = 1;
+const COMPACTION_SEGMENT_THRESHOLD = 16; // Compact once this many segments have accumulated
+const COMPACTION_DELAY_MS = 10000; // Wait for writes to settle before compacting
+
+interface StoredChunkHeader {
+	offset: number;
+	length: number;
+	heading?: string;
+	preview: string;
+}
+
+interface StoredEntryHeader {
+	path: string;
+	hash?: string;
+	mtime?: number;
+	size?: number;
+	dim?: number;
+	chunks?: StoredChunkHeader[];
+	deleted?: boolean;
+}
+
+interface SegmentHeader {
+	meta?: EmbeddingsData['meta'];
+	entries: StoredEntryHeader[];
+}
+
+export class VectorIndexStore {
+	private app: App;
+	private folder: string;
+	private nextSequence: number = 1;
+	private segmentSequences: number[] = [];
+	private baseSequence: number | null = null;
+	private compactionTimer: number | null = null;
+	private isCompacting: boolean = false;
+	private getSnapshot: () => EmbeddingsData | null;
+
+	constructor(app: App, folder: string, getSnapshot: () => EmbeddingsData | null) {
+		this.app = app;
+		this.folder = folder;
+		// Compaction writes whatever is currently in memory, which is always the fully replayed state
+		this.getSnapshot = getSnapshot;
+	}
+
+	async exists(): Promise<boolean> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.folder))) {
+			return false;
+		}
+		const listing = await adapter.list(this.folder);
+		return listing.files.some(f => /(base|segment)-\d+\.bin$/.test(f));
+	}
+
+	// Read the newest base plus all later segments and replay them into a single EmbeddingsData
+	async load(): Promise<EmbeddingsData | null> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.folder))) {
+			return null;
+		}
+
+		const listing = await adapter.list(this.folder);
+		const bases: number[] = [];
+		const segments: number[] = [];
+		for (const filePath of listing.files) {
+			const name = filePath.split('/').pop() || '';
+			const baseMatch = name.match(/^base-(\d+)\.bin$/);
+			const segmentMatch = name.match(/^segment-(\d+)\.bin$/);
+			if (baseMatch) {
+				bases.push(parseInt(baseMatch[1]));
+			} else if (segmentMatch) {
+				segments.push(parseInt(segmentMatch[1]));
+			}
+		}
+
+		if (bases.length === 0 && segments.length === 0) {
+			return null;
+		}
+
+		bases.sort((a, b) => a - b);
+		segments.sort((a, b) => a - b);
+		this.baseSequence = bases.length > 0 ? bases[bases.length - 1] : null;
+		const baseSequence = this.baseSequence ?? 0;
+
+		const data: EmbeddingsData = {
+			meta: { model: '', lastFullBuild: null, version: '1.0' },
+			data: {},
+		};
+
+		if (this.baseSequence !== null) {
+			await this.applyFile(this.filePath('base', this.baseSequence), data);
+		}
+
+		this.segmentSequences = [];
+		for (const seq of segments) {
+			if (seq <= baseSequence) {
+				continue; // Already folded into the base (left over from an interrupted compaction)
+			}
+			try {
+				await this.applyFile(this.filePath('segment', seq), data);
+				this.segmentSequences.push(seq);
+			} catch (error) {
+				// A torn write can only affect the newest segment; skip it rather than failing the whole load
+				console.warn(`[Thoughtlands:VectorIndex] Skipping unreadable segment ${seq}:`, error);
+			}
+		}
+
+		const highest = Math.max(baseSequence, ...segments);
+		this.nextSequence = highest + 1;
+
+		console.log('[Thoughtlands:VectorIndex] Loaded vector index:', {
+			base: this.baseSequence,
+			segments: this.segmentSequences.length,
+			entryCount: Object.keys(data.data).length
+		});
+
+		// Tidy up files superseded by the base and compact if a lot of segments piled up
+		await this.removeStaleFiles(bases, segments);
+		this.scheduleCompaction();
+
+		return data;
+	}
+
+	// Append a segment containing the given entries (and tombstones for removed paths)
+	async appendSegment(
+		entries: Record<string, EmbeddingEntry>,
+		meta?: EmbeddingsData['meta'],
+		removedPaths: string[] = []
+	): Promise<void> {
+		await this.ensureFolder();
+		const seq = this.nextSequence++;
+		const buffer = encodeVectorFile(entries, meta, removedPaths);
+		await this.app.vault.adapter.writeBinary(this.filePath('segment', seq), buffer);
+		this.segmentSequences.push(seq);
+		this.scheduleCompaction();
+	}
+
+	// Replace the whole index with a single base file (used for migration and full rewrites)
+	async writeFull(data: EmbeddingsData): Promise<void> {
+		await this.ensureFolder();
+		const seq = this.nextSequence++;
+		await this.app.vault.adapter.writeBinary(this.filePath('base', seq), encodeVectorFile(data.data, data.meta));
+		const oldBase = this.baseSequence;
+		const oldSegments = this.segmentSequences;
+		this.baseSequence = seq;
+		this.segmentSequences = [];
+		await this.removeFiles(oldBase, oldSegments);
+	}
+
+	async clear(): Promise<void> {
+		this.cancelCompaction();
+		const adapter = this.app.vault.adapter;
+		if (await adapter.exists(this.folder)) {
+			await adapter.rmdir(this.folder, true);
+		}
+		this.baseSequence = null;
+		this.segmentSequences = [];
+		this.nextSequence = 1;
+	}
+
+	cancelCompaction(): void {
+		if (this.compactionTimer !== null) {
+			window.clearTimeout(this.compactionTimer);
+			this.compactionTimer = null;
+		}
+	}
+
+	private scheduleCompaction(): void {
+		if (this.segmentSequences.length < COMPACTION_SEGMENT_THRESHOLD) {
+			return;
+		}
+		this.cancelCompaction();
+		this.compactionTimer = window.setTimeout(() => {
+			this.compactionTimer = null;
+			this.compact().catch(error => {
+				console.error('[Thoughtlands:VectorIndex] Compaction failed:', error);
+			});
+		}, COMPACTION_DELAY_MS);
+	}
+
+	private async compact(): Promise<void> {
+		if (this.isCompacting) {
+			return;
+		}
+		const snapshot = this.getSnapshot();
+		if (!snapshot) {
+			return;
+		}
+
+		this.isCompacting = true;
+		try {
+			const merged = [...this.segmentSequences];
+			if (merged.length === 0) {
+				return;
+			}
+			const seq = merged[merged.length - 1];
+			console.log(`[Thoughtlands:VectorIndex] Compacting ${merged.length} segments into base ${seq}`);
+
+			await this.app.vault.adapter.writeBinary(this.filePath('base', seq), encodeVectorFile(snapshot.data, snapshot.meta));
+
+			const oldBase = this.baseSequence;
+			this.baseSequence = seq;
+			// Segments written while we were compacting are newer than the base and must be kept
+			this.segmentSequences = this.segmentSequences.filter(s => s > seq);
+			await this.removeFiles(oldBase, merged);
+		} finally {
+			this.isCompacting = false;
+		}
+	}
+
+	private async applyFile(path: string, data: EmbeddingsData): Promise<void> {
+		applyVectorFile(await this.app.vault.adapter.readBinary(path), data);
+	}
+
+	private filePath(kind: 'base' | 'segment', seq: number): string {
+		return `${this.folder}/${kind}-${seq.toString().padStart(6, '0')}.bin`;
+	}
+
+	private async ensureFolder(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.folder))) {
+			await adapter.mkdir(this.folder);
+		}
+	}
+
+	private async removeFiles(baseSeq: number | null, segmentSeqs: number[]): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const paths = segmentSeqs.map(seq => this.filePath('segment', seq));
+		if (baseSeq !== null && baseSeq !== this.baseSequence) {
+			paths.push(this.filePath('base', baseSeq));
+		}
+		for (const path of paths) {
+			try {
+				if (await adapter.exists(path)) {
+					await adapter.remove(path);
+				}
+			} catch (error) {
+				console.warn(`[Thoughtlands:VectorIndex] Failed to remove ${path}:`, error);
+			}
+		}
+	}
+
+	private async removeStaleFiles(bases: number[], segments: number[]): Promise<void> {
+		const baseSequence = this.baseSequence ?? 0;
+		for (const seq of bases) {
+			if (seq !== this.baseSequence) {
+				await this.removeFiles(seq, []);
+			}
+		}
+		await this.removeFiles(null, segments.filter(seq => seq <= baseSequence));
+	}
+}
+
+// Replay one file (base, segment or exported bundle) on top of `data`
+export function applyVectorFile(buffer: ArrayBuffer, data: EmbeddingsData): void {
+	const { header, vectors } = decodeVectorFile(buffer);
+
+	if (header.meta) {
+		data.meta = header.meta;
+	}
+
+	let cursor = 0;
+	for (const entry of header.entries) {
+		if (entry.deleted) {
+			delete data.data[entry.path];
+			continue;
+		}
+		const dim = entry.dim || 0;
+		const readVector = (): number[] => {
+			const vector = Array.from(vectors.subarray(cursor, cursor + dim));
+			cursor += dim;
+			return vector;
+		};
+
+		const stored: EmbeddingEntry = {
+			hash: entry.hash || '',
+			mtime: entry.mtime,
+			size: entry.size,
+			embedding: readVector(),
+		};
+		if (entry.chunks) {
+			stored.chunks = entry.chunks.map(chunk => ({ ...chunk, embedding: readVector() }));
+		}
+		data.data[entry.path] = stored;
+	}
+}
+
+// Encode entries (and tombstones for removed paths) in the layout described at the top of this file
+export function encodeVectorFile(
+	entries: Record<string, EmbeddingEntry>,
+	meta?: EmbeddingsData['meta'],
+	removedPaths: string[] = []
+): ArrayBuffer {
+	const header: SegmentHeader = { meta, entries: [] };
+	let floatCount = 0;
+
+	for (const [path, entry] of Object.entries(entries)) {
+		const dim = entry.embedding.length;
+		header.entries.push({
+			path,
+			hash: entry.hash,
+			mtime: entry.mtime,
+			size: entry.size,
+			dim,
+			chunks: entry.chunks?.map(({ embedding, ...rest }) => rest),
+		});
+		floatCount += dim * (1 + (entry.chunks?.length || 0));
+	}
+	for (const path of removedPaths) {
+		header.entries.push({ path, deleted: true });
+	}
+
+	const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+	const paddedHeaderLength = Math.ceil(headerBytes.length / 4) * 4;
+	const vectorStart = 12 + paddedHeaderLength;
+	const buffer = new ArrayBuffer(vectorStart + floatCount * 4);
+	const bytes = new Uint8Array(buffer);
+	const view = new DataView(buffer);
+
+	for (let i = 0; i < MAGIC.length; i++) {
+		bytes[i] = MAGIC.charCodeAt(i);
+	}
+	view.setUint32(4, FORMAT_VERSION, true);
+	view.setUint32(8, headerBytes.length, true);
+	bytes.set(headerBytes, 12);
+
+	const vectors = new Float32Array(buffer, vectorStart, floatCount);
+	let cursor = 0;
+	for (const entry of Object.values(entries)) {
+		vectors.set(entry.embedding, cursor);
+		cursor += entry.embedding.length;
+		for (const chunk of entry.chunks || []) {
+			vectors.set(chunk.embedding, cursor);
+			cursor += chunk.embedding.length;
+		}
+	}
+
+	return buffer;
+}
+
+function decodeVectorFile(buffer: ArrayBuffer): { header: SegmentHeader; vectors: Float32Array } {
+	const bytes = new Uint8Array(buffer);
+	const view = new DataView(buffer);
+	const magic = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+	if (magic !== MAGIC) {
+		throw new Error('Not a Thoughtlands vector index file');
+	}
+	const version = view.getUint32(4, true);
+	if (version !== FORMAT_VERSION) {
+		throw new Error(`Unsupported vector index version ${version}`);
+	}
+
+	const headerLength = view.getUint32(8, true);
+	const header = JSON.parse(new TextDecoder().decode(bytes.subarray(12, 12 + headerLength))) as SegmentHeader;
+	const vectorStart = 12 + Math.ceil(headerLength / 4) * 4;
+	const vectors = new Float32Array(buffer, vectorStart, (buffer.byteLength - vectorStart) / 4);
+
+	return { header, vectors };
+}
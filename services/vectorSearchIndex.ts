@@ -0,0 +1,278 @@
+export interface VectorSearchHit {
+	path: string; // Note path the vector belongs to
+	similarity: number; // Cosine similarity of the note's best-matching vector
+}
+
+export type VectorSearchFilter = (path: string) => boolean;
+
+const MIN_TRAIN_SIZE = 512; // Below this many vectors an exact scan is fast enough
+const TRAINING_SAMPLE_PER_LIST = 32; // k-means runs on an evenly spaced sample of this many vectors per list
+const KMEANS_ITERATIONS = 6;
+const MIN_PROBES = 4; // Lists scanned per query, at least
+const PROBE_FRACTION = 0.08; // ...or this share of all lists, whichever is larger
+
+interface IndexedVector {
+	path: string;
+	vector: Float32Array; // Normalized, so a dot product is the cosine similarity
+	list: number; // Inverted list the vector is assigned to (-1 before the index is trained)
+}
+
+/**
+ * In-memory approximate nearest-neighbour index (IVF: inverted lists over k-means centroids).
+ *
+ * Every vector of a note (its chunk vectors, or the note vector for entries without chunks) is
+ * assigned to the nearest centroid. A query scans only the lists of the closest centroids and keeps
+ * widening the probe until enough distinct notes pass the filter, so results are grouped per note.
+ * Indexes below MIN_TRAIN_SIZE are scanned exactly. Vectors added later are assigned to the existing
+ * lists; the centroids are retrained once the index has doubled in size since the last training.
+ */
+export class VectorSearchIndex {
+	private dimension: number;
+	private items: Map<number, IndexedVector> = new Map();
+	private pathItems: Map<string, number[]> = new Map();
+	private nextId: number = 0;
+	private centroids: Float32Array[] = [];
+	private lists: Set<number>[] = [];
+	private trainedSize: number = 0;
+
+	constructor(dimension: number) {
+		this.dimension = dimension;
+	}
+
+	getDimension(): number {
+		return this.dimension;
+	}
+
+	// Number of indexed vectors
+	get size(): number {
+		return this.items.size;
+	}
+
+	// Number of indexed notes
+	get noteCount(): number {
+		return this.pathItems.size;
+	}
+
+	// Add many notes at once, training the lists a single time at the end
+	bulkLoad(notes: Iterable<[string, number[][]]>): void {
+		for (const [path, vectors] of notes) {
+			this.addVectors(path, vectors);
+		}
+		if (this.items.size >= MIN_TRAIN_SIZE) {
+			this.train();
+		}
+	}
+
+	// Replace all vectors of a note
+	setNote(path: string, vectors: number[][]): void {
+		this.removeNote(path);
+		this.addVectors(path, vectors);
+		if (this.items.size >= MIN_TRAIN_SIZE && this.items.size >= this.trainedSize * 2) {
+			this.train();
+		}
+	}
+
+	removeNote(path: string): void {
+		const ids = this.pathItems.get(path);
+		if (!ids) return;
+		for (const id of ids) {
+			const item = this.items.get(id);
+			if (item && item.list >= 0) {
+				this.lists[item.list].delete(id);
+			}
+			this.items.delete(id);
+		}
+		this.pathItems.delete(path);
+	}
+
+	renameNote(oldPath: string, newPath: string): void {
+		const ids = this.pathItems.get(oldPath);
+		if (!ids) return;
+		this.removeNote(newPath);
+		for (const id of ids) {
+			const item = this.items.get(id);
+			if (item) item.path = newPath;
+		}
+		this.pathItems.delete(oldPath);
+		this.pathItems.set(newPath, ids);
+	}
+
+	// Approximate top-k notes for a query vector
+	search(query: number[], k: number, filter?: VectorSearchFilter): VectorSearchHit[] {
+		if (k <= 0 || this.items.size === 0 || query.length !== this.dimension) {
+			return [];
+		}
+
+		const normalized = this.normalize(query);
+		const best = new Map<string, number>();
+		// The filter usually resolves files, so evaluate it once per note rather than once per chunk
+		const allowed = new Map<string, boolean>();
+		const scan = (ids: Iterable<number>) => {
+			for (const id of ids) {
+				const item = this.items.get(id);
+				if (!item) continue;
+				if (filter) {
+					let ok = allowed.get(item.path);
+					if (ok === undefined) {
+						ok = filter(item.path);
+						allowed.set(item.path, ok);
+					}
+					if (!ok) continue;
+				}
+				const similarity = this.dot(normalized, item.vector);
+				const previous = best.get(item.path);
+				if (previous === undefined || similarity > previous) {
+					best.set(item.path, similarity);
+				}
+			}
+		};
+
+		if (this.centroids.length === 0) {
+			scan(this.items.keys());
+		} else {
+			const order = this.centroids
+				.map((centroid, list) => ({ list, similarity: this.dot(normalized, centroid) }))
+				.sort((a, b) => b.similarity - a.similarity);
+			const probes = Math.max(MIN_PROBES, Math.ceil(this.centroids.length * PROBE_FRACTION));
+			for (let i = 0; i < order.length; i++) {
+				scan(this.lists[order[i].list]);
+				// Keep probing past the minimum when the filter leaves too few notes
+				if (i + 1 >= probes && best.size >= k) break;
+			}
+		}
+
+		return this.topHits(best, k);
+	}
+
+	// Exact top-k restricted to the given notes (cheaper than probing when the candidate set is small)
+	searchWithin(query: number[], paths: Iterable<string>, k: number): VectorSearchHit[] {
+		if (k <= 0 || query.length !== this.dimension) {
+			return [];
+		}
+
+		const normalized = this.normalize(query);
+		const best = new Map<string, number>();
+		for (const path of paths) {
+			const ids = this.pathItems.get(path);
+			if (!ids) continue;
+			for (const id of ids) {
+				const item = this.items.get(id);
+				if (!item) continue;
+				const similarity = this.dot(normalized, item.vector);
+				const previous = best.get(path);
+				if (previous === undefined || similarity > previous) {
+					best.set(path, similarity);
+				}
+			}
+		}
+
+		return this.topHits(best, k);
+	}
+
+	private addVectors(path: string, vectors: number[][]): void {
+		const ids: number[] = [];
+		for (const vector of vectors) {
+			if (vector.length !== this.dimension) continue;
+			const id = this.nextId++;
+			const normalized = this.normalize(vector);
+			const list = this.centroids.length > 0 ? this.nearestCentroid(normalized) : -1;
+			this.items.set(id, { path, vector: normalized, list });
+			if (list >= 0) {
+				this.lists[list].add(id);
+			}
+			ids.push(id);
+		}
+		if (ids.length > 0) {
+			this.pathItems.set(path, ids);
+		}
+	}
+
+	// k-means over a sample of the vectors, then (re)assign every vector to its nearest centroid
+	private train(): void {
+		const startTime = Date.now();
+		const all = Array.from(this.items.values());
+		// Fewer, larger lists than the usual sqrt(n) keep training cheap; queries scan a little more
+		const listCount = Math.max(1, Math.round(Math.sqrt(all.length) / 2));
+		const step = Math.max(1, Math.floor(all.length / (listCount * TRAINING_SAMPLE_PER_LIST)));
+		const sample: Float32Array[] = [];
+		for (let i = 0; i < all.length; i += step) {
+			sample.push(all[i].vector);
+		}
+
+		// Evenly spaced initial centroids keep training deterministic
+		let centroids: Float32Array[] = [];
+		const initStep = sample.length / listCount;
+		for (let c = 0; c < listCount; c++) {
+			centroids.push(Float32Array.from(sample[Math.floor(c * initStep)]));
+		}
+
+		for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+			const sums = centroids.map(() => new Float32Array(this.dimension));
+			const counts = new Array(centroids.length).fill(0);
+			for (const vector of sample) {
+				const list = this.nearestCentroid(vector, centroids);
+				const sum = sums[list];
+				for (let d = 0; d < this.dimension; d++) {
+					sum[d] += vector[d];
+				}
+				counts[list]++;
+			}
+			// Empty clusters keep their previous centroid
+			centroids = centroids.map((centroid, list) => counts[list] > 0 ? this.normalize(sums[list]) : centroid);
+		}
+
+		this.centroids = centroids;
+		this.lists = centroids.map(() => new Set<number>());
+		for (const [id, item] of this.items) {
+			item.list = this.nearestCentroid(item.vector);
+			this.lists[item.list].add(id);
+		}
+		this.trainedSize = this.items.size;
+
+		console.log(`[Thoughtlands:VectorSearchIndex] Trained ${centroids.length} lists over ${all.length} vectors in ${Date.now() - startTime}ms`);
+	}
+
+	private nearestCentroid(vector: Float32Array, centroids: Float32Array[] = this.centroids): number {
+		let bestList = 0;
+		let bestSimilarity = -Infinity;
+		for (let list = 0; list < centroids.length; list++) {
+			const similarity = this.dot(vector, centroids[list]);
+			if (similarity > bestSimilarity) {
+				bestSimilarity = similarity;
+				bestList = list;
+			}
+		}
+		return bestList;
+	}
+
+	private topHits(best: Map<string, number>, k: number): VectorSearchHit[] {
+		return Array.from(best.entries())
+			.map(([path, similarity]) => ({ path, similarity }))
+			.sort((a, b) => b.similarity - a.similarity)
+			.slice(0, k);
+	}
+
+	private normalize(vector: ArrayLike<number>): Float32Array {
+		const result = new Float32Array(vector.length);
+		let norm = 0;
+		for (let i = 0; i < vector.length; i++) {
+			norm += vector[i] * vector[i];
+		}
+		norm = Math.sqrt(norm);
+		if (norm === 0) {
+			return result;
+		}
+		for (let i = 0; i < vector.length; i++) {
+			result[i] = vector[i] / norm;
+		}
+		return result;
+	}
+
+	private dot(a: Float32Array, b: Float32Array): number {
+		let sum = 0;
+		for (let i = 0; i < a.length; i++) {
+			sum += a[i] * b[i];
+		}
+		return sum;
+	}
+}
@@ -1,11 +1,31 @@
 export type AIMode = 'openai' | 'local';
 
+// Backend used to generate embeddings (independent of the chat backend chosen by aiMode)
+export type EmbeddingProviderType = 'ollama' | 'openai' | 'openai-compatible';
+
+// How chunk-level similarities are combined into a single note-level score
+export type ChunkAggregation = 'max' | 'top-k-avg';
+
+// How keyword (BM25) and embedding rankings are combined in Search + AI Analysis
+export type HybridFusionMethod = 'rrf' | 'weighted';
+
+// How Discover Regions groups notes: k-means over every note, or density-based clusters that leave outliers out
+export type DiscoveryMethod = 'kmeans' | 'density';
+
+// How Discover Regions names its proposals
+export type DiscoveryNaming = 'keywords' | 'ai';
+
 export interface ThoughtlandsSettings {
 	aiMode: AIMode; // 'openai' or 'local'
 	openAIApiKey: string;
 	ollamaUrl: string; // URL for Ollama API (default: http://localhost:11434)
 	ollamaEmbeddingModel: string; // Model name for embeddings (default: nomic-embed-text)
 	ollamaChatModel: string; // Model name for chat/tag analysis (default: llama3.2 or similar)
+	embeddingProvider: EmbeddingProviderType; // 'ollama', 'openai' or 'openai-compatible' (default: follows aiMode)
+	openAIEmbeddingModel: string; // OpenAI embedding model (default: text-embedding-3-small)
+	compatibleBaseUrl: string; // Base URL of an OpenAI-compatible server, including /v1 (default: http://localhost:1234/v1)
+	compatibleApiKey: string; // API key for the OpenAI-compatible server (optional)
+	compatibleEmbeddingModel: string; // Embedding model name on the OpenAI-compatible server
 	ignoredTags: string[];
 	ignoredPaths: string[];
 	includedPaths: string[]; // Folders to include (empty = all)
@@ -14,6 +34,27 @@ export interface ThoughtlandsSettings {
 	aiModel: string; // OpenAI model (for backward compatibility)
 	embeddingSimilarityThreshold: number; // 0-1, how similar notes need to be (default: 0.65)
 	maxEmbeddingResults: number; // Max notes to find via embeddings (default: 20)
+	chunkSize: number; // Target characters per embedded chunk (default: 1500)
+	maxChunksPerNote: number; // Chunks grow larger for long notes to stay under this (default: 20)
+	chunkAggregation: ChunkAggregation; // 'max' or 'top-k-avg' (default: max)
+	chunkTopK: number; // Number of best chunk matches averaged in top-k-avg mode (default: 3)
+	hybridFusion: HybridFusionMethod; // Search + AI Analysis ranking: reciprocal rank fusion or weighted sum (default: rrf)
+	hybridLexicalWeight: number; // 0-1, share of the keyword score in the weighted sum (default: 0.5)
+	discoveryMethod: DiscoveryMethod; // Discover Regions clustering: 'kmeans' or 'density' (default: kmeans)
+	discoveryMinClusterSize: number; // Smallest group of notes proposed as a region (default: 5)
+	discoveryDensitySimilarity: number; // 0-1, similarity at which notes count as neighbours in density clustering (default: 0.75)
+	discoveryNaming: DiscoveryNaming; // Name proposals from distinctive keywords or with the AI (default: keywords)
+	updateCanvasesOnRename: boolean; // Rewrite file nodes in region canvases when notes are renamed/deleted (default: true)
+	embeddingConcurrency: number; // Batched embedding requests in flight during the background embedding job (default: 1)
+	embeddingMaxRequestsPerSecond: number; // Cap on embedding requests per second during the job, 0 = no cap (default: 5)
+	embeddingOnlyWhenIdle: boolean; // Only run the embedding job while the vault hasn't been edited for 30 seconds (default: false)
+	embeddingStripFrontmatter: boolean; // Preprocessing: leave YAML frontmatter out of embedded text (default: false)
+	embeddingDropCodeBlocks: boolean; // Preprocessing: leave fenced code blocks out of embedded text (default: false)
+	embeddingResolveEmbeds: boolean; // Preprocessing: replace ![[embeds]] with the embedded note's text (default: false)
+	embeddingPrependTitle: boolean; // Preprocessing: prepend the note title to each chunk (default: false)
+	embeddingPrependHeadings: boolean; // Preprocessing: prepend the chunk's heading (default: false)
+	embeddingPrependTags: boolean; // Preprocessing: prepend the note's tags (default: false)
+	embeddingTaskPrefixes: boolean; // Preprocessing: add model-specific prefixes such as search_document: / search_query: (default: false)
 }
 
 export const DEFAULT_SETTINGS: ThoughtlandsSettings = {
@@ -22,6 +63,11 @@ export const DEFAULT_SETTINGS: ThoughtlandsSettings = {
 	ollamaUrl: 'http://localhost:11434',
 	ollamaEmbeddingModel: 'nomic-embed-text',
 	ollamaChatModel: 'llama3.2',
+	embeddingProvider: 'openai',
+	openAIEmbeddingModel: 'text-embedding-3-small',
+	compatibleBaseUrl: 'http://localhost:1234/v1',
+	compatibleApiKey: '',
+	compatibleEmbeddingModel: '',
 	ignoredTags: [],
 	ignoredPaths: [],
 	includedPaths: [],
@@ -30,5 +76,26 @@ export const DEFAULT_SETTINGS: ThoughtlandsSettings = {
 	aiModel: 'gpt-3.5-turbo',
 	embeddingSimilarityThreshold: 0.65,
 	maxEmbeddingResults: 20,
+	chunkSize: 1500,
+	maxChunksPerNote: 20,
+	chunkAggregation: 'max',
+	chunkTopK: 3,
+	hybridFusion: 'rrf',
+	hybridLexicalWeight: 0.5,
+	discoveryMethod: 'kmeans',
+	discoveryMinClusterSize: 5,
+	discoveryDensitySimilarity: 0.75,
+	discoveryNaming: 'keywords',
+	updateCanvasesOnRename: true,
+	embeddingConcurrency: 1,
+	embeddingMaxRequestsPerSecond: 5,
+	embeddingOnlyWhenIdle: false,
+	embeddingStripFrontmatter: false,
+	embeddingDropCodeBlocks: false,
+	embeddingResolveEmbeds: false,
+	embeddingPrependTitle: false,
+	embeddingPrependHeadings: false,
+	embeddingPrependTags: false,
+	embeddingTaskPrefixes: false,
 };
 
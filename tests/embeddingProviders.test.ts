@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { OllamaEmbeddingProvider, OpenAICompatibleEmbeddingProvider } from '../services/embeddingProviders';
+import { DEFAULT_SETTINGS } from '../settings/thoughtlandsSettings';
+import { jsonResponse, test, withFetch } from './harness';
+
+const BASE_URL = 'http://localhost:1234/v1';
+
+test('OpenAI-compatible: rate limits and server errors are retried', async () => {
+	const provider = new OpenAICompatibleEmbeddingProvider('openai-compatible', BASE_URL, '');
+	let embedding: number[] = [];
+	const urls = await withFetch((_, __, call) => {
+		if (call === 0) return jsonResponse({ error: { message: 'Rate limit reached' } }, 429, { 'retry-after': '0' });
+		if (call === 1) return jsonResponse({ error: { message: 'Overloaded' } }, 503, { 'retry-after': '0' });
+		return jsonResponse({ data: [{ index: 0, embedding: [0.1, 0.2] }] });
+	}, async () => {
+		embedding = await provider.embed('garden', 'bge-m3');
+	});
+	assert.deepStrictEqual(embedding, [0.1, 0.2]);
+	assert.deepStrictEqual(urls, [`${BASE_URL}/embeddings`, `${BASE_URL}/embeddings`, `${BASE_URL}/embeddings`]);
+});
+
+test('OpenAI-compatible: bad requests and auth errors are not retried', async () => {
+	const provider = new OpenAICompatibleEmbeddingProvider('openai', BASE_URL, 'sk-test');
+	let authorization: string | undefined;
+	const urls = await withFetch((_, init) => {
+		authorization = (init.headers as Record<string, string>)['Authorization'];
+		return jsonResponse({ error: { message: 'Incorrect API key provided' } }, 401);
+	}, async () => {
+		await assert.rejects(provider.embed('garden', 'text-embedding-3-small'), /Embedding API error: 401 - Incorrect API key provided/);
+	});
+	assert.strictEqual(urls.length, 1);
+	assert.strictEqual(authorization, 'Bearer sk-test');
+});
+
+test('OpenAI-compatible: batch results follow the input order', async () => {
+	const provider = new OpenAICompatibleEmbeddingProvider('openai-compatible', BASE_URL, '');
+	let input: unknown;
+	let embeddings: number[][] = [];
+	await withFetch((_, init) => {
+		input = JSON.parse(String(init.body)).input;
+		return jsonResponse({ data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }] });
+	}, async () => {
+		embeddings = await provider.embedBatch(['first', 'second'], 'bge-m3');
+	});
+	assert.deepStrictEqual(input, ['first', 'second']);
+	assert.deepStrictEqual(embeddings, [[1], [2]]);
+});
+
+// Each test uses its own server URL since the detected endpoint is remembered per server
+function ollamaProvider(port: number): OllamaEmbeddingProvider {
+	return new OllamaEmbeddingProvider({ ...DEFAULT_SETTINGS, ollamaUrl: `http://localhost:${port}/` });
+}
+
+test('Ollama: a batch is a single /api/embed request', async () => {
+	const provider = ollamaProvider(11501);
+	let embeddings: number[][] = [];
+	const urls = await withFetch(() => jsonResponse({ embeddings: [[1], [2]] }), async () => {
+		embeddings = await provider.embedBatch(['first', 'second'], 'nomic-embed-text');
+	});
+	assert.deepStrictEqual(embeddings, [[1], [2]]);
+	assert.deepStrictEqual(urls, ['http://localhost:11501/api/embed']);
+});
+
+test('Ollama: servers without /api/embed fall back to /api/embeddings, remembered for later requests', async () => {
+	const provider = ollamaProvider(11502);
+	let first: number[][] = [];
+	let second: number[] = [];
+	const urls = await withFetch((url, init) => {
+		if (url.endsWith('/api/embed')) return new Response('404 page not found', { status: 404 });
+		const prompt = JSON.parse(String(init.body)).prompt;
+		return jsonResponse({ embedding: [prompt.length] });
+	}, async () => {
+		first = await provider.embedBatch(['a', 'bb'], 'nomic-embed-text');
+		second = await provider.embed('ccc', 'nomic-embed-text');
+	});
+	assert.deepStrictEqual(first, [[1], [2]]);
+	assert.deepStrictEqual(second, [3]);
+	assert.deepStrictEqual(urls.map(url => url.replace('http://localhost:11502', '')), [
+		'/api/embed',
+		'/api/embeddings',
+		'/api/embeddings',
+		'/api/embeddings',
+	]);
+});
+
+test('Ollama: a missing model is reported instead of falling back', async () => {
+	const provider = ollamaProvider(11503);
+	const urls = await withFetch(() => jsonResponse({ error: 'model "nomic-embed-text" not found, try pulling it first' }, 404), async () => {
+		await assert.rejects(provider.embed('garden', 'nomic-embed-text'), /Ollama API error: 404 - .*not found, try pulling it first/);
+	});
+	assert.deepStrictEqual(urls, ['http://localhost:11503/api/embed']);
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { EmbeddingService } from '../services/embeddingService';
+import { DEFAULT_SETTINGS } from '../settings/thoughtlandsSettings';
+import { createFakeVault } from './fakeVault';
+import { jsonResponse, test, withFetch } from './harness';
+
+const BASE_URL = 'http://localhost:1234/v1';
+const MODEL_ID = 'openai-compatible/bge-m3';
+
+function createService(): EmbeddingService {
+	const vault = createFakeVault();
+	const settings = { ...DEFAULT_SETTINGS, embeddingProvider: 'openai-compatible' as const, compatibleBaseUrl: BASE_URL, compatibleEmbeddingModel: 'bge-m3' };
+	return new EmbeddingService(vault.app, settings, vault.plugin);
+}
+
+// Calls the private batching entry point the note builds go through
+function embedInputs(service: EmbeddingService, inputs: string[]): Promise<Array<number[] | Error>> {
+	return service['embedInputs'](inputs, MODEL_ID);
+}
+
+// Single inputs are sent as a plain string
+function requestInputs(init: RequestInit): string[] {
+	const input = JSON.parse(String(init.body)).input;
+	return Array.isArray(input) ? input : [input];
+}
+
+function vectorsFor(inputs: string[]): Response {
+	return jsonResponse({ data: inputs.map((input, index) => ({ index, embedding: [input.length, 1] })) });
+}
+
+test('Embedding batches: an input the server rejects is isolated by splitting', async () => {
+	const service = createService();
+	const inputs = ['one', 'two', 'three', 'far too long', 'five', 'six'];
+	const batches: string[][] = [];
+	let results: Array<number[] | Error> = [];
+	await withFetch((_, init) => {
+		const batch = requestInputs(init);
+		batches.push(batch);
+		return batch.includes('far too long')
+			? jsonResponse({ error: { message: "This model's maximum context length is 8192 tokens" } }, 400)
+			: vectorsFor(batch);
+	}, async () => {
+		results = await embedInputs(service, inputs);
+	});
+
+	assert.deepStrictEqual(results.map(result => result instanceof Error), [false, false, false, true, false, false]);
+	assert.match((results[3] as Error).message, /maximum context length/);
+	assert.deepStrictEqual(results[5], [3, 1]);
+	assert.deepStrictEqual(batches, [
+		inputs,
+		['one', 'two', 'three'],
+		['far too long', 'five', 'six'],
+		['far too long', 'five'],
+		['far too long'],
+		['five'],
+		['six'],
+	]);
+});
+
+test('Embedding batches: auth errors fail the batch once instead of splitting it', async () => {
+	const service = createService();
+	const urls = await withFetch(() => jsonResponse({ error: { message: 'Incorrect API key provided' } }, 401), async () => {
+		await assert.rejects(embedInputs(service, ['one', 'two', 'three', 'four']), /Embedding API error: 401/);
+	});
+	assert.strictEqual(urls.length, 1);
+});
+
+test('Embedding batches: the batch size shrinks after a slow batch and grows after a fast one', async () => {
+	const service = createService();
+	const originalNow = Date.now;
+	let clock = 0;
+	let elapsedPerRequest = 0;
+	const sizes: number[] = [];
+	Date.now = () => clock;
+	try {
+		await withFetch((_, init) => {
+			const batch = requestInputs(init);
+			sizes.push(batch.length);
+			clock += elapsedPerRequest;
+			return vectorsFor(batch);
+		}, async () => {
+			elapsedPerRequest = 20000;
+			await embedInputs(service, ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']);
+			assert.strictEqual(service['batchSize'], 4);
+
+			elapsedPerRequest = 100;
+			await embedInputs(service, ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']);
+			assert.strictEqual(service['batchSize'], 8);
+		});
+	} finally {
+		Date.now = originalNow;
+	}
+	assert.deepStrictEqual(sizes, [8, 4, 4]);
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { EmbeddingService } from '../services/embeddingService';
+import { EmbeddingUpdateService } from '../services/embeddingUpdateService';
+import { LivingRegionService } from '../services/livingRegionService';
+import { NoteService } from '../services/noteService';
+import { RegionService } from '../services/regionService';
+import { DEFAULT_SETTINGS } from '../settings/thoughtlandsSettings';
+import { createFakeVault } from './fakeVault';
+import { jsonResponse, test, withFetch } from './harness';
+
+// Embeds text by topic: one dimension per keyword, so similarity follows what a note is about
+function topicVector(text: string): number[] {
+	const count = (word: string) => (text.toLowerCase().match(new RegExp(word, 'g')) || []).length;
+	return [count('garden'), count('ocean'), 0.01];
+}
+
+function topicServer(url: string, init: RequestInit): Response {
+	const body = JSON.parse(String(init.body));
+	if (url.endsWith('/api/embed')) {
+		const inputs: string[] = Array.isArray(body.input) ? body.input : [body.input];
+		return jsonResponse({ embeddings: inputs.map(topicVector) });
+	}
+	return jsonResponse({ embedding: topicVector(body.prompt) });
+}
+
+// The plugin's services over a fake vault holding one garden note and one ocean note
+async function setUp(port: number) {
+	const vault = createFakeVault();
+	const settings = { ...DEFAULT_SETTINGS, embeddingProvider: 'ollama' as const, ollamaUrl: `http://localhost:${port}` };
+	const noteService = new NoteService(vault.app.metadataCache, vault.app.vault, settings);
+	const regionService = new RegionService(settings);
+	const embeddingService = new EmbeddingService(vault.app, settings, vault.plugin as never);
+	const livingRegionService = new LivingRegionService(vault.app, regionService, noteService, embeddingService, settings);
+	let regionUpdates = 0;
+	const updates = new EmbeddingUpdateService(vault.app, settings, embeddingService, regionService, noteService, livingRegionService, async () => {
+		regionUpdates++;
+	});
+	const garden = vault.addNote('a.md', 'Planting the garden in spring: garden beds and garden paths.');
+	const ocean = vault.addNote('b.md', 'Tides of the ocean, and the ocean floor seen from a boat.');
+	await embeddingService.generateInitialEmbeddings(vault.app.vault.getMarkdownFiles());
+	return { vault, regionService, embeddingService, updates, garden, ocean, regionUpdates: () => regionUpdates };
+}
+
+test('Embedding updates: modifying a candidate note suggests adding it to a live region', async () => {
+	await withFetch(topicServer, async () => {
+		const { vault, regionService, updates, garden, ocean, regionUpdates } = await setUp(11601);
+		const region = regionService.createRegion('Gardening', '#00aa00', 'concept', {
+			type: 'concept',
+			concepts: ['garden'],
+			processingInfo: { conceptText: 'garden', similarityThreshold: 0.9 },
+		}, [garden.path]);
+		regionService.setLive(region.id, true);
+
+		vault.modifyNote(ocean, 'Now a garden note: the garden shed and the garden hose.');
+		updates.enqueue(ocean, false);
+		await updates.whenIdle();
+
+		const pending = regionService.getPendingLiveChanges(region);
+		assert.deepStrictEqual(pending.map(change => [change.path, change.change]), [[ocean.path, 'add']]);
+		assert.ok(pending[0].similarity! >= 0.9);
+		assert.strictEqual(regionUpdates(), 1);
+	});
+});
+
+test('Embedding updates: notes with a current embedding are not re-embedded', async () => {
+	let requests = 0;
+	await withFetch((url, init) => {
+		requests++;
+		return topicServer(url, init);
+	}, async () => {
+		const { updates, garden } = await setUp(11602);
+		const afterBuild = requests;
+		updates.enqueue(garden, false);
+		await updates.whenIdle();
+		assert.strictEqual(requests, afterBuild);
+	});
+});
+
+test('Embedding updates: the search index serves a modified note\'s new vector', async () => {
+	await withFetch(topicServer, async () => {
+		const { vault, embeddingService, updates, ocean } = await setUp(11603);
+		const gardenQuery = topicVector('garden');
+		const before = await embeddingService.topK(gardenQuery, 2);
+		assert.strictEqual(before[0].file.path, 'a.md');
+		assert.ok(before.find(result => result.file.path === ocean.path)!.similarity < 0.1);
+
+		vault.modifyNote(ocean, 'Now a garden note: the garden shed and the garden hose.');
+		updates.enqueue(ocean, false);
+		await updates.whenIdle();
+
+		const after = await embeddingService.topK(gardenQuery, 2);
+		assert.ok(after.find(result => result.file.path === ocean.path)!.similarity > 0.99);
+		const [oceanQueryHit] = await embeddingService.topK(topicVector('ocean'), 1);
+		assert.ok(oceanQueryHit.similarity < 0.1);
+	});
+});
@@ -0,0 +1,98 @@
+import { App, TFile } from 'obsidian';
+
+// An in-memory vault: markdown notes with tags, and a file adapter for the plugin's own files
+export interface FakeVault {
+	app: App;
+	plugin: { manifest: { dir: string }; loadData(): Promise<unknown>; saveData(data: unknown): Promise<void> };
+	addNote(path: string, content: string, tags?: string[]): TFile;
+	modifyNote(file: TFile, content: string): void;
+}
+
+export function createFakeVault(): FakeVault {
+	const notes: Map<string, { file: TFile; content: string; tags: string[] }> = new Map();
+	const files: Map<string, string | ArrayBuffer> = new Map(); // Adapter files (plugin data)
+	const folders: Set<string> = new Set();
+	let pluginData: unknown = null;
+	let clock = 1;
+
+	const isInside = (path: string, folder: string) => path.startsWith(`${folder}/`);
+	const read = (path: string) => {
+		const data = files.get(path);
+		if (data === undefined) throw new Error(`No such file: ${path}`);
+		return data;
+	};
+
+	const adapter = {
+		exists: async (path: string) => files.has(path) || folders.has(path) || Array.from(files.keys()).some(file => isInside(file, path)),
+		list: async (folder: string) => {
+			const children = (paths: Iterable<string>) => Array.from(paths).filter(path => isInside(path, folder) && !path.substring(folder.length + 1).includes('/'));
+			const nested = Array.from(files.keys()).filter(path => isInside(path, folder)).map(path => `${folder}/${path.substring(folder.length + 1).split('/')[0]}`);
+			return {
+				files: children(files.keys()),
+				folders: Array.from(new Set([...children(folders), ...nested.filter(path => !files.has(path))])),
+			};
+		},
+		mkdir: async (path: string) => {
+			folders.add(path);
+		},
+		read: async (path: string) => String(read(path)),
+		write: async (path: string, data: string) => {
+			files.set(path, data);
+		},
+		readBinary: async (path: string) => read(path) as ArrayBuffer,
+		writeBinary: async (path: string, data: ArrayBuffer) => {
+			files.set(path, data);
+		},
+		remove: async (path: string) => {
+			files.delete(path);
+		},
+		rmdir: async (path: string) => {
+			for (const file of Array.from(files.keys())) {
+				if (isInside(file, path)) files.delete(file);
+			}
+			for (const folder of Array.from(folders)) {
+				if (folder === path || isInside(folder, path)) folders.delete(folder);
+			}
+		},
+	};
+
+	const vault = {
+		adapter,
+		configDir: '.obsidian',
+		read: async (file: TFile) => notes.get(file.path)!.content,
+		cachedRead: async (file: TFile) => notes.get(file.path)!.content,
+		getMarkdownFiles: () => Array.from(notes.values()).map(note => note.file),
+		getAbstractFileByPath: (path: string) => notes.get(path)?.file ?? null,
+	};
+
+	const metadataCache = {
+		getFileCache: (file: TFile) => {
+			const note = notes.get(file.path);
+			return note ? { tags: note.tags.map(tag => ({ tag: `#${tag}` })) } : null;
+		},
+		getFirstLinkpathDest: () => null,
+	};
+
+	return {
+		app: { vault, metadataCache } as unknown as App,
+		plugin: {
+			manifest: { dir: '.obsidian/plugins/thoughtlands' },
+			loadData: async () => pluginData,
+			saveData: async (data: unknown) => {
+				pluginData = data;
+			},
+		},
+		addNote(path: string, content: string, tags: string[] = []): TFile {
+			const file = new TFile();
+			const name = path.split('/').pop()!;
+			Object.assign(file, { path, name, basename: name.replace(/\.md$/, ''), extension: 'md' });
+			file.stat = { ctime: clock, mtime: clock++, size: content.length };
+			notes.set(path, { file, content, tags });
+			return file;
+		},
+		modifyNote(file: TFile, content: string): void {
+			notes.get(file.path)!.content = content;
+			file.stat = { ...file.stat, mtime: clock++, size: content.length };
+		},
+	};
+}
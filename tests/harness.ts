@@ -0,0 +1,54 @@
+// Minimal runner for the offline checks: tests run one after another with the plugin's console logging muted
+type TestCase = { name: string; fn: () => void | Promise<void> };
+
+const cases: TestCase[] = [];
+
+export function test(name: string, fn: () => void | Promise<void>): void {
+	cases.push({ name, fn });
+}
+
+export async function run(): Promise<void> {
+	const original = { log: console.log, warn: console.warn, error: console.error };
+	let failed = 0;
+	for (const { name, fn } of cases) {
+		console.log = console.warn = console.error = () => undefined;
+		try {
+			await fn();
+			original.log(`ok - ${name}`);
+		} catch (error) {
+			failed++;
+			original.log(`not ok - ${name}`);
+			original.error(error);
+		} finally {
+			Object.assign(console, original);
+		}
+	}
+	console.log(`\n${cases.length - failed}/${cases.length} passed`);
+	if (failed > 0) {
+		process.exitCode = 1;
+	}
+}
+
+// Replace the global fetch for the duration of a test; the handler sees each request in order
+export async function withFetch(
+	handler: (url: string, init: RequestInit, call: number) => Response | Promise<Response>,
+	fn: () => Promise<void>
+): Promise<string[]> {
+	const original = globalThis.fetch;
+	const urls: string[] = [];
+	globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+		const url = String(input);
+		urls.push(url);
+		return handler(url, init || {}, urls.length - 1);
+	}) as typeof fetch;
+	try {
+		await fn();
+	} finally {
+		globalThis.fetch = original;
+	}
+	return urls;
+}
+
+export function jsonResponse(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
@@ -0,0 +1,10 @@
+// Offline checks, run with `npm test`
+import './llmClient.test';
+import './embeddingProviders.test';
+import './embeddingService.test';
+import './embeddingUpdates.test';
+import './regionSets.test';
+import './searchQuery.test';
+import { run } from './harness';
+
+run();
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { ChatMessage, FakeLLMClient, LLMError, parseJSONResponse } from '../services/llmClient';
+import { test } from './harness';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'Name this region' }];
+
+// A retryable failure without the backoff delay
+function retryableError(message: string): LLMError {
+	const error = new LLMError(message, true, 503);
+	error.retryAfterMs = 0;
+	return error;
+}
+
+test('complete retries retryable errors and returns the trimmed reply', async () => {
+	let attempts = 0;
+	const client = new FakeLLMClient(() => {
+		if (++attempts < 3) throw retryableError('Service unavailable');
+		return '  Garden notes \n';
+	});
+	assert.strictEqual(await client.complete(messages), 'Garden notes');
+	assert.strictEqual(client.calls.length, 3);
+});
+
+test('complete gives up once the retries are used', async () => {
+	const client = new FakeLLMClient(() => {
+		throw retryableError('Service unavailable');
+	});
+	await assert.rejects(client.complete(messages, { retries: 1 }), /Service unavailable/);
+	assert.strictEqual(client.calls.length, 2);
+});
+
+test('complete does not retry errors that are not retryable', async () => {
+	const client = new FakeLLMClient(() => {
+		throw new LLMError('Invalid API key', false, 401);
+	});
+	await assert.rejects(client.complete(messages), (error: unknown) => error instanceof LLMError && error.status === 401);
+	assert.strictEqual(client.calls.length, 1);
+});
+
+test('a stream that already sent tokens is not retried', async () => {
+	const tokens: string[] = [];
+	const client = new FakeLLMClient((_, options) => {
+		options.onToken!('Garden ');
+		throw retryableError('Connection reset');
+	});
+	await assert.rejects(client.complete(messages, { onToken: token => tokens.push(token) }), /Connection reset/);
+	assert.strictEqual(client.calls.length, 1);
+	assert.deepStrictEqual(tokens, ['Garden ']);
+});
+
+test('a stream that failed before any token is retried', async () => {
+	let attempts = 0;
+	const tokens: string[] = [];
+	const client = new FakeLLMClient(() => {
+		if (++attempts === 1) throw retryableError('Connection reset');
+		return 'Garden notes';
+	});
+	assert.strictEqual(await client.complete(messages, { onToken: token => tokens.push(token) }), 'Garden notes');
+	assert.strictEqual(client.calls.length, 2);
+	assert.strictEqual(tokens.join(''), 'Garden notes');
+});
+
+test('completeJSON asks for JSON and parses the reply', async () => {
+	const client = new FakeLLMClient(['```json\n["garden", "soil"]\n```']);
+	assert.deepStrictEqual(await client.completeJSON<string[]>(messages), ['garden', 'soil']);
+	assert.strictEqual(client.calls[0].options.json, true);
+});
+
+test('parseJSONResponse falls back to the JSON inside a sentence', () => {
+	assert.deepStrictEqual(parseJSONResponse('{"name": "Garden"}'), { name: 'Garden' });
+	assert.deepStrictEqual(parseJSONResponse('Here are the tags: ["garden", "soil"]. Hope this helps!'), ['garden', 'soil']);
+	assert.deepStrictEqual(parseJSONResponse('Sure! {"name": "Garden", "color": "#27AE60"}'), { name: 'Garden', color: '#27AE60' });
+	assert.throws(() => parseJSONResponse('No JSON here'), (error: unknown) => error instanceof LLMError && /Invalid JSON/.test(error.message));
+});
@@ -0,0 +1,35 @@
+// Stand-ins for the runtime parts of the Obsidian API the services use; run.mjs substitutes this module for 'obsidian'
+
+// Plugins run in a browser window; the services schedule their debounced saves with window timers
+(globalThis as { window?: unknown }).window ??= globalThis;
+
+export class TAbstractFile {
+	path = '';
+	name = '';
+}
+
+export class TFile extends TAbstractFile {
+	basename = '';
+	extension = '';
+	stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export class Notice {
+	constructor(_message: string, _timeout?: number) {}
+
+	setMessage(_message: string): this {
+		return this;
+	}
+
+	hide(): void {}
+}
+
+// Frontmatter and inline tags, with the # prefix
+export function getAllTags(cache: { tags?: Array<{ tag: string }>; frontmatter?: { tags?: string[] } }): string[] | null {
+	const tags = (cache.frontmatter?.tags || []).map(tag => `#${tag.replace(/^#/, '')}`);
+	return [...tags, ...(cache.tags || []).map(tag => tag.tag)];
+}
+
+export function normalizePath(path: string): string {
+	return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
@@ -0,0 +1,16 @@
+import * as assert from 'assert';
+import { combineRegionNotes } from '../models/region';
+import { test } from './harness';
+
+const A = ['a.md', 'ab.md', 'ac.md', 'abc.md'];
+const B = ['b.md', 'ab.md', 'bc.md', 'abc.md'];
+const C = ['c.md', 'ac.md', 'bc.md', 'abc.md'];
+
+test('Combined regions: set operations over three regions', () => {
+	assert.deepStrictEqual(combineRegionNotes('union', [A, B, C]), ['a.md', 'ab.md', 'ac.md', 'abc.md', 'b.md', 'bc.md', 'c.md']);
+	assert.deepStrictEqual(combineRegionNotes('intersection', [A, B, C]), ['abc.md']);
+	assert.deepStrictEqual(combineRegionNotes('difference', [A, B, C]), ['a.md']);
+	// A △ B △ C: notes in one or all three regions
+	assert.deepStrictEqual(combineRegionNotes('symmetric-difference', [A, B, C]), ['a.md', 'abc.md', 'b.md', 'c.md']);
+	assert.deepStrictEqual(combineRegionNotes('symmetric-difference', [A, B]), ['a.md', 'ac.md', 'b.md', 'bc.md']);
+});
@@ -0,0 +1,27 @@
+// Bundles the offline checks (tests/index.ts) with esbuild and runs them with node; no network or Obsidian needed.
+// Imports of 'obsidian' resolve to tests/obsidianStub.ts.
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import process from "process";
+
+const outdir = mkdtempSync(join(tmpdir(), "thoughtlands-tests-"));
+const outfile = join(outdir, "tests.cjs");
+try {
+	await esbuild.build({
+		entryPoints: ["tests/index.ts"],
+		bundle: true,
+		alias: { obsidian: "./tests/obsidianStub.ts" },
+		format: "cjs",
+		platform: "node",
+		target: "es2020",
+		logLevel: "warning",
+		outfile,
+	});
+	const result = spawnSync(process.execPath, [outfile], { stdio: "inherit" });
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
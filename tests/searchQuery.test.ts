@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { SearchableNote, matchesSearchQuery, parseSearchQuery, tryParseSearchQuery } from '../services/searchQuery';
+import { test } from './harness';
+
+function note(path: string, content: string, tags: string[] = [], frontmatter: Record<string, unknown> = {}): SearchableNote {
+	return { path, name: path.split('/').pop()!, tags, frontmatter, metadata: '', content };
+}
+
+const NOTES = [
+	note('Teaching/Feedback loops.md', 'Formative assessment gives students feedback.\nGrading happens later.', ['teaching/assessment'], { status: 'draft', topics: ['feedback', 'grading'] }),
+	note('Teaching/Rubrics.md', 'A rubric for grading essays.\nStudents see it before they write.', ['teaching'], { status: 'published' }),
+	note('Garden/Compost.md', 'Feedback from the soil: compost feeds the garden.', ['gardening'], { status: null }),
+];
+
+// Paths of the notes a query matches
+function search(query: string): string[] {
+	const parsed = parseSearchQuery(query);
+	return NOTES.filter(candidate => matchesSearchQuery(parsed, candidate)).map(candidate => candidate.name);
+}
+
+test('Search query: words, phrases and OR', () => {
+	assert.deepStrictEqual(search('students feedback'), ['Feedback loops.md']);
+	assert.deepStrictEqual(search('"formative assessment"'), ['Feedback loops.md']);
+	assert.deepStrictEqual(search('"assessment formative"'), []);
+	assert.deepStrictEqual(search('rubric OR compost'), ['Rubrics.md', 'Compost.md']);
+	// Lowercase "or" is an ordinary word
+	assert.deepStrictEqual(search('rubric or compost'), []);
+});
+
+test('Search query: OR binds looser than AND, and groups override it', () => {
+	assert.deepStrictEqual(parseSearchQuery('a b OR c'), {
+		type: 'or',
+		children: [{ type: 'and', children: [{ type: 'term', value: 'a' }, { type: 'term', value: 'b' }] }, { type: 'term', value: 'c' }],
+	});
+	assert.deepStrictEqual(search('students grading OR compost'), ['Feedback loops.md', 'Rubrics.md', 'Compost.md']);
+	assert.deepStrictEqual(search('soil (grading OR compost)'), ['Compost.md']);
+	assert.deepStrictEqual(search('feedback (rubric OR garden)'), ['Compost.md']);
+});
+
+test('Search query: negation of words, phrases and groups', () => {
+	assert.deepStrictEqual(search('feedback -compost'), ['Feedback loops.md']);
+	assert.deepStrictEqual(search('-"formative assessment"'), ['Rubrics.md', 'Compost.md']);
+	assert.deepStrictEqual(search('-(rubric OR compost)'), ['Feedback loops.md']);
+});
+
+test('Search query: tag: matches the tag and the tags nested below it', () => {
+	assert.deepStrictEqual(search('tag:#teaching'), ['Feedback loops.md', 'Rubrics.md']);
+	assert.deepStrictEqual(search('tag:teaching/assessment'), ['Feedback loops.md']);
+	// A prefix of a tag name is not the tag
+	assert.deepStrictEqual(search('tag:teach'), []);
+	assert.deepStrictEqual(search('tag:(gardening OR teaching/assessment)'), ['Feedback loops.md', 'Compost.md']);
+});
+
+test('Search query: [property] and [property:value]', () => {
+	assert.deepStrictEqual(search('[topics]'), ['Feedback loops.md']);
+	assert.deepStrictEqual(search('[status:draft]'), ['Feedback loops.md']);
+	assert.deepStrictEqual(search('[Status:published OR draft]'), ['Feedback loops.md', 'Rubrics.md']);
+	// List properties match on any item; empty values match "null"
+	assert.deepStrictEqual(search('[topics:grading]'), ['Feedback loops.md']);
+	assert.deepStrictEqual(search('[status:null]'), ['Compost.md']);
+});
+
+test('Search query: line: needs everything on the same line', () => {
+	assert.deepStrictEqual(search('students grading'), ['Feedback loops.md', 'Rubrics.md']);
+	assert.deepStrictEqual(search('line:(students grading)'), []);
+	assert.deepStrictEqual(search('line:(rubric grading)'), ['Rubrics.md']);
+});
+
+test('Search query: regular expressions and their flags', () => {
+	assert.deepStrictEqual(parseSearchQuery('/gr[ae]d(ing|e)\\//i'), { type: 'regex', pattern: 'gr[ae]d(ing|e)\\/', flags: 'i' });
+	assert.deepStrictEqual(search('/^Grading/m'), ['Feedback loops.md']);
+	assert.deepStrictEqual(search('/^grading/m'), []);
+	assert.deepStrictEqual(search('/^grading/mi'), ['Feedback loops.md']);
+	assert.deepStrictEqual(search('path:/^Garden\\//'), ['Compost.md']);
+});
+
+test('Search query: parse errors report where the query went wrong', () => {
+	const cases: Array<[string, RegExp, number]> = [
+		['feedback OR', /OR needs a term on both sides/, 9],
+		['a (b OR c', /Missing closing "\)"/, 2],
+		['a b)', /Unexpected "\)" without a matching "\("/, 3],
+		['grading - rubric', /"-" must be followed by the term to exclude/, 8],
+		['x tag: y', /tag: needs a value/, 2],
+		['x "open phrase', /Missing closing quote/, 2],
+		['x [status:draft', /Missing closing "\]"/, 2],
+		['x []', /Property name missing/, 2],
+		['/grading/gi', /Unsupported regular expression flags "gi"/, 9],
+		['a /(/', /Invalid regular expression/, 2],
+		['line:(tag:x)', /tag: can't be used inside line:/, 6],
+		['"one"~3', /A proximity search needs at least two words/, 0],
+	];
+	for (const [query, message, position] of cases) {
+		const { query: parsed, error } = tryParseSearchQuery(query);
+		assert.strictEqual(parsed, null, query);
+		assert.match(error!.message, message, query);
+		assert.strictEqual(error!.position, position, query);
+	}
+	assert.throws(() => parseSearchQuery('a )'), { name: 'SearchQueryParseError', position: 2 });
+});
@@ -0,0 +1,235 @@
+import { App, Modal } from 'obsidian';
+import { Region, RegionSetOperation, combineRegionNotes, getSetOperationSymbol } from '../models/region';
+
+export interface CombineRegionsResult {
+	operation: RegionSetOperation;
+	operandIds: string[];
+	name: string;
+	color: string;
+	autoRecompute: boolean;
+}
+
+const OPERATIONS: { value: RegionSetOperation; label: string }[] = [
+	{ value: 'union', label: 'Union - notes in any of the regions' },
+	{ value: 'intersection', label: 'Intersection - notes in all of the regions' },
+	{ value: 'difference', label: 'Difference - notes in the first region and none of the others' },
+	{ value: 'symmetric-difference', label: 'Symmetric difference - notes in an odd number of the regions (exactly one of two)' },
+];
+
+/**
+ * Picks regions and a set operation for a combined region, showing how many notes the result has.
+ * The name follows the chosen regions (e.g. "Pedagogy ∩ Assessment") until it is edited.
+ */
+export class CombineRegionsModal extends Modal {
+	private regions: Region[];
+	private operandIds: string[];
+	private operation: RegionSetOperation = 'intersection';
+	private selectedColor: string;
+	private defaultColors: string[];
+	private autoRecompute = true;
+	private nameEdited = false;
+	private onSubmit: (result: CombineRegionsResult | null) => void; // null when cancelled
+	private submitted = false;
+	private operandsEl: HTMLElement;
+	private previewEl: HTMLElement;
+	private nameInput: HTMLInputElement;
+	private errorEl: HTMLElement;
+
+	constructor(
+		app: App,
+		regions: Region[],
+		initialOperandIds: string[],
+		defaultColors: string[],
+		onSubmit: (result: CombineRegionsResult | null) => void
+	) {
+		super(app);
+		this.regions = regions;
+		this.operandIds = initialOperandIds.filter(id => regions.some(region => region.id === id));
+		this.defaultColors = defaultColors;
+		this.selectedColor = defaultColors[0] || '#E67E22';
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Combine Regions' });
+
+		// Operation
+		const operationSection = contentEl.createDiv({ attr: { style: 'margin: 10px 0;' } });
+		operationSection.createEl('label', {
+			text: 'Operation:',
+			attr: { style: 'display: block; margin-bottom: 5px; font-weight: 500;' }
+		});
+		const operationSelect = operationSection.createEl('select', { attr: { style: 'width: 100%;' } });
+		OPERATIONS.forEach(operation => {
+			operationSelect.createEl('option', { text: operation.label, value: operation.value });
+		});
+		operationSelect.value = this.operation;
+		operationSelect.addEventListener('change', () => {
+			this.operation = operationSelect.value as RegionSetOperation;
+			this.update();
+		});
+
+		// Operands
+		const operandsSection = contentEl.createDiv({ attr: { style: 'margin: 15px 0;' } });
+		operandsSection.createEl('label', {
+			text: 'Regions:',
+			attr: { style: 'display: block; margin-bottom: 5px; font-weight: 500;' }
+		});
+		this.operandsEl = operandsSection.createDiv({
+			attr: { style: 'border: 1px solid var(--background-modifier-border); border-radius: 4px; padding: 4px 8px;' }
+		});
+		this.previewEl = operandsSection.createDiv({
+			attr: { style: 'margin-top: 5px; font-size: 0.9em; color: var(--text-muted);' }
+		});
+
+		// Name
+		contentEl.createEl('label', {
+			text: 'Region Name:',
+			attr: { style: 'display: block; margin: 15px 0 5px 0; font-weight: 500;' }
+		});
+		this.nameInput = contentEl.createEl('input', {
+			type: 'text',
+			attr: { style: 'width: 100%; padding: 6px;' }
+		});
+		this.nameInput.addEventListener('input', () => {
+			this.nameEdited = this.nameInput.value.trim().length > 0;
+		});
+
+		// Color
+		const colorSection = contentEl.createDiv({ attr: { style: 'margin: 15px 0;' } });
+		colorSection.createEl('label', {
+			text: 'Region Color:',
+			attr: { style: 'display: block; margin-bottom: 5px; font-weight: 500;' }
+		});
+		const colorGrid = colorSection.createDiv({ attr: { style: 'display: flex; flex-wrap: wrap; gap: 8px;' } });
+		const colorButtons: HTMLElement[] = [];
+		const swatchStyle = (color: string) => `width: 30px; height: 30px; background-color: ${color}; border: ${color === this.selectedColor ? '3px solid var(--text-normal)' : '2px solid var(--background-modifier-border)'}; border-radius: 4px; cursor: pointer;`;
+		this.defaultColors.forEach(color => {
+			const colorButton = colorGrid.createEl('button', { attr: { style: swatchStyle(color), title: color } });
+			colorButtons.push(colorButton);
+			colorButton.addEventListener('click', () => {
+				this.selectedColor = color;
+				colorButtons.forEach((button, i) => button.setAttribute('style', swatchStyle(this.defaultColors[i])));
+			});
+		});
+
+		// Recompute
+		const recomputeLabel = contentEl.createEl('label', { attr: { style: 'display: flex; align-items: center; gap: 8px; margin: 15px 0 5px 0;' } });
+		const recomputeCheckbox = recomputeLabel.createEl('input', { type: 'checkbox' });
+		recomputeCheckbox.checked = this.autoRecompute;
+		recomputeCheckbox.addEventListener('change', () => {
+			this.autoRecompute = recomputeCheckbox.checked;
+		});
+		recomputeLabel.createSpan({ text: 'Recompute automatically when these regions change' });
+
+		this.errorEl = contentEl.createDiv({
+			attr: { style: 'display: none; color: var(--text-error); font-size: 0.9em; margin-top: 8px;' }
+		});
+
+		const buttonContainer = contentEl.createDiv({ attr: { style: 'text-align: right; margin-top: 10px;' } });
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		const submitButton = buttonContainer.createEl('button', {
+			text: 'Create',
+			attr: { style: 'margin-left: 10px;' }
+		});
+		submitButton.addClass('mod-cta');
+		submitButton.addEventListener('click', () => this.submit());
+
+		this.update();
+	}
+
+	private getOperands(): Region[] {
+		return this.operandIds.map(id => this.regions.find(region => region.id === id)!);
+	}
+
+	// Re-render the operand list, result count and suggested name
+	private update() {
+		this.operandsEl.empty();
+		const operands = this.getOperands();
+
+		operands.forEach((region, index) => {
+			const row = this.operandsEl.createDiv({ attr: { style: 'display: flex; align-items: center; gap: 8px; padding: 3px 0;' } });
+			row.createDiv({ attr: { style: `width: 12px; height: 12px; flex-shrink: 0; background-color: ${region.color}; border-radius: 50%;` } });
+			const label = index === 0 && this.operation === 'difference' ? `${region.name} (keep)` : region.name;
+			row.createEl('span', { text: label, attr: { style: 'flex: 1;' } });
+			row.createEl('span', {
+				text: `${region.notes.length} notes`,
+				attr: { style: 'font-size: 0.85em; color: var(--text-muted);' }
+			});
+			const removeButton = row.createEl('button', {
+				text: '×',
+				attr: { style: 'padding: 0 6px;', title: 'Remove' }
+			});
+			removeButton.addEventListener('click', () => {
+				this.operandIds.splice(index, 1);
+				this.update();
+			});
+		});
+
+		const remaining = this.regions.filter(region => !this.operandIds.includes(region.id));
+		if (remaining.length > 0) {
+			const addSelect = this.operandsEl.createEl('select', { attr: { style: 'width: 100%; margin: 4px 0;' } });
+			addSelect.createEl('option', { text: operands.length === 0 ? 'Add a region...' : 'Add another region...', value: '' });
+			remaining.forEach(region => {
+				addSelect.createEl('option', { text: `${region.name} (${region.notes.length} notes)`, value: region.id });
+			});
+			addSelect.addEventListener('change', () => {
+				if (addSelect.value) {
+					this.operandIds.push(addSelect.value);
+					this.update();
+				}
+			});
+		}
+
+		if (operands.length >= 2) {
+			const notes = combineRegionNotes(this.operation, operands.map(region => region.notes));
+			this.previewEl.setText(`Result: ${notes.length} note${notes.length !== 1 ? 's' : ''}`);
+		} else {
+			this.previewEl.setText('Choose at least two regions.');
+		}
+
+		if (!this.nameEdited) {
+			this.nameInput.value = operands.map(region => region.name).join(` ${getSetOperationSymbol(this.operation)} `);
+		}
+	}
+
+	private submit() {
+		const operands = this.getOperands();
+		const name = this.nameInput.value.trim();
+		let error = '';
+		if (operands.length < 2) {
+			error = 'Choose at least two regions.';
+		} else if (!name) {
+			error = 'Enter a name for the region.';
+		} else if (combineRegionNotes(this.operation, operands.map(region => region.notes)).length === 0) {
+			error = 'The combination has no notes.';
+		}
+		if (error) {
+			this.errorEl.textContent = error;
+			this.errorEl.style.display = 'block';
+			return;
+		}
+
+		this.submitted = true;
+		this.onSubmit({
+			operation: this.operation,
+			operandIds: [...this.operandIds],
+			name,
+			color: this.selectedColor,
+			autoRecompute: this.autoRecompute,
+		});
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.submitted) {
+			this.onSubmit(null);
+		}
+	}
+}
@@ -0,0 +1,220 @@
+import { App, Modal } from 'obsidian';
+import { DiscoveredCluster } from '../services/regionDiscoveryService';
+import { ColorPickerModal } from './colorPickerModal';
+
+const MAX_LISTED_NOTES = 50;
+const MAX_MERGED_KEYWORDS = 8;
+const MAX_MERGED_TAGS = 5;
+
+// A cluster as the user reviews it, before it becomes a region
+export interface RegionProposal extends DiscoveredCluster {
+	name: string;
+	color: string;
+	aiNamed: boolean;
+	mergedFrom?: number; // Number of proposals merged into this one
+}
+
+/**
+ * Review of the regions Discover Regions (or splitting a region) proposes. Ticked proposals are created; they can be renamed
+ * and recoloured in place, ticked proposals can be merged into one, and unwanted ones discarded.
+ */
+export class DiscoverRegionsModal extends Modal {
+	private proposals: Array<RegionProposal & { selected: boolean }>;
+	private summary: string;
+	private title: string;
+	private defaultColors: string[];
+	private onSubmit: (accepted: RegionProposal[] | null) => void; // null when cancelled
+	private submitted = false;
+	private listEl: HTMLElement;
+	private mergeButton: HTMLButtonElement;
+	private createButton: HTMLButtonElement;
+
+	constructor(
+		app: App,
+		proposals: RegionProposal[],
+		summary: string,
+		defaultColors: string[],
+		onSubmit: (accepted: RegionProposal[] | null) => void,
+		title: string = 'Discovered Regions'
+	) {
+		super(app);
+		this.proposals = proposals.map(proposal => ({ ...proposal, selected: true }));
+		this.summary = summary;
+		this.title = title;
+		this.defaultColors = defaultColors;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.title });
+		contentEl.createEl('p', {
+			text: this.summary,
+			attr: { style: 'margin: 5px 0; color: var(--text-muted);' }
+		});
+		contentEl.createEl('p', {
+			text: 'Ticked proposals become regions. Rename them here, merge ticked proposals into one, or discard the ones you don\'t want.',
+			attr: { style: 'margin: 5px 0 10px 0; font-size: 0.9em; color: var(--text-muted);' }
+		});
+
+		this.listEl = contentEl.createDiv({
+			attr: { style: 'max-height: 55vh; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 4px; padding: 4px 8px;' }
+		});
+
+		const buttonContainer = contentEl.createDiv({ attr: { style: 'display: flex; align-items: center; margin-top: 10px;' } });
+		this.mergeButton = buttonContainer.createEl('button', { text: 'Merge selected' });
+		this.mergeButton.addEventListener('click', () => this.mergeSelected());
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel',
+			attr: { style: 'margin-left: auto;' }
+		});
+		cancelButton.addEventListener('click', () => this.close());
+
+		this.createButton = buttonContainer.createEl('button', {
+			attr: { style: 'margin-left: 10px;' }
+		});
+		this.createButton.addClass('mod-cta');
+		this.createButton.addEventListener('click', () => this.submit());
+
+		this.renderProposals();
+	}
+
+	private renderProposals() {
+		this.listEl.empty();
+		if (this.proposals.length === 0) {
+			this.listEl.createEl('div', {
+				text: 'All proposals discarded',
+				attr: { style: 'color: var(--text-muted); padding: 8px 0;' }
+			});
+		}
+
+		this.proposals.forEach((proposal, index) => {
+			const row = this.listEl.createDiv({
+				attr: { style: `padding: 8px 0; ${index > 0 ? 'border-top: 1px solid var(--background-modifier-border);' : ''}` }
+			});
+
+			const header = row.createDiv({ attr: { style: 'display: flex; align-items: center; gap: 8px;' } });
+			const checkbox = header.createEl('input', { type: 'checkbox' });
+			checkbox.checked = proposal.selected;
+			checkbox.addEventListener('change', () => {
+				proposal.selected = checkbox.checked;
+				this.updateButtons();
+			});
+
+			const swatch = header.createDiv({
+				attr: {
+					style: `width: 18px; height: 18px; flex-shrink: 0; background-color: ${proposal.color}; border-radius: 50%; cursor: pointer;`,
+					title: 'Change color'
+				}
+			});
+			swatch.addEventListener('click', () => {
+				new ColorPickerModal(this.app, this.defaultColors, (color) => {
+					proposal.color = color;
+					swatch.style.backgroundColor = color;
+				}).open();
+			});
+
+			const nameInput = header.createEl('input', {
+				type: 'text',
+				attr: { style: 'flex: 1; padding: 4px;' }
+			});
+			nameInput.value = proposal.name;
+			nameInput.addEventListener('input', () => {
+				proposal.name = nameInput.value;
+				this.updateButtons();
+			});
+
+			const discardButton = header.createEl('button', {
+				text: '×',
+				attr: { style: 'padding: 0 8px;', title: 'Discard this proposal' }
+			});
+			discardButton.addEventListener('click', () => {
+				this.proposals.splice(index, 1);
+				this.renderProposals();
+			});
+
+			const details = [`${proposal.notes.length} notes`, `cohesion ${proposal.cohesion.toFixed(2)}`];
+			if (proposal.mergedFrom) details.push(`merged from ${proposal.mergedFrom} proposals`);
+			if (proposal.aiNamed) details.push('named by AI');
+			row.createEl('div', {
+				text: details.join(' · '),
+				attr: { style: 'margin: 4px 0 0 26px; font-size: 0.85em; color: var(--text-muted);' }
+			});
+			if (proposal.keywords.length > 0 || proposal.tags.length > 0) {
+				const words = [...proposal.keywords, ...proposal.tags.map(tag => `#${tag}`)];
+				row.createEl('div', {
+					text: words.join(', '),
+					attr: { style: 'margin: 2px 0 0 26px; font-size: 0.85em;' }
+				});
+			}
+
+			const notesDetails = row.createEl('details', { attr: { style: 'margin: 2px 0 0 26px; font-size: 0.85em;' } });
+			notesDetails.createEl('summary', { text: 'Notes', attr: { style: 'cursor: pointer; color: var(--text-muted);' } });
+			const notesList = notesDetails.createEl('ul', { attr: { style: 'margin: 4px 0; padding-left: 20px;' } });
+			proposal.notes.slice(0, MAX_LISTED_NOTES).forEach(path => {
+				notesList.createEl('li', { text: path, attr: { style: 'font-family: monospace;' } });
+			});
+			if (proposal.notes.length > MAX_LISTED_NOTES) {
+				notesList.createEl('li', {
+					text: `...and ${proposal.notes.length - MAX_LISTED_NOTES} more`,
+					attr: { style: 'color: var(--text-muted);' }
+				});
+			}
+		});
+
+		this.updateButtons();
+	}
+
+	private updateButtons() {
+		const selected = this.proposals.filter(proposal => proposal.selected);
+		this.mergeButton.disabled = selected.length < 2;
+		this.createButton.setText(`Create ${selected.length} region${selected.length !== 1 ? 's' : ''}`);
+		this.createButton.disabled = selected.length === 0 || selected.some(proposal => !proposal.name.trim());
+	}
+
+	// Combine the ticked proposals into the first of them, keeping its name and color
+	private mergeSelected() {
+		const selected = this.proposals.filter(proposal => proposal.selected);
+		if (selected.length < 2) return;
+
+		const [first] = selected;
+		const notes = Array.from(new Set(selected.flatMap(proposal => proposal.notes)));
+		const memberCount = selected.reduce((sum, proposal) => sum + proposal.notes.length, 0);
+		const merged: RegionProposal & { selected: boolean } = {
+			...first,
+			notes,
+			// Weighted by size; the parts' centres stand in for the merged one
+			cohesion: selected.reduce((sum, proposal) => sum + proposal.cohesion * proposal.notes.length, 0) / memberCount,
+			keywords: Array.from(new Set(selected.flatMap(proposal => proposal.keywords))).slice(0, MAX_MERGED_KEYWORDS),
+			tags: Array.from(new Set(selected.flatMap(proposal => proposal.tags))).slice(0, MAX_MERGED_TAGS),
+			mergedFrom: selected.reduce((sum, proposal) => sum + (proposal.mergedFrom || 1), 0),
+			selected: true,
+		};
+
+		const position = this.proposals.indexOf(first);
+		this.proposals = this.proposals.filter(proposal => !proposal.selected);
+		this.proposals.splice(position, 0, merged);
+		this.renderProposals();
+	}
+
+	private submit() {
+		const accepted = this.proposals
+			.filter(proposal => proposal.selected && proposal.name.trim())
+			.map(({ selected, ...proposal }) => ({ ...proposal, name: proposal.name.trim() }));
+		if (accepted.length === 0) return;
+		this.submitted = true;
+		this.onSubmit(accepted);
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.submitted) {
+			this.onSubmit(null);
+		}
+	}
+}
@@ -0,0 +1,246 @@
+import { App, Modal, TFile, Notice } from 'obsidian';
+import { EmbeddingHealthReport, FileEmbeddingState, FileEmbeddingStatus } from '../services/embeddingStorageService';
+import { isRawPipeline } from '../services/embeddingPreprocessor';
+
+const STATE_LABELS: Record<FileEmbeddingState, string> = {
+	ok: 'Embedded',
+	stale: 'Stale',
+	missing: 'Not embedded yet',
+	failed: 'Failed',
+	skipped: 'Skipped',
+	excluded: 'Excluded',
+};
+
+const STATE_COLORS: Record<FileEmbeddingState, string> = {
+	ok: 'var(--color-green)',
+	stale: 'var(--color-orange)',
+	missing: 'var(--text-muted)',
+	failed: 'var(--text-error)',
+	skipped: 'var(--text-muted)',
+	excluded: 'var(--text-faint)',
+};
+
+// Failures first, since they need attention; missing notes are picked up by the next build anyway
+const LIST_ORDER: FileEmbeddingState[] = ['failed', 'stale', 'skipped', 'missing'];
+const MAX_LISTED_FILES = 500;
+
+/**
+ * Coverage of the configured embedding space against every note, plus the notes that failed, were
+ * skipped or have stale vectors. Selected notes can be re-embedded, excluded or opened.
+ */
+export class EmbeddingHealthModal extends Modal {
+	private plugin: any; // Plugin instance
+	private selected: Set<string> = new Set();
+	private filter: FileEmbeddingState | 'all' = 'all';
+	private busy: boolean = false;
+
+	constructor(app: App, plugin: any) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Embedding Health' });
+		const loading = contentEl.createEl('p', { text: 'Checking notes…', attr: { style: 'color: var(--text-muted);' } });
+
+		let report: EmbeddingHealthReport;
+		try {
+			report = await this.plugin.getEmbeddingHealthReport();
+		} catch (error) {
+			console.error('[Thoughtlands:EmbeddingHealth] Error building health report:', error);
+			loading.setText(`Could not check embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return;
+		}
+		loading.remove();
+
+		// Drop selections for notes that are no longer listed (e.g. retried successfully)
+		const listed = new Set(report.files.map(status => status.file.path));
+		for (const path of Array.from(this.selected)) {
+			if (!listed.has(path)) this.selected.delete(path);
+		}
+
+		this.renderSummary(report);
+		this.renderFileList(report);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private renderSummary(report: EmbeddingHealthReport): void {
+		const { counts } = report;
+		const embeddable = report.noteCount - counts.excluded;
+		const percentage = embeddable > 0 ? Math.round((counts.ok / embeddable) * 100) : 100;
+		const status = this.plugin.embeddingService.getModelStatus();
+
+		const summary = this.contentEl.createDiv({ attr: { style: 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 4px;' } });
+		summary.createEl('div', {
+			text: `${counts.ok} of ${embeddable} notes embedded (${percentage}%)`,
+			attr: { style: 'font-weight: 600; font-size: 1.1em; margin-bottom: 6px;' }
+		});
+
+		const bar = summary.createDiv({ attr: { style: 'height: 6px; background: var(--background-modifier-border); border-radius: 3px; overflow: hidden; margin-bottom: 8px;' } });
+		bar.createDiv({ attr: { style: `height: 100%; width: ${percentage}%; background: var(--interactive-accent);` } });
+
+		const breakdown = summary.createDiv({ attr: { style: 'display: flex; flex-wrap: wrap; gap: 12px; font-size: 0.9em;' } });
+		for (const state of ['ok', ...LIST_ORDER, 'excluded'] as FileEmbeddingState[]) {
+			breakdown.createEl('span', {
+				text: `${STATE_LABELS[state]}: ${counts[state]}`,
+				attr: { style: `color: ${STATE_COLORS[state]};` }
+			});
+		}
+
+		summary.createEl('div', {
+			text: `${report.noteCount} notes in the vault • Model: ${status.targetModel} • ${isRawPipeline(status.targetPreprocessing) ? 'raw text' : `preprocessed (${status.targetPreprocessing})`}`,
+			attr: { style: 'margin-top: 6px; font-size: 0.85em; color: var(--text-muted);' }
+		});
+	}
+
+	private renderFileList(report: EmbeddingHealthReport): void {
+		const { contentEl } = this;
+		if (report.files.length === 0) {
+			contentEl.createEl('p', { text: 'Every note in scope has current embeddings.', attr: { style: 'color: var(--text-muted);' } });
+			return;
+		}
+
+		const files = report.files
+			.filter(status => this.filter === 'all' || status.state === this.filter)
+			.sort((a, b) => LIST_ORDER.indexOf(a.state) - LIST_ORDER.indexOf(b.state) || a.file.path.localeCompare(b.file.path));
+		const shown = files.slice(0, MAX_LISTED_FILES);
+
+		// Toolbar: filter, select all, actions
+		const toolbar = contentEl.createDiv({ attr: { style: 'display: flex; flex-wrap: wrap; align-items: center; gap: 8px; margin-bottom: 10px;' } });
+		const filterSelect = toolbar.createEl('select', { attr: { style: 'font-size: 0.9em;' } });
+		filterSelect.createEl('option', { text: `All (${report.files.length})`, value: 'all' });
+		for (const state of LIST_ORDER) {
+			if (report.counts[state] > 0) {
+				filterSelect.createEl('option', { text: `${STATE_LABELS[state]} (${report.counts[state]})`, value: state });
+			}
+		}
+		filterSelect.value = this.filter;
+		filterSelect.addEventListener('change', () => {
+			this.filter = filterSelect.value as FileEmbeddingState | 'all';
+			this.onOpen();
+		});
+
+		const selectAllLabel = toolbar.createEl('label', { attr: { style: 'display: flex; align-items: center; gap: 4px; font-size: 0.9em;' } });
+		const selectAll = selectAllLabel.createEl('input', { type: 'checkbox' });
+		selectAllLabel.appendText('Select all');
+		selectAll.checked = shown.length > 0 && shown.every(status => this.selected.has(status.file.path));
+
+		const selectionText = toolbar.createEl('span', { attr: { style: 'font-size: 0.85em; color: var(--text-muted); margin-left: auto;' } });
+		const retryButton = toolbar.createEl('button', { text: 'Retry selected', attr: { style: 'padding: 4px 12px; font-size: 0.9em;' } });
+		const excludeButton = toolbar.createEl('button', { text: 'Exclude selected', attr: { style: 'padding: 4px 12px; font-size: 0.9em;' } });
+
+		const checkboxes: Map<string, HTMLInputElement> = new Map();
+		const updateSelection = () => {
+			selectionText.setText(`${this.selected.size} selected`);
+			retryButton.disabled = this.busy || this.selected.size === 0;
+			excludeButton.disabled = this.busy || this.selected.size === 0;
+		};
+
+		selectAll.addEventListener('change', () => {
+			for (const status of shown) {
+				if (selectAll.checked) {
+					this.selected.add(status.file.path);
+				} else {
+					this.selected.delete(status.file.path);
+				}
+				const checkbox = checkboxes.get(status.file.path);
+				if (checkbox) checkbox.checked = selectAll.checked;
+			}
+			updateSelection();
+		});
+
+		retryButton.addEventListener('click', () => this.retrySelected(report));
+		excludeButton.addEventListener('click', () => this.excludeSelected());
+
+		// File rows
+		const list = contentEl.createDiv({ attr: { style: 'max-height: 400px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 4px;' } });
+		for (const status of shown) {
+			checkboxes.set(status.file.path, this.renderFileRow(list, status, updateSelection));
+		}
+		if (files.length > shown.length) {
+			list.createEl('div', {
+				text: `…and ${files.length - shown.length} more`,
+				attr: { style: 'padding: 6px 10px; font-size: 0.85em; color: var(--text-muted);' }
+			});
+		}
+		updateSelection();
+	}
+
+	private renderFileRow(list: HTMLElement, status: FileEmbeddingStatus, onSelectionChange: () => void): HTMLInputElement {
+		const row = list.createDiv({ attr: { style: 'display: flex; align-items: flex-start; gap: 8px; padding: 6px 10px; border-bottom: 1px solid var(--background-modifier-border);' } });
+		const checkbox = row.createEl('input', { type: 'checkbox', attr: { style: 'margin-top: 3px;' } });
+		checkbox.checked = this.selected.has(status.file.path);
+		checkbox.addEventListener('change', () => {
+			if (checkbox.checked) {
+				this.selected.add(status.file.path);
+			} else {
+				this.selected.delete(status.file.path);
+			}
+			onSelectionChange();
+		});
+
+		const details = row.createDiv({ attr: { style: 'flex: 1; min-width: 0;' } });
+		const link = details.createEl('a', {
+			text: status.file.path,
+			attr: { style: 'cursor: pointer; word-break: break-all;' }
+		});
+		link.addEventListener('click', async (event) => {
+			event.preventDefault();
+			await this.app.workspace.getLeaf(false).openFile(status.file);
+			this.close();
+		});
+
+		const stateLine = details.createDiv({ attr: { style: 'font-size: 0.85em; margin-top: 2px;' } });
+		stateLine.createEl('span', { text: STATE_LABELS[status.state], attr: { style: `color: ${STATE_COLORS[status.state]}; font-weight: 500;` } });
+		if (status.reason) {
+			stateLine.createEl('span', { text: ` — ${status.reason}`, attr: { style: 'color: var(--text-muted);' } });
+		}
+		if (status.at) {
+			stateLine.createEl('span', { text: ` (${new Date(status.at).toLocaleString()})`, attr: { style: 'color: var(--text-faint);' } });
+		}
+		return checkbox;
+	}
+
+	private async retrySelected(report: EmbeddingHealthReport): Promise<void> {
+		const files: TFile[] = report.files
+			.filter(status => this.selected.has(status.file.path))
+			.map(status => status.file);
+		if (files.length === 0 || this.busy) return;
+
+		this.busy = true;
+		new Notice(`Re-embedding ${files.length} note${files.length !== 1 ? 's' : ''}...`);
+		try {
+			const embedded: number = await this.plugin.retryEmbeddings(files);
+			const failed = files.length - embedded;
+			new Notice(failed > 0
+				? `Embedded ${embedded} note${embedded !== 1 ? 's' : ''}; ${failed} still failing`
+				: `Embedded ${embedded} note${embedded !== 1 ? 's' : ''}`);
+		} catch (error) {
+			console.error('[Thoughtlands:EmbeddingHealth] Error retrying embeddings:', error);
+			new Notice(`Error re-embedding notes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			this.busy = false;
+		}
+		this.plugin.onRegionUpdate();
+		this.onOpen();
+	}
+
+	private async excludeSelected(): Promise<void> {
+		const paths = Array.from(this.selected);
+		if (paths.length === 0 || this.busy) return;
+		if (!confirm(`Add ${paths.length} note${paths.length !== 1 ? 's' : ''} to the ignored paths? Ignored notes are left out of embeddings and region creation.`)) {
+			return;
+		}
+
+		await this.plugin.excludeFromEmbeddings(paths);
+		this.selected.clear();
+		new Notice(`Excluded ${paths.length} note${paths.length !== 1 ? 's' : ''}`);
+		this.onOpen();
+	}
+}
@@ -0,0 +1,247 @@
+import { App, FuzzySuggestModal, Modal, TFile } from 'obsidian';
+import { ExemplarSet, SemanticSimilarityMode } from '../models/region';
+
+export interface ExemplarInputResult extends ExemplarSet {
+	mode: SemanticSimilarityMode;
+	threshold: number;
+}
+
+export interface ExemplarInputOptions {
+	title: string;
+	submitText: string;
+	showOutputOptions: boolean; // Output mode and threshold; the region info modal has its own
+	mode: SemanticSimilarityMode;
+	threshold: number;
+}
+
+// Pick a note by path, leaving out the ones already chosen
+class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+	private exclude: Set<string>;
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, exclude: string[], onChoose: (file: TFile) => void) {
+		super(app);
+		this.exclude = new Set(exclude);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Find a note...');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => !this.exclude.has(file.path));
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
+
+/**
+ * Collects example notes for a region: notes the results should be like, notes they should be
+ * unlike, and optional concept text. Used to create example-note regions and to edit the examples
+ * when re-running one.
+ */
+export class ExemplarInputModal extends Modal {
+	private positiveNotes: string[];
+	private negativeNotes: string[];
+	private conceptText: string;
+	private selectedMode: SemanticSimilarityMode;
+	private options: ExemplarInputOptions;
+	private onSubmit: (result: ExemplarInputResult | null) => void; // null when cancelled
+	private submitted = false;
+	private thresholdInput: HTMLInputElement | null = null;
+	private errorEl: HTMLElement;
+
+	constructor(
+		app: App,
+		initial: Partial<ExemplarSet>,
+		options: ExemplarInputOptions,
+		onSubmit: (result: ExemplarInputResult | null) => void
+	) {
+		super(app);
+		this.positiveNotes = [...(initial.positiveNotes || [])];
+		this.negativeNotes = [...(initial.negativeNotes || [])];
+		this.conceptText = initial.conceptText || '';
+		this.selectedMode = options.mode;
+		this.options = options;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.options.title });
+
+		// Example note lists
+		const listsEl = contentEl.createDiv();
+		this.renderExampleList(listsEl.createDiv(), 'Like these notes:', this.positiveNotes);
+		this.renderExampleList(listsEl.createDiv(), 'Unlike these notes (optional):', this.negativeNotes);
+
+		// Optional concept text
+		contentEl.createEl('label', {
+			text: 'Concept (optional):',
+			attr: { style: 'display: block; margin: 15px 0 5px 0; font-weight: 500;' }
+		});
+		const textarea = contentEl.createEl('textarea', {
+			placeholder: 'e.g., how mentorship builds belonging',
+			attr: {
+				style: 'width: 100%; margin: 5px 0 10px 0; padding: 5px; min-height: 50px;',
+				rows: '2'
+			},
+		});
+		textarea.value = this.conceptText;
+		textarea.addEventListener('input', () => {
+			this.conceptText = textarea.value;
+		});
+
+		if (this.options.showOutputOptions) {
+			this.renderOutputOptions(contentEl);
+		}
+
+		this.errorEl = contentEl.createDiv({
+			attr: { style: 'display: none; color: var(--text-error); font-size: 0.9em; margin-top: 8px;' }
+		});
+
+		const buttonContainer = contentEl.createDiv({ attr: { style: 'text-align: right; margin-top: 10px;' } });
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+
+		const submitButton = buttonContainer.createEl('button', {
+			text: this.options.submitText,
+			attr: { style: 'margin-left: 10px;' }
+		});
+		submitButton.addEventListener('click', () => this.submit());
+	}
+
+	private renderExampleList(container: HTMLElement, label: string, notes: string[]) {
+		container.empty();
+		container.setAttribute('style', 'margin: 10px 0;');
+		container.createEl('label', {
+			text: label,
+			attr: { style: 'display: block; margin-bottom: 5px; font-weight: 500;' }
+		});
+
+		const list = container.createDiv({
+			attr: { style: 'max-height: 140px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 4px; padding: 4px 8px;' }
+		});
+		if (notes.length === 0) {
+			list.createEl('div', {
+				text: 'No notes',
+				attr: { style: 'color: var(--text-muted); font-size: 0.9em; padding: 2px 0;' }
+			});
+		}
+		notes.forEach((path, index) => {
+			const row = list.createDiv({ attr: { style: 'display: flex; align-items: center; gap: 8px; padding: 2px 0;' } });
+			row.createEl('span', {
+				text: path,
+				attr: { style: 'flex: 1; font-family: monospace; font-size: 0.9em; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;' }
+			});
+			const removeButton = row.createEl('button', {
+				text: '×',
+				attr: { style: 'padding: 0 6px;', title: 'Remove' }
+			});
+			removeButton.addEventListener('click', () => {
+				notes.splice(index, 1);
+				this.renderExampleList(container, label, notes);
+			});
+		});
+
+		const addButton = container.createEl('button', {
+			text: 'Add note...',
+			attr: { style: 'margin-top: 5px; font-size: 0.9em;' }
+		});
+		addButton.addEventListener('click', () => {
+			// A note can only be on one of the two lists
+			new NoteSuggestModal(this.app, [...this.positiveNotes, ...this.negativeNotes], (file) => {
+				notes.push(file.path);
+				this.renderExampleList(container, label, notes);
+			}).open();
+		});
+	}
+
+	private renderOutputOptions(contentEl: HTMLElement) {
+		const modeSection = contentEl.createDiv({ attr: { style: 'margin: 15px 0;' } });
+		modeSection.createEl('label', {
+			text: 'Output Mode:',
+			attr: { style: 'font-weight: 500; margin-bottom: 5px; display: block;' }
+		});
+		const modeSelect = modeSection.createEl('select', { attr: { style: 'width: 100%;' } });
+		const modes: { value: SemanticSimilarityMode; label: string }[] = [
+			{ value: 'walkabout', label: 'Walkabout - arranged around the examples, distance reflects similarity' },
+			{ value: 'hopscotch', label: 'Hopscotch - a path from the examples to the most similar note, and so on' },
+			{ value: 'rolling-path', label: 'Rolling Path - a path that follows the aggregate of the notes so far' },
+			{ value: 'crowd', label: 'Crowd - all related notes in no particular arrangement' },
+		];
+		modes.forEach(mode => {
+			modeSelect.createEl('option', { text: mode.label, value: mode.value });
+		});
+		modeSelect.value = this.selectedMode;
+		modeSelect.addEventListener('change', () => {
+			this.selectedMode = modeSelect.value as SemanticSimilarityMode;
+		});
+
+		const thresholdSection = contentEl.createDiv({ attr: { style: 'margin: 15px 0;' } });
+		thresholdSection.createEl('label', {
+			text: 'Similarity Threshold:',
+			attr: { style: 'display: block; margin-bottom: 5px; font-weight: 500;' }
+		});
+		const thresholdContainer = thresholdSection.createDiv({
+			attr: { style: 'display: flex; align-items: center; gap: 10px;' }
+		});
+		const thresholdInput = thresholdContainer.createEl('input', {
+			type: 'range',
+			attr: {
+				style: 'flex: 1;',
+				min: '0',
+				max: '1',
+				step: '0.05',
+				value: String(this.options.threshold)
+			}
+		});
+		const valueDisplay = thresholdContainer.createEl('span', {
+			text: this.options.threshold.toFixed(2),
+			attr: { style: 'min-width: 45px; text-align: right; font-weight: 500;' }
+		});
+		thresholdInput.addEventListener('input', () => {
+			valueDisplay.textContent = parseFloat(thresholdInput.value).toFixed(2);
+		});
+		thresholdSection.createEl('div', {
+			text: 'Higher = More restrictive',
+			attr: { style: 'font-size: 0.85em; color: var(--text-muted); margin-top: 5px;' }
+		});
+		this.thresholdInput = thresholdInput;
+	}
+
+	private submit() {
+		const conceptText = this.conceptText.trim();
+		if (this.positiveNotes.length === 0 && !conceptText) {
+			this.errorEl.textContent = 'Add at least one note to be like, or describe a concept.';
+			this.errorEl.style.display = 'block';
+			return;
+		}
+
+		const threshold = this.thresholdInput ? parseFloat(this.thresholdInput.value) : this.options.threshold;
+		this.submitted = true;
+		this.onSubmit({
+			positiveNotes: [...this.positiveNotes],
+			negativeNotes: [...this.negativeNotes],
+			conceptText: conceptText || undefined,
+			mode: this.selectedMode,
+			threshold,
+		});
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.submitted) {
+			this.onSubmit(null);
+		}
+	}
+}
@@ -0,0 +1,191 @@
+import { App, Modal } from 'obsidian';
+import { Region } from '../models/region';
+
+export interface MergeRegionsResult {
+	regionIds: string[];
+	name: string;
+	color: string;
+	keepAsChildren: boolean;
+}
+
+/**
+ * Picks regions to merge into one, with the name and color of the merged region and whether the
+ * originals stay as its sub-regions. Shows how many distinct notes the merge has.
+ */
+export class MergeRegionsModal extends Modal {
+	private regions: Region[];
+	private selectedIds: string[]; // In the order they were ticked; the first region leads the merged notes
+	private selectedColor: string;
+	private defaultColors: string[];
+	private keepAsChildren = true;
+	private nameEdited = false;
+	private onSubmit: (result: MergeRegionsResult | null) => void; // null when cancelled
+	private submitted = false;
+	private previewEl: HTMLElement;
+	private nameInput: HTMLInputElement;
+	private errorEl: HTMLElement;
+
+	constructor(
+		app: App,
+		regions: Region[],
+		initialRegionIds: string[],
+		defaultColors: string[],
+		onSubmit: (result: MergeRegionsResult | null) => void
+	) {
+		super(app);
+		this.regions = regions;
+		this.selectedIds = initialRegionIds.filter(id => regions.some(region => region.id === id));
+		this.defaultColors = defaultColors;
+		const first = regions.find(region => region.id === this.selectedIds[0]);
+		this.selectedColor = first?.color || defaultColors[0] || '#E67E22';
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Merge Regions' });
+		contentEl.createEl('p', {
+			text: 'The merged region has every note of the ticked regions once, and remembers which region each note came from.',
+			attr: { style: 'margin: 5px 0 10px 0; font-size: 0.9em; color: var(--text-muted);' }
+		});
+
+		// Regions
+		const listEl = contentEl.createDiv({
+			attr: { style: 'max-height: 40vh; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 4px; padding: 4px 8px;' }
+		});
+		this.regions.forEach(region => {
+			const row = listEl.createEl('label', { attr: { style: 'display: flex; align-items: center; gap: 8px; padding: 3px 0; cursor: pointer;' } });
+			const checkbox = row.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.selectedIds.includes(region.id);
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selectedIds.push(region.id);
+				} else {
+					this.selectedIds = this.selectedIds.filter(id => id !== region.id);
+				}
+				this.update();
+			});
+			row.createDiv({ attr: { style: `width: 12px; height: 12px; flex-shrink: 0; background-color: ${region.color}; border-radius: 50%;` } });
+			row.createEl('span', { text: region.name, attr: { style: 'flex: 1;' } });
+			row.createEl('span', {
+				text: `${region.notes.length} notes`,
+				attr: { style: 'font-size: 0.85em; color: var(--text-muted);' }
+			});
+		});
+		this.previewEl = contentEl.createDiv({
+			attr: { style: 'margin-top: 5px; font-size: 0.9em; color: var(--text-muted);' }
+		});
+
+		// Name
+		contentEl.createEl('label', {
+			text: 'Region Name:',
+			attr: { style: 'display: block; margin: 15px 0 5px 0; font-weight: 500;' }
+		});
+		this.nameInput = contentEl.createEl('input', {
+			type: 'text',
+			attr: { style: 'width: 100%; padding: 6px;' }
+		});
+		this.nameInput.addEventListener('input', () => {
+			this.nameEdited = this.nameInput.value.trim().length > 0;
+		});
+
+		// Color
+		const colorSection = contentEl.createDiv({ attr: { style: 'margin: 15px 0;' } });
+		colorSection.createEl('label', {
+			text: 'Region Color:',
+			attr: { style: 'display: block; margin-bottom: 5px; font-weight: 500;' }
+		});
+		const colorGrid = colorSection.createDiv({ attr: { style: 'display: flex; flex-wrap: wrap; gap: 8px;' } });
+		const colors = this.defaultColors.includes(this.selectedColor) ? this.defaultColors : [this.selectedColor, ...this.defaultColors];
+		const colorButtons: HTMLElement[] = [];
+		const swatchStyle = (color: string) => `width: 30px; height: 30px; background-color: ${color}; border: ${color === this.selectedColor ? '3px solid var(--text-normal)' : '2px solid var(--background-modifier-border)'}; border-radius: 4px; cursor: pointer;`;
+		colors.forEach(color => {
+			const colorButton = colorGrid.createEl('button', { attr: { style: swatchStyle(color), title: color } });
+			colorButtons.push(colorButton);
+			colorButton.addEventListener('click', () => {
+				this.selectedColor = color;
+				colorButtons.forEach((button, i) => button.setAttribute('style', swatchStyle(colors[i])));
+			});
+		});
+
+		// Keep the originals
+		const keepLabel = contentEl.createEl('label', { attr: { style: 'display: flex; align-items: center; gap: 8px; margin: 15px 0 5px 0;' } });
+		const keepCheckbox = keepLabel.createEl('input', { type: 'checkbox' });
+		keepCheckbox.checked = this.keepAsChildren;
+		keepCheckbox.addEventListener('change', () => {
+			this.keepAsChildren = keepCheckbox.checked;
+		});
+		keepLabel.createSpan({ text: 'Keep the merged regions as sub-regions (otherwise they are deleted)' });
+
+		this.errorEl = contentEl.createDiv({
+			attr: { style: 'display: none; color: var(--text-error); font-size: 0.9em; margin-top: 8px;' }
+		});
+
+		const buttonContainer = contentEl.createDiv({ attr: { style: 'text-align: right; margin-top: 10px;' } });
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		const submitButton = buttonContainer.createEl('button', {
+			text: 'Merge',
+			attr: { style: 'margin-left: 10px;' }
+		});
+		submitButton.addClass('mod-cta');
+		submitButton.addEventListener('click', () => this.submit());
+
+		this.update();
+	}
+
+	private getSelected(): Region[] {
+		return this.selectedIds.map(id => this.regions.find(region => region.id === id)!);
+	}
+
+	// Update the note count and the suggested name
+	private update() {
+		const selected = this.getSelected();
+		if (selected.length >= 2) {
+			const total = selected.reduce((sum, region) => sum + region.notes.length, 0);
+			const distinct = new Set(selected.flatMap(region => region.notes)).size;
+			const duplicates = total - distinct;
+			this.previewEl.setText(`Merged region: ${distinct} note${distinct !== 1 ? 's' : ''}${duplicates > 0 ? ` (${duplicates} in more than one region counted once)` : ''}`);
+		} else {
+			this.previewEl.setText('Tick at least two regions.');
+		}
+
+		if (!this.nameEdited) {
+			this.nameInput.value = selected.map(region => region.name).join(' & ');
+		}
+	}
+
+	private submit() {
+		const name = this.nameInput.value.trim();
+		let error = '';
+		if (this.selectedIds.length < 2) {
+			error = 'Tick at least two regions.';
+		} else if (!name) {
+			error = 'Enter a name for the region.';
+		}
+		if (error) {
+			this.errorEl.textContent = error;
+			this.errorEl.style.display = 'block';
+			return;
+		}
+
+		this.submitted = true;
+		this.onSubmit({
+			regionIds: [...this.selectedIds],
+			name,
+			color: this.selectedColor,
+			keepAsChildren: this.keepAsChildren,
+		});
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.submitted) {
+			this.onSubmit(null);
+		}
+	}
+}
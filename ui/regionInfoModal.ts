@@ -1,8 +1,13 @@
 import { App, Modal, TFile, Notice } from 'obsidian';
-import { Region, getModeDisplayName } from '../models/region';
+import { Region, RegionSnapshot, RegionSnapshotDiff, ExemplarSet, SemanticSimilarityMode, getModeDisplayName, supportsLiveMembership, diffRegionSnapshots, isExemplarRegion, isDiscoveredRegion, isCombinedRegion, isMergedRegion, getSetOperationDisplayName, getRegionExemplars } from '../models/region';
 import { RegionService } from '../services/regionService';
 import { CreateRegionCommands } from '../commands/createRegionCommands';
 import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
+import { isEmbeddingConfigured } from '../services/embeddingProviders';
+import { RegionAnalysisService, RegionAnalysis } from '../services/regionAnalysisService';
+import { ExemplarInputModal } from './exemplarInputModal';
+
+const NEARBY_REGIONS_SHOWN = 5;
 
 export class RegionInfoModal extends Modal {
 	private region: Region;
@@ -10,6 +15,7 @@ export class RegionInfoModal extends Modal {
 	private createRegionCommands?: CreateRegionCommands;
 	private settings?: ThoughtlandsSettings;
 	private onUpdate?: () => void;
+	private analysisService?: RegionAnalysisService;
 
 	constructor(
 		app: App, 
@@ -17,7 +23,8 @@ export class RegionInfoModal extends Modal {
 		regionService?: RegionService, 
 		onUpdate?: () => void,
 		createRegionCommands?: CreateRegionCommands,
-		settings?: ThoughtlandsSettings
+		settings?: ThoughtlandsSettings,
+		analysisService?: RegionAnalysisService
 	) {
 		super(app);
 		this.region = region;
@@ -25,6 +32,65 @@ export class RegionInfoModal extends Modal {
 		this.createRegionCommands = createRegionCommands;
 		this.settings = settings;
 		this.onUpdate = onUpdate;
+		this.analysisService = analysisService;
+	}
+
+	private async renderNearbyRegions(section: HTMLElement) {
+		const status = section.createEl('p', {
+			text: 'Comparing with the other regions...',
+			attr: { style: 'margin: 5px 0; color: var(--text-muted);' }
+		});
+
+		const regions = this.regionService!.getRegions().filter(region => !region.archived || region.id === this.region.id);
+		let analysis: RegionAnalysis;
+		try {
+			analysis = await this.analysisService!.analyze(regions);
+		} catch (error) {
+			console.error('[Thoughtlands] Error analyzing nearby regions:', error);
+			status.setText(`Could not compare regions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return;
+		}
+
+		const nearby = this.analysisService!.getNearbyRegions(analysis, this.region.id).slice(0, NEARBY_REGIONS_SHOWN);
+		if (nearby.length === 0) {
+			status.setText('There are no other regions to compare with.');
+			return;
+		}
+		status.remove();
+
+		const nearbyList = section.createEl('ul', { attr: { style: 'margin: 5px 0 10px 0; padding-left: 20px;' } });
+		nearby.forEach(({ region, stats }) => {
+			const item = nearbyList.createEl('li', { attr: { style: 'margin-bottom: 3px;' } });
+			item.createSpan({ attr: { style: `display: inline-block; width: 10px; height: 10px; margin-right: 6px; background-color: ${region.color}; border-radius: 50%;` } });
+			item.createSpan({ text: region.name });
+			const details = [
+				stats.centroidSimilarity !== null ? `centroid similarity ${stats.centroidSimilarity.toFixed(2)}` : 'no embeddings to compare',
+				`${stats.sharedNotes} shared note${stats.sharedNotes !== 1 ? 's' : ''} (Jaccard ${stats.jaccard.toFixed(2)})`,
+			];
+			item.createSpan({ text: ` - ${details.join(' · ')}`, attr: { style: 'font-size: 0.9em; color: var(--text-muted);' } });
+		});
+
+		// Bridge notes between this region and others
+		const namesById = new Map(analysis.profiles.map(profile => [profile.region.id, profile.region.name]));
+		const bridges = analysis.bridges
+			.filter(bridge => bridge.regions.some(near => near.id === this.region.id))
+			.slice(0, NEARBY_REGIONS_SHOWN);
+		if (bridges.length > 0) {
+			section.createEl('strong', { text: 'Bridge Notes:' });
+			const bridgeList = section.createEl('ul', { attr: { style: 'margin: 5px 0; padding-left: 20px;' } });
+			bridges.forEach(bridge => {
+				const item = bridgeList.createEl('li', { attr: { style: 'margin-bottom: 3px;' } });
+				const link = item.createEl('a', { text: bridge.path, attr: { style: 'font-family: monospace; font-size: 0.9em; cursor: pointer;' } });
+				link.addEventListener('click', () => {
+					if (this.app.vault.getAbstractFileByPath(bridge.path) instanceof TFile) {
+						this.app.workspace.openLinkText(bridge.path, '', true);
+						this.close();
+					}
+				});
+				const others = bridge.regions.filter(near => near.id !== this.region.id).map(near => namesById.get(near.id));
+				item.createSpan({ text: ` - also near ${others.join(', ')}`, attr: { style: 'font-size: 0.9em; color: var(--text-muted);' } });
+			});
+		}
 	}
 
 	// Helper to check if region uses semantic similarity (walkabout, etc.)
@@ -36,6 +102,11 @@ export class RegionInfoModal extends Modal {
 		if (this.region.mode === 'concept' && info.conceptText && !info.initialTags && !info.refinedTags) {
 			return true;
 		}
+
+		// Example notes: the same output modes, with the query built from the examples
+		if (isExemplarRegion(this.region)) {
+			return true;
+		}
 		
 		// Search + AI Analysis mode uses grid layout only, not semantic similarity modes
 		// AI-assisted tag search (concept mode with tags) uses grid layout only, not semantic similarity modes
@@ -49,9 +120,8 @@ export class RegionInfoModal extends Modal {
 		const info = this.region.source.processingInfo;
 		if (!info) return false;
 		
-		// Check if using local model
-		const isLocalModel = this.settings?.aiMode === 'local';
-		if (!isLocalModel) return false;
+		// Check if embeddings are available
+		if (!this.settings || !isEmbeddingConfigured(this.settings)) return false;
 		
 		// Semantic similarity mode (walkabout, etc.)
 		if (this.usesSemanticSimilarity()) {
@@ -91,7 +161,7 @@ export class RegionInfoModal extends Modal {
 			attr: { style: 'margin: 5px 0;' }
 		});
 		
-		// Show semantic similarity mode if it exists (only for local model regions)
+		// Show semantic similarity mode if it exists
 		const semanticMode = this.region.source.processingInfo?.semanticSimilarityMode;
 		if (semanticMode) {
 			const modeDisplayNames: Record<string, string> = {
@@ -116,6 +186,22 @@ export class RegionInfoModal extends Modal {
 			attr: { style: 'margin: 5px 0;' }
 		});
 
+		// Place in the region tree
+		const parent = this.regionService?.getParentRegion(this.region);
+		if (parent) {
+			metadata.createEl('p', { 
+				text: `Sub-region of: ${parent.name}`,
+				attr: { style: 'margin: 5px 0;' }
+			});
+		}
+		const children = this.regionService?.getChildRegions(this.region.id) ?? [];
+		if (children.length > 0) {
+			metadata.createEl('p', { 
+				text: `Sub-regions: ${children.map(child => `${child.name} (${child.notes.length})`).join(', ')}`,
+				attr: { style: 'margin: 5px 0;' }
+			});
+		}
+
 		// Interactive settings section for regions that use semantic similarity filtering
 		if (this.usesSemanticSimilarityFiltering()) {
 			const settingsSection = metadata.createDiv({ 
@@ -208,18 +294,48 @@ export class RegionInfoModal extends Modal {
 				}
 			});
 
+			// Example-note regions: edit the examples, then re-run with them
+			let editedExemplars: ExemplarSet | null = null;
+			if (isExemplarRegion(this.region)) {
+				const editButton = settingsContainer.createEl('button', {
+					text: 'Edit examples...',
+					attr: { 
+						style: 'padding: 4px 12px; font-size: 0.9em; margin-left: auto;'
+					}
+				});
+				editButton.addEventListener('click', () => {
+					new ExemplarInputModal(
+						this.app,
+						editedExemplars ?? getRegionExemplars(this.region),
+						{
+							title: 'Edit Examples',
+							submitText: 'Re-run',
+							showOutputOptions: false,
+							mode: modeSelect.value as SemanticSimilarityMode,
+							threshold: parseFloat(thresholdInput.value),
+						},
+						(result) => {
+							if (result) {
+								editedExemplars = { positiveNotes: result.positiveNotes, negativeNotes: result.negativeNotes, conceptText: result.conceptText };
+								rerunButton.click();
+							}
+						}
+					).open();
+				});
+			}
+
 			// Re-run button
 			const rerunButton = settingsContainer.createEl('button', {
 				text: 'Re-run',
 				attr: { 
-					style: 'padding: 4px 12px; font-size: 0.9em; margin-left: auto;'
+					style: `padding: 4px 12px; font-size: 0.9em; margin-left: ${isExemplarRegion(this.region) ? '0' : 'auto'};`
 				}
 			});
 
-			// Disable rerun for semantic similarity regions when using OpenAI (ChatGPT)
-			if (this.usesSemanticSimilarity() && this.settings?.aiMode === 'openai') {
+			// Disable rerun for semantic similarity regions when no embedding provider is configured
+			if (this.usesSemanticSimilarity() && this.settings && !isEmbeddingConfigured(this.settings)) {
 				rerunButton.disabled = true;
-				rerunButton.setAttribute('title', 'Re-running semantic similarity analysis regions is not supported when using OpenAI');
+				rerunButton.setAttribute('title', 'Re-running semantic similarity analysis regions requires an embedding provider');
 				rerunButton.style.opacity = '0.5';
 				rerunButton.style.cursor = 'not-allowed';
 			}
@@ -230,9 +346,9 @@ export class RegionInfoModal extends Modal {
 					return;
 				}
 
-				// Disable rerun for semantic similarity regions when using OpenAI (ChatGPT)
-				if (this.usesSemanticSimilarity() && this.settings.aiMode === 'openai') {
-					new Notice('Re-running semantic similarity analysis regions is not supported when using OpenAI');
+				// Disable rerun for semantic similarity regions when no embedding provider is configured
+				if (this.usesSemanticSimilarity() && !isEmbeddingConfigured(this.settings)) {
+					new Notice('Re-running semantic similarity analysis regions requires an embedding provider');
 					return;
 				}
 
@@ -257,11 +373,6 @@ export class RegionInfoModal extends Modal {
 				const originalThreshold = this.region.similarityThreshold ?? this.settings.embeddingSimilarityThreshold ?? 0.65;
 				const originalSemanticMode = this.region.source.processingInfo?.semanticSimilarityMode || 'walkabout';
 				
-				// Temporarily update settings with new threshold
-				const originalSettingsThreshold = this.settings.embeddingSimilarityThreshold;
-				this.settings.embeddingSimilarityThreshold = newThreshold;
-				this.createRegionCommands.updateSettings(this.settings);
-				
 				try {
 					// Store old region info to reuse
 					const oldName = this.region.name;
@@ -269,23 +380,39 @@ export class RegionInfoModal extends Modal {
 					const oldRegionId = this.region.id;
 					
 					// Determine which method to call based on region mode
-					let notesFound = false;
+					let newRegion: Region | null = null;
 					if (this.region.mode === 'concept') {
 						const info = this.region.source.processingInfo;
-						if (info?.conceptText && !info.initialTags && !info.refinedTags) {
+						if (isExemplarRegion(this.region)) {
+							// Example notes - re-run with the same (or edited) examples
+							new Notice(`Re-running with threshold ${newThreshold.toFixed(2)} and mode ${newSemanticMode}...`);
+							newRegion = await this.createRegionCommands.createRegionFromExemplarsWithParams(
+								editedExemplars ?? getRegionExemplars(this.region),
+								oldName,
+								oldColor,
+								newSemanticMode,
+								newThreshold
+							);
+							
+							if (newRegion) {
+								// Delete old region
+								this.regionService.deleteRegion(oldRegionId);
+							}
+						} else if (info?.conceptText && !info.initialTags && !info.refinedTags) {
 							// Semantic similarity mode - re-run with concept text
 							const conceptText = info.conceptText;
 							
 							// Re-run semantic similarity with new threshold and mode
 							new Notice(`Re-running with threshold ${newThreshold.toFixed(2)} and mode ${newSemanticMode}...`);
-							notesFound = await this.createRegionCommands.createRegionFromSemanticSimilarityWithParams(
+							newRegion = await this.createRegionCommands.createRegionFromSemanticSimilarityWithParams(
 								conceptText,
 								oldName,
 								oldColor,
-								newSemanticMode
+								newSemanticMode,
+								newThreshold
 							);
 							
-							if (notesFound) {
+							if (newRegion) {
 								// Delete old region
 								this.regionService.deleteRegion(oldRegionId);
 							}
@@ -294,7 +421,6 @@ export class RegionInfoModal extends Modal {
 							// Note: Re-running concept/tag analysis with new threshold requires recreating the region
 							// For now, we'll use the existing threshold from the region
 							new Notice('Re-running concept/tag analysis with a new threshold is not yet fully supported. Please create a new region.');
-							notesFound = false;
 						}
 					} else if (this.region.mode === 'search') {
 						// Search + AI Analysis mode - re-run with new threshold only (no mode selection)
@@ -303,14 +429,16 @@ export class RegionInfoModal extends Modal {
 						if (query) {
 							// Re-run search with AI analysis using new threshold
 							new Notice(`Re-running with threshold ${newThreshold.toFixed(2)}...`);
-							notesFound = await this.createRegionCommands.createRegionFromSearchWithAIAnalysisWithParams(
+							newRegion = await this.createRegionCommands.createRegionFromSearchWithAIAnalysisWithParams(
 								query,
 								oldName,
 								oldColor,
-								newThreshold
+								newThreshold,
+								this.region.source.parsedQuery,
+								this.region.source.processingInfo?.hybridFusion
 							);
 							
-							if (notesFound) {
+							if (newRegion) {
 								// Delete old region
 								this.regionService.deleteRegion(oldRegionId);
 							}
@@ -319,35 +447,30 @@ export class RegionInfoModal extends Modal {
 						}
 					}
 					
-					if (!notesFound) {
+					if (!newRegion) {
 						// No notes found with new values, keep old region and restore values
 						new Notice(`No notes found with threshold ${newThreshold.toFixed(2)} and mode ${newSemanticMode}. Keeping original region with threshold ${originalThreshold.toFixed(2)} and mode ${originalSemanticMode}.`);
-						this.settings.embeddingSimilarityThreshold = originalSettingsThreshold;
-						this.createRegionCommands.updateSettings(this.settings);
 					} else {
 						// Notes found, update threshold and mode in the new region
-						const newRegion = this.regionService.getRegions().find(r => r.name === oldName && r.color === oldColor);
-						if (newRegion) {
-							// Update processingInfo to reflect new threshold and mode
-							if (newRegion.source.processingInfo) {
-								newRegion.source.processingInfo.similarityThreshold = newThreshold;
-								newRegion.source.processingInfo.semanticSimilarityMode = newSemanticMode;
-								this.regionService.updateRegion(newRegion.id, {
-									similarityThreshold: newThreshold,
-									source: newRegion.source
-								});
-							} else {
-								this.regionService.updateRegion(newRegion.id, {
-									similarityThreshold: newThreshold
-								});
-							}
-							
-							// Update the local region reference to reflect changes
-							this.region = newRegion;
+						if (newRegion.source.processingInfo) {
+							newRegion.source.processingInfo.similarityThreshold = newThreshold;
+							newRegion.source.processingInfo.semanticSimilarityMode = newSemanticMode;
+							this.regionService.updateRegion(newRegion.id, {
+								similarityThreshold: newThreshold,
+								source: newRegion.source
+							});
+						} else {
+							this.regionService.updateRegion(newRegion.id, {
+								similarityThreshold: newThreshold
+							});
 						}
-						// Restore original settings threshold
-						this.settings.embeddingSimilarityThreshold = originalSettingsThreshold;
-						this.createRegionCommands.updateSettings(this.settings);
+						
+						// Keep the version history of the region this re-run replaced
+						const snapshot = this.regionService.inheritHistory(this.region, newRegion);
+						console.log(`[Thoughtlands] Recorded re-run of "${newRegion.name}" as version ${snapshot.version}`);
+						
+						// Update the local region reference to reflect changes
+						this.region = newRegion;
 						
 						// Close modal and trigger update
 						this.close();
@@ -356,14 +479,22 @@ export class RegionInfoModal extends Modal {
 						}
 					}
 				} catch (error) {
-					// Restore original threshold on error
-					this.settings.embeddingSimilarityThreshold = originalSettingsThreshold;
-					this.createRegionCommands.updateSettings(this.settings);
 					console.error('[Thoughtlands] Error re-running region:', error);
 					new Notice(`Error re-running region: ${error instanceof Error ? error.message : 'Unknown error'}`);
 				}
 			});
 		}
+
+		// Living region toggle and membership change log
+		if (this.regionService && supportsLiveMembership(this.region)) {
+			this.renderLiveSection(metadata);
+		}
+
+		// Version history with diffs between re-runs
+		if (this.region.history && this.region.history.length > 0) {
+			this.renderHistorySection(metadata);
+		}
+
 		// Show canvas information
 		let canvases = this.region.canvases || [];
 		
@@ -584,7 +715,181 @@ export class RegionInfoModal extends Modal {
 		const sourceSection = contentEl.createDiv({ attr: { style: 'margin-bottom: 20px;' } });
 		sourceSection.createEl('h3', { text: 'Source Information', attr: { style: 'margin-bottom: 10px;' } });
 
-		if (this.region.mode === 'concept' && this.region.source.concepts) {
+		const discovery = this.region.source.processingInfo?.discovery;
+		if (isCombinedRegion(this.region)) {
+			const operation = this.region.source.operation!;
+			const operands = this.region.source.operandIds!.map(id => this.regionService?.getRegion(id) ?? null);
+
+			const operandsDiv = sourceSection.createDiv({ attr: { style: 'margin-bottom: 15px;' } });
+			operandsDiv.createEl('strong', { text: `${getSetOperationDisplayName(operation)} of:` });
+			const operandList = operandsDiv.createEl('ol', { attr: { style: 'margin: 5px 0; padding-left: 20px;' } });
+			operands.forEach(operand => {
+				const item = operandList.createEl('li');
+				if (operand) {
+					item.createSpan({ attr: { style: `display: inline-block; width: 10px; height: 10px; margin-right: 6px; background-color: ${operand.color}; border-radius: 50%;` } });
+					item.createSpan({ text: `${operand.name} (${operand.notes.length} notes)` });
+				} else {
+					item.createSpan({ text: '(deleted region)', attr: { style: 'color: var(--text-muted);' } });
+				}
+			});
+
+			const operationText: Record<string, string> = {
+				'union': 'every note in any of these regions',
+				'intersection': 'the notes that are in all of these regions',
+				'difference': 'the notes of the first region that are in none of the others',
+				'symmetric-difference': 'the notes that are in exactly one of these regions',
+			};
+			const narrative = [`This region holds ${operationText[operation]}.`];
+			if (operands.some(operand => !operand)) {
+				narrative.push('A region it was built from has been deleted, so its notes can no longer be recomputed.');
+			} else if (this.region.source.autoRecompute) {
+				narrative.push('It is recomputed whenever the notes of these regions change.');
+			} else {
+				narrative.push('It keeps its notes when these regions change, until it is recomputed.');
+			}
+			sourceSection.createEl('p', {
+				text: narrative.join(' '),
+				attr: { style: 'margin: 5px 0 10px 0; line-height: 1.5; color: var(--text-muted);' }
+			});
+
+			if (this.regionService && operands.every(operand => operand)) {
+				const controls = sourceSection.createDiv({ attr: { style: 'display: flex; align-items: center; gap: 10px; margin-bottom: 15px;' } });
+				const autoLabel = controls.createEl('label', { attr: { style: 'display: flex; align-items: center; gap: 6px; font-size: 0.9em;' } });
+				const autoCheckbox = autoLabel.createEl('input', { type: 'checkbox' });
+				autoCheckbox.checked = !!this.region.source.autoRecompute;
+				autoLabel.createSpan({ text: 'Recompute automatically' });
+				autoCheckbox.addEventListener('change', () => {
+					this.region.source.autoRecompute = autoCheckbox.checked;
+					if (this.onUpdate) {
+						this.onUpdate();
+					}
+					this.onOpen();
+				});
+
+				const recomputeButton = controls.createEl('button', {
+					text: 'Recompute now',
+					attr: { style: 'padding: 4px 12px; font-size: 0.9em; margin-left: auto;' }
+				});
+				recomputeButton.addEventListener('click', () => {
+					if (this.regionService!.recomputeCombinedRegion(this.region)) {
+						new Notice(`Recomputed "${this.region.name}": ${this.region.notes.length} notes`);
+						if (this.onUpdate) {
+							this.onUpdate();
+						}
+						this.onOpen();
+					} else {
+						new Notice('The region is already up to date');
+					}
+				});
+			}
+		} else if (isMergedRegion(this.region)) {
+			const mergedRegions = this.region.source.mergedRegions!;
+			const noteOrigins = this.region.source.noteOrigins || {};
+
+			const mergedDiv = sourceSection.createDiv({ attr: { style: 'margin-bottom: 15px;' } });
+			mergedDiv.createEl('strong', { text: 'Merged From:' });
+			const mergedList = mergedDiv.createEl('ul', { attr: { style: 'margin: 5px 0; padding-left: 20px;' } });
+			mergedRegions.forEach(merged => {
+				const item = mergedList.createEl('li');
+				item.createSpan({ attr: { style: `display: inline-block; width: 10px; height: 10px; margin-right: 6px; background-color: ${merged.color}; border-radius: 50%;` } });
+				const contributed = this.region.notes.filter(path => noteOrigins[path]?.includes(merged.id)).length;
+				item.createSpan({ text: `${merged.name} (${contributed} of ${merged.noteCount} notes still here)` });
+				if (!merged.kept) {
+					item.createSpan({ text: ' - deleted after merging', attr: { style: 'color: var(--text-muted);' } });
+				}
+			});
+
+			const shared = this.region.notes.filter(path => (noteOrigins[path]?.length || 0) > 1).length;
+			const total = mergedRegions.reduce((sum, merged) => sum + merged.noteCount, 0);
+			sourceSection.createEl('p', {
+				text: `This region merges ${mergedRegions.length} regions with ${total} notes between them. ${shared} note${shared !== 1 ? 's were' : ' was'} in more than one of them and ${shared !== 1 ? 'are' : 'is'} listed once. ${mergedRegions.every(merged => merged.kept) ? 'The merged regions are kept as its sub-regions.' : 'The merged regions were deleted; how each was made is kept here.'} Each note's origin is shown in the notes list.`,
+				attr: { style: 'margin: 5px 0 15px 0; line-height: 1.5; color: var(--text-muted);' }
+			});
+		} else if (isDiscoveredRegion(this.region) && discovery) {
+			if (discovery.keywords.length > 0) {
+				const keywordsDiv = sourceSection.createDiv({ attr: { style: 'margin-bottom: 15px;' } });
+				keywordsDiv.createEl('strong', { text: 'Distinctive Keywords:' });
+				keywordsDiv.createEl('p', { 
+					text: discovery.keywords.join(', '),
+					attr: { style: 'margin: 5px 0; padding: 8px; background: var(--background-secondary); border-radius: 4px;' }
+				});
+			}
+
+			if (discovery.tags && discovery.tags.length > 0) {
+				const tagsDiv = sourceSection.createDiv({ attr: { style: 'margin-bottom: 15px;' } });
+				tagsDiv.createEl('strong', { text: 'Common Tags:' });
+				const tagsList = tagsDiv.createEl('ul', { attr: { style: 'margin: 5px 0; padding-left: 20px;' } });
+				discovery.tags.forEach(tag => {
+					tagsList.createEl('li', { text: `#${tag}` });
+				});
+			}
+
+			const methodText = discovery.method === 'density'
+				? `Density-based clustering grouped notes with enough close neighbours among ${discovery.notesClustered} embedded notes into ${discovery.clusterCount} clusters`
+				: `K-means grouped ${discovery.notesClustered} embedded notes into ${discovery.clusterCount} clusters, choosing the number of clusters that separated them best`;
+			const narrative = discovery.splitFrom
+				? [`This region was split from "${discovery.splitFrom}": k-means grouped its ${discovery.notesClustered} embedded notes into ${discovery.clusterCount} sub-regions, choosing the number of sub-regions that separated them best, and its keywords set it apart from the rest of "${discovery.splitFrom}".`]
+				: [`This region was proposed by Discover Regions. ${methodText}.`];
+			if (discovery.unassignedCount > 0) {
+				narrative.push(`${discovery.unassignedCount} note${discovery.unassignedCount !== 1 ? 's' : ''} fit no cluster.`);
+			}
+			if (discovery.mergedFrom) {
+				narrative.push(`This region merges ${discovery.mergedFrom} of the proposed clusters.`);
+			}
+			narrative.push(`Its notes have a mean similarity of ${discovery.cohesion.toFixed(2)} to the centre of the cluster, and it was named ${discovery.aiNamed ? 'by the AI from its keywords and tags' : 'after its keywords'}.`);
+			sourceSection.createEl('p', {
+				text: narrative.join(' '),
+				attr: { style: 'margin: 5px 0 15px 0; line-height: 1.5; color: var(--text-muted);' }
+			});
+		} else if (isExemplarRegion(this.region)) {
+			const exemplars = getRegionExemplars(this.region);
+			const renderExamples = (label: string, paths: string[]) => {
+				if (paths.length === 0) return;
+				const examplesDiv = sourceSection.createDiv({ attr: { style: 'margin-bottom: 15px;' } });
+				examplesDiv.createEl('strong', { text: label });
+				const exampleList = examplesDiv.createEl('ul', { attr: { style: 'margin: 5px 0; padding-left: 20px;' } });
+				paths.forEach(examplePath => {
+					const item = exampleList.createEl('li', { 
+						text: examplePath,
+						attr: { style: 'font-family: monospace; font-size: 0.9em; cursor: pointer;' }
+					});
+					item.addEventListener('click', () => {
+						if (this.app.vault.getAbstractFileByPath(examplePath) instanceof TFile) {
+							this.app.workspace.openLinkText(examplePath, '', true);
+							this.close();
+						}
+					});
+				});
+			};
+			renderExamples('Like These Notes:', exemplars.positiveNotes);
+			renderExamples('Unlike These Notes:', exemplars.negativeNotes);
+
+			if (exemplars.conceptText) {
+				const conceptDiv = sourceSection.createDiv({ attr: { style: 'margin-bottom: 15px;' } });
+				conceptDiv.createEl('strong', { text: 'Concept Entered:' });
+				conceptDiv.createEl('p', { 
+					text: exemplars.conceptText,
+					attr: { style: 'margin: 5px 0; padding: 8px; background: var(--background-secondary); border-radius: 4px;' }
+				});
+			}
+
+			const info = this.region.source.processingInfo;
+			if (info?.similarNotesFound !== undefined) {
+				const threshold = info.similarityThreshold ?? this.region.similarityThreshold ?? 0.7;
+				const parts: string[] = [];
+				if (exemplars.conceptText) parts.push('the concept embedding');
+				if (exemplars.positiveNotes.length === 1) parts.push('the embedding of the note to be like');
+				if (exemplars.positiveNotes.length > 1) parts.push(`the average embedding of the ${exemplars.positiveNotes.length} notes to be like`);
+				let query = `The query combined ${parts.join(' and ')}`;
+				if (exemplars.negativeNotes.length > 0) {
+					query += `, moved away from the average of the ${exemplars.negativeNotes.length} note${exemplars.negativeNotes.length !== 1 ? 's' : ''} to be unlike`;
+				}
+				sourceSection.createEl('p', {
+					text: `${query}. It was compared with every note in the vault using a similarity threshold of ${threshold}, and ${info.similarNotesFound} note${info.similarNotesFound !== 1 ? 's were' : ' was'} found. The notes to be like lead the region; the notes to be unlike are never included.`,
+					attr: { style: 'margin: 5px 0 15px 0; line-height: 1.5; color: var(--text-muted);' }
+				});
+			}
+		} else if (this.region.mode === 'concept' && this.region.source.concepts) {
 			const conceptsDiv = sourceSection.createDiv({ attr: { style: 'margin-bottom: 15px;' } });
 			conceptsDiv.createEl('strong', { text: 'Concept Entered:' });
 			const conceptText = this.region.source.concepts.length === 1 
@@ -846,6 +1151,16 @@ export class RegionInfoModal extends Modal {
 					narrativeText.push(`Semantic similarity analysis was applied, but no additional related notes were found above the similarity threshold.`);
 				}
 
+				if (info.hybridFusion) {
+					const signals = info.queryEmbedded
+						? 'BM25 keyword scores, similarity to the query text and similarity to the search results'
+						: 'BM25 keyword scores and similarity to the search results (the query has no words to embed)';
+					const fusion = info.hybridFusion.method === 'weighted'
+						? `a weighted sum (keyword weight ${info.hybridFusion.lexicalWeight.toFixed(2)})`
+						: 'reciprocal rank fusion';
+					narrativeText.push(`Notes are ordered by combining ${signals} with ${fusion}.`);
+				}
+
 				// Display narrative
 				narrativeText.forEach((text, index) => {
 					const para = narrativeContent.createEl('p', {
@@ -856,6 +1171,13 @@ export class RegionInfoModal extends Modal {
 			}
 		}
 
+		// Nearby regions and bridge notes, filled in once the analysis is done
+		if (this.analysisService && this.regionService) {
+			const nearbySection = contentEl.createDiv({ attr: { style: 'margin-bottom: 20px;' } });
+			nearbySection.createEl('h3', { text: 'Nearby Regions', attr: { style: 'margin-bottom: 10px;' } });
+			this.renderNearbyRegions(nearbySection);
+		}
+
 		// Notes list
 		const notesSection = contentEl.createDiv();
 		notesSection.createEl('h3', { text: 'Matching Notes', attr: { style: 'margin-bottom: 10px;' } });
@@ -870,6 +1192,11 @@ export class RegionInfoModal extends Modal {
 				attr: { style: 'max-height: 400px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 4px; padding: 10px;' } 
 			});
 			
+			const matchedPassages = this.region.source.processingInfo?.matchedPassages;
+			const hybridScores = this.region.source.processingInfo?.hybridScores;
+			const noteOrigins = this.region.source.noteOrigins;
+			const mergedNames: Map<string, string> = new Map((this.region.source.mergedRegions || []).map(merged => [merged.id, merged.name]));
+			
 			this.region.notes.forEach((notePath, index) => {
 				const noteItem = notesList.createDiv({ 
 					attr: { 
@@ -898,6 +1225,56 @@ export class RegionInfoModal extends Modal {
 					text: notePath,
 					attr: { style: 'font-family: monospace; font-size: 0.9em;' }
 				});
+
+				// Show how the note ranked, when the region was built with hybrid ranking
+				const score = hybridScores?.[notePath];
+				if (score) {
+					const parts: string[] = [`#${score.rank}`, `score ${score.fused.toFixed(score.fused < 1 ? 4 : 2)}`];
+					if (score.bm25 !== undefined) {
+						parts.push(`BM25 ${score.bm25.toFixed(2)} (rank ${score.lexicalRank}${score.matchedWords?.length ? `: ${score.matchedWords.join(', ')}` : ''})`);
+					}
+					if (score.querySimilarity !== undefined) {
+						parts.push(`query ${(score.querySimilarity * 100).toFixed(0)}% (rank ${score.queryRank})`);
+					}
+					if (score.centroidSimilarity !== undefined) {
+						parts.push(`results ${(score.centroidSimilarity * 100).toFixed(0)}% (rank ${score.centroidRank})`);
+					}
+					if (score.searchHit) {
+						parts.push('search hit');
+					}
+					noteItem.createDiv({
+						text: parts.join(' · '),
+						attr: { style: 'margin-top: 2px; font-size: 0.8em; color: var(--text-muted);' }
+					});
+				}
+
+				// Show which merged regions the note came from
+				const origins = noteOrigins?.[notePath];
+				if (origins && origins.length > 0) {
+					noteItem.createDiv({
+						text: `From ${origins.map(id => mergedNames.get(id) || 'a merged region').join(', ')}`,
+						attr: { style: 'margin-top: 2px; font-size: 0.8em; color: var(--text-muted);' }
+					});
+				}
+
+				// Show the passage (chunk) that matched, when the region was built from chunked embeddings
+				const passage = matchedPassages?.[notePath];
+				if (passage) {
+					const passageEl = noteItem.createDiv({ 
+						attr: { style: 'margin-top: 4px; padding-left: 10px; border-left: 2px solid var(--background-modifier-border); font-size: 0.85em; color: var(--text-muted);' } 
+					});
+					const label = passage.heading 
+						? `Matched passage under "${passage.heading}" (${(passage.similarity * 100).toFixed(0)}%)`
+						: `Matched passage (${(passage.similarity * 100).toFixed(0)}%)`;
+					passageEl.createEl('div', { 
+						text: label,
+						attr: { style: 'font-weight: 500; margin-bottom: 2px;' }
+					});
+					passageEl.createEl('div', { 
+						text: passage.excerpt.length >= 200 ? `${passage.excerpt}…` : passage.excerpt,
+						attr: { style: 'font-style: italic;' }
+					});
+				}
 			});
 		}
 
@@ -955,6 +1332,247 @@ export class RegionInfoModal extends Modal {
 		closeButton.addEventListener('click', () => this.close());
 	}
 
+	private renderLiveSection(container: HTMLElement) {
+		const regionService = this.regionService;
+		if (!regionService) return;
+
+		const liveSection = container.createDiv({ 
+			attr: { style: 'margin-top: 10px; padding-top: 10px; border-top: 1px solid var(--background-modifier-border);' } 
+		});
+
+		const toggleLabel = liveSection.createEl('label', { 
+			attr: { style: 'display: flex; align-items: center; gap: 8px; cursor: pointer;' } 
+		});
+		const toggle = toggleLabel.createEl('input', { type: 'checkbox' });
+		toggle.checked = !!this.region.live?.enabled;
+		toggleLabel.createEl('strong', { text: 'Live region' });
+		liveSection.createEl('p', { 
+			text: 'Re-score new and modified notes against this region and suggest notes to add or remove.',
+			attr: { style: 'margin: 5px 0; font-size: 0.85em; color: var(--text-muted);' }
+		});
+
+		toggle.addEventListener('change', () => {
+			regionService.setLive(this.region.id, toggle.checked);
+			if (this.onUpdate) {
+				this.onUpdate();
+			}
+			this.onOpen();
+		});
+
+		const changes = this.region.live?.changes || [];
+		if (changes.length === 0) return;
+
+		const pending = regionService.getPendingLiveChanges(this.region);
+		if (pending.length > 0) {
+			const pendingRow = liveSection.createDiv({ 
+				attr: { style: 'display: flex; align-items: center; gap: 8px; margin: 8px 0;' } 
+			});
+			pendingRow.createEl('span', { 
+				text: `${pending.length} pending change${pending.length !== 1 ? 's' : ''}`,
+				attr: { style: 'flex: 1; font-weight: 500;' }
+			});
+			for (const accept of [true, false]) {
+				const button = pendingRow.createEl('button', { text: accept ? 'Accept all' : 'Dismiss all' });
+				button.addEventListener('click', () => {
+					regionService.resolveLiveChanges(this.region.id, accept);
+					if (this.onUpdate) {
+						this.onUpdate();
+					}
+					this.onOpen();
+				});
+			}
+		}
+
+		// Collapsible change log, newest first
+		const logHeader = liveSection.createDiv({ 
+			attr: { style: 'display: flex; align-items: center; cursor: pointer; user-select: none; margin: 5px 0;' } 
+		});
+		const carat = logHeader.createSpan({ 
+			text: '▶',
+			attr: { style: 'font-size: 0.8em; margin-right: 5px; color: var(--text-muted);' }
+		});
+		logHeader.createEl('strong', { text: `Membership changes (${changes.length}):` });
+
+		const logList = liveSection.createDiv({ attr: { style: 'display: none; font-size: 0.85em;' } });
+		logHeader.addEventListener('click', () => {
+			const expanded = logList.style.display === 'none';
+			logList.style.display = expanded ? 'block' : 'none';
+			carat.textContent = expanded ? '▼' : '▶';
+		});
+
+		const statusColors: Record<string, string> = {
+			pending: 'var(--interactive-accent)',
+			accepted: 'var(--text-success)',
+			dismissed: 'var(--text-muted)'
+		};
+		for (const change of [...changes].reverse()) {
+			const item = logList.createDiv({ 
+				attr: { style: 'padding: 4px 0; border-bottom: 1px solid var(--background-modifier-border);' } 
+			});
+			const similarityText = change.similarity !== undefined ? ` (${change.similarity.toFixed(3)})` : '';
+			item.createEl('div', { text: `${change.change === 'add' ? '+ Add' : '− Remove'} ${change.path}${similarityText}` });
+
+			let detail = `Detected ${new Date(change.detectedAt).toLocaleString()}`;
+			if (change.resolvedAt) {
+				detail += ` • ${change.status} ${new Date(change.resolvedAt).toLocaleString()}`;
+			}
+			const detailEl = item.createEl('div', { attr: { style: 'color: var(--text-muted);' } });
+			detailEl.createEl('span', { 
+				text: change.status,
+				attr: { style: `color: ${statusColors[change.status]}; font-weight: 500; margin-right: 6px;` }
+			});
+			detailEl.createEl('span', { text: detail });
+		}
+	}
+
+	private renderHistorySection(container: HTMLElement) {
+		const history = this.region.history || [];
+		const historySection = container.createDiv({ 
+			attr: { style: 'margin-top: 10px; padding-top: 10px; border-top: 1px solid var(--background-modifier-border);' } 
+		});
+
+		// Collapsible header
+		const historyHeader = historySection.createDiv({ 
+			attr: { style: 'display: flex; align-items: center; cursor: pointer; user-select: none; margin-bottom: 5px;' } 
+		});
+		const carat = historyHeader.createSpan({ 
+			text: '▶',
+			attr: { style: 'font-size: 0.8em; margin-right: 5px; color: var(--text-muted);' }
+		});
+		historyHeader.createEl('strong', { text: `History (${history.length} version${history.length !== 1 ? 's' : ''}):` });
+
+		const historyList = historySection.createDiv({ attr: { style: 'display: none; font-size: 0.85em;' } });
+		historyHeader.addEventListener('click', () => {
+			const expanded = historyList.style.display === 'none';
+			historyList.style.display = expanded ? 'block' : 'none';
+			carat.textContent = expanded ? '▼' : '▶';
+		});
+
+		const triggerLabels: Record<RegionSnapshot['trigger'], string> = {
+			'initial': 'Created',
+			'rerun': 'Re-run',
+			'live-refresh': 'Live refresh',
+			'revert': 'Reverted',
+			'recompute': 'Recomputed'
+		};
+		const current = history[history.length - 1];
+
+		// Newest first; each version is compared with the one before it
+		for (let i = history.length - 1; i >= 0; i--) {
+			const snapshot = history[i];
+			const previous = i > 0 ? history[i - 1] : undefined;
+			const diff = previous ? diffRegionSnapshots(previous, snapshot) : undefined;
+
+			const item = historyList.createDiv({ 
+				attr: { style: 'padding: 6px 0; border-bottom: 1px solid var(--background-modifier-border);' } 
+			});
+			const row = item.createDiv({ attr: { style: 'display: flex; align-items: center; gap: 8px;' } });
+
+			let label = `v${snapshot.version} • ${triggerLabels[snapshot.trigger]}`;
+			if (snapshot.revertedTo !== undefined) {
+				label += ` to v${snapshot.revertedTo}`;
+			}
+			if (snapshot === current) {
+				label += ' (current)';
+			}
+			row.createEl('span', { text: label, attr: { style: 'flex: 1; font-weight: 500;' } });
+
+			if (diff && (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0)) {
+				const diffButton = row.createEl('button', { 
+					text: 'Diff',
+					attr: { style: 'padding: 2px 8px; font-size: 0.9em;', title: `Compare with v${previous!.version}` }
+				});
+				let diffView: HTMLElement | null = null;
+				diffButton.addEventListener('click', () => {
+					if (diffView) {
+						diffView.remove();
+						diffView = null;
+						return;
+					}
+					diffView = this.renderSnapshotDiff(item, diff, previous!, snapshot);
+				});
+			}
+
+			if (snapshot !== current && this.regionService) {
+				const revertButton = row.createEl('button', { 
+					text: 'Revert',
+					attr: { style: 'padding: 2px 8px; font-size: 0.9em;', title: `Restore the notes and parameters of v${snapshot.version}` }
+				});
+				revertButton.addEventListener('click', () => {
+					if (!this.regionService) return;
+					if (!confirm(`Revert region "${this.region.name}" to version ${snapshot.version} (${snapshot.notes.length} notes)?`)) return;
+
+					if (this.regionService.revertToSnapshot(this.region.id, snapshot.version)) {
+						new Notice(`Reverted "${this.region.name}" to version ${snapshot.version}`);
+						if (this.onUpdate) {
+							this.onUpdate();
+						}
+						this.onOpen();
+					}
+				});
+			}
+
+			// Parameters and counts
+			const params: string[] = [new Date(snapshot.createdAt).toLocaleString()];
+			if (snapshot.params.similarityThreshold !== undefined) {
+				params.push(`threshold ${snapshot.params.similarityThreshold.toFixed(2)}`);
+			}
+			if (snapshot.params.semanticSimilarityMode) {
+				params.push(snapshot.params.semanticSimilarityMode);
+			}
+			let countText = `${snapshot.notes.length} notes`;
+			if (diff) {
+				countText += ` (+${diff.added.length} / −${diff.removed.length})`;
+			}
+			params.push(countText);
+			item.createEl('div', { 
+				text: params.join(' • '),
+				attr: { style: 'color: var(--text-muted); margin-top: 2px;' }
+			});
+		}
+	}
+
+	private renderSnapshotDiff(container: HTMLElement, diff: RegionSnapshotDiff, from: RegionSnapshot, to: RegionSnapshot): HTMLElement {
+		const diffView = container.createDiv({ 
+			attr: { style: 'margin-top: 6px; padding: 6px 8px; background: var(--background-secondary); border-radius: 4px;' } 
+		});
+		diffView.createEl('div', { 
+			text: `v${from.version} → v${to.version}`,
+			attr: { style: 'font-weight: 500; margin-bottom: 4px;' }
+		});
+
+		const similarityText = (snapshot: RegionSnapshot, path: string) => {
+			const similarity = snapshot.passages?.[path]?.similarity;
+			return similarity !== undefined ? ` (${similarity.toFixed(3)})` : '';
+		};
+
+		for (const path of diff.added) {
+			diffView.createEl('div', { 
+				text: `+ ${path}${similarityText(to, path)}`,
+				attr: { style: 'color: var(--text-success);' }
+			});
+		}
+		for (const path of diff.removed) {
+			diffView.createEl('div', { 
+				text: `− ${path}${similarityText(from, path)}`,
+				attr: { style: 'color: var(--text-error);' }
+			});
+		}
+		if (diff.changed.length > 0) {
+			diffView.createEl('div', { 
+				text: 'Similarity changes:',
+				attr: { style: 'margin-top: 4px; color: var(--text-muted);' }
+			});
+			for (const change of diff.changed) {
+				const sign = change.delta > 0 ? '+' : '−';
+				diffView.createEl('div', { 
+					text: `  ${change.path}: ${change.before.toFixed(3)} → ${change.after.toFixed(3)} (${sign}${Math.abs(change.delta).toFixed(3)})`
+				});
+			}
+		}
+		return diffView;
+	}
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
@@ -0,0 +1,27 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { Region } from '../models/region';
+
+// Pick a region by name
+export class RegionSuggestModal extends FuzzySuggestModal<Region> {
+	private regions: Region[];
+	private onChoose: (region: Region) => void;
+
+	constructor(app: App, regions: Region[], placeholder: string, onChoose: (region: Region) => void) {
+		super(app);
+		this.regions = regions;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): Region[] {
+		return this.regions;
+	}
+
+	getItemText(region: Region): string {
+		return `${region.name} (${region.notes.length} notes)`;
+	}
+
+	onChooseItem(region: Region): void {
+		this.onChoose(region);
+	}
+}
@@ -0,0 +1,308 @@
+import { ItemView, WorkspaceLeaf, TFile } from 'obsidian';
+import { Region } from '../models/region';
+import { RegionService } from '../services/regionService';
+import { RegionAnalysisService, RegionAnalysis, RegionPairStats } from '../services/regionAnalysisService';
+
+export const REGION_OVERLAP_VIEW_TYPE = 'thoughtlands-region-overlap';
+
+type OverlapMetric = 'centroid' | 'jaccard';
+type RegionOrder = 'connected' | 'name' | 'notes';
+type PairSortColumn = 'a' | 'b' | 'shared' | 'jaccard' | 'centroid';
+
+/**
+ * How regions relate, as a heatmap of every pair (centroid similarity or Jaccard overlap), a
+ * sortable table of the pairs, and the bridge notes that sit near several regions.
+ */
+export class RegionOverlapView extends ItemView {
+	private regionService: RegionService;
+	private analysisService: RegionAnalysisService;
+	private metric: OverlapMetric = 'centroid';
+	private order: RegionOrder = 'connected';
+	private pairSort: { column: PairSortColumn; descending: boolean } = { column: 'centroid', descending: true };
+	private includeArchived = false;
+	private analysis: RegionAnalysis | null = null;
+
+	constructor(leaf: WorkspaceLeaf, regionService: RegionService, analysisService: RegionAnalysisService) {
+		super(leaf);
+		this.regionService = regionService;
+		this.analysisService = analysisService;
+	}
+
+	getViewType() {
+		return REGION_OVERLAP_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return 'Region Overlap';
+	}
+
+	getIcon() {
+		return 'grid';
+	}
+
+	async onOpen() {
+		await this.refresh();
+	}
+
+	// Re-run the analysis (reused when no region changed, unless forced) and redraw
+	async refresh(force: boolean = false) {
+		const { containerEl } = this;
+		containerEl.empty();
+		containerEl.createDiv({
+			text: 'Analyzing regions...',
+			attr: { style: 'padding: 20px; color: var(--text-muted);' }
+		});
+
+		const regions = this.regionService.getRegions().filter(region => this.includeArchived || !region.archived);
+		try {
+			this.analysis = await this.analysisService.analyze(regions, force);
+		} catch (error) {
+			console.error('[Thoughtlands:RegionOverlap] Error analyzing regions:', error);
+			containerEl.empty();
+			containerEl.createDiv({
+				text: `Error analyzing regions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+				attr: { style: 'padding: 20px; color: var(--text-error);' }
+			});
+			return;
+		}
+		this.render();
+	}
+
+	private render() {
+		const { containerEl } = this;
+		containerEl.empty();
+		const analysis = this.analysis;
+		if (!analysis) return;
+
+		const root = containerEl.createDiv({ attr: { style: 'padding: 15px; overflow: auto; height: 100%;' } });
+		root.createEl('h3', { text: 'Region Overlap', attr: { style: 'margin: 0 0 10px 0;' } });
+
+		// Controls
+		const controls = root.createDiv({ attr: { style: 'display: flex; flex-wrap: wrap; align-items: center; gap: 10px; margin-bottom: 15px;' } });
+		const metricSelect = controls.createEl('select');
+		metricSelect.createEl('option', { text: 'Centroid similarity', value: 'centroid' });
+		metricSelect.createEl('option', { text: 'Note overlap (Jaccard)', value: 'jaccard' });
+		metricSelect.value = this.metric;
+		metricSelect.addEventListener('change', () => {
+			this.metric = metricSelect.value as OverlapMetric;
+			this.render();
+		});
+
+		const orderSelect = controls.createEl('select');
+		orderSelect.createEl('option', { text: 'Order: most related', value: 'connected' });
+		orderSelect.createEl('option', { text: 'Order: name', value: 'name' });
+		orderSelect.createEl('option', { text: 'Order: note count', value: 'notes' });
+		orderSelect.value = this.order;
+		orderSelect.addEventListener('change', () => {
+			this.order = orderSelect.value as RegionOrder;
+			this.render();
+		});
+
+		const archivedLabel = controls.createEl('label', { attr: { style: 'display: flex; align-items: center; gap: 6px;' } });
+		const archivedCheckbox = archivedLabel.createEl('input', { type: 'checkbox' });
+		archivedCheckbox.checked = this.includeArchived;
+		archivedLabel.createSpan({ text: 'Include archived' });
+		archivedCheckbox.addEventListener('change', () => {
+			this.includeArchived = archivedCheckbox.checked;
+			this.refresh();
+		});
+
+		const refreshButton = controls.createEl('button', { text: 'Refresh', attr: { style: 'margin-left: auto;' } });
+		refreshButton.addEventListener('click', () => this.refresh(true));
+
+		const regions = analysis.profiles.map(profile => profile.region);
+		if (regions.length < 2) {
+			root.createEl('p', {
+				text: 'Create at least two regions to compare them.',
+				attr: { style: 'color: var(--text-muted);' }
+			});
+			return;
+		}
+
+		const pairsByKey: Map<string, RegionPairStats> = new Map();
+		analysis.pairs.forEach(pair => {
+			pairsByKey.set(`${pair.a}|${pair.b}`, pair);
+			pairsByKey.set(`${pair.b}|${pair.a}`, pair);
+		});
+		const valueOf = (pair: RegionPairStats): number | null => this.metric === 'centroid' ? pair.centroidSimilarity : pair.jaccard;
+
+		this.renderHeatmap(root, this.orderRegions(regions, analysis, valueOf), pairsByKey, valueOf);
+		this.renderPairs(root, analysis, regions);
+		this.renderBridges(root, analysis, regions);
+
+		const missing = analysis.profiles.filter(profile => !profile.centroid).map(profile => profile.region.name);
+		if (missing.length > 0) {
+			root.createEl('p', {
+				text: `No centroid for ${missing.join(', ')}: none of their notes have embeddings.`,
+				attr: { style: 'margin-top: 10px; font-size: 0.85em; color: var(--text-muted);' }
+			});
+		}
+	}
+
+	private orderRegions(regions: Region[], analysis: RegionAnalysis, valueOf: (pair: RegionPairStats) => number | null): Region[] {
+		if (this.order === 'name') {
+			return [...regions].sort((a, b) => a.name.localeCompare(b.name));
+		}
+		if (this.order === 'notes') {
+			return [...regions].sort((a, b) => b.notes.length - a.notes.length);
+		}
+		// Most related: by the sum of the region's values with every other region
+		const totals: Map<string, number> = new Map();
+		analysis.pairs.forEach(pair => {
+			const value = valueOf(pair) ?? 0;
+			totals.set(pair.a, (totals.get(pair.a) || 0) + value);
+			totals.set(pair.b, (totals.get(pair.b) || 0) + value);
+		});
+		return [...regions].sort((a, b) => (totals.get(b.id) || 0) - (totals.get(a.id) || 0));
+	}
+
+	private renderHeatmap(root: HTMLElement, regions: Region[], pairsByKey: Map<string, RegionPairStats>, valueOf: (pair: RegionPairStats) => number | null) {
+		// Shade relative to the range of values, so differences stay visible when every pair is similar
+		const values = Array.from(pairsByKey.values()).map(valueOf).filter((value): value is number => value !== null);
+		const min = values.length > 0 ? Math.min(...values) : 0;
+		const max = values.length > 0 ? Math.max(...values) : 1;
+		const shade = (value: number) => max > min ? (value - min) / (max - min) : 1;
+
+		const wrapper = root.createDiv({ attr: { style: 'overflow: auto; margin-bottom: 20px;' } });
+		const table = wrapper.createEl('table', { attr: { style: 'border-collapse: collapse; font-size: 0.8em;' } });
+		const headerRow = table.createEl('tr');
+		headerRow.createEl('th');
+		regions.forEach(region => {
+			const th = headerRow.createEl('th', {
+				attr: { style: 'padding: 2px; vertical-align: bottom; height: 120px;', title: region.name }
+			});
+			th.createDiv({
+				text: region.name,
+				attr: { style: 'writing-mode: vertical-rl; transform: rotate(180deg); max-height: 120px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; font-weight: normal;' }
+			});
+		});
+
+		regions.forEach(rowRegion => {
+			const row = table.createEl('tr');
+			const label = row.createEl('th', {
+				attr: { style: 'padding: 2px 8px 2px 0; text-align: right; font-weight: normal; white-space: nowrap; max-width: 200px; overflow: hidden; text-overflow: ellipsis;', title: rowRegion.name }
+			});
+			label.createSpan({ attr: { style: `display: inline-block; width: 8px; height: 8px; margin-right: 6px; background-color: ${rowRegion.color}; border-radius: 50%;` } });
+			label.createSpan({ text: rowRegion.name });
+
+			regions.forEach(columnRegion => {
+				const cell = row.createEl('td', {
+					attr: { style: 'width: 28px; height: 28px; min-width: 28px; border: 1px solid var(--background-primary); text-align: center;' }
+				});
+				if (rowRegion.id === columnRegion.id) {
+					cell.style.background = 'var(--background-modifier-border)';
+					return;
+				}
+				const pair = pairsByKey.get(`${rowRegion.id}|${columnRegion.id}`)!;
+				const value = valueOf(pair);
+				cell.setAttribute('title', `${rowRegion.name} ↔ ${columnRegion.name}\nCentroid similarity: ${pair.centroidSimilarity !== null ? pair.centroidSimilarity.toFixed(2) : 'n/a'}\nJaccard overlap: ${pair.jaccard.toFixed(2)} (${pair.sharedNotes} shared note${pair.sharedNotes !== 1 ? 's' : ''})`);
+				if (value === null) {
+					cell.setText('–');
+					cell.style.color = 'var(--text-faint)';
+					return;
+				}
+				cell.style.background = `hsla(var(--interactive-accent-hsl), ${(0.08 + 0.92 * shade(value)).toFixed(2)})`;
+			});
+		});
+
+		root.createEl('p', {
+			text: this.metric === 'centroid'
+				? `Darker cells: regions whose notes are about closer topics (centroid similarity ${min.toFixed(2)}–${max.toFixed(2)}). Hover a cell for details.`
+				: `Darker cells: regions sharing more of their notes (Jaccard ${min.toFixed(2)}–${max.toFixed(2)}). Hover a cell for details.`,
+			attr: { style: 'margin: -12px 0 20px 0; font-size: 0.85em; color: var(--text-muted);' }
+		});
+	}
+
+	private renderPairs(root: HTMLElement, analysis: RegionAnalysis, regions: Region[]) {
+		const regionsById = new Map(regions.map(region => [region.id, region]));
+		root.createEl('h4', { text: 'Region Pairs', attr: { style: 'margin: 0 0 8px 0;' } });
+
+		const columns: { key: PairSortColumn; label: string }[] = [
+			{ key: 'a', label: 'Region' },
+			{ key: 'b', label: 'Region' },
+			{ key: 'shared', label: 'Shared notes' },
+			{ key: 'jaccard', label: 'Jaccard' },
+			{ key: 'centroid', label: 'Centroid similarity' },
+		];
+		const sortValue = (pair: RegionPairStats, column: PairSortColumn): number | string => {
+			switch (column) {
+				case 'a': return regionsById.get(pair.a)!.name.toLowerCase();
+				case 'b': return regionsById.get(pair.b)!.name.toLowerCase();
+				case 'shared': return pair.sharedNotes;
+				case 'jaccard': return pair.jaccard;
+				case 'centroid': return pair.centroidSimilarity ?? -2;
+			}
+		};
+		const { column, descending } = this.pairSort;
+		const pairs = [...analysis.pairs].sort((x, y) => {
+			const a = sortValue(x, column);
+			const b = sortValue(y, column);
+			const result = typeof a === 'string' ? a.localeCompare(b as string) : (a as number) - (b as number);
+			return descending ? -result : result;
+		});
+
+		const wrapper = root.createDiv({ attr: { style: 'max-height: 300px; overflow-y: auto; margin-bottom: 20px; border: 1px solid var(--background-modifier-border); border-radius: 4px;' } });
+		const table = wrapper.createEl('table', { attr: { style: 'width: 100%; border-collapse: collapse; font-size: 0.85em;' } });
+		const headerRow = table.createEl('tr');
+		columns.forEach(({ key, label }) => {
+			const arrow = key === column ? (descending ? ' ▾' : ' ▴') : '';
+			const th = headerRow.createEl('th', {
+				text: `${label}${arrow}`,
+				attr: { style: 'position: sticky; top: 0; background: var(--background-secondary); padding: 4px 6px; text-align: left; cursor: pointer; white-space: nowrap;' }
+			});
+			th.addEventListener('click', () => {
+				this.pairSort = key === column
+					? { column, descending: !descending }
+					: { column: key, descending: key !== 'a' && key !== 'b' };
+				this.render();
+			});
+		});
+
+		pairs.forEach(pair => {
+			const row = table.createEl('tr', { attr: { style: 'border-top: 1px solid var(--background-modifier-border);' } });
+			[pair.a, pair.b].forEach(id => {
+				const region = regionsById.get(id)!;
+				const cell = row.createEl('td', { attr: { style: 'padding: 3px 6px;' } });
+				cell.createSpan({ attr: { style: `display: inline-block; width: 8px; height: 8px; margin-right: 6px; background-color: ${region.color}; border-radius: 50%;` } });
+				cell.createSpan({ text: region.name });
+			});
+			row.createEl('td', { text: `${pair.sharedNotes}`, attr: { style: 'padding: 3px 6px;' } });
+			row.createEl('td', { text: pair.jaccard.toFixed(2), attr: { style: 'padding: 3px 6px;' } });
+			row.createEl('td', { text: pair.centroidSimilarity !== null ? pair.centroidSimilarity.toFixed(2) : '–', attr: { style: 'padding: 3px 6px;' } });
+		});
+	}
+
+	private renderBridges(root: HTMLElement, analysis: RegionAnalysis, regions: Region[]) {
+		const regionsById = new Map(regions.map(region => [region.id, region]));
+		root.createEl('h4', { text: 'Bridge Notes', attr: { style: 'margin: 0 0 4px 0;' } });
+		root.createEl('p', {
+			text: 'Notes at least as close to the centres of two or more regions as those regions\' own notes are on average.',
+			attr: { style: 'margin: 0 0 8px 0; font-size: 0.85em; color: var(--text-muted);' }
+		});
+
+		if (analysis.bridges.length === 0) {
+			root.createEl('p', { text: 'No bridge notes found.', attr: { style: 'color: var(--text-muted);' } });
+			return;
+		}
+
+		const list = root.createDiv();
+		analysis.bridges.forEach(bridge => {
+			const item = list.createDiv({ attr: { style: 'padding: 5px 0; border-bottom: 1px solid var(--background-modifier-border);' } });
+			const link = item.createEl('a', { text: bridge.path, attr: { style: 'font-family: monospace; font-size: 0.9em; cursor: pointer;' } });
+			link.addEventListener('click', () => {
+				if (this.app.vault.getAbstractFileByPath(bridge.path) instanceof TFile) {
+					this.app.workspace.openLinkText(bridge.path, '', true);
+				}
+			});
+			const chips = item.createDiv({ attr: { style: 'display: flex; flex-wrap: wrap; gap: 4px; margin-top: 3px;' } });
+			bridge.regions.forEach(near => {
+				const region = regionsById.get(near.id);
+				if (!region) return;
+				chips.createSpan({
+					text: `${region.name} ${near.similarity.toFixed(2)}${near.member ? '' : ' (not a member)'}`,
+					attr: { style: `font-size: 0.8em; padding: 1px 6px; border-radius: 8px; border: 1px solid ${region.color};` }
+				});
+			});
+		});
+	}
+}
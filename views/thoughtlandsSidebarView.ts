@@ -1,5 +1,5 @@
 import { ItemView, WorkspaceLeaf, Notice, Plugin, TFile } from 'obsidian';
-import { Region, getModeDisplayName } from '../models/region';
+import { Region, getModeDisplayName, describeSeedNotes, isCombinedRegion, isMergedRegion, getSetOperationSymbol } from '../models/region';
 import { RegionService } from '../services/regionService';
 import { CreateRegionCommands } from '../commands/createRegionCommands';
 import { RegionInfoModal } from '../ui/regionInfoModal';
@@ -7,7 +7,9 @@ import { CanvasService } from '../services/canvasService';
 import { CanvasSelectModal } from '../ui/canvasSelectModal';
 import { CardInputModal } from '../ui/cardInputModal';
 import { ThoughtlandsSettings } from '../settings/thoughtlandsSettings';
-import { EmbeddingProgress } from '../services/embeddingService';
+import { EmbeddingProgress, EmbeddingModelStatus } from '../services/embeddingService';
+import { EmbeddingJobService } from '../services/embeddingJobService';
+import { isEmbeddingConfigured } from '../services/embeddingProviders';
 
 export const THOUGHTLANDS_VIEW_TYPE = 'thoughtlands-sidebar';
 
@@ -20,7 +22,9 @@ export class ThoughtlandsSidebarView extends ItemView {
 	private onRegionUpdate: () => void;
 	private progressUnsubscribe?: () => void;
 	private regionStatusUnsubscribe?: () => void;
+	private jobStateUnsubscribe?: () => void;
 	private showArchived: boolean = false;
+	private collapsedRegions: Set<string> = new Set(); // Regions whose sub-regions are hidden
 
 	constructor(
 		leaf: WorkspaceLeaf,
@@ -54,7 +58,7 @@ export class ThoughtlandsSidebarView extends ItemView {
 
 	async onOpen() {
 		// Ensure embeddings are loaded before rendering
-		if (this.settings.aiMode === 'local') {
+		if (isEmbeddingConfigured(this.settings)) {
 			const embeddingService = (this.plugin as any).embeddingService;
 				if (embeddingService) {
 				await embeddingService.getStorageService().loadEmbeddings();
@@ -69,6 +73,18 @@ export class ThoughtlandsSidebarView extends ItemView {
 			}
 		}
 		
+		// Re-render when the background embedding job is paused, resumed or finishes
+		if (this.jobStateUnsubscribe) {
+			this.jobStateUnsubscribe();
+			this.jobStateUnsubscribe = undefined;
+		}
+		const embeddingJobService: EmbeddingJobService | undefined = (this.plugin as any).embeddingJobService;
+		if (embeddingJobService) {
+			this.jobStateUnsubscribe = embeddingJobService.onStateChange(() => {
+				this.render();
+			});
+		}
+
 		// Subscribe to region creation status updates
 		if (this.regionStatusUnsubscribe) {
 			this.regionStatusUnsubscribe();
@@ -94,6 +110,10 @@ export class ThoughtlandsSidebarView extends ItemView {
 			this.regionStatusUnsubscribe();
 			this.regionStatusUnsubscribe = undefined;
 		}
+		if (this.jobStateUnsubscribe) {
+			this.jobStateUnsubscribe();
+			this.jobStateUnsubscribe = undefined;
+		}
 	}
 
 	render() {
@@ -134,7 +154,7 @@ export class ThoughtlandsSidebarView extends ItemView {
 		});
 
 		// Embedding status and start button (only show if local mode)
-		if (this.settings.aiMode === 'local') {
+		if (isEmbeddingConfigured(this.settings)) {
 			const embeddingService = (this.plugin as any).embeddingService;
 			// Check embeddings completion and processing status
 			let embeddingsComplete = false;
@@ -163,8 +183,12 @@ export class ThoughtlandsSidebarView extends ItemView {
 				}
 			}
 			
-			// Show the section if embeddings are not complete
-			if (!embeddingsComplete) {
+			// After a model change the previous model keeps serving queries until the new one is built
+			const modelStatus: EmbeddingModelStatus | null = embeddingService && embeddingsComplete ? embeddingService.getModelStatus() : null;
+			const modelChanged = !!modelStatus && (!modelStatus.targetComplete || !!modelStatus.dimensionMismatch);
+
+			// Show the section if embeddings are not complete or are from another model
+			if (!embeddingsComplete || modelChanged) {
 				const embeddingSection = containerEl.createDiv({ 
 					attr: { style: 'padding: 10px; border-bottom: 1px solid var(--background-modifier-border); background-color: var(--background-modifier-form-field-highlighted);' } 
 				});
@@ -205,6 +229,72 @@ export class ThoughtlandsSidebarView extends ItemView {
 							: `Embedding notes: ${currentProgress.completed} / ${currentProgress.total} (${currentProgress.percentage}%)`;
 						progressText.textContent = progressMessage;
 					}
+
+					// Background job controls
+					const jobService: EmbeddingJobService | undefined = (this.plugin as any).embeddingJobService;
+					if (jobService && jobService.isActive()) {
+						const jobState = jobService.getState();
+						if (jobState === 'paused' || jobState === 'waiting-for-idle') {
+							embeddingSection.createEl('p', { 
+								text: jobState === 'paused' ? 'Paused' : 'Waiting until no notes have been edited for 30 seconds',
+								attr: { style: 'margin: 5px 0 0 0; font-size: 0.85em; color: var(--text-muted);' }
+							});
+						}
+
+						const jobControls = embeddingSection.createDiv({ 
+							attr: { style: 'display: flex; gap: 8px; margin-top: 8px;' } 
+						});
+						const pauseButton = jobControls.createEl('button', { 
+							text: jobState === 'paused' ? 'Resume' : 'Pause',
+							attr: { style: 'flex: 1; padding: 4px;' }
+						});
+						pauseButton.addEventListener('click', () => {
+							if (jobService.getState() === 'paused') {
+								jobService.resume();
+							} else {
+								jobService.pause();
+							}
+						});
+						const cancelButton = jobControls.createEl('button', { 
+							text: 'Cancel',
+							attr: { style: 'flex: 1; padding: 4px;' }
+						});
+						cancelButton.addEventListener('click', () => {
+							if (confirm('Cancel generating embeddings? Notes embedded so far are kept.')) {
+								jobService.cancel();
+								new Notice('Embedding process cancelled');
+							}
+						});
+					}
+				} else if (modelStatus && modelChanged) {
+					// Same model, different preprocessing pipeline
+					const pipelineChanged = !modelStatus.dimensionMismatch && modelStatus.servingModel === modelStatus.targetModel;
+					embeddingSection.createEl('h3', { 
+						text: pipelineChanged ? 'Embedding Preprocessing Changed' : 'Embedding Model Changed', 
+						attr: { style: 'margin-top: 0; margin-bottom: 10px; font-size: 1em; color: var(--text-warning);' } 
+					});
+					const message = modelStatus.dimensionMismatch
+						? `Stored embeddings have ${modelStatus.dimensionMismatch.storedDimension} dimensions but "${modelStatus.targetModel}" produces ${modelStatus.dimensionMismatch.queryDimension}, so semantic search can't compare them. Re-embed your notes with the current model.`
+						: pipelineChanged
+							? `Queries are still answered with embeddings preprocessed as "${modelStatus.servingPreprocessing}". Re-embed your notes to switch to "${modelStatus.targetPreprocessing}"; the current embeddings stay in use until it finishes.`
+							: `Queries are still answered with "${modelStatus.servingModel}" embeddings. Re-embed your notes with "${modelStatus.targetModel}" to switch; the current embeddings stay in use until it finishes.`;
+					embeddingSection.createEl('p', { 
+						text: message,
+						attr: { style: 'margin: 0 0 10px 0; font-size: 0.9em; color: var(--text-muted);' }
+					});
+					const reembedButton = embeddingSection.createEl('button', { 
+						text: `Re-embed with ${modelStatus.targetModel}`,
+						attr: { style: 'width: 100%; padding: 6px;' }
+					});
+					reembedButton.addEventListener('click', async () => {
+						try {
+							await (this.plugin as any).generateInitialEmbeddings();
+						} catch (error) {
+							console.error('[Thoughtlands] Error re-embedding notes:', error);
+							new Notice(`Error generating embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+						}
+						this.render();
+					});
 				} else {
 					// Show button when not processing - will be added below options section
 					embeddingSection.createEl('h3', { 
@@ -212,7 +302,7 @@ export class ThoughtlandsSidebarView extends ItemView {
 						attr: { style: 'margin-top: 0; margin-bottom: 10px; font-size: 1em; color: var(--text-warning);' } 
 					});
 					embeddingSection.createEl('p', { 
-						text: 'Because you are using a local model, embeddings must be generated before using AI-assisted region creation. This process analyzes all notes in your vault for semantic similarity.',
+						text: 'Embeddings must be generated before using semantic region creation. This process analyzes all notes in your vault for semantic similarity.',
 						attr: { style: 'margin: 0 0 10px 0; font-size: 0.9em; color: var(--text-muted);' }
 					});
 				}
@@ -246,8 +336,8 @@ export class ThoughtlandsSidebarView extends ItemView {
 			this.render();
 		});
 
-		// Button 2: Create Region from Search Results + AI Analysis (only if local model is active and embeddings are complete)
-		if (this.settings.aiMode === 'local') {
+		// Button 2: Create Region from Search Results + AI Analysis (only if embeddings are configured and complete)
+		if (isEmbeddingConfigured(this.settings)) {
 			// Check if embeddings are complete and not processing
 			const embeddingService2 = (this.plugin as any).embeddingService;
 			let embeddingsComplete2 = false;
@@ -355,7 +445,7 @@ export class ThoughtlandsSidebarView extends ItemView {
 		}
 
 		// Button 4: Create Region from Semantic Similarity Analysis (only if local mode enabled and embeddings are complete)
-		if (this.settings.aiMode === 'local') {
+		if (isEmbeddingConfigured(this.settings)) {
 			// Check if embeddings are complete and not processing
 			const embeddingService3 = (this.plugin as any).embeddingService;
 			let embeddingsComplete3 = false;
@@ -396,11 +486,55 @@ export class ThoughtlandsSidebarView extends ItemView {
 					await this.onRegionUpdate();
 					this.render();
 				});
+
+				const moreLikeThisButton = buttonsContainer.createEl('button', { 
+					attr: { 
+						style: 'flex: 1; min-width: 25%; padding: 8px; display: flex; align-items: center; justify-content: center;',
+						title: 'More Like This Note: Use the embedding of the note you are viewing to find semantically similar notes. To start from several notes, select them in the file explorer and use "More like these notes" from the context menu.'
+					}
+				});
+				moreLikeThisButton.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><circle cx="11.5" cy="14.5" r="2.5"></circle><path d="m13.3 16.3 1.7 1.7"></path></svg>';
+				moreLikeThisButton.addEventListener('click', async () => {
+					const activeFile = this.app.workspace.getActiveFile();
+					if (!activeFile || activeFile.extension !== 'md') {
+						new Notice('Open a note to find notes like it.');
+						return;
+					}
+					await this.createRegionCommands.createRegionFromNotes([activeFile]);
+					await this.onRegionUpdate();
+					this.render();
+				});
+
+				const examplesButton = buttonsContainer.createEl('button', { 
+					attr: { 
+						style: 'flex: 1; min-width: 25%; padding: 8px; display: flex; align-items: center; justify-content: center;',
+						title: 'From Example Notes: Pick notes the region should be like and notes it should be unlike, optionally with concept text. Their embeddings are combined into one query.'
+					}
+				});
+				examplesButton.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="4" width="8" height="16" rx="1"></rect><rect x="13" y="4" width="8" height="16" rx="1"></rect><path d="M5.5 12h3"></path><path d="M7 10.5v3"></path><path d="M15.5 12h3"></path></svg>';
+				examplesButton.addEventListener('click', async () => {
+					await this.createRegionCommands.createRegionFromExemplars();
+					await this.onRegionUpdate();
+					this.render();
+				});
+
+				const discoverButton = buttonsContainer.createEl('button', { 
+					attr: { 
+						style: 'flex: 1; min-width: 25%; padding: 8px; display: flex; align-items: center; justify-content: center;',
+						title: 'Discover Regions: Cluster all embedded notes into proposed regions, named after their distinctive keywords. Review, rename, merge or discard the proposals before any region is created.'
+					}
+				});
+				discoverButton.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="7" cy="7" r="3"></circle><circle cx="17" cy="8" r="2"></circle><circle cx="8" cy="17" r="2"></circle><circle cx="17" cy="17" r="3"></circle></svg>';
+				discoverButton.addEventListener('click', async () => {
+					await this.createRegionCommands.discoverRegions();
+					await this.onRegionUpdate();
+					this.render();
+				});
 			}
 		}
 
 		// Add generate embeddings button below the options (if needed)
-		if (this.settings.aiMode === 'local') {
+		if (isEmbeddingConfigured(this.settings)) {
 			const embeddingService = (this.plugin as any).embeddingService;
 			if (embeddingService) {
 				const isComplete = embeddingService.isEmbeddingProcessComplete();
@@ -470,6 +604,18 @@ export class ThoughtlandsSidebarView extends ItemView {
 			this.render();
 		});
 
+		// How the regions relate to each other
+		const overlapButton = viewToggle.createEl('button', {
+			attr: {
+				style: 'padding: 6px 10px; display: flex; align-items: center; justify-content: center;',
+				title: 'Region Overlap: Compare every pair of regions and find bridge notes'
+			}
+		});
+		overlapButton.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="18" height="18" rx="2"></rect><path d="M3 9h18"></path><path d="M3 15h18"></path><path d="M9 3v18"></path><path d="M15 3v18"></path></svg>';
+		overlapButton.addEventListener('click', () => {
+			(this.plugin as any).activateOverlapView();
+		});
+
 		// Check if region creation is in progress
 		const plugin = this.plugin as any;
 		const creationStatus = plugin.getRegionCreationStatus ? plugin.getRegionCreationStatus() : { isCreating: false };
@@ -571,15 +717,47 @@ export class ThoughtlandsSidebarView extends ItemView {
 			} 
 		});
 
-		regions.forEach(region => {
+		// Sub-regions are listed under their parent; a region whose parent is not in this view is a root
+		const shown = new Set(regions.map(region => region.id));
+		const entries: { region: Region; depth: number; childCount: number }[] = [];
+		const addEntry = (region: Region, depth: number) => {
+			const children = regions.filter(child => child.parentId === region.id);
+			entries.push({ region, depth, childCount: children.length });
+			if (!this.collapsedRegions.has(region.id)) {
+				children.forEach(child => addEntry(child, depth + 1));
+			}
+		};
+		regions
+			.filter(region => !region.parentId || !shown.has(region.parentId))
+			.forEach(region => addEntry(region, 0));
+
+		entries.forEach(({ region, depth, childCount }) => {
 			const regionCard = regionsList.createDiv({
 				attr: {
-					style: 'border: 1px solid var(--background-modifier-border); border-radius: 4px; padding: 10px; margin-bottom: 10px;',
+					style: `border: 1px solid var(--background-modifier-border); border-radius: 4px; padding: 10px; margin-bottom: 10px; margin-left: ${Math.min(depth, 4) * 16}px;${depth > 0 ? ' border-left: 3px solid var(--background-modifier-border-hover);' : ''}`,
 				},
 			});
 
 			// Region header with color indicator
 			const header = regionCard.createDiv({ attr: { style: 'display: flex; align-items: center; margin-bottom: 8px;' } });
+			if (childCount > 0) {
+				const collapsed = this.collapsedRegions.has(region.id);
+				const toggle = header.createEl('span', {
+					text: collapsed ? '▸' : '▾',
+					attr: {
+						style: 'cursor: pointer; width: 14px; margin-right: 4px; color: var(--text-muted);',
+						title: collapsed ? `Show ${childCount} sub-region${childCount !== 1 ? 's' : ''}` : 'Hide sub-regions'
+					}
+				});
+				toggle.addEventListener('click', () => {
+					if (collapsed) {
+						this.collapsedRegions.delete(region.id);
+					} else {
+						this.collapsedRegions.add(region.id);
+					}
+					this.render();
+				});
+			}
 			const colorIndicator = header.createDiv({
 				attr: {
 					style: `width: 16px; height: 16px; background-color: ${region.color}; border-radius: 50%; margin-right: 8px;`,
@@ -591,9 +769,9 @@ export class ThoughtlandsSidebarView extends ItemView {
 			const info = regionCard.createDiv({ attr: { style: 'font-size: 0.8em; color: var(--text-muted); margin-bottom: 8px;' } });
 			info.createEl('span', { text: `${getModeDisplayName(region.mode, region)} • ` });
 			
-			// Show semantic similarity mode if it exists (only for local model regions with semantic similarity)
+			// Show semantic similarity mode if it exists
 			const semanticMode = region.source.processingInfo?.semanticSimilarityMode;
-			if (semanticMode && region.source.aiMode === 'local') {
+			if (semanticMode) {
 				const modeDisplayNames: Record<string, string> = {
 					'walkabout': 'Walkabout',
 					'hopscotch': 'Hopscotch',
@@ -605,6 +783,49 @@ export class ThoughtlandsSidebarView extends ItemView {
 			}
 			
 			info.createEl('span', { text: `${region.notes.length} notes` });
+			if (childCount > 0) {
+				info.createEl('span', { text: ` • ${childCount} sub-region${childCount !== 1 ? 's' : ''}` });
+			}
+			if (region.live?.enabled) {
+				info.createEl('span', { 
+					text: ' • Live',
+					attr: { title: 'Living region: new and modified notes are re-scored against this region' }
+				});
+			}
+
+			// Pending membership changes found by re-scoring notes (living regions)
+			const pendingChanges = this.regionService.getPendingLiveChanges(region);
+			if (pendingChanges.length > 0) {
+				const additions = pendingChanges.filter(change => change.change === 'add');
+				const removals = pendingChanges.filter(change => change.change === 'remove');
+				const parts: string[] = [];
+				if (additions.length > 0) {
+					parts.push(`${additions.length} new note${additions.length !== 1 ? 's' : ''}`);
+				}
+				if (removals.length > 0) {
+					parts.push(`${removals.length} no longer matching`);
+				}
+
+				const badge = regionCard.createDiv({ 
+					attr: { 
+						style: 'display: flex; align-items: center; gap: 6px; flex-wrap: wrap; margin-bottom: 8px; padding: 6px 8px; background: var(--background-modifier-hover); border-left: 3px solid var(--interactive-accent); border-radius: 4px; font-size: 0.85em;',
+						title: pendingChanges.map(change => `${change.change === 'add' ? '+' : '−'} ${change.path}`).join('\n')
+					} 
+				});
+				badge.createEl('span', { text: parts.join(', '), attr: { style: 'flex: 1; font-weight: 500;' } });
+
+				const acceptButton = badge.createEl('button', { 
+					text: 'Accept',
+					attr: { style: 'padding: 2px 8px; font-size: 0.9em;' }
+				});
+				acceptButton.addEventListener('click', () => this.resolveLiveChanges(region, true));
+
+				const dismissButton = badge.createEl('button', { 
+					text: 'Dismiss',
+					attr: { style: 'padding: 2px 8px; font-size: 0.9em;' }
+				});
+				dismissButton.addEventListener('click', () => this.resolveLiveChanges(region, false));
+			}
 
 			// Action buttons
 			const actions = regionCard.createDiv({ attr: { style: 'display: flex; gap: 5px; margin-top: 8px; flex-wrap: wrap;' } });
@@ -636,6 +857,48 @@ export class ThoughtlandsSidebarView extends ItemView {
 				}
 			});
 
+			// Combine button: start a set operation with this region as the first operand
+			if (!this.showArchived) {
+				const combineButton = actions.createEl('button', { 
+					attr: { 
+						style: 'padding: 6px 10px; display: flex; align-items: center; justify-content: center;',
+						title: 'Combine: Create a region from this and other regions (union, intersection, difference)'
+					}
+				});
+				combineButton.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="9" cy="12" r="6"></circle><circle cx="15" cy="12" r="6"></circle></svg>';
+				combineButton.addEventListener('click', async () => {
+					await this.createRegionCommands.createCombinedRegion([region.id]);
+					this.render();
+				});
+
+				// Split needs embeddings and enough notes for two sub-regions
+				if (isEmbeddingConfigured(this.settings) && region.notes.length >= 2 * Math.max(2, this.settings.discoveryMinClusterSize)) {
+					const splitButton = actions.createEl('button', { 
+						attr: { 
+							style: 'padding: 6px 10px; display: flex; align-items: center; justify-content: center;',
+							title: 'Split: Cluster this region\'s notes into sub-regions'
+						}
+					});
+					splitButton.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="5" r="3"></circle><circle cx="5" cy="19" r="3"></circle><circle cx="19" cy="19" r="3"></circle><path d="M10.5 7.5 6.5 16.5"></path><path d="m13.5 7.5 4 9"></path></svg>';
+					splitButton.addEventListener('click', async () => {
+						await this.createRegionCommands.splitRegion(region);
+						this.render();
+					});
+				}
+
+				const mergeButton = actions.createEl('button', { 
+					attr: { 
+						style: 'padding: 6px 10px; display: flex; align-items: center; justify-content: center;',
+						title: 'Merge: Merge this region with other regions into one'
+					}
+				});
+				mergeButton.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="5" cy="5" r="3"></circle><circle cx="19" cy="5" r="3"></circle><circle cx="12" cy="19" r="3"></circle><path d="m6.5 7.5 4 9"></path><path d="m17.5 7.5-4 9"></path></svg>';
+				mergeButton.addEventListener('click', async () => {
+					await this.createRegionCommands.mergeRegions([region.id]);
+					this.render();
+				});
+			}
+
 			// Archive/Unarchive button
 			if (this.showArchived) {
 				const unarchiveButton = actions.createEl('button', { 
@@ -690,6 +953,17 @@ export class ThoughtlandsSidebarView extends ItemView {
 		}
 	}
 
+	private resolveLiveChanges(region: Region, accept: boolean) {
+		const resolved = this.regionService.resolveLiveChanges(region.id, accept);
+		if (resolved.length === 0) return;
+
+		if (accept) {
+			new Notice(`Updated region "${region.name}" with ${resolved.length} change${resolved.length !== 1 ? 's' : ''}`);
+		}
+		this.onRegionUpdate();
+		this.render();
+	}
+
 	private async archiveRegion(region: Region) {
 		if (confirm(`Archive region "${region.name}"?`)) {
 			this.regionService.archiveRegion(region.id);
@@ -705,7 +979,17 @@ export class ThoughtlandsSidebarView extends ItemView {
 	}
 
 	private async deleteRegion(region: Region) {
-		if (confirm(`Delete region "${region.name}"?`)) {
+		const dependents = this.regionService.getCombinedRegionsUsing(region.id);
+		const dependentsNote = dependents.length > 0
+			? `\n\nThese combined regions are built from it and will no longer be recomputed: ${dependents.map(dependent => dependent.name).join(', ')}`
+			: '';
+		const children = this.regionService.getChildRegions(region.id);
+		const childrenNote = children.length > 0
+			? `\n\nIts ${children.length} sub-region${children.length !== 1 ? 's' : ''} will move up a level.`
+			: '';
+		if (confirm(`Delete region "${region.name}"?${dependentsNote}${childrenNote}`)) {
+			// Sub-regions move up to the deleted region's parent
+			children.forEach(child => this.regionService.setParentRegion(child.id, region.parentId ?? null));
 			this.regionService.deleteRegion(region.id);
 			this.onRegionUpdate();
 			this.render();
@@ -723,6 +1007,16 @@ export class ThoughtlandsSidebarView extends ItemView {
 			defaultText = region.source.concepts.join(', ');
 		} else if (region.source.processingInfo?.conceptText) {
 			defaultText = region.source.processingInfo.conceptText;
+		} else if (region.source.seedNotes && region.source.seedNotes.length > 0) {
+			defaultText = `More like: ${describeSeedNotes(region.source.seedNotes)}`;
+		} else if (region.source.processingInfo?.discovery) {
+			defaultText = region.source.processingInfo.discovery.keywords.join(', ');
+		} else if (isMergedRegion(region)) {
+			defaultText = region.source.mergedRegions!.map(merged => merged.name).join(' & ');
+		} else if (isCombinedRegion(region)) {
+			defaultText = region.source.operandIds!
+				.map(id => this.regionService.getRegion(id)?.name || '(deleted region)')
+				.join(` ${getSetOperationSymbol(region.source.operation!)} `);
 		}
 		
 		// Get default colors from settings, with Obsidian canvas palette colors as fallback
@@ -862,7 +1156,8 @@ export class ThoughtlandsSidebarView extends ItemView {
 				this.render();
 			},
 			this.createRegionCommands,
-			this.settings
+			this.settings,
+			(this.plugin as any).regionAnalysisService
 		);
 		modal.open();
 	}